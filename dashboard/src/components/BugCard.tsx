@@ -44,6 +44,17 @@ export default function BugCard({ bug }: { bug: Bug }) {
           <p className="text-xs text-gray-300">{bug.rootCause}</p>
         </div>
       )}
+
+      {bug.serverLogs && bug.serverLogs.length > 0 && (
+        <div>
+          <p className="text-xs text-gray-400 mb-0.5 font-medium">Server Logs</p>
+          <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded bg-gray-800/60 px-2 py-1.5 text-xs text-gray-400">
+            {bug.serverLogs
+              .map((e) => `${e.level.toUpperCase()} [${e.source}] ${e.message}`)
+              .join('\n')}
+          </pre>
+        </div>
+      )}
     </div>
   );
 }
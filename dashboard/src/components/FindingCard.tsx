@@ -5,6 +5,7 @@ const categoryColors: Record<string, string> = {
   performance: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
   accessibility: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
   security: 'bg-red-500/20 text-red-400 border-red-500/30',
+  api: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
   suggestion: 'bg-green-500/20 text-green-400 border-green-500/30',
   observation: 'bg-gray-500/20 text-gray-400 border-gray-500/30',
 };
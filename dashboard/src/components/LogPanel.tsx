@@ -0,0 +1,95 @@
+import { useMemo, useState } from 'react';
+import type { LogEntry, SessionStep } from '../lib/api';
+
+const LEVELS = ['debug', 'info', 'warn', 'error', 'fatal'];
+
+const levelColors: Record<string, string> = {
+  debug: 'text-gray-600',
+  info: 'text-gray-400',
+  warn: 'text-yellow-400',
+  error: 'text-red-400',
+  fatal: 'text-red-500',
+};
+
+interface Props {
+  steps: SessionStep[];
+  entries: LogEntry[];
+}
+
+/**
+ * Server log entries grouped under the step that was running when they were
+ * written, numbered like the step timeline. A step's group runs until the
+ * next step starts.
+ */
+export default function LogPanel({ steps, entries }: Props) {
+  const [minLevel, setMinLevel] = useState('info');
+
+  const groups = useMemo(() => {
+    const min = LEVELS.indexOf(minLevel);
+    const visible = entries.filter((e) => LEVELS.indexOf(e.level) >= min);
+    // Index -1 collects entries written before the first step
+    const byStep = new Map<number, LogEntry[]>();
+    let i = -1;
+    for (const entry of visible) {
+      while (i + 1 < steps.length && steps[i + 1].action.timestamp <= entry.timestamp) i++;
+      const group = byStep.get(i);
+      if (group) group.push(entry);
+      else byStep.set(i, [entry]);
+    }
+    return [...byStep.entries()];
+  }, [steps, entries, minLevel]);
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No server logs archived for this session. Configure <code>logs</code> sources to collect
+        them.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <label className="flex items-center gap-2 text-xs text-gray-500">
+        Minimum level
+        <select
+          value={minLevel}
+          onChange={(e) => setMinLevel(e.target.value)}
+          className="rounded border border-gray-800 bg-gray-900 px-2 py-1 text-gray-300"
+        >
+          {LEVELS.map((l) => (
+            <option key={l} value={l}>
+              {l}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {groups.length === 0 && <p className="text-sm text-gray-500">No entries at this level.</p>}
+
+      {groups.map(([index, group]) => {
+        const step = steps[index];
+        return (
+          <div key={index} className="rounded-lg border border-gray-800 bg-gray-900">
+            <div className="flex items-center gap-3 border-b border-gray-800 px-3 py-1.5 text-xs">
+              <span className="text-gray-500">{step ? index + 1 : '–'}</span>
+              <span className="font-mono text-gray-200">
+                {step ? step.action.type : 'Before the first step'}
+              </span>
+              {step && <span className="truncate text-gray-500">{step.metadata.url}</span>}
+              <span className="ml-auto text-gray-600">{group.length}</span>
+            </div>
+            <pre className="max-h-64 overflow-auto whitespace-pre-wrap px-3 py-2 text-xs">
+              {group.map((e, j) => (
+                <div key={j} className={levelColors[e.level] ?? 'text-gray-400'}>
+                  {new Date(e.timestamp).toLocaleTimeString()} {e.level.toUpperCase()} [{e.source}]{' '}
+                  {e.message}
+                </div>
+              ))}
+            </pre>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,15 +1,22 @@
 import { useState, useEffect, useRef } from 'react';
-import { screenshotUrl } from '../lib/api';
+import { screenshotUrl, visualImageUrl } from '../lib/api';
+import type { VisualComparison } from '../lib/api';
+
+type ImageKind = 'actual' | 'baseline' | 'diff';
 
 interface Props {
   sessionId: string;
   stepId: string;
+  visual?: VisualComparison;
 }
 
-export default function ScreenshotViewer({ sessionId, stepId }: Props) {
+export default function ScreenshotViewer({ sessionId, stepId, visual }: Props) {
   const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<ImageKind>('actual');
   const closeRef = useRef<HTMLButtonElement>(null);
-  const url = screenshotUrl(sessionId, stepId);
+  const hasDiff = !!visual && visual.status !== 'new' && visual.diffPixels > 0;
+  const url =
+    kind === 'actual' ? screenshotUrl(sessionId, stepId) : visualImageUrl(sessionId, stepId, kind);
 
   // Focus trap + escape handler
   useEffect(() => {
@@ -41,10 +48,13 @@ export default function ScreenshotViewer({ sessionId, stepId }: Props) {
   return (
     <>
       <button
-        onClick={() => setOpen(true)}
+        onClick={() => {
+          setKind(visual?.status === 'mismatch' ? 'diff' : 'actual');
+          setOpen(true);
+        }}
         className="text-xs text-orange-400 underline hover:text-orange-300"
       >
-        View
+        {visual?.status === 'mismatch' ? 'View diff' : 'View'}
       </button>
 
       {open && (
@@ -74,9 +84,31 @@ export default function ScreenshotViewer({ sessionId, stepId }: Props) {
                 />
               </svg>
             </button>
+            {hasDiff && (
+              <div className="mb-2 flex items-center gap-1.5" role="tablist">
+                {(['actual', 'baseline', 'diff'] as const).map((k) => (
+                  <button
+                    key={k}
+                    role="tab"
+                    aria-selected={kind === k}
+                    onClick={() => setKind(k)}
+                    className={`rounded px-2 py-0.5 text-xs capitalize transition-colors ${
+                      kind === k
+                        ? 'bg-orange-500/20 text-orange-300'
+                        : 'bg-gray-800 text-gray-400 hover:text-gray-200'
+                    }`}
+                  >
+                    {k}
+                  </button>
+                ))}
+                <span className="ml-2 text-xs text-gray-500">
+                  {(visual.diffRatio * 100).toFixed(3)}% changed
+                </span>
+              </div>
+            )}
             <img
               src={url}
-              alt={`Screenshot for step ${stepId}`}
+              alt={`${kind === 'actual' ? 'Screenshot' : `Visual ${kind}`} for step ${stepId}`}
               className="rounded-lg border border-gray-700"
             />
           </div>
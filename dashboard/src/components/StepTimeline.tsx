@@ -136,9 +136,26 @@ export default function StepTimeline({ steps, sessionId }: Props) {
                       </span>
                     </Tooltip>
                   )}
+                  {step.metadata.serverErrors && step.metadata.serverErrors.length > 0 && (
+                    <Tooltip
+                      content={step.metadata.serverErrors
+                        .map((e) => `${e.level.toUpperCase()} [${e.source}] ${e.message}`)
+                        .join('\n')}
+                    >
+                      <span className="block cursor-help text-orange-400">
+                        {step.metadata.serverErrors.length} server error
+                        {step.metadata.serverErrors.length === 1 ? '' : 's'}
+                      </span>
+                    </Tooltip>
+                  )}
+                  {step.visual?.status === 'mismatch' && (
+                    <span className="text-amber-400">
+                      Visual diff {(step.visual.diffRatio * 100).toFixed(2)}%
+                    </span>
+                  )}
                 </td>
                 <td className="py-2 text-center">
-                  <ScreenshotViewer sessionId={sessionId} stepId={step.id} />
+                  <ScreenshotViewer sessionId={sessionId} stepId={step.id} visual={step.visual} />
                 </td>
               </tr>
             ))}
@@ -1,5 +1,5 @@
 import { useQuery } from '@tanstack/react-query';
-import { fetchSession } from '../lib/api';
+import { fetchSession, fetchSessionArtifacts, fetchSessionLogs } from '../lib/api';
 
 export function useSession(id: string | undefined) {
   return useQuery({
@@ -8,3 +8,19 @@ export function useSession(id: string | undefined) {
     enabled: !!id,
   });
 }
+
+export function useSessionArtifacts(id: string | undefined) {
+  return useQuery({
+    queryKey: ['session', id, 'artifacts'],
+    queryFn: () => fetchSessionArtifacts(id ?? ''),
+    enabled: !!id,
+  });
+}
+
+export function useSessionLogs(id: string | undefined) {
+  return useQuery({
+    queryKey: ['session', id, 'logs'],
+    queryFn: () => fetchSessionLogs(id ?? ''),
+    enabled: !!id,
+  });
+}
@@ -14,10 +14,39 @@ export interface SessionListItem {
 export interface SessionStep {
   id: string;
   contextId?: string;
-  action: { type: string; [key: string]: unknown };
-  metadata: { url: string; consoleErrors: string[]; networkErrors: string[] };
+  action: { type: string; timestamp: number; [key: string]: unknown };
+  metadata: {
+    url: string;
+    consoleErrors: string[];
+    networkErrors: string[];
+    serverErrors?: LogEntry[];
+  };
   duration: number;
   error?: string;
+  visual?: VisualComparison;
+}
+
+export interface LogEntry {
+  source: string;
+  level: string;
+  message: string;
+  timestamp: number;
+}
+
+export interface LogAlert {
+  rule: string;
+  source: string;
+  entries: LogEntry[];
+  timestamp: number;
+}
+
+export interface VisualComparison {
+  key: string;
+  status: 'new' | 'match' | 'mismatch';
+  diffPixels: number;
+  diffRatio: number;
+  maxDiffRatio: number;
+  sizeChanged?: boolean;
 }
 
 export interface Bug {
@@ -31,6 +60,7 @@ export interface Bug {
   rootCause?: string;
   evidenceStepIds: string[];
   url?: string;
+  serverLogs?: LogEntry[];
   timestamp: number;
 }
 
@@ -70,6 +100,13 @@ export interface SessionDetail {
   summary?: SessionSummary;
 }
 
+export interface SessionArtifactFile {
+  file: string;
+  type: 'trace' | 'har';
+  size: number;
+  url: string;
+}
+
 export interface LiveSessionData {
   session: { id: string; startTime: number; steps: SessionStep[] };
   bugs: Bug[];
@@ -89,6 +126,18 @@ export async function fetchSession(id: string): Promise<SessionDetail> {
   return res.json();
 }
 
+export async function fetchSessionArtifacts(id: string): Promise<SessionArtifactFile[]> {
+  const res = await fetch(`${BASE}/sessions/${id}/artifacts`);
+  if (!res.ok) throw new Error('Failed to fetch session artifacts');
+  return res.json();
+}
+
+export async function fetchSessionLogs(id: string): Promise<LogEntry[]> {
+  const res = await fetch(`${BASE}/sessions/${id}/logs`);
+  if (!res.ok) throw new Error('Failed to fetch session logs');
+  return res.json();
+}
+
 export async function fetchLiveSession(): Promise<LiveSessionData> {
   const res = await fetch(`${BASE}/live/session`);
   if (!res.ok) throw new Error('No active session');
@@ -99,6 +148,14 @@ export function screenshotUrl(sessionId: string, stepId: string): string {
   return `${BASE}/sessions/${sessionId}/steps/${stepId}/screenshot`;
 }
 
+export function visualImageUrl(
+  sessionId: string,
+  stepId: string,
+  kind: 'baseline' | 'diff',
+): string {
+  return `${BASE}/sessions/${sessionId}/steps/${stepId}/visual/${kind}`;
+}
+
 // ── History / Learning Types ─────────────────────────────────────────────────
 
 export interface SessionHistoryEntry {
@@ -1,6 +1,6 @@
 import { useState, useCallback } from 'react';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
-import { fetchLiveSession } from '../lib/api';
+import { fetchLiveSession, type LogAlert } from '../lib/api';
 import { useWebSocket, type WsMessage } from '../hooks/useWebSocket';
 import StepTimeline from '../components/StepTimeline';
 import BugCard from '../components/BugCard';
@@ -10,6 +10,7 @@ import EmptyState from '../components/EmptyState';
 export default function LiveView() {
   const queryClient = useQueryClient();
   const [, setWsConnected] = useState(false);
+  const [alerts, setAlerts] = useState<LogAlert[]>([]);
 
   const { data, isLoading, error } = useQuery({
     queryKey: ['live-session'],
@@ -25,6 +26,10 @@ export default function LiveView() {
         msg.type === 'finding:created'
       ) {
         queryClient.invalidateQueries({ queryKey: ['live-session'] });
+      } else if (msg.type === 'log:alert') {
+        setAlerts((prev) => [...prev.slice(-4), msg.data as LogAlert]);
+      } else if (msg.type === 'session:start') {
+        setAlerts([]);
       }
     },
     [queryClient],
@@ -108,6 +113,33 @@ export default function LiveView() {
         </div>
       )}
 
+      {alerts.length > 0 && (
+        <div className="mb-6">
+          <h2 className="mb-2 text-sm font-medium text-gray-400">Server Alerts</h2>
+          <div className="space-y-2">
+            {alerts
+              .slice()
+              .reverse()
+              .map((a) => (
+                <div
+                  key={`${a.timestamp}-${a.source}-${a.rule}`}
+                  className="rounded-lg border border-orange-500/30 bg-orange-500/5 p-3"
+                >
+                  <p className="mb-1 text-xs text-orange-400">
+                    <span className="font-mono">{a.source}</span> · {a.rule} ·{' '}
+                    {new Date(a.timestamp).toLocaleTimeString()}
+                  </p>
+                  <pre className="max-h-24 overflow-auto whitespace-pre-wrap text-xs text-gray-400">
+                    {a.entries
+                      .map((e) => `${e.level.toUpperCase()} ${e.message.split('\n')[0]}`)
+                      .join('\n')}
+                  </pre>
+                </div>
+              ))}
+          </div>
+        </div>
+      )}
+
       {bugs.length > 0 && (
         <div className="mb-6">
           <h2 className="mb-2 text-sm font-medium text-gray-400">Recent Bugs</h2>
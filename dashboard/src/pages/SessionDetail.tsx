@@ -1,26 +1,30 @@
 import { useState, useRef, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
-import { useSession } from '../hooks/useSession';
+import { useSession, useSessionArtifacts, useSessionLogs } from '../hooks/useSession';
 import StepTimeline from '../components/StepTimeline';
 import BugCard from '../components/BugCard';
 import FindingCard from '../components/FindingCard';
+import LogPanel from '../components/LogPanel';
 import Breadcrumbs from '../components/Breadcrumbs';
 import Tooltip from '../components/Tooltip';
 import { SkeletonCard } from '../components/Skeleton';
 import ErrorState from '../components/ErrorState';
 import { GLOSSARY } from '../components/Glossary';
 
-type Tab = 'timeline' | 'bugs' | 'findings';
+type Tab = 'timeline' | 'logs' | 'bugs' | 'findings';
 
 export default function SessionDetail() {
   const { id } = useParams<{ id: string }>();
   const { data: session, isLoading, error, refetch } = useSession(id);
+  const { data: artifacts } = useSessionArtifacts(id);
+  const { data: logs } = useSessionLogs(id);
   const [tab, setTab] = useState<Tab>('timeline');
   const tabRefs = useRef<Map<Tab, HTMLButtonElement>>(new Map());
 
   // Arrow key navigation for tabs
   const tabs: { key: Tab; label: string; count?: number }[] = [
     { key: 'timeline', label: 'Timeline', count: session?.steps.length },
+    { key: 'logs', label: 'Logs', count: logs?.length ?? 0 },
     { key: 'bugs', label: 'Bugs', count: session?.bugs?.length ?? 0 },
     { key: 'findings', label: 'Findings', count: session?.findings?.length ?? 0 },
   ];
@@ -97,6 +101,23 @@ export default function SessionDetail() {
         </div>
       )}
 
+      {artifacts && artifacts.length > 0 && (
+        <div className="mb-6 flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-xs text-gray-500">Recordings</span>
+          {artifacts.map((a) => (
+            <a
+              key={a.file}
+              href={a.url}
+              download
+              className="rounded border border-gray-800 bg-gray-900 px-2 py-1 font-mono text-xs text-gray-300 hover:border-orange-400 hover:text-orange-400"
+            >
+              {a.file}
+              <span className="ml-1.5 text-gray-600">({(a.size / 1024).toFixed(0)} KB)</span>
+            </a>
+          ))}
+        </div>
+      )}
+
       <div className="mb-4 border-b border-gray-800" role="tablist" aria-label="Session details">
         <div className="flex gap-1">
           {tabs.map((t, i) => (
@@ -129,6 +150,8 @@ export default function SessionDetail() {
       <div id={`panel-${tab}`} role="tabpanel" aria-labelledby={`tab-${tab}`}>
         {tab === 'timeline' && <StepTimeline steps={session.steps} sessionId={session.id} />}
 
+        {tab === 'logs' && <LogPanel steps={session.steps} entries={logs ?? []} />}
+
         {tab === 'bugs' && (
           <div className="space-y-3">
             {(session.bugs ?? []).length === 0 ? (
@@ -15,7 +15,9 @@ export default defineConfig({
   session: {
     outputDir: '.f4tl/sessions',
     maxSteps: 1000, // safety limit per session
-    keepArtifacts: true, // persist screenshots + session.json
+    keepArtifacts: true, // persist screenshots, session.json and logs.jsonl
+    trace: false, // Playwright trace zip per context (npx playwright show-trace)
+    har: false, // HAR file per context
   },
 
   // ── Screenshots ───────────────────────────────────────────────────────────
@@ -46,6 +48,65 @@ export default defineConfig({
     outputDir: '.f4tl/reports',
   },
 
+  // ── Visual Regression ─────────────────────────────────────────────────────
+  // Baselines are keyed by URL + viewport + context. Commit baselineDir to
+  // share baselines across machines (f4tl clean --all removes .f4tl).
+  visual: {
+    baselineDir: '.f4tl/baselines',
+    threshold: 0.1, // per-pixel color tolerance
+    maxDiffRatio: 0.001, // fraction of pixels allowed to differ
+  },
+
+  // ── Performance ───────────────────────────────────────────────────────────
+  // Budgets are per-path (`*` wildcard); times in ms, CLS unitless. Steps that
+  // exceed one get a "performance" finding with the step as evidence.
+  perf: {
+    collectOnSteps: false, // attach Web Vitals to every step, not just perf_measure
+    budgets: [
+      { path: '*', lcp: 2500, cls: 0.1, inp: 200 },
+      { path: '/checkout', lcp: 2000, transferKb: 1500 },
+    ],
+  },
+
+  // ── Network ───────────────────────────────────────────────────────────────
+  // network_record writes <fixtureDir>/<name>.har; network_replay serves it back.
+  network: {
+    fixtureDir: '.f4tl/fixtures',
+    // Response bodies shown and searched by network_get_requests
+    // bodies: {
+    //   capture: true,
+    //   contentTypes: ['json', 'text/plain', 'text/html', 'xml', 'graphql', 'x-www-form-urlencoded'],
+    //   maxSize: 100_000, // bytes per body; longer ones are truncated
+    //   maxTotalSize: 20_000_000, // per context; the oldest bodies are dropped first
+    // },
+    // Tag requests with an ID your backend logs, so step_logs and bug reports
+    // can show the server log lines for each step
+    // correlation: {
+    //   enabled: true,
+    //   format: 'traceparent', // or 'uuid' (one x-request-id per request)
+    //   urlPattern: '^https://api\\.myapp\\.test/', // default: the page's own origin
+    // },
+  },
+
+  // ── Sensitive Data ────────────────────────────────────────────────────────
+  // Response bodies, request URLs, console errors and log lines are scanned
+  // for these; hits become security findings and are masked when stored.
+  // sensitiveData: {
+  //   redact: true,
+  //   builtins: ['email', 'card', 'jwt', 'apiKey'],
+  //   patterns: [{ name: 'customerId', pattern: 'CUST-\\d{8}', severity: 'high' }],
+  //   allow: ['@example\\.com$'], // seeded test accounts
+  // },
+
+  // ── CI ────────────────────────────────────────────────────────────────────
+  // Used by `f4tl ci`. Exit code is 1 when a bug is at or above failOn or a journey fails.
+  ci: {
+    failOn: 'major', // critical | major | minor | cosmetic | never
+    // failOnJourneys: false, // gate on bug severity only
+    formats: ['markdown', 'json', 'html', 'junit', 'sarif'],
+    // summaryPath: 'qa-summary.md', // also appended to $GITHUB_STEP_SUMMARY when set
+  },
+
   // ── Dashboard ─────────────────────────────────────────────────────────────
   dashboard: {
     port: 4173,
@@ -57,6 +118,13 @@ export default defineConfig({
     name: 'f4tl',
     version: '0.1.0',
     logLevel: 'info', // debug | info | warn | error
+    // Used by `f4tl serve --http` to share one instance between several clients:
+    // http: {
+    //   port: 3100,
+    //   host: '0.0.0.0',
+    //   path: '/mcp',
+    //   tokenEnv: 'F4TL_MCP_TOKEN', // require "Authorization: Bearer <token>"
+    // },
   },
 
   // ── Auth (optional) ───────────────────────────────────────────────────────
@@ -72,6 +140,41 @@ export default defineConfig({
   //       submitSelector: 'button[type="submit"]',
   //       usernameEnv: 'ADMIN_EMAIL',
   //       passwordEnv: 'ADMIN_PASSWORD',
+  //       // Second factor after the password step:
+  //       mfa: {
+  //         type: 'totp', // or 'log' with logSource: 'backend' (code printed by a dev mailer)
+  //         codeSelector: '#otp',
+  //         submitSelector: 'button[type="submit"]',
+  //         secretEnv: 'ADMIN_TOTP_SECRET', // base32 secret or otpauth:// URI
+  //       },
+  //     },
+  //   },
+  //   customer: {
+  //     strategy: 'oauth',
+  //     oauth: {
+  //       provider: 'okta',
+  //       authUrl: 'https://idp.example.com/oauth2/v1/authorize',
+  //       clientIdEnv: 'OKTA_CLIENT_ID',
+  //       callbackUrl: 'http://localhost:3000/auth/callback',
+  //       scope: 'openid profile email',
+  //       login: {
+  //         usernameSelector: '#identifier',
+  //         passwordSelector: '#password',
+  //         submitSelector: 'button[type="submit"]',
+  //         usernameEnv: 'CUSTOMER_EMAIL',
+  //         passwordEnv: 'CUSTOMER_PASSWORD',
+  //       },
+  //       consentSelector: 'button#allow', // clicked only if the IdP asks
+  //       // Let f4tl redeem the code (with PKCE) instead of the app's callback:
+  //       // tokenUrl: 'https://idp.example.com/oauth2/v1/token',
+  //       // pkce: true,
+  //       // tokenStorage: { storageKey: 'access_token', storageType: 'localStorage' },
+  //     },
+  //     // Reuse .f4tl/auth/customer.json for an hour while the probe still sees the
+  //     // user logged in (OAuth roles cache by default; add to any role to opt in)
+  //     cache: {
+  //       ttl: 3600,
+  //       probe: { url: 'http://localhost:3000/account', selector: '[data-testid=avatar]' },
   //     },
   //   },
   //   viewer: {
@@ -83,15 +186,68 @@ export default defineConfig({
   //   },
   // },
 
+  // ── App Profile (optional) ────────────────────────────────────────────────
+  // Pages to cover. `allow` lists the roles (plus 'anonymous') that should reach
+  // a page; `access_matrix` files a security bug when any other role gets in.
+  // Without `allow`, only the `auth` role is expected, or everyone if neither is set.
+  //
+  // app: {
+  //   name: 'Acme Store',
+  //   baseUrl: 'http://localhost:3000',
+  //   pages: [
+  //     { path: '/', priority: 'high' },
+  //     { path: '/account', allow: ['admin', 'customer', 'viewer'] },
+  //     { path: '/admin/users', auth: 'admin', priority: 'high' },
+  //   ],
+  // },
+
+  // ── API Contract (optional) ───────────────────────────────────────────────
+  // XHR/fetch traffic is checked against this OpenAPI 3 spec (JSON) after every
+  // step; violations become "api" findings. `api_validate` checks on demand.
+  //
+  // api: {
+  //   spec: './openapi.yaml', // JSON or YAML
+  //   basePath: '/api/v1', // default: the path of servers[0].url
+  //   validateRequests: true,
+  //   autoValidate: true,
+  // },
+
   // ── Logs (optional) ───────────────────────────────────────────────────────
-  // Named log sources — process (tail a running command) or file (tail a log file).
+  // Named log sources — process (tail a running command), file (tail a log
+  // file), docker (follow a container or compose service, reconnecting when it
+  // restarts) or journald (follow a systemd unit).
   //
   // logs: {
   //   backend: {
+  //     type: 'docker',
+  //     service: 'api', // docker compose service; or container: 'my-api'
+  //     // composeFile: 'docker-compose.dev.yml',
+  //     parser: 'pino', // plain | json | clf | logfmt | regex | pino | bunyan | winston | custom
+  //     // multiline: false, // stack traces are folded into one entry by default
+  //     // Alerts on the next step and in the tool result (default: level >= error)
+  //     watch: [
+  //       { level: 'error' },
+  //       { name: 'db trouble', pattern: 'ECONNREFUSED|deadlock', count: 3, windowMs: 10_000 },
+  //     ],
+  //   },
+  //   legacy: {
+  //     type: 'file',
+  //     path: './logs/legacy.log',
+  //     parser: 'regex',
+  //     pattern: '^(?<timestamp>\\S+ \\S+) \\[(?<level>\\w+)\\] (?<message>.*)$',
+  //   },
+  //   payments: {
   //     type: 'process',
-  //     command: 'docker',
-  //     args: ['logs', '-f', 'my-api'],
-  //     parser: 'json', // json (pino/winston) | clf | plain
+  //     command: 'node',
+  //     args: ['payments/server.js'],
+  //     parser: 'custom',
+  //     // Default export: (source, line) => LogEntry | null
+  //     parserModule: './scripts/payments-log-parser.mjs',
+  //   },
+  //   worker: {
+  //     type: 'journald',
+  //     unit: 'worker.service',
+  //     // user: true, // journalctl --user
   //   },
   //   nginx: {
   //     type: 'file',
@@ -101,7 +257,7 @@ export default defineConfig({
   // },
 
   // ── Database (optional) ───────────────────────────────────────────────────
-  // Read-only SQL queries only. PostgreSQL supported.
+  // Read-only SQL queries only. PostgreSQL, MySQL, and SQLite supported.
   //
   // database: {
   //   type: 'postgres',
@@ -116,4 +272,8 @@ export default defineConfig({
   //   maxConnections: 3,
   //   queryTimeout: 10_000,
   // },
+  //
+  // MySQL takes the same fields (connectionString: 'mysql://...').
+  // SQLite opens a local file read-only:
+  // database: { type: 'sqlite', filename: './fixtures/app.db' },
 });
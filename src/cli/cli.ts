@@ -1,8 +1,15 @@
 import { defineCommand } from 'citty';
-import { writeFile, readdir, stat, rm, readFile } from 'node:fs/promises';
-import { join } from 'node:path';
-
-async function runServe(args: { headless?: boolean; dashboard?: boolean }) {
+import { writeFile, readdir, stat, rm, readFile, mkdir, appendFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { Bug, Session } from '../types/index.js';
+
+async function runServe(args: {
+  headless?: boolean;
+  dashboard?: boolean;
+  http?: boolean;
+  port?: string;
+  host?: string;
+}) {
   // Dynamic imports to keep CLI startup fast
   const { loadF4tlConfig } = await import('../config/loader.js');
   const { F4tlServer } = await import('../server/mcp-server.js');
@@ -16,7 +23,17 @@ async function runServe(args: { headless?: boolean; dashboard?: boolean }) {
   console.error('[f4tl] Config loaded');
 
   const server = new F4tlServer(config);
-  await server.start();
+  if (args.http) {
+    const { mcpHttpConfigSchema } = await import('../config/schema.js');
+    const httpConfig = mcpHttpConfigSchema.parse({
+      ...config.mcp.http,
+      ...(args.port ? { port: parseInt(args.port, 10) } : {}),
+      ...(args.host ? { host: args.host } : {}),
+    });
+    await server.startHttp(httpConfig);
+  } else {
+    await server.start();
+  }
 
   if (args.dashboard) {
     const { DashboardServer } = await import('../dashboard/server.js');
@@ -51,6 +68,19 @@ const serveCommand = defineCommand({
       description: 'Co-host the live dashboard with the MCP server',
       default: false,
     },
+    http: {
+      type: 'boolean',
+      description: 'Serve MCP over streamable HTTP instead of stdio',
+      default: false,
+    },
+    port: {
+      type: 'string',
+      description: 'HTTP transport port (default: 3100)',
+    },
+    host: {
+      type: 'string',
+      description: 'HTTP transport host (default: localhost)',
+    },
   },
   async run({ args }) {
     await runServe(args);
@@ -588,10 +618,460 @@ const agentCommand = defineCommand({
     console.error(
       `[f4tl] Done. ${result.totalTurns} turns, ${(result.duration / 1000).toFixed(1)}s`,
     );
+    await server.stop();
     process.exit(0);
   },
 });
 
+const runJourneysCommand = defineCommand({
+  meta: {
+    name: 'run-journeys',
+    description: 'Replay guided journeys headlessly without an LLM (exits 1 on failure)',
+  },
+  args: {
+    journeys: {
+      type: 'positional',
+      description: 'Comma-separated journey names (default: all, in dependency order)',
+      required: false,
+    },
+    headless: {
+      type: 'boolean',
+      description: 'Run browser in headless mode',
+    },
+    format: {
+      type: 'string',
+      description: 'Report formats to generate, comma-separated (markdown,json,html)',
+      default: 'markdown,json',
+    },
+  },
+  async run({ args }) {
+    const { loadF4tlConfig } = await import('../config/loader.js');
+    const { F4tlServer } = await import('../server/mcp-server.js');
+
+    const overrides: Record<string, unknown> = {};
+    if (args.headless !== undefined) {
+      overrides.browser = { headless: args.headless };
+    }
+
+    const config = await loadF4tlConfig(overrides as never);
+
+    const server = new F4tlServer(config);
+    const executor = server.buildJourneyExecutor();
+    if (!executor) {
+      console.error('[f4tl] Error: no journeys configured.');
+      process.exit(1);
+    }
+
+    await server.startHeadless();
+
+    const names = args.journeys
+      ? args.journeys
+          .split(',')
+          .map((n) => n.trim())
+          .filter(Boolean)
+      : undefined;
+
+    let results;
+    try {
+      results = await executor.runAll(names);
+    } catch (err) {
+      console.error(`[f4tl] Error: ${(err as Error).message}`);
+      process.exit(1);
+    }
+
+    for (const r of results) {
+      const mark = r.status === 'passed' ? 'PASS' : r.status === 'failed' ? 'FAIL' : 'SKIP';
+      console.error(`[f4tl] ${mark} ${r.name} (${r.steps.length} steps, ${r.duration}ms)`);
+      if (r.error) console.error(`[f4tl]      ${r.error}`);
+      for (const s of r.steps) {
+        if (s.note) console.error(`[f4tl]      step ${s.index + 1}: ${s.note}`);
+      }
+    }
+
+    const toolExecutor = server.buildToolExecutor();
+    for (const format of args.format.split(',').map((f) => f.trim())) {
+      const res = await toolExecutor.callTool('report_generate', { format });
+      if (res.isError) {
+        const text = res.content[0]?.type === 'text' ? res.content[0].text : '';
+        console.error(`[f4tl] Report (${format}) failed: ${text}`);
+      }
+    }
+    // Closes the browser so trace/HAR recordings are flushed, then ends the session
+    await server.stop();
+
+    const failed = results.filter((r) => r.status === 'failed').length;
+    const passed = results.filter((r) => r.status === 'passed').length;
+    const skipped = results.length - failed - passed;
+    console.error(`[f4tl] Journeys: ${passed} passed, ${failed} failed, ${skipped} skipped`);
+    process.exit(failed > 0 ? 1 : 0);
+  },
+});
+
+const ciCommand = defineCommand({
+  meta: {
+    name: 'ci',
+    description:
+      'Run journeys and/or an agent goal headlessly, write JUnit/SARIF reports and a job summary, and exit 1 when bugs reach ci.failOn',
+  },
+  args: {
+    goal: {
+      type: 'positional',
+      description: 'Testing goal for the built-in agent (optional when journeys are configured)',
+      required: false,
+    },
+    journeys: {
+      type: 'string',
+      description: 'Comma-separated journeys to replay (default: all, when no goal is given)',
+    },
+    'fail-on': {
+      type: 'string',
+      description:
+        'Lowest bug severity that fails the run: critical, major, minor, cosmetic, never',
+    },
+    'fail-on-journeys': {
+      type: 'boolean',
+      description:
+        'Fail the run when a journey fails (default: ci.failOnJourneys; --no-fail-on-journeys to only report)',
+    },
+    format: {
+      type: 'string',
+      description: 'Report formats, comma-separated (default: ci.formats)',
+    },
+    summary: {
+      type: 'string',
+      description: 'Job summary markdown path (default: <report.outputDir>/summary-<id>.md)',
+    },
+    headless: {
+      type: 'boolean',
+      description: 'Run browser in headless mode',
+    },
+    model: {
+      type: 'string',
+      description: 'Anthropic model to use for the goal',
+    },
+    'max-turns': {
+      type: 'string',
+      description: 'Maximum agent turns (default: 50)',
+    },
+  },
+  async run({ args }) {
+    const { loadF4tlConfig } = await import('../config/loader.js');
+    const { ciConfigSchema } = await import('../config/schema.js');
+    const { F4tlServer } = await import('../server/mcp-server.js');
+    const { evaluateCiGate, generateJobSummary } = await import('../report/ci-summary.js');
+
+    const overrides: Record<string, unknown> = {};
+    if (args.headless !== undefined) {
+      overrides.browser = { headless: args.headless };
+    }
+
+    const config = await loadF4tlConfig(overrides as never);
+
+    // Exit 2 means the run itself could not happen, as opposed to failing the gate (1)
+    const parsed = ciConfigSchema.safeParse({
+      ...config.ci,
+      ...(args['fail-on'] ? { failOn: args['fail-on'] } : {}),
+      ...(args['fail-on-journeys'] !== undefined
+        ? { failOnJourneys: args['fail-on-journeys'] }
+        : {}),
+      ...(args.format ? { formats: args.format.split(',').map((f) => f.trim()) } : {}),
+      ...(args.summary ? { summaryPath: args.summary } : {}),
+    });
+    if (!parsed.success) {
+      console.error(`[f4tl] Error: invalid ci options: ${parsed.error.issues[0]?.message}`);
+      process.exit(2);
+    }
+    const ci = parsed.data;
+
+    const server = new F4tlServer(config);
+    const executor = server.buildJourneyExecutor();
+    const runJourneys = Boolean(args.journeys) || !args.goal;
+
+    if (runJourneys && !executor) {
+      console.error('[f4tl] Error: nothing to run. Pass a goal or configure journeys.');
+      process.exit(2);
+    }
+
+    const apiKey = config.agent?.apiKey || process.env.ANTHROPIC_API_KEY;
+    if (args.goal && !apiKey) {
+      console.error(
+        '[f4tl] Error: ANTHROPIC_API_KEY not set. Set it as an environment variable or in agent.apiKey config.',
+      );
+      process.exit(2);
+    }
+
+    // Also starts configured log sources, so server-side errors land in the session
+    await server.startHeadless();
+    const rm = server.getReportManager();
+    const toolExecutor = server.buildToolExecutor();
+    let runError: string | undefined;
+
+    if (runJourneys && executor) {
+      const names = args.journeys
+        ?.split(',')
+        .map((n) => n.trim())
+        .filter(Boolean);
+      try {
+        const results = await executor.runAll(names);
+        rm.setJourneyResults(results);
+        for (const r of results) {
+          const mark = r.status === 'passed' ? 'PASS' : r.status === 'failed' ? 'FAIL' : 'SKIP';
+          console.error(`[f4tl] ${mark} ${r.name} (${r.steps.length} steps, ${r.duration}ms)`);
+          if (r.error) console.error(`[f4tl]      ${r.error}`);
+        }
+      } catch (err) {
+        runError = (err as Error).message;
+      }
+    }
+
+    if (args.goal && apiKey && !runError) {
+      const { AgentRunner } = await import('../core/agent-runner.js');
+      const runner = new AgentRunner(
+        {
+          apiKey,
+          model: args.model || config.agent?.model || 'claude-sonnet-4-20250514',
+          maxTurns: args['max-turns']
+            ? parseInt(args['max-turns'], 10)
+            : (config.agent?.maxTurns ?? 50),
+          systemPrompt: config.agent?.systemPrompt,
+        },
+        toolExecutor,
+      );
+      runner.on('agent:turn', (data: { turnNumber: number; maxTurns: number }) => {
+        console.error(`[f4tl] Turn ${data.turnNumber}/${data.maxTurns}`);
+      });
+      runner.on('agent:tool_call', (data: { name: string }) => {
+        console.error(`[f4tl]   → ${data.name}`);
+      });
+
+      const result = await runner.run(args.goal);
+      if (result.error) runError = `Agent failed: ${result.error}`;
+    }
+
+    const reportPaths: string[] = [];
+    for (const format of ci.formats) {
+      const res = await toolExecutor.callTool('report_generate', { format });
+      const text = res.content[0]?.type === 'text' ? res.content[0].text : '';
+      if (res.isError) {
+        console.error(`[f4tl] Report (${format}) failed: ${text}`);
+        continue;
+      }
+      reportPaths.push((JSON.parse(text) as { outputPath: string }).outputPath);
+    }
+
+    const gate = evaluateCiGate(rm.getBugs(), ci.failOn, {
+      journeys: rm.getJourneyResults(),
+      failOnJourneys: ci.failOnJourneys,
+    });
+    const session = server.getSessionManager().getSession();
+    if (session) {
+      const markdown = generateJobSummary(rm.getReportData(session), gate, reportPaths);
+      const summaryPath =
+        ci.summaryPath ?? join(config.report.outputDir, `summary-${session.id}.md`);
+      await mkdir(dirname(summaryPath), { recursive: true });
+      await writeFile(summaryPath, markdown);
+      console.error(`[f4tl] Job summary: ${summaryPath}`);
+      if (process.env.GITHUB_STEP_SUMMARY) {
+        await appendFile(process.env.GITHUB_STEP_SUMMARY, markdown);
+      }
+    }
+
+    await server.stop();
+
+    if (runError) {
+      console.error(`[f4tl] Error: ${runError}`);
+      process.exit(2);
+    }
+    const bugCount = rm.getBugs().length;
+    if (gate.passed) {
+      console.error(`[f4tl] CI passed: ${bugCount} bug(s), none at or above "${ci.failOn}"`);
+    } else {
+      if (gate.blockingBugs.length > 0) {
+        console.error(
+          `[f4tl] CI failed: ${gate.blockingBugs.length} of ${bugCount} bug(s) at or above "${ci.failOn}"`,
+        );
+      }
+      if (gate.failedJourneys.length > 0) {
+        console.error(`[f4tl] CI failed: journey(s) ${gate.failedJourneys.join(', ')} failed`);
+      }
+    }
+    process.exit(gate.passed ? 0 : 1);
+  },
+});
+
+const visualApproveCommand = defineCommand({
+  meta: {
+    name: 'visual-approve',
+    description: 'Promote pending visual_compare screenshots to baselines (lists them by default)',
+  },
+  args: {
+    keys: {
+      type: 'positional',
+      description: 'Comma-separated baseline keys to approve',
+      required: false,
+    },
+    all: {
+      type: 'boolean',
+      description: 'Approve every pending screenshot',
+      default: false,
+    },
+  },
+  async run({ args }) {
+    const { loadF4tlConfig } = await import('../config/loader.js');
+    const { VisualBaselineStore } = await import('../core/visual-baseline.js');
+
+    const config = await loadF4tlConfig();
+    const store = new VisualBaselineStore(config.visual);
+    const pending = await store.listPending();
+
+    const keys = args.all
+      ? pending.map((m) => m.key)
+      : (args.keys ?? '')
+          .split(',')
+          .map((k) => k.trim())
+          .filter(Boolean);
+
+    if (keys.length === 0) {
+      if (pending.length === 0) {
+        console.log('No pending visual changes.');
+        return;
+      }
+      console.log(`${pending.length} pending visual change(s):\n`);
+      for (const m of pending) {
+        const pct = ((m.pending?.diffRatio ?? 0) * 100).toFixed(3);
+        console.log(`  ${m.key}  ${pct}%  ${m.url}`);
+      }
+      console.log('\nRun `f4tl visual-approve <key>[,<key>]` or `f4tl visual-approve --all`.');
+      return;
+    }
+
+    for (const key of keys) {
+      try {
+        await store.approve(key);
+        console.log(`Approved: ${key}`);
+      } catch (err) {
+        console.error(`[f4tl] Error: ${(err as Error).message}`);
+        process.exitCode = 1;
+      }
+    }
+  },
+});
+
+const exportCommand = defineCommand({
+  meta: {
+    name: 'export',
+    description: 'Export a recorded session as a runnable test file',
+  },
+  args: {
+    sessionId: {
+      type: 'positional',
+      description: 'Session ID (see `f4tl sessions`)',
+      required: true,
+    },
+    format: {
+      type: 'string',
+      description: 'Output format (playwright)',
+      default: 'playwright',
+    },
+    output: {
+      type: 'string',
+      description: 'File to write (prints to stdout by default)',
+    },
+  },
+  async run({ args }) {
+    const { loadF4tlConfig } = await import('../config/loader.js');
+    const { generatePlaywrightTest } = await import('../report/playwright-test.js');
+
+    if (args.format !== 'playwright') {
+      console.error(`[f4tl] Error: unsupported format "${args.format}" (expected: playwright)`);
+      process.exit(1);
+    }
+
+    const config = await loadF4tlConfig();
+
+    let session: Session;
+    try {
+      const raw = await readFile(
+        join(config.session.outputDir, args.sessionId, 'session.json'),
+        'utf-8',
+      );
+      session = JSON.parse(raw) as Session;
+    } catch {
+      console.error(
+        `[f4tl] Error: no session.json for "${args.sessionId}" in ${config.session.outputDir}`,
+      );
+      process.exit(1);
+    }
+
+    // Bugs live in the JSON report, if one was generated for this session
+    let bugs: Bug[] = [];
+    try {
+      const raw = await readFile(
+        join(config.report.outputDir, `report-${args.sessionId}.json`),
+        'utf-8',
+      );
+      bugs = (JSON.parse(raw) as { bugs?: Bug[] }).bugs ?? [];
+    } catch {
+      // No JSON report: export steps without bug assertions
+    }
+
+    const exported = generatePlaywrightTest(session, bugs);
+
+    if (!args.output) {
+      process.stdout.write(exported.code);
+      return;
+    }
+
+    await mkdir(dirname(args.output), { recursive: true });
+    await writeFile(args.output, exported.code);
+    console.error(
+      `[f4tl] Exported ${exported.stepCount} steps, ${exported.assertionCount} assertions to ${args.output}` +
+        (exported.skippedStepCount ? ` (${exported.skippedStepCount} skipped)` : ''),
+    );
+    if (exported.envVars.length > 0) {
+      console.error(`[f4tl] Redacted values read from: ${exported.envVars.join(', ')}`);
+    }
+  },
+});
+
+const authClearCommand = defineCommand({
+  meta: {
+    name: 'clear',
+    description: 'Delete saved auth state so roles log in from scratch on the next auth_login',
+  },
+  args: {
+    roles: {
+      type: 'positional',
+      description: 'Comma-separated roles to clear (default: all)',
+      required: false,
+    },
+  },
+  async run({ args }) {
+    const { AUTH_STATE_DIR, clearAuthState } = await import('../core/auth-cache.js');
+
+    const roles = args.roles
+      ? args.roles
+          .split(',')
+          .map((r) => r.trim())
+          .filter(Boolean)
+      : undefined;
+    const removed = await clearAuthState(AUTH_STATE_DIR, roles);
+
+    if (removed.length === 0) {
+      console.log('No saved auth state to clear.');
+      return;
+    }
+    for (const file of removed) console.log(`Removed: ${file}`);
+  },
+});
+
+const authCommand = defineCommand({
+  meta: { name: 'auth', description: 'Manage saved auth state in .f4tl/auth' },
+  subCommands: {
+    clear: authClearCommand,
+  },
+});
+
 export const main = defineCommand({
   meta: {
     name: 'f4tl',
@@ -606,5 +1086,10 @@ export const main = defineCommand({
     sessions: sessionsCommand,
     dashboard: dashboardCommand,
     agent: agentCommand,
+    'run-journeys': runJourneysCommand,
+    ci: ciCommand,
+    'visual-approve': visualApproveCommand,
+    export: exportCommand,
+    auth: authCommand,
   },
 });
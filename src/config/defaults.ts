@@ -13,6 +13,8 @@ export const DEFAULT_CONFIG: F4tlConfig = {
     outputDir: '.f4tl/sessions',
     maxSteps: 1000,
     keepArtifacts: true,
+    trace: false,
+    har: false,
   },
   capture: {
     format: 'png',
@@ -41,8 +43,42 @@ export const DEFAULT_CONFIG: F4tlConfig = {
   report: {
     outputDir: '.f4tl/reports',
   },
+  visual: {
+    baselineDir: '.f4tl/baselines',
+    threshold: 0.1,
+    maxDiffRatio: 0.001,
+  },
+  network: {
+    fixtureDir: '.f4tl/fixtures',
+    bodies: {
+      capture: true,
+      contentTypes: ['json', 'text/plain', 'text/html', 'xml', 'graphql', 'x-www-form-urlencoded'],
+      maxSize: 100_000,
+      maxTotalSize: 20_000_000,
+    },
+    correlation: {
+      enabled: false,
+      format: 'uuid',
+      resourceTypes: ['document', 'xhr', 'fetch'],
+    },
+  },
+  sensitiveData: {
+    redact: true,
+    builtins: ['email', 'card', 'jwt', 'apiKey'],
+    patterns: [],
+    allow: [],
+  },
+  perf: {
+    collectOnSteps: false,
+    budgets: [],
+  },
   dashboard: {
     port: 4173,
     host: 'localhost',
   },
+  ci: {
+    failOn: 'major',
+    failOnJourneys: true,
+    formats: ['markdown', 'json', 'html', 'junit', 'sarif'],
+  },
 };
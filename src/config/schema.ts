@@ -18,6 +18,8 @@ export const sessionConfigSchema = z.object({
   outputDir: z.string().default('.f4tl/sessions'),
   maxSteps: z.number().int().min(10).max(10_000).default(1000),
   keepArtifacts: z.boolean().default(true),
+  trace: z.boolean().default(false),
+  har: z.boolean().default(false),
 });
 
 export const captureConfigSchema = z.object({
@@ -33,23 +35,52 @@ export const captureConfigSchema = z.object({
     .optional(),
 });
 
+export const mcpHttpConfigSchema = z.object({
+  port: z.number().int().min(1).max(65535).default(3100),
+  host: z.string().default('localhost'),
+  path: z.string().startsWith('/').default('/mcp'),
+  tokenEnv: z.string().optional(),
+});
+
 export const mcpConfigSchema = z.object({
   name: z.string().default('f4tl'),
   version: z.string().default('0.1.0'),
   logLevel: z.enum(['debug', 'info', 'warn', 'error']).default('info'),
+  http: mcpHttpConfigSchema.optional(),
+});
+
+export const logWatchRuleSchema = z.object({
+  name: z.string().optional(),
+  level: z.enum(['debug', 'info', 'warn', 'error', 'fatal']).optional(),
+  pattern: z.string().optional(),
+  count: z.number().int().positive().optional(),
+  windowMs: z.number().int().positive().optional(),
 });
 
 export const logSourceConfigSchema = z.object({
-  type: z.enum(['process', 'file']),
+  type: z.enum(['process', 'file', 'docker', 'journald']),
   command: z.string().optional(),
   args: z.array(z.string()).optional(),
   path: z.string().optional(),
-  parser: z.enum(['json', 'clf', 'plain']).default('plain'),
+  container: z.string().optional(),
+  service: z.string().optional(),
+  composeFile: z.string().optional(),
+  unit: z.string().optional(),
+  user: z.boolean().optional(),
+  parser: z
+    .enum(['json', 'clf', 'plain', 'logfmt', 'regex', 'pino', 'bunyan', 'winston', 'custom'])
+    .default('plain'),
+  pattern: z.string().optional(),
+  parserModule: z.string().optional(),
+  multiline: z.boolean().optional(),
+  continuationPattern: z.string().optional(),
+  watch: z.array(logWatchRuleSchema).optional(),
 });
 
 export const databaseConfigSchema = z.object({
-  type: z.literal('postgres').default('postgres'),
+  type: z.enum(['postgres', 'mysql', 'sqlite']).default('postgres'),
   connectionString: z.string().optional(),
+  filename: z.string().optional(),
   host: z.string().optional(),
   port: z.number().int().min(1).max(65535).optional(),
   database: z.string().optional(),
@@ -67,6 +98,19 @@ export const codebaseConfigSchema = z.object({
     .default(['node_modules', '.git', 'dist', 'build', 'coverage', '.next', '.nuxt', '.f4tl']),
 });
 
+const authMfaSchema = z.object({
+  type: z.enum(['totp', 'log']),
+  codeSelector: z.string(),
+  submitSelector: z.string(),
+  secretEnv: z.string().optional(),
+  digits: z.number().int().min(6).max(8).default(6),
+  period: z.number().int().min(1).default(30),
+  algorithm: z.enum(['SHA1', 'SHA256', 'SHA512']).default('SHA1'),
+  logSource: z.string().optional(),
+  logPattern: z.string().default('\\b(\\d{6})\\b'),
+  timeout: z.number().int().min(1000).default(30_000),
+});
+
 const authFormLoginSchema = z.object({
   loginUrl: z.string(),
   usernameSelector: z.string(),
@@ -74,6 +118,7 @@ const authFormLoginSchema = z.object({
   submitSelector: z.string(),
   usernameEnv: z.string(),
   passwordEnv: z.string(),
+  mfa: authMfaSchema.optional(),
 });
 
 const authJwtSchema = z.object({
@@ -87,6 +132,25 @@ const authOauthSchema = z.object({
   authUrl: z.string(),
   clientIdEnv: z.string(),
   callbackUrl: z.string(),
+  scope: z.string().optional(),
+  login: authFormLoginSchema.omit({ loginUrl: true, mfa: true }).optional(),
+  consentSelector: z.string().optional(),
+  tokenUrl: z.string().optional(),
+  clientSecretEnv: z.string().optional(),
+  pkce: z.boolean().default(false),
+  tokenStorage: authJwtSchema.omit({ tokenEnv: true }).default({}),
+});
+
+const authCacheSchema = z.object({
+  enabled: z.boolean().default(true),
+  ttl: z.number().int().min(0).default(3600),
+  probe: z
+    .object({
+      url: z.string(),
+      selector: z.string(),
+      timeout: z.number().int().min(100).default(5000),
+    })
+    .optional(),
 });
 
 export const authConfigSchema = z.object({
@@ -102,12 +166,82 @@ export const authConfigSchema = z.object({
   customScriptPath: z.string().optional(),
   jwt: authJwtSchema.optional(),
   oauth: authOauthSchema.optional(),
+  cache: authCacheSchema.optional(),
 });
 
 export const reportConfigSchema = z.object({
   outputDir: z.string().default('.f4tl/reports'),
 });
 
+export const visualConfigSchema = z.object({
+  baselineDir: z.string().default('.f4tl/baselines'),
+  threshold: z.number().min(0).max(1).default(0.1),
+  maxDiffRatio: z.number().min(0).max(1).default(0.001),
+});
+
+export const networkBodyConfigSchema = z.object({
+  capture: z.boolean().default(true),
+  contentTypes: z
+    .array(z.string())
+    .default(['json', 'text/plain', 'text/html', 'xml', 'graphql', 'x-www-form-urlencoded']),
+  maxSize: z.number().int().positive().default(100_000),
+  maxTotalSize: z.number().int().positive().default(20_000_000),
+});
+
+export const networkCorrelationConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  format: z.enum(['uuid', 'traceparent']).default('uuid'),
+  header: z.string().optional(),
+  urlPattern: z.string().optional(),
+  resourceTypes: z.array(z.string()).default(['document', 'xhr', 'fetch']),
+});
+
+export const networkConfigSchema = z.object({
+  fixtureDir: z.string().default('.f4tl/fixtures'),
+  bodies: networkBodyConfigSchema.default({}),
+  correlation: networkCorrelationConfigSchema.default({}),
+});
+
+export const apiConfigSchema = z.object({
+  spec: z.string(),
+  basePath: z.string().optional(),
+  urlPattern: z.string().optional(),
+  validateRequests: z.boolean().default(true),
+  autoValidate: z.boolean().default(true),
+});
+
+export const sensitivePatternSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/, 'Use letters, digits, "_" or "-"'),
+  pattern: z.string(),
+  severity: z.enum(['high', 'medium', 'low']).default('medium'),
+});
+
+export const sensitiveDataConfigSchema = z.object({
+  redact: z.boolean().default(true),
+  builtins: z
+    .array(z.enum(['email', 'card', 'jwt', 'apiKey']))
+    .default(['email', 'card', 'jwt', 'apiKey']),
+  patterns: z.array(sensitivePatternSchema).default([]),
+  allow: z.array(z.string()).default([]),
+});
+
+export const perfBudgetSchema = z.object({
+  path: z.string().default('*'),
+  lcp: z.number().positive().optional(),
+  fcp: z.number().positive().optional(),
+  cls: z.number().nonnegative().optional(),
+  inp: z.number().positive().optional(),
+  ttfb: z.number().positive().optional(),
+  longTaskTime: z.number().nonnegative().optional(),
+  jsHeapMb: z.number().positive().optional(),
+  transferKb: z.number().positive().optional(),
+});
+
+export const perfConfigSchema = z.object({
+  collectOnSteps: z.boolean().default(false),
+  budgets: z.array(perfBudgetSchema).default([]),
+});
+
 export const dashboardConfigSchema = z.object({
   port: z.number().int().min(1).max(65535).default(4173),
   host: z.string().default('localhost'),
@@ -140,6 +274,7 @@ export const appPageSchema = z.object({
   path: z.string(),
   label: z.string().optional(),
   auth: z.string().optional(),
+  allow: z.array(z.string()).optional(),
   priority: z.enum(['high', 'medium', 'low']).default('medium'),
 });
 
@@ -162,6 +297,15 @@ export const agentConfigSchema = z.object({
   systemPrompt: z.string().optional(),
 });
 
+export const ciConfigSchema = z.object({
+  failOn: z.enum(['critical', 'major', 'minor', 'cosmetic', 'never']).default('major'),
+  failOnJourneys: z.boolean().default(true),
+  formats: z
+    .array(z.enum(['markdown', 'json', 'html', 'junit', 'sarif']))
+    .default(['markdown', 'json', 'html', 'junit', 'sarif']),
+  summaryPath: z.string().optional(),
+});
+
 export const configSchema = z.object({
   browser: browserConfigSchema.default({}),
   session: sessionConfigSchema.default({}),
@@ -172,12 +316,18 @@ export const configSchema = z.object({
   database: databaseConfigSchema.optional(),
   codebase: codebaseConfigSchema.default({}),
   report: reportConfigSchema.default({}),
+  visual: visualConfigSchema.default({}),
+  network: networkConfigSchema.default({}),
+  api: apiConfigSchema.optional(),
+  sensitiveData: sensitiveDataConfigSchema.default({}),
+  perf: perfConfigSchema.default({}),
   dashboard: dashboardConfigSchema.default({}),
   webhooks: webhookConfigSchema.optional(),
   learning: learningConfigSchema.optional(),
   app: appConfigSchema.optional(),
   journeys: journeysConfigSchema.optional(),
   agent: agentConfigSchema.optional(),
+  ci: ciConfigSchema.default({}),
 });
 
 export type ValidatedConfig = z.infer<typeof configSchema>;
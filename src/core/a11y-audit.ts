@@ -0,0 +1,156 @@
+import type { Page } from 'playwright';
+import type { AxeResults, RunOptions } from 'axe-core';
+
+export type A11yStandard = 'wcag2a' | 'wcag2aa' | 'wcag21aa' | 'wcag22aa';
+export type A11yImpact = 'minor' | 'moderate' | 'serious' | 'critical';
+export type A11yCategory =
+  | 'contrast'
+  | 'labels'
+  | 'alt-text'
+  | 'structure'
+  | 'focus'
+  | 'aria'
+  | 'other';
+
+export interface A11yAuditOptions {
+  standard: A11yStandard;
+  bestPractices: boolean;
+  selector?: string;
+}
+
+export interface A11yNode {
+  selector: string;
+  html: string;
+  failureSummary?: string;
+}
+
+export interface A11yViolation {
+  rule: string;
+  category: A11yCategory;
+  impact: A11yImpact;
+  help: string;
+  description: string;
+  helpUrl: string;
+  /** WCAG success criteria, e.g. "1.4.3". Empty for best-practice rules. */
+  wcag: string[];
+  nodes: A11yNode[];
+}
+
+export interface A11yAuditResult {
+  url: string;
+  standard: A11yStandard;
+  violations: A11yViolation[];
+  passCount: number;
+  /** Checks axe could not decide automatically (e.g. contrast over images). */
+  incompleteCount: number;
+}
+
+export const IMPACT_ORDER: A11yImpact[] = ['minor', 'moderate', 'serious', 'critical'];
+
+// Each standard includes the levels below it
+const STANDARD_TAGS: Record<A11yStandard, string[]> = {
+  wcag2a: ['wcag2a'],
+  wcag2aa: ['wcag2a', 'wcag2aa'],
+  wcag21aa: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa'],
+  wcag22aa: ['wcag2a', 'wcag2aa', 'wcag21a', 'wcag21aa', 'wcag22aa'],
+};
+
+const CATEGORY_RULES: [A11yCategory, RegExp][] = [
+  ['contrast', /contrast/],
+  ['alt-text', /(^|-)alt$|^image-|^svg-img|^video-caption|^audio-caption/],
+  ['labels', /label|-name$|^frame-title/],
+  [
+    'structure',
+    /^landmark|^region$|^bypass$|heading|^document-title|^list|^dl|^table|^th-|^td-|^html-/,
+  ],
+  ['focus', /tabindex|focus|^nested-interactive$|^accesskeys$/],
+  ['aria', /^aria-|^role-|^presentation-role/],
+];
+
+export function ruleCategory(ruleId: string): A11yCategory {
+  return CATEGORY_RULES.find(([, pattern]) => pattern.test(ruleId))?.[0] ?? 'other';
+}
+
+/** `wcag143` → `1.4.3`; level tags like `wcag2aa` are ignored. */
+export function wcagCriteria(tags: string[]): string[] {
+  return tags
+    .map((tag) => /^wcag(\d)(\d)(\d+)$/.exec(tag))
+    .filter((m): m is RegExpExecArray => m !== null)
+    .map(([, principle, guideline, criterion]) => `${principle}.${guideline}.${criterion}`);
+}
+
+export function toViolations(results: Pick<AxeResults, 'violations'>): A11yViolation[] {
+  const rank = (impact: A11yImpact) => IMPACT_ORDER.indexOf(impact);
+
+  return results.violations
+    .map((v) => ({
+      rule: v.id,
+      category: ruleCategory(v.id),
+      impact: (v.impact ?? 'minor') as A11yImpact,
+      help: v.help,
+      description: v.description,
+      helpUrl: v.helpUrl,
+      wcag: wcagCriteria(v.tags),
+      nodes: v.nodes.map((n) => ({
+        selector: n.target.map((t) => (Array.isArray(t) ? t.join(' >>> ') : String(t))).join(' '),
+        html: n.html.length > 200 ? `${n.html.slice(0, 197)}...` : n.html,
+        ...(n.failureSummary ? { failureSummary: n.failureSummary } : {}),
+      })),
+    }))
+    .sort((a, b) => rank(b.impact) - rank(a.impact) || a.rule.localeCompare(b.rule));
+}
+
+/**
+ * Run axe-core in the page and return violations with selectors and WCAG
+ * criteria. axe is injected via evaluate() rather than a script tag so page
+ * CSP cannot block it; re-injection is skipped when it is already present.
+ */
+export async function runA11yAudit(
+  page: Page,
+  options: A11yAuditOptions,
+): Promise<A11yAuditResult> {
+  const hasAxe = await page.evaluate(() => 'axe' in globalThis);
+  if (!hasAxe) {
+    const { default: axe } = await import('axe-core');
+    await page.evaluate(axe.source);
+  }
+
+  const tags = [
+    ...STANDARD_TAGS[options.standard],
+    ...(options.bestPractices ? ['best-practice'] : []),
+  ];
+  const runOptions: RunOptions = {
+    runOnly: { type: 'tag', values: tags },
+    resultTypes: ['violations'],
+  };
+
+  const results = await page.evaluate(
+    /* istanbul ignore next */
+    async ({ selector, runOptions }) => {
+      const axe = (
+        globalThis as unknown as { axe: { run: (...args: unknown[]) => Promise<AxeResults> } }
+      ).axe;
+      const context = selector ?? (globalThis as unknown as { document: unknown }).document;
+      const r = await axe.run(context, runOptions);
+      // Only return what we use — full axe results can be megabytes
+      return {
+        violations: r.violations,
+        passCount: r.passes.length,
+        incompleteCount: r.incomplete.length,
+      };
+    },
+    { selector: options.selector, runOptions },
+  );
+
+  return {
+    url: page.url(),
+    standard: options.standard,
+    violations: toViolations(results),
+    passCount: results.passCount,
+    incompleteCount: results.incompleteCount,
+  };
+}
+
+export function meetsImpact(impact: A11yImpact, min: A11yImpact): boolean {
+  return IMPACT_ORDER.indexOf(impact) >= IMPACT_ORDER.indexOf(min);
+}
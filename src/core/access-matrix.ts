@@ -0,0 +1,88 @@
+import type { AppPage, AuthConfig } from '../types/index.js';
+
+/** Pseudo-role for a context that never logs in. */
+export const ANONYMOUS_ROLE = 'anonymous';
+
+export type AccessOutcome =
+  | 'allowed'
+  | 'login-redirect'
+  | 'forbidden'
+  | 'not-found'
+  | 'redirected'
+  | 'empty'
+  | 'error';
+
+export type AccessVerdict = 'ok' | 'escalation' | 'lockout' | 'error';
+
+/** What the browser saw after navigating to a page as some role. */
+export interface PageVisit {
+  requestedUrl: string;
+  finalUrl: string;
+  status: number | null;
+  /** `document.title` plus the first heading, used to spot "Access denied" pages served as 200 */
+  heading: string;
+  textLength: number;
+}
+
+const DENIED_HEADING =
+  /\b(forbidden|access denied|not authori[sz]ed|unauthori[sz]ed|permission denied|no access)\b/i;
+const LOGIN_PATH = /\/(login|log-in|signin|sign-in|sign_in|sso|auth)(\/|$)/i;
+
+/** Login pages the app may bounce an unauthorized visitor to, taken from the auth config. */
+export function loginUrls(authConfigs: Record<string, AuthConfig>): string[] {
+  const urls = new Set<string>();
+  for (const config of Object.values(authConfigs)) {
+    if (config.formLogin) urls.add(config.formLogin.loginUrl);
+    if (config.oauth) urls.add(config.oauth.authUrl);
+  }
+  return [...urls];
+}
+
+function samePath(a: URL, b: URL): boolean {
+  const strip = (p: string) => p.replace(/\/+$/, '') || '/';
+  return a.origin === b.origin && strip(a.pathname) === strip(b.pathname);
+}
+
+/**
+ * Classify a visit. Anything other than `allowed` means the role did not get
+ * the page's content: `empty` covers SPAs that render their shell but whose
+ * data calls were rejected.
+ */
+export function classifyVisit(
+  visit: PageVisit,
+  opts: { loginUrls: string[]; minTextLength: number },
+): AccessOutcome {
+  if (visit.status === 401 || visit.status === 403) return 'forbidden';
+  if (visit.status === 404) return 'not-found';
+  if (visit.status !== null && visit.status >= 400) return 'error';
+
+  const requested = new URL(visit.requestedUrl);
+  const final = new URL(visit.finalUrl);
+  if (!samePath(requested, final)) {
+    const toLogin =
+      opts.loginUrls.some((url) => samePath(new URL(url, requested), final)) ||
+      LOGIN_PATH.test(final.pathname);
+    return toLogin ? 'login-redirect' : 'redirected';
+  }
+
+  if (DENIED_HEADING.test(visit.heading)) return 'forbidden';
+  if (visit.textLength < opts.minTextLength) return 'empty';
+  return 'allowed';
+}
+
+/**
+ * Roles expected to reach `page`: its `allow` list when declared, else the
+ * role named in `auth`, else everyone including anonymous visitors.
+ */
+export function expectedRoles(page: AppPage, roles: string[]): string[] {
+  if (page.allow) return page.allow;
+  if (page.auth) return [page.auth];
+  return [ANONYMOUS_ROLE, ...roles];
+}
+
+export function accessVerdict(outcome: AccessOutcome, expectedAllowed: boolean): AccessVerdict {
+  if (outcome === 'error') return 'error';
+  const allowed = outcome === 'allowed';
+  if (allowed === expectedAllowed) return 'ok';
+  return allowed ? 'escalation' : 'lockout';
+}
@@ -0,0 +1,76 @@
+import { mkdir, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import type { BrowserContext } from 'playwright';
+import type { AuthCacheConfig, AuthConfig, OAuthTokens } from '../types/index.js';
+
+export const AUTH_STATE_DIR = '.f4tl/auth';
+
+// Treat cached state as expired a little early so it doesn't lapse mid-run
+const EXPIRY_SKEW_MS = 30_000;
+
+// OAuth logins are slow and rate limited, so those roles cache unless told not to
+const OAUTH_CACHE_DEFAULTS: AuthCacheConfig = { enabled: true, ttl: 3600 };
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+export interface SavedAuthState {
+  role: string;
+  strategy: AuthConfig['strategy'];
+  savedAt: number;
+  expiresAt: number;
+  tokens?: OAuthTokens;
+  storageState: StorageState;
+}
+
+/** Effective cache settings for a role, or null when its logins aren't cached. */
+export function resolveAuthCache(authConfig: AuthConfig): AuthCacheConfig | null {
+  const cache = authConfig.cache ?? (authConfig.strategy === 'oauth' ? OAUTH_CACHE_DEFAULTS : null);
+  return cache?.enabled && cache.ttl > 0 ? cache : null;
+}
+
+export function authStatePath(role: string, dir = AUTH_STATE_DIR): string {
+  return join(dir, `${role.replace(/[^\w.-]/g, '-')}.json`);
+}
+
+export async function loadAuthState(path: string): Promise<SavedAuthState | null> {
+  try {
+    const state = JSON.parse(await readFile(path, 'utf-8')) as SavedAuthState;
+    return typeof state.expiresAt === 'number' && state.storageState ? state : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function saveAuthState(path: string, state: SavedAuthState): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  // Holds session cookies and tokens, so keep it private to the user
+  await writeFile(path, JSON.stringify(state, null, 2), { mode: 0o600 });
+}
+
+export function isAuthStateFresh(state: SavedAuthState, now = Date.now()): boolean {
+  return state.expiresAt - EXPIRY_SKEW_MS > now;
+}
+
+/** Delete saved state for `roles`, or every role when omitted. Returns the removed files. */
+export async function clearAuthState(dir = AUTH_STATE_DIR, roles?: string[]): Promise<string[]> {
+  let files: string[];
+  if (roles) {
+    files = roles.map((role) => authStatePath(role, dir));
+  } else {
+    files = (await readdir(dir).catch(() => []))
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => join(dir, f));
+  }
+
+  const removed: string[] = [];
+  for (const file of files) {
+    const exists = await readFile(file).then(
+      () => true,
+      () => false,
+    );
+    if (!exists) continue;
+    await rm(file, { force: true });
+    removed.push(file);
+  }
+  return removed;
+}
@@ -1,20 +1,87 @@
-import { chromium, type Browser, type BrowserContext, type Page } from 'playwright';
+import { randomBytes } from 'node:crypto';
+import { mkdir } from 'node:fs/promises';
+import { join } from 'node:path';
+import {
+  chromium,
+  type Browser,
+  type BrowserContext,
+  type BrowserContextOptions,
+  type Page,
+  type Route,
+} from 'playwright';
 import PQueue from 'p-queue';
-import type { BrowserConfig, CaptureConfig, AuthConfig, ContextOptions } from '../types/index.js';
+import type {
+  BrowserConfig,
+  CaptureConfig,
+  AuthCacheConfig,
+  AuthConfig,
+  AuthJwtConfig,
+  AuthMfaConfig,
+  AuthOauthConfig,
+  AuthProbe,
+  ContextOptions,
+  NetworkConfig,
+  OAuthTokens,
+  PerfConfig,
+  SessionArtifact,
+} from '../types/index.js';
 import { CaptureManager } from './capture.js';
-import { NetworkCapture } from './network-capture.js';
+import { NetworkCapture, type NetworkCaptureOptions } from './network-capture.js';
+import { TraceCorrelator } from './trace-correlation.js';
+import { PERF_INIT_SCRIPT } from './perf-collector.js';
+import type { LogCollector } from './log-collector.js';
+import type { SensitiveDataDetector } from './sensitive-data.js';
+import { generateTotp, parseTotpSecret, totpRemainingMs, waitForLoggedCode } from './mfa.js';
+import {
+  buildAuthorizeUrl,
+  createPkcePair,
+  exchangeCode,
+  isCallbackUrl,
+  parseCallback,
+  refreshTokens,
+  type OAuthClient,
+} from './oauth.js';
+import {
+  authStatePath,
+  isAuthStateFresh,
+  loadAuthState,
+  resolveAuthCache,
+  saveAuthState,
+  type SavedAuthState,
+  type StorageState,
+} from './auth-cache.js';
 
 interface ContextInfo {
   context: BrowserContext;
   page: Page;
   captureManager: CaptureManager;
   networkCapture: NetworkCapture;
+  correlator: TraceCorrelator | null;
+  tracePath?: string;
+  /** What the context was created with, reapplied when auth reopens it */
+  options: ContextOptions;
+}
+
+export interface RecordingOptions {
+  dir: string;
+  trace: boolean;
+  har: boolean;
+  onArtifact?: (artifact: SessionArtifact) => void;
+}
+
+export interface AuthResult {
+  /** `cache` reused saved state, `refresh` reused it with refreshed tokens. */
+  source: 'login' | 'cache' | 'refresh';
 }
 
 export class BrowserManager {
   private browser: Browser | null = null;
   private contexts = new Map<string, ContextInfo>();
   private activeContextId = 'default';
+  private recording: RecordingOptions | null = null;
+  private recordingNames = new Map<string, number>();
+  private logCollector: LogCollector | null = null;
+  private sensitiveData: SensitiveDataDetector | null = null;
 
   private writeQueue: PQueue;
   private readQueue: PQueue;
@@ -22,6 +89,8 @@ export class BrowserManager {
   constructor(
     private browserConfig: BrowserConfig,
     private captureConfig: CaptureConfig,
+    private perfConfig?: PerfConfig,
+    private networkConfig?: NetworkConfig,
   ) {
     this.writeQueue = new PQueue({ concurrency: 1 });
     this.readQueue = new PQueue({ concurrency: 5 });
@@ -42,15 +111,69 @@ export class BrowserManager {
     await this.createContext('default');
   }
 
-  async createContext(name: string, opts?: ContextOptions): Promise<void> {
+  /**
+   * Record a Playwright trace and/or HAR for every context created from now on.
+   * Call before launch() so the default context is covered too. Files land in
+   * `dir` and are finalized when their context closes.
+   */
+  setRecording(options: RecordingOptions | null): void {
+    this.recording = options;
+    this.recordingNames.clear();
+  }
+
+  /** Check URLs and response bodies in contexts created from now on for leaked secrets. */
+  setSensitiveDataDetector(detector: SensitiveDataDetector | null): void {
+    this.sensitiveData = detector;
+  }
+
+  private networkCaptureOptions(): NetworkCaptureOptions {
+    return { bodies: this.networkConfig?.bodies, detector: this.sensitiveData };
+  }
+
+  /** Step capture and network capture for a new page, sharing its trace correlator. */
+  private async attachCapture(
+    page: Page,
+  ): Promise<Pick<ContextInfo, 'captureManager' | 'networkCapture' | 'correlator'>> {
+    const correlation = this.networkConfig?.correlation;
+    const correlator = correlation?.enabled ? new TraceCorrelator(correlation) : null;
+    const networkCapture = new NetworkCapture(page, {
+      ...this.networkCaptureOptions(),
+      correlator,
+    });
+    const captureManager = new CaptureManager(
+      page,
+      this.captureConfig,
+      this.perfConfig?.collectOnSteps,
+      correlator,
+      networkCapture,
+    );
+    await networkCapture.init();
+    return { captureManager, networkCapture, correlator };
+  }
+
+  /** Log sources that `log`-type MFA reads one-time codes from. */
+  setLogCollector(logCollector: LogCollector | null): void {
+    this.logCollector = logCollector;
+  }
+
+  async createContext(name: string, opts: ContextOptions = {}): Promise<void> {
     if (!this.browser) throw new Error('Browser not launched. Call launch() first.');
     if (this.contexts.has(name)) throw new Error(`Context "${name}" already exists.`);
+    await this.openContext(name, opts);
+  }
 
-    const context = await this.browser.newContext({
-      viewport: opts?.viewport ?? this.browserConfig.viewport,
-      userAgent: opts?.userAgent,
-      locale: opts?.locale,
-      timezoneId: opts?.timezoneId,
+  /** Open a context and its page under `name`, with step and network capture attached. */
+  private async openContext(
+    name: string,
+    options: ContextOptions,
+    storageState?: string | StorageState,
+  ): Promise<ContextInfo> {
+    const { context, tracePath } = await this.newContext(name, {
+      viewport: options.viewport ?? this.browserConfig.viewport,
+      userAgent: options.userAgent,
+      locale: options.locale,
+      timezoneId: options.timezoneId,
+      ...(storageState ? { storageState } : {}),
       reducedMotion: 'reduce',
     });
 
@@ -58,10 +181,61 @@ export class BrowserManager {
     page.setDefaultNavigationTimeout(this.browserConfig.timeout);
     page.setDefaultTimeout(this.browserConfig.timeout);
 
-    const captureManager = new CaptureManager(page, this.captureConfig);
-    const networkCapture = new NetworkCapture(page);
+    const captures = await this.attachCapture(page);
+    const info: ContextInfo = { context, page, ...captures, tracePath, options };
+    this.contexts.set(name, info);
+    return info;
+  }
+
+  private async newContext(
+    name: string,
+    options: BrowserContextOptions,
+  ): Promise<{ context: BrowserContext; tracePath?: string }> {
+    if (!this.browser) throw new Error('Browser not launched. Call launch() first.');
+
+    const rec = this.recording;
+    if (!rec || (!rec.trace && !rec.har)) {
+      const context = await this.browser.newContext(options);
+      await context.addInitScript(PERF_INIT_SCRIPT);
+      return { context };
+    }
+
+    await mkdir(rec.dir, { recursive: true });
+    const base = this.recordingBaseName(name);
+    const harFile = `${base}.har`;
+    const traceFile = `${base}.trace.zip`;
+
+    const context = await this.browser.newContext({
+      ...options,
+      ...(rec.har ? { recordHar: { path: join(rec.dir, harFile) } } : {}),
+    });
+    await context.addInitScript(PERF_INIT_SCRIPT);
+    if (rec.har) rec.onArtifact?.({ type: 'har', contextId: name, file: harFile });
+
+    if (!rec.trace) return { context };
+    await context.tracing.start({ title: name, screenshots: true, snapshots: true });
+    rec.onArtifact?.({ type: 'trace', contextId: name, file: traceFile });
+    return { context, tracePath: join(rec.dir, traceFile) };
+  }
+
+  /** `admin`, then `admin-2` if the context is recreated (e.g. storage-state auth). */
+  private recordingBaseName(name: string): string {
+    const safe = name.replace(/[^a-zA-Z0-9_-]/g, '-');
+    const count = (this.recordingNames.get(safe) ?? 0) + 1;
+    this.recordingNames.set(safe, count);
+    return count === 1 ? safe : `${safe}-${count}`;
+  }
 
-    this.contexts.set(name, { context, page, captureManager, networkCapture });
+  private async closeContext(info: ContextInfo): Promise<void> {
+    info.networkCapture.destroy();
+    if (info.tracePath) {
+      await info.context.tracing
+        .stop({ path: info.tracePath })
+        .catch((err) => console.error('[f4tl] Failed to save trace:', err));
+    }
+    await info.page.close().catch(() => {});
+    // Closing the context is what writes the HAR file
+    await info.context.close().catch(() => {});
   }
 
   switchContext(name: string): void {
@@ -73,6 +247,17 @@ export class BrowserManager {
     this.activeContextId = name;
   }
 
+  /** Close a context. Removing the active one falls back to "default". */
+  async removeContext(name: string): Promise<void> {
+    if (name === 'default') throw new Error('The default context cannot be removed.');
+    const info = this.contexts.get(name);
+    if (!info) throw new Error(`Context "${name}" does not exist.`);
+
+    this.contexts.delete(name);
+    if (this.activeContextId === name) this.activeContextId = 'default';
+    await this.closeContext(info);
+  }
+
   getContextNames(): string[] {
     return [...this.contexts.keys()];
   }
@@ -81,10 +266,38 @@ export class BrowserManager {
     return this.activeContextId;
   }
 
-  async executeAuth(role: string, authConfigs: Record<string, AuthConfig>): Promise<void> {
+  /**
+   * Authenticate the active context as `role`. Roles with a cache reuse their
+   * saved storage state while it is fresh and passes the probe, refresh OAuth
+   * tokens once it expires, and otherwise log in again and save the result.
+   */
+  async executeAuth(role: string, authConfigs: Record<string, AuthConfig>): Promise<AuthResult> {
     const authConfig = authConfigs[role];
     if (!authConfig) throw new Error(`Auth config for role "${role}" not found.`);
 
+    const cache = resolveAuthCache(authConfig);
+    const statePath = authStatePath(role);
+    if (cache) {
+      const saved = await loadAuthState(statePath);
+      const resumed =
+        saved?.strategy === authConfig.strategy
+          ? await this.resumeAuth(authConfig, cache, saved)
+          : null;
+      if (resumed) {
+        if (resumed.source === 'refresh') {
+          await this.saveAuth(role, authConfig, cache, statePath, resumed.tokens);
+        }
+        return { source: resumed.source };
+      }
+    }
+
+    const tokens = await this.login(authConfig);
+    if (cache) await this.saveAuth(role, authConfig, cache, statePath, tokens);
+    return { source: 'login' };
+  }
+
+  /** Run the role's login strategy. OAuth returns the tokens it redeemed, if any. */
+  private async login(authConfig: AuthConfig): Promise<OAuthTokens | undefined> {
     const page = this.getPage();
 
     switch (authConfig.strategy) {
@@ -103,7 +316,9 @@ export class BrowserManager {
         await page.goto(fl.loginUrl);
         await page.fill(fl.usernameSelector, username);
         await page.fill(fl.passwordSelector, password);
+        const submittedAt = Date.now();
         await page.click(fl.submitSelector);
+        if (fl.mfa) await this.completeMfa(page, fl.mfa, submittedAt);
         await page.waitForLoadState('networkidle');
         break;
       }
@@ -130,31 +345,7 @@ export class BrowserManager {
       case 'storage-state': {
         const path = authConfig.storageStatePath;
         if (!path) throw new Error('storageStatePath required for storage-state strategy');
-        // Close and recreate context with storage state
-        const activeId = this.activeContextId;
-        const oldInfo = this.contexts.get(activeId);
-        if (!oldInfo) throw new Error(`No context found for "${activeId}"`);
-        oldInfo.networkCapture.destroy();
-        await oldInfo.page.close().catch(() => {});
-        await oldInfo.context.close().catch(() => {});
-        this.contexts.delete(activeId);
-
-        if (!this.browser) throw new Error('Browser not launched');
-        const context = await this.browser.newContext({
-          viewport: this.browserConfig.viewport,
-          storageState: path,
-          reducedMotion: 'reduce',
-        });
-        const newPage = await context.newPage();
-        newPage.setDefaultNavigationTimeout(this.browserConfig.timeout);
-        newPage.setDefaultTimeout(this.browserConfig.timeout);
-
-        this.contexts.set(activeId, {
-          context,
-          page: newPage,
-          captureManager: new CaptureManager(newPage, this.captureConfig),
-          networkCapture: new NetworkCapture(newPage),
-        });
+        await this.replaceActiveContext(path);
         break;
       }
 
@@ -178,44 +369,264 @@ export class BrowserManager {
         const token = process.env[jwt.tokenEnv];
         if (!token) throw new Error(`Environment variable ${jwt.tokenEnv} not set.`);
 
-        if (jwt.storageType === 'cookie') {
-          const url = page.url();
-          const domain = new URL(url === 'about:blank' ? 'http://localhost' : url).hostname;
-          await this.getActiveContext().context.addCookies([
-            { name: jwt.storageKey, value: token, domain, path: '/' },
-          ]);
-        } else {
-          const storageApi =
-            jwt.storageType === 'sessionStorage' ? 'sessionStorage' : 'localStorage';
-          await page.evaluate(
-            /* istanbul ignore next */
-            ({ api, key, val }: { api: string; key: string; val: string }) => {
-              const storage = (globalThis as Record<string, unknown>)[api] as
-                | { setItem: (k: string, v: string) => void }
-                | undefined;
-              if (storage) storage.setItem(key, val);
-            },
-            { api: storageApi, key: jwt.storageKey, val: token },
-          );
-        }
+        await this.storeToken(page, jwt, token);
         break;
       }
 
       case 'oauth': {
         const oauth = authConfig.oauth;
         if (!oauth) throw new Error('oauth config required for oauth strategy');
-        const clientId = process.env[oauth.clientIdEnv];
-        if (!clientId) throw new Error(`Environment variable ${oauth.clientIdEnv} not set.`);
+        if (oauth.pkce && !oauth.tokenUrl) {
+          // The app's own callback can't redeem a code whose verifier only f4tl knows
+          throw new Error('oauth.pkce requires oauth.tokenUrl so f4tl can redeem the code itself');
+        }
+        return this.runOauthFlow(oauth, this.oauthClient(oauth));
+      }
+    }
+    return undefined;
+  }
+
+  /** Enter the second-factor code after the password step of a form login. */
+  private async completeMfa(page: Page, mfa: AuthMfaConfig, submittedAt: number): Promise<void> {
+    await page.locator(mfa.codeSelector).first().waitFor();
+
+    let code: string;
+    if (mfa.type === 'totp') {
+      if (!mfa.secretEnv) throw new Error('mfa.secretEnv required for totp MFA');
+      const secret = process.env[mfa.secretEnv];
+      if (!secret) throw new Error(`Environment variable ${mfa.secretEnv} not set.`);
+      const { key, options } = parseTotpSecret(secret, mfa);
+      // A code typed just before it rolls over may be rejected by the time it's submitted
+      const remaining = totpRemainingMs(options.period);
+      if (remaining < 3000) await page.waitForTimeout(remaining);
+      code = generateTotp(key, options);
+    } else {
+      if (!mfa.logSource) throw new Error('mfa.logSource required for log MFA');
+      if (!this.logCollector) {
+        throw new Error(`mfa.logSource "${mfa.logSource}" requires the logs config to be set`);
+      }
+      code = await waitForLoggedCode(this.logCollector, {
+        source: mfa.logSource,
+        pattern: mfa.logPattern,
+        since: submittedAt,
+        timeout: mfa.timeout,
+      });
+    }
 
-        const authUrl = new URL(oauth.authUrl);
-        authUrl.searchParams.set('client_id', clientId);
-        authUrl.searchParams.set('redirect_uri', oauth.callbackUrl);
-        authUrl.searchParams.set('response_type', 'code');
+    await page.fill(mfa.codeSelector, code);
+    await page.click(mfa.submitSelector);
+  }
 
-        await page.goto(authUrl.toString());
-        // User or automation must complete the OAuth flow from here
-        break;
+  /**
+   * Close the active context and reopen it under the same name and options
+   * with `storageState`. Intercept rules carry over; an active network
+   * recording or replay can't, so those must be stopped first.
+   */
+  private async replaceActiveContext(storageState?: string | StorageState): Promise<void> {
+    const activeId = this.activeContextId;
+    const oldInfo = this.contexts.get(activeId);
+    if (!oldInfo) throw new Error(`No context found for "${activeId}"`);
+    const oldCapture = oldInfo.networkCapture;
+    if (oldCapture.isRecording() || oldCapture.getReplayStats()) {
+      throw new Error(
+        `Logging in reopens context "${activeId}". Stop network_record/network_replay first.`,
+      );
+    }
+
+    const rules = oldCapture.getInterceptRules();
+    await this.closeContext(oldInfo);
+    this.contexts.delete(activeId);
+
+    const info = await this.openContext(activeId, oldInfo.options, storageState);
+    if (rules.length > 0) await info.networkCapture.restoreInterceptRules(rules);
+  }
+
+  private async storeToken(
+    page: Page,
+    storage: Pick<AuthJwtConfig, 'storageKey' | 'storageType'>,
+    token: string,
+  ): Promise<void> {
+    if (storage.storageType === 'cookie') {
+      const url = page.url();
+      const domain = new URL(url === 'about:blank' ? 'http://localhost' : url).hostname;
+      await this.getActiveContext().context.addCookies([
+        { name: storage.storageKey, value: token, domain, path: '/' },
+      ]);
+    } else {
+      const storageApi =
+        storage.storageType === 'sessionStorage' ? 'sessionStorage' : 'localStorage';
+      await page.evaluate(
+        /* istanbul ignore next */
+        ({ api, key, val }: { api: string; key: string; val: string }) => {
+          const storage = (globalThis as Record<string, unknown>)[api] as
+            | { setItem: (k: string, v: string) => void }
+            | undefined;
+          if (storage) storage.setItem(key, val);
+        },
+        { api: storageApi, key: storage.storageKey, val: token },
+      );
+    }
+  }
+
+  private async resumeAuth(
+    authConfig: AuthConfig,
+    cache: AuthCacheConfig,
+    saved: SavedAuthState,
+  ): Promise<{ source: 'cache' | 'refresh'; tokens?: OAuthTokens } | null> {
+    let tokens = saved.tokens;
+    let source: 'cache' | 'refresh' = 'cache';
+    const oauth = authConfig.oauth;
+
+    if (!isAuthStateFresh(saved)) {
+      if (!tokens?.refreshToken || !oauth?.tokenUrl) return null;
+      const refreshed = await refreshTokens(
+        oauth.tokenUrl,
+        this.oauthClient(oauth),
+        tokens.refreshToken,
+      ).catch(() => null);
+      if (!refreshed) return null;
+      tokens = refreshed;
+      source = 'refresh';
+    }
+
+    await this.replaceActiveContext(saved.storageState);
+    if (authConfig.strategy === 'oauth' && oauth) {
+      const page = this.getPage();
+      await page.goto(new URL(oauth.callbackUrl).origin);
+      if (tokens) await this.storeToken(page, oauth.tokenStorage, tokens.accessToken);
+    }
+
+    if (cache.probe && !(await this.probeAuth(cache.probe))) {
+      // Rejected by the app: log in again from a clean context
+      await this.replaceActiveContext();
+      return null;
+    }
+    return { source, ...(tokens ? { tokens } : {}) };
+  }
+
+  /** Whether the page at `probe.url` shows something only a logged-in user sees. */
+  private async probeAuth(probe: AuthProbe): Promise<boolean> {
+    const page = this.getPage();
+    try {
+      await page.goto(probe.url);
+      await page.locator(probe.selector).first().waitFor({ timeout: probe.timeout });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async saveAuth(
+    role: string,
+    authConfig: AuthConfig,
+    cache: AuthCacheConfig,
+    path: string,
+    tokens?: OAuthTokens,
+  ): Promise<void> {
+    const now = Date.now();
+    await saveAuthState(path, {
+      role,
+      strategy: authConfig.strategy,
+      savedAt: now,
+      expiresAt: tokens?.expiresAt ?? now + cache.ttl * 1000,
+      ...(tokens ? { tokens } : {}),
+      storageState: await this.getActiveContext().context.storageState(),
+    });
+  }
+
+  private oauthClient(oauth: AuthOauthConfig): OAuthClient {
+    const env = (name: string) => {
+      const value = process.env[name];
+      if (!value) throw new Error(`Environment variable ${name} not set.`);
+      return value;
+    };
+    return {
+      id: env(oauth.clientIdEnv),
+      ...(oauth.clientSecretEnv ? { secret: env(oauth.clientSecretEnv) } : {}),
+    };
+  }
+
+  private async runOauthFlow(
+    oauth: AuthOauthConfig,
+    client: OAuthClient,
+  ): Promise<OAuthTokens | undefined> {
+    const page = this.getPage();
+    const state = randomBytes(16).toString('hex');
+    const pkce = oauth.pkce ? createPkcePair() : undefined;
+    const isCallback = (url: string) => isCallbackUrl(url, oauth.callbackUrl);
+
+    // When f4tl redeems the code, keep the app's callback from spending it first
+    const tokenUrl = oauth.tokenUrl;
+    const matchCallback = (url: URL) => isCallback(url.toString());
+    const stubCallback = (route: Route) =>
+      route.fulfill({
+        status: 200,
+        contentType: 'text/html',
+        body: '<!DOCTYPE html><title>f4tl</title>',
+      });
+    if (tokenUrl) await page.route(matchCallback, stubCallback);
+
+    const callback = page.waitForRequest(
+      (req) => req.isNavigationRequest() && isCallback(req.url()),
+    );
+    callback.catch(() => {});
+
+    try {
+      await page.goto(buildAuthorizeUrl(oauth, client.id, { state, challenge: pkce?.challenge }));
+
+      // The IdP may skip login (existing session) or consent (already granted)
+      const pending = new Map<string, string>();
+      if (oauth.login) pending.set('login', oauth.login.usernameSelector);
+      if (oauth.consentSelector) pending.set('consent', oauth.consentSelector);
+
+      for (;;) {
+        const step = await Promise.any([
+          callback.then(() => 'callback'),
+          ...[...pending].map(([name, selector]) =>
+            page
+              .locator(selector)
+              .first()
+              .waitFor()
+              .then(() => name),
+          ),
+        ]).catch(() => null);
+
+        if (step === 'callback') break;
+        if (step === null) {
+          throw new Error(`OAuth flow did not reach ${oauth.callbackUrl} (stuck on ${page.url()})`);
+        }
+        pending.delete(step);
+
+        if (step === 'login' && oauth.login) {
+          const login = oauth.login;
+          const username = process.env[login.usernameEnv];
+          const password = process.env[login.passwordEnv];
+          if (!username || !password) {
+            throw new Error(
+              `Environment variables ${login.usernameEnv} and/or ${login.passwordEnv} not set.`,
+            );
+          }
+          await page.fill(login.usernameSelector, username);
+          await page.fill(login.passwordSelector, password);
+          await page.click(login.submitSelector);
+        } else if (step === 'consent' && oauth.consentSelector) {
+          await page.click(oauth.consentSelector);
+        }
       }
+
+      const { code } = parseCallback((await callback).url(), state);
+      if (!tokenUrl) {
+        await page.waitForLoadState('networkidle');
+        return undefined;
+      }
+
+      const tokens = await exchangeCode(tokenUrl, oauth, client, code, pkce?.verifier);
+      await page.waitForLoadState();
+      await this.storeToken(page, oauth.tokenStorage, tokens.accessToken);
+      await page.goto(new URL(oauth.callbackUrl).origin);
+      return tokens;
+    } finally {
+      if (tokenUrl) await page.unroute(matchCallback, stubCallback).catch(() => {});
     }
   }
 
@@ -224,9 +635,7 @@ export class BrowserManager {
     await this.readQueue.onIdle();
 
     for (const info of this.contexts.values()) {
-      info.networkCapture.destroy();
-      await info.page.close().catch(() => {});
-      await info.context.close().catch(() => {});
+      await this.closeContext(info);
     }
     this.contexts.clear();
 
@@ -248,6 +657,11 @@ export class BrowserManager {
     return this.getActiveContext().networkCapture;
   }
 
+  /** Request-ID issuer for the active context; null unless `network.correlation` is enabled. */
+  getTraceCorrelator(): TraceCorrelator | null {
+    return this.getActiveContext().correlator;
+  }
+
   async queueWriteAction<T>(action: () => Promise<T>): Promise<T> {
     return this.writeQueue.add(action, { throwOnTimeout: true }) as Promise<T>;
   }
@@ -6,6 +6,9 @@ import type {
   NetworkError,
   StepMetadata,
 } from '../types/index.js';
+import { collectPerfMetrics } from './perf-collector.js';
+import type { TraceCorrelator } from './trace-correlation.js';
+import type { NetworkCapture } from './network-capture.js';
 
 export class CaptureManager {
   private consoleMessages: ConsoleMessage[] = [];
@@ -16,8 +19,13 @@ export class CaptureManager {
   constructor(
     private page: Page,
     private config: CaptureConfig,
+    private collectPerf = false,
+    private correlator: TraceCorrelator | null = null,
+    private network: NetworkCapture | null = null,
   ) {
     this.setupListeners();
+    // GraphQL errors come from the body NetworkCapture reads anyway
+    network?.onGraphqlErrors((error) => this.networkErrors.push(error));
   }
 
   private setupListeners(): void {
@@ -78,8 +86,16 @@ export class CaptureManager {
       animations: this.config.animations,
     });
 
+    return { screenshot: buffer.toString('base64'), metadata: await this.collect() };
+  }
+
+  /**
+   * Step metadata without a screenshot, for tools that record their own image.
+   * Drains the buffered errors just like `capture()`.
+   */
+  async collect(): Promise<StepMetadata> {
+    await this.network?.bodiesSettled();
     const metadata = await this.collectMetadata();
-    const screenshot = buffer.toString('base64');
 
     // Drain error buffers into the metadata, apply suppression filters, and reset
     metadata.consoleErrors = this.filterConsoleErrors([...this.consoleMessages]);
@@ -87,7 +103,10 @@ export class CaptureManager {
     this.consoleMessages = [];
     this.networkErrors = [];
 
-    return { screenshot, metadata };
+    const traceIds = this.correlator?.takeIds() ?? [];
+    if (traceIds.length > 0) metadata.traceIds = traceIds;
+
+    return metadata;
   }
 
   private filterConsoleErrors(errors: ConsoleMessage[]): ConsoleMessage[] {
@@ -123,6 +142,10 @@ export class CaptureManager {
       // CDP metrics are optional — continue without them
     }
 
+    const perf = this.collectPerf
+      ? await collectPerfMetrics(this.page).catch(() => undefined)
+      : undefined;
+
     return {
       url,
       title,
@@ -130,6 +153,7 @@ export class CaptureManager {
       consoleErrors: [],
       networkErrors: [],
       domMetrics,
+      ...(perf ? { perf } : {}),
     };
   }
 }
@@ -0,0 +1,37 @@
+import type { DatabaseConfig, TableInfo } from '../../types/index.js';
+import { PostgresDriver } from './postgres-driver.js';
+import { MysqlDriver } from './mysql-driver.js';
+import { SqliteDriver } from './sqlite-driver.js';
+
+export interface DriverQueryResult {
+  rows: Record<string, unknown>[];
+  rowCount: number;
+}
+
+/**
+ * Dialect-specific half of `DatabaseConnector`. Drivers receive SQL that has
+ * already passed `validateQuery` and `injectLimit`; they are responsible for
+ * running it inside a read-only transaction with the configured timeout.
+ */
+export interface DatabaseDriver {
+  /** Schema name that may prefix table references (`public.users`). */
+  readonly defaultSchema?: string;
+  connect(): Promise<void>;
+  disconnect(): Promise<void>;
+  query(sql: string, params?: unknown[]): Promise<DriverQueryResult>;
+  getTables(tables?: string[]): Promise<TableInfo[]>;
+  explainSql(sql: string): string;
+}
+
+export function createDriver(config: DatabaseConfig): DatabaseDriver {
+  switch (config.type) {
+    case 'postgres':
+      return new PostgresDriver(config);
+    case 'mysql':
+      return new MysqlDriver(config);
+    case 'sqlite':
+      return new SqliteDriver(config);
+  }
+}
+
+export { PostgresDriver, MysqlDriver, SqliteDriver };
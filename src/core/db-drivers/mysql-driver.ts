@@ -0,0 +1,162 @@
+import { createPool } from 'mysql2/promise';
+import type { Pool, PoolOptions, RowDataPacket } from 'mysql2/promise';
+import type { DatabaseConfig, TableInfo } from '../../types/index.js';
+import type { DatabaseDriver, DriverQueryResult } from './index.js';
+
+export class MysqlDriver implements DatabaseDriver {
+  private pool: Pool | null = null;
+
+  constructor(private config: DatabaseConfig) {}
+
+  get defaultSchema(): string | undefined {
+    return this.config.database;
+  }
+
+  async connect(): Promise<void> {
+    if (this.pool) return;
+
+    const poolConfig: PoolOptions = {
+      connectionLimit: this.config.maxConnections,
+      idleTimeout: 30_000,
+      connectTimeout: 10_000,
+    };
+
+    if (this.config.connectionString) {
+      poolConfig.uri = this.config.connectionString;
+    } else {
+      poolConfig.host = this.config.host;
+      poolConfig.port = this.config.port;
+      poolConfig.database = this.config.database;
+      poolConfig.user = this.config.user;
+      poolConfig.password = this.config.password;
+    }
+
+    this.pool = createPool(poolConfig);
+
+    // Verify connectivity
+    const conn = await this.pool.getConnection();
+    conn.release();
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+    }
+  }
+
+  async query(sql: string, params?: unknown[]): Promise<DriverQueryResult> {
+    const conn = await this.getPool().getConnection();
+    try {
+      // Statement timeout (applies to SELECT, which is all we allow)
+      await conn.query(`SET SESSION MAX_EXECUTION_TIME = ${this.config.queryTimeout}`);
+
+      // Wrap in READ ONLY transaction
+      await conn.query('START TRANSACTION READ ONLY');
+
+      const [rows] = await conn.query<RowDataPacket[]>(sql, params);
+
+      await conn.query('COMMIT');
+
+      return { rows: rows as Record<string, unknown>[], rowCount: rows.length };
+    } catch (err) {
+      await conn.query('ROLLBACK').catch(() => {});
+      throw err;
+    } finally {
+      conn.release();
+    }
+  }
+
+  async getTables(tables?: string[]): Promise<TableInfo[]> {
+    const conn = await this.getPool().getConnection();
+
+    try {
+      await conn.query('START TRANSACTION READ ONLY');
+
+      // Aliases keep column names lowercase — MySQL 8 returns them uppercase
+      let tableQuery = `
+        SELECT table_name AS table_name
+        FROM information_schema.tables
+        WHERE table_schema = DATABASE()
+          AND table_type = 'BASE TABLE'
+      `;
+      if (tables?.length) tableQuery += ` AND table_name IN (?)`;
+      tableQuery += ` ORDER BY table_name`;
+
+      const [tableRows] = await conn.query<RowDataPacket[]>(
+        tableQuery,
+        tables?.length ? [tables] : [],
+      );
+      const tableInfos: TableInfo[] = [];
+
+      for (const row of tableRows as { table_name: string }[]) {
+        const tableName = row.table_name;
+
+        const [colRows] = await conn.query<RowDataPacket[]>(
+          `SELECT column_name AS column_name, data_type AS data_type,
+                  is_nullable AS is_nullable, column_default AS column_default
+           FROM information_schema.columns
+           WHERE table_schema = DATABASE() AND table_name = ?
+           ORDER BY ordinal_position`,
+          [tableName],
+        );
+
+        const [fkRows] = await conn.query<RowDataPacket[]>(
+          `SELECT column_name AS column_name,
+                  referenced_table_name AS references_table,
+                  referenced_column_name AS references_column
+           FROM information_schema.key_column_usage
+           WHERE table_schema = DATABASE()
+             AND table_name = ?
+             AND referenced_table_name IS NOT NULL`,
+          [tableName],
+        );
+
+        tableInfos.push({
+          name: tableName,
+          columns: (
+            colRows as {
+              column_name: string;
+              data_type: string;
+              is_nullable: string;
+              column_default: string | null;
+            }[]
+          ).map((c) => ({
+            name: c.column_name,
+            type: c.data_type,
+            nullable: c.is_nullable === 'YES',
+            defaultValue: c.column_default ?? undefined,
+          })),
+          foreignKeys: (
+            fkRows as {
+              column_name: string;
+              references_table: string;
+              references_column: string;
+            }[]
+          ).map((fk) => ({
+            column: fk.column_name,
+            referencesTable: fk.references_table,
+            referencesColumn: fk.references_column,
+          })),
+        });
+      }
+
+      await conn.query('COMMIT');
+      return tableInfos;
+    } catch (err) {
+      await conn.query('ROLLBACK').catch(() => {});
+      throw err;
+    } finally {
+      conn.release();
+    }
+  }
+
+  explainSql(sql: string): string {
+    return `EXPLAIN FORMAT=JSON ${sql}`;
+  }
+
+  private getPool(): Pool {
+    if (!this.pool) throw new Error('Database not connected. Call connect() first.');
+    return this.pool;
+  }
+}
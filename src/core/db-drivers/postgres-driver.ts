@@ -0,0 +1,164 @@
+import pg from 'pg';
+import type { DatabaseConfig, TableInfo } from '../../types/index.js';
+import type { DatabaseDriver, DriverQueryResult } from './index.js';
+
+export class PostgresDriver implements DatabaseDriver {
+  readonly defaultSchema = 'public';
+  private pool: pg.Pool | null = null;
+
+  constructor(private config: DatabaseConfig) {}
+
+  async connect(): Promise<void> {
+    if (this.pool) return;
+
+    const poolConfig: pg.PoolConfig = {
+      max: this.config.maxConnections,
+      idleTimeoutMillis: 30_000,
+      connectionTimeoutMillis: 10_000,
+    };
+
+    if (this.config.connectionString) {
+      poolConfig.connectionString = this.config.connectionString;
+    } else {
+      poolConfig.host = this.config.host;
+      poolConfig.port = this.config.port;
+      poolConfig.database = this.config.database;
+      poolConfig.user = this.config.user;
+      poolConfig.password = this.config.password;
+    }
+
+    this.pool = new pg.Pool(poolConfig);
+
+    // Verify connectivity
+    const client = await this.pool.connect();
+    client.release();
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.pool) {
+      await this.pool.end();
+      this.pool = null;
+    }
+  }
+
+  async query(sql: string, params?: unknown[]): Promise<DriverQueryResult> {
+    const client = await this.getPool().connect();
+    try {
+      // Set statement timeout
+      await client.query(`SET statement_timeout = ${this.config.queryTimeout}`);
+
+      // Wrap in READ ONLY transaction
+      await client.query('BEGIN READ ONLY');
+
+      const result = await client.query(sql, params);
+
+      await client.query('COMMIT');
+
+      return {
+        rows: result.rows as Record<string, unknown>[],
+        rowCount: result.rowCount ?? 0,
+      };
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  async getTables(tables?: string[]): Promise<TableInfo[]> {
+    const client = await this.getPool().connect();
+
+    try {
+      await client.query('BEGIN READ ONLY');
+
+      // Get tables
+      let tableQuery = `
+        SELECT table_name
+        FROM information_schema.tables
+        WHERE table_schema = 'public'
+          AND table_type = 'BASE TABLE'
+      `;
+      if (tables?.length) tableQuery += ` AND table_name = ANY($1)`;
+      tableQuery += ` ORDER BY table_name`;
+
+      const tablesResult = await client.query(tableQuery, tables?.length ? [tables] : []);
+      const tableInfos: TableInfo[] = [];
+
+      for (const row of tablesResult.rows as { table_name: string }[]) {
+        const tableName = row.table_name;
+
+        // Get columns
+        const colResult = await client.query(
+          `SELECT column_name, data_type, is_nullable, column_default
+           FROM information_schema.columns
+           WHERE table_schema = 'public' AND table_name = $1
+           ORDER BY ordinal_position`,
+          [tableName],
+        );
+
+        // Get foreign keys
+        const fkResult = await client.query(
+          `SELECT
+             kcu.column_name,
+             ccu.table_name AS references_table,
+             ccu.column_name AS references_column
+           FROM information_schema.table_constraints AS tc
+           JOIN information_schema.key_column_usage AS kcu
+             ON tc.constraint_name = kcu.constraint_name
+           JOIN information_schema.constraint_column_usage AS ccu
+             ON ccu.constraint_name = tc.constraint_name
+           WHERE tc.constraint_type = 'FOREIGN KEY'
+             AND tc.table_schema = 'public'
+             AND tc.table_name = $1`,
+          [tableName],
+        );
+
+        tableInfos.push({
+          name: tableName,
+          columns: (
+            colResult.rows as {
+              column_name: string;
+              data_type: string;
+              is_nullable: string;
+              column_default: string | null;
+            }[]
+          ).map((c) => ({
+            name: c.column_name,
+            type: c.data_type,
+            nullable: c.is_nullable === 'YES',
+            defaultValue: c.column_default ?? undefined,
+          })),
+          foreignKeys: (
+            fkResult.rows as {
+              column_name: string;
+              references_table: string;
+              references_column: string;
+            }[]
+          ).map((fk) => ({
+            column: fk.column_name,
+            referencesTable: fk.references_table,
+            referencesColumn: fk.references_column,
+          })),
+        });
+      }
+
+      await client.query('COMMIT');
+      return tableInfos;
+    } catch (err) {
+      await client.query('ROLLBACK').catch(() => {});
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+
+  explainSql(sql: string): string {
+    return `EXPLAIN (ANALYZE, FORMAT JSON) ${sql}`;
+  }
+
+  private getPool(): pg.Pool {
+    if (!this.pool) throw new Error('Database not connected. Call connect() first.');
+    return this.pool;
+  }
+}
@@ -0,0 +1,108 @@
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
+import type { DatabaseConfig, TableInfo } from '../../types/index.js';
+import type { DatabaseDriver, DriverQueryResult } from './index.js';
+
+export class SqliteDriver implements DatabaseDriver {
+  readonly defaultSchema = 'main';
+  private db: DatabaseSync | null = null;
+
+  constructor(private config: DatabaseConfig) {}
+
+  async connect(): Promise<void> {
+    if (this.db) return;
+
+    const filename = this.config.filename;
+    if (!filename) throw new Error('SQLite requires database.filename');
+
+    // Loaded lazily so postgres/mysql users never touch the experimental module
+    const sqlite = process.getBuiltinModule?.('node:sqlite');
+    if (!sqlite) throw new Error('SQLite support requires Node.js 22.16 or later (node:sqlite)');
+    const { DatabaseSync } = sqlite;
+
+    // node:sqlite is synchronous and has no statement timeout; queryTimeout
+    // becomes the busy timeout for waiting on locks held by the app.
+    this.db = new DatabaseSync(filename, { readOnly: true, timeout: this.config.queryTimeout });
+    this.db.exec('PRAGMA query_only = ON');
+  }
+
+  async disconnect(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  async query(sql: string, params?: unknown[]): Promise<DriverQueryResult> {
+    const rows = this.readOnly((db) => db.prepare(sql).all(...((params ?? []) as SQLInputValue[])));
+    return { rows: rows as Record<string, unknown>[], rowCount: rows.length };
+  }
+
+  async getTables(tables?: string[]): Promise<TableInfo[]> {
+    return this.readOnly((db) => {
+      const names = (
+        db
+          .prepare(
+            `SELECT name FROM sqlite_master
+             WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+             ORDER BY name`,
+          )
+          .all() as { name: string }[]
+      )
+        .map((row) => row.name)
+        .filter((name) => !tables?.length || tables.includes(name));
+
+      return names.map((tableName) => {
+        const columns = db
+          .prepare('SELECT name, type, "notnull", dflt_value FROM pragma_table_info(?)')
+          .all(tableName) as {
+          name: string;
+          type: string;
+          notnull: number;
+          dflt_value: string | null;
+        }[];
+
+        const foreignKeys = db
+          .prepare('SELECT "from", "table", "to" FROM pragma_foreign_key_list(?)')
+          .all(tableName) as { from: string; table: string; to: string | null }[];
+
+        return {
+          name: tableName,
+          columns: columns.map((c) => ({
+            name: c.name,
+            type: c.type,
+            nullable: c.notnull === 0,
+            defaultValue: c.dflt_value ?? undefined,
+          })),
+          foreignKeys: foreignKeys.map((fk) => ({
+            column: fk.from,
+            referencesTable: fk.table,
+            // A null target column means the referenced table's primary key
+            referencesColumn: fk.to ?? '',
+          })),
+        };
+      });
+    });
+  }
+
+  explainSql(sql: string): string {
+    return `EXPLAIN QUERY PLAN ${sql}`;
+  }
+
+  private readOnly<T>(fn: (db: DatabaseSync) => T): T {
+    const db = this.getDb();
+    db.exec('BEGIN');
+    try {
+      const result = fn(db);
+      db.exec('COMMIT');
+      return result;
+    } catch (err) {
+      if (db.isTransaction) db.exec('ROLLBACK');
+      throw err;
+    }
+  }
+
+  private getDb(): DatabaseSync {
+    if (!this.db) throw new Error('Database not connected. Call connect() first.');
+    return this.db;
+  }
+}
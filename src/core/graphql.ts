@@ -0,0 +1,142 @@
+import type { CapturedRequest, GraphqlOperation, GraphqlOperationType } from '../types/index.js';
+
+const OPERATION_TYPES = new Set<string>(['query', 'mutation', 'subscription']);
+const NAME = /[_A-Za-z][_0-9A-Za-z]*/y;
+
+/**
+ * Top-level operations defined in a GraphQL document, in order. Only the
+ * outline is read (keyword and name before each top-level `{`), so fragments,
+ * selections, arguments, strings and comments are skipped.
+ */
+export function parseGraphqlDocument(
+  document: string,
+): { type: GraphqlOperationType; name?: string }[] {
+  const operations: { type: GraphqlOperationType; name?: string }[] = [];
+  let words: string[] = [];
+  let depth = 0;
+
+  for (let i = 0; i < document.length; i++) {
+    const ch = document[i];
+    if (ch === '#') {
+      const end = document.indexOf('\n', i);
+      i = end === -1 ? document.length : end;
+    } else if (ch === '"') {
+      if (document.startsWith('"""', i)) {
+        const end = document.indexOf('"""', i + 3);
+        i = end === -1 ? document.length : end + 2;
+      } else {
+        let j = i + 1;
+        while (j < document.length && document[j] !== '"' && document[j] !== '\n') {
+          j += document[j] === '\\' ? 2 : 1;
+        }
+        i = j;
+      }
+    } else if (ch === '{' || ch === '(') {
+      if (depth === 0 && ch === '{') {
+        const [keyword, name] = words;
+        // `{ ... }` on its own is the query shorthand
+        if (keyword === undefined) operations.push({ type: 'query' });
+        else if (OPERATION_TYPES.has(keyword)) {
+          operations.push({ type: keyword as GraphqlOperationType, ...(name ? { name } : {}) });
+        }
+        words = [];
+      }
+      depth++;
+    } else if (ch === '}' || ch === ')') {
+      depth = Math.max(0, depth - 1);
+    } else if (depth === 0) {
+      NAME.lastIndex = i;
+      const m = NAME.exec(document);
+      if (m) {
+        words.push(m[0]);
+        i += m[0].length - 1;
+      }
+    }
+  }
+  return operations;
+}
+
+function parseJson(text: string | null | undefined): unknown {
+  if (!text) return undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toOperation(payload: unknown): GraphqlOperation | null {
+  if (!isRecord(payload)) return null;
+  const { query, operationName, variables, extensions } = payload;
+  const persisted = isRecord(extensions) && 'persistedQuery' in extensions;
+  if (typeof query !== 'string' && !persisted) return null;
+
+  const defined = typeof query === 'string' ? parseGraphqlDocument(query) : [];
+  // A REST search like `{"query":"shoes"}` defines no operation
+  if (defined.length === 0 && !persisted) return null;
+  const requested = typeof operationName === 'string' && operationName ? operationName : undefined;
+  const operation = (requested && defined.find((d) => d.name === requested)) || defined[0];
+  const name = requested ?? operation?.name;
+
+  return {
+    ...(name ? { operationName: name } : {}),
+    ...(operation ? { operationType: operation.type } : {}),
+    ...(isRecord(variables) ? { variables } : {}),
+    ...(persisted ? { persisted: true } : {}),
+  };
+}
+
+/**
+ * GraphQL operations carried by a request: a JSON body (an array when
+ * batched) or GET query parameters. Null when it is not a GraphQL request.
+ */
+export function parseGraphqlRequest(
+  request: Pick<CapturedRequest, 'method' | 'url' | 'body'>,
+): GraphqlOperation[] | null {
+  let payloads: unknown[];
+  if (request.method === 'GET') {
+    let params: URLSearchParams;
+    try {
+      params = new URL(request.url).searchParams;
+    } catch {
+      return null;
+    }
+    if (!params.has('query') && !params.has('extensions')) return null;
+    payloads = [
+      {
+        query: params.get('query') ?? undefined,
+        operationName: params.get('operationName') ?? undefined,
+        variables: parseJson(params.get('variables')),
+        extensions: parseJson(params.get('extensions')),
+      },
+    ];
+  } else {
+    const parsed = parseJson(request.body);
+    payloads = Array.isArray(parsed) ? parsed : [parsed];
+  }
+
+  const operations = payloads.map(toOperation);
+  if (operations.length === 0 || operations.some((op) => op === null)) return null;
+  return operations as GraphqlOperation[];
+}
+
+/** Messages from the `errors` arrays of a GraphQL response (or batch of responses). */
+export function parseGraphqlErrors(body: string): string[] {
+  const parsed = parseJson(body);
+  const results = Array.isArray(parsed) ? parsed : [parsed];
+  return results.flatMap((result) => {
+    if (!isRecord(result) || !Array.isArray(result.errors)) return [];
+    return result.errors.map((e: unknown) =>
+      isRecord(e) && typeof e.message === 'string' ? e.message : JSON.stringify(e),
+    );
+  });
+}
+
+/** `mutation AddToCart`, `query (anonymous)` */
+export function describeOperation(operation: GraphqlOperation): string {
+  return `${operation.operationType ?? 'operation'} ${operation.operationName ?? '(anonymous)'}`;
+}
@@ -0,0 +1,343 @@
+import type { Page } from 'playwright';
+import type { BrowserManager } from './browser-manager.js';
+import type { SessionManager } from './session-manager.js';
+import type { ReportManager } from './report-manager.js';
+import type { JourneyRunner } from './journey-runner.js';
+import type { BrowserTools } from '../server/tools/browser.js';
+import type { AuthConfig, JourneyStep, ToolResult } from '../types/index.js';
+
+export type JourneyOutcome = 'passed' | 'failed' | 'skipped';
+
+export interface JourneyStepResult {
+  index: number;
+  action: string;
+  target?: string;
+  status: JourneyOutcome;
+  stepId?: string;
+  duration: number;
+  error?: string;
+  /** Set when `expect` was present but could not be checked mechanically */
+  note?: string;
+}
+
+export interface JourneyRunResult {
+  name: string;
+  status: JourneyOutcome;
+  steps: JourneyStepResult[];
+  duration: number;
+  error?: string;
+  bugId?: string;
+}
+
+export interface JourneyExecutorOptions {
+  authConfigs?: Record<string, AuthConfig>;
+  baseUrl?: string;
+  reportManager?: ReportManager;
+}
+
+// ── Expectations ─────────────────────────────────────────────────────────────
+
+export type Expectation =
+  | { kind: 'url'; value: string }
+  | { kind: 'title'; value: string }
+  | { kind: 'text'; value: string }
+  | { kind: 'visible'; value: string }
+  | { kind: 'hidden'; value: string };
+
+const PREFIXED_EXPECTATION = /^(url|title|text|visible|hidden|selector)\s*:\s*(.+)$/i;
+const URL_EXPECTATION = /^url\s+(?:changes to|contains|includes|is)\s+(.+)$/i;
+const TEXT_EXPECTATION = /^(?:page\s+)?(?:shows|contains)\s+(.+)$/i;
+
+function unquote(value: string): string {
+  return value.trim().replace(/^(['"`])(.*)\1$/, '$2');
+}
+
+/**
+ * Parse a journey step's `expect` string into a machine-checkable assertion.
+ * Supported forms: `url: /x`, `URL changes to /x`, `title: X`, `text: X`,
+ * `shows "X"`, `visible: .sel`, `selector: .sel`, `hidden: .sel`.
+ * Returns null for free-form expectations meant for a human or agent.
+ */
+export function parseExpectation(expect: string): Expectation | null {
+  const trimmed = expect.trim();
+
+  const prefixed = PREFIXED_EXPECTATION.exec(trimmed);
+  if (prefixed) {
+    const key = prefixed[1].toLowerCase();
+    const kind = key === 'selector' ? 'visible' : (key as Expectation['kind']);
+    return { kind, value: unquote(prefixed[2]) };
+  }
+
+  const url = URL_EXPECTATION.exec(trimmed);
+  if (url) return { kind: 'url', value: unquote(url[1]) };
+
+  const text = TEXT_EXPECTATION.exec(trimmed);
+  if (text) return { kind: 'text', value: unquote(text[1]) };
+
+  return null;
+}
+
+async function checkExpectation(page: Page, exp: Expectation): Promise<string | null> {
+  switch (exp.kind) {
+    case 'url': {
+      const url = page.url();
+      return url.includes(exp.value) ? null : `Expected URL to contain "${exp.value}", got ${url}`;
+    }
+    case 'title': {
+      const title = await page.title();
+      return title.includes(exp.value)
+        ? null
+        : `Expected title to contain "${exp.value}", got "${title}"`;
+    }
+    case 'text': {
+      const body = await page.locator('body').innerText();
+      return body.includes(exp.value) ? null : `Expected page to contain text "${exp.value}"`;
+    }
+    case 'visible': {
+      const visible = await page.locator(exp.value).first().isVisible();
+      return visible ? null : `Expected "${exp.value}" to be visible`;
+    }
+    case 'hidden': {
+      const visible = await page.locator(exp.value).first().isVisible();
+      return visible ? `Expected "${exp.value}" to be hidden` : null;
+    }
+  }
+}
+
+// ── Executor ─────────────────────────────────────────────────────────────────
+
+/**
+ * Replays `guided` journeys deterministically by mapping each JourneyStep onto
+ * the BrowserTools handlers, so every action is captured and recorded exactly
+ * as it would be when driven by an agent.
+ */
+export class JourneyExecutor {
+  constructor(
+    private runner: JourneyRunner,
+    private browserTools: BrowserTools,
+    private bm: BrowserManager,
+    private sm: SessionManager,
+    private options: JourneyExecutorOptions = {},
+  ) {}
+
+  /**
+   * Run `names` (all journeys by default) in dependency order. Dependencies
+   * of a named journey run first unless they already completed.
+   */
+  async runAll(names?: string[]): Promise<JourneyRunResult[]> {
+    const order = this.runner.getExecutionOrder();
+
+    const unknown = (names ?? []).filter((n) => !order.includes(n));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown journey(s): ${unknown.join(', ')}`);
+    }
+
+    const wanted = new Set<string>();
+    const want = (name: string, named: boolean) => {
+      if (wanted.has(name)) return;
+      if (!named && this.runner.getState(name)?.status === 'completed') return;
+      wanted.add(name);
+      for (const dep of this.runner.getJourney(name)?.dependsOn ?? []) want(dep, false);
+    };
+    for (const name of names ?? []) want(name, true);
+    const selected = names?.length ? order.filter((n) => wanted.has(n)) : order;
+
+    const results: JourneyRunResult[] = [];
+    for (const name of selected) {
+      results.push(await this.runJourney(name));
+    }
+    return results;
+  }
+
+  async runJourney(name: string): Promise<JourneyRunResult> {
+    const journey = this.runner.getJourney(name);
+    if (!journey) throw new Error(`Journey "${name}" not found`);
+
+    const start = Date.now();
+    const steps: JourneyStepResult[] = [];
+
+    if (journey.mode !== 'guided') {
+      return {
+        name,
+        status: 'skipped',
+        steps,
+        duration: 0,
+        error: 'Autonomous journeys require an agent',
+      };
+    }
+
+    try {
+      this.runner.startJourney(name);
+    } catch (err) {
+      const msg = (err as Error).message;
+      this.runner.failJourney(name, msg);
+      return { name, status: 'skipped', steps, duration: 0, error: msg };
+    }
+
+    if (journey.auth) {
+      try {
+        await this.bm.executeAuth(journey.auth, this.options.authConfigs ?? {});
+      } catch (err) {
+        const msg = `Auth "${journey.auth}" failed: ${(err as Error).message}`;
+        this.runner.failJourney(name, msg);
+        return { name, status: 'failed', steps, duration: Date.now() - start, error: msg };
+      }
+    }
+
+    for (const [index, step] of journey.steps.entries()) {
+      const result = await this.runStep(index, step);
+      steps.push(result);
+
+      if (result.status === 'failed') {
+        const msg = `Step ${index + 1} (${step.action}) failed: ${result.error}`;
+        this.runner.failJourney(name, msg);
+        const bugId = this.fileBug(name, journey.steps, index, result);
+        return {
+          name,
+          status: 'failed',
+          steps,
+          duration: Date.now() - start,
+          error: msg,
+          bugId,
+        };
+      }
+
+      this.runner.advanceStep(name);
+    }
+
+    if (journey.steps.length === 0) this.runner.completeJourney(name);
+    return { name, status: 'passed', steps, duration: Date.now() - start };
+  }
+
+  private async runStep(index: number, step: JourneyStep): Promise<JourneyStepResult> {
+    const start = Date.now();
+    const base = { index, action: step.action, target: step.target };
+
+    let toolResult: ToolResult;
+    try {
+      toolResult = await this.dispatch(step);
+    } catch (err) {
+      return {
+        ...base,
+        status: 'failed',
+        duration: Date.now() - start,
+        error: (err as Error).message,
+      };
+    }
+
+    const stepId = this.sm.getSession()?.steps.at(-1)?.id;
+
+    if (toolResult.isError) {
+      const text = toolResult.content.find((c) => c.type === 'text');
+      const error = text?.type === 'text' ? text.text.replace(/^Error:\s*/, '') : 'Unknown error';
+      return { ...base, status: 'failed', stepId, duration: Date.now() - start, error };
+    }
+
+    if (!step.expect) {
+      return { ...base, status: 'passed', stepId, duration: Date.now() - start };
+    }
+
+    const expectation = parseExpectation(step.expect);
+    if (!expectation) {
+      return {
+        ...base,
+        status: 'passed',
+        stepId,
+        duration: Date.now() - start,
+        note: `Expectation not machine-checkable: "${step.expect}"`,
+      };
+    }
+
+    try {
+      const failure = await this.bm.queueReadAction(() =>
+        checkExpectation(this.bm.getPage(), expectation),
+      );
+      if (failure) {
+        return { ...base, status: 'failed', stepId, duration: Date.now() - start, error: failure };
+      }
+    } catch (err) {
+      return {
+        ...base,
+        status: 'failed',
+        stepId,
+        duration: Date.now() - start,
+        error: (err as Error).message,
+      };
+    }
+
+    return { ...base, status: 'passed', stepId, duration: Date.now() - start };
+  }
+
+  private async dispatch(step: JourneyStep): Promise<ToolResult> {
+    const t = this.browserTools;
+
+    switch (step.action) {
+      case 'navigate': {
+        const target = step.target ?? step.value;
+        if (!target) throw new Error('navigate requires a target URL');
+        return t.navigate({ url: this.resolveUrl(target), waitUntil: 'load' });
+      }
+      case 'click':
+        return t.click({ selector: { css: requireTarget(step) }, force: false });
+      case 'fill':
+        return t.fill({ selector: { css: requireTarget(step) }, value: step.value ?? '' });
+      case 'select':
+        return t.select({ selector: { css: requireTarget(step) }, value: step.value });
+      case 'press': {
+        const key = step.value ?? step.target;
+        if (!key) throw new Error('press requires a key in value or target');
+        return t.press({ key });
+      }
+      case 'wait': {
+        if (step.target) return t.wait({ type: 'selector', value: step.target });
+        if (step.value === 'networkidle') return t.wait({ type: 'networkidle', value: '' });
+        if (step.value && /^\d+$/.test(step.value)) {
+          return t.wait({ type: 'time', value: parseInt(step.value, 10) });
+        }
+        if (step.value) return t.wait({ type: 'url', value: step.value });
+        throw new Error('wait requires a target selector or a value (ms, networkidle, or URL)');
+      }
+      default:
+        throw new Error(
+          `Unsupported journey action "${step.action}" (supported: navigate, click, fill, select, press, wait)`,
+        );
+    }
+  }
+
+  private resolveUrl(target: string): string {
+    if (/^https?:\/\//i.test(target)) return target;
+    if (!this.options.baseUrl) {
+      throw new Error(`Relative URL "${target}" requires app.baseUrl in config`);
+    }
+    return new URL(target, this.options.baseUrl).toString();
+  }
+
+  private fileBug(
+    name: string,
+    steps: JourneyStep[],
+    failedIndex: number,
+    result: JourneyStepResult,
+  ): string | undefined {
+    const rm = this.options.reportManager;
+    if (!rm) return undefined;
+
+    const failed = steps[failedIndex];
+    const bug = rm.createBug({
+      title: `Journey "${name}" failed at step ${failedIndex + 1} (${failed.action})`,
+      severity: 'major',
+      stepsToReproduce: steps
+        .slice(0, failedIndex + 1)
+        .map((s) => [s.action, s.target, s.value].filter(Boolean).join(' ')),
+      expected: failed.expect ?? `${failed.action} succeeds`,
+      actual: result.error ?? 'Step failed',
+      evidenceStepIds: result.stepId ? [result.stepId] : [],
+      url: this.sm.getSession()?.steps.at(-1)?.metadata.url || undefined,
+    });
+    return bug.id;
+  }
+}
+
+function requireTarget(step: JourneyStep): string {
+  if (!step.target) throw new Error(`${step.action} requires a target selector`);
+  return step.target;
+}
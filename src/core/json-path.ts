@@ -0,0 +1,126 @@
+export interface JsonAssertion {
+  /** `$.items[0].status`, `$.items[*].id`, `$['content-type']`; `$` is the whole body */
+  path: string;
+  equals?: unknown;
+  exists?: boolean;
+  /** Substring of a string value, or an element of an array */
+  contains?: unknown;
+  /** Regex tested against a string value */
+  matches?: string;
+}
+
+export interface AssertionResult {
+  path: string;
+  passed: boolean;
+  /** What the path resolved to (an array for wildcards) */
+  actual?: unknown;
+  message?: string;
+}
+
+type Segment = string | number | '*';
+
+/** Split a JSONPath such as `$.a[0]['b c'][*]` into segments. */
+export function parseJsonPath(path: string): Segment[] {
+  const trimmed = path.trim();
+  if (!trimmed.startsWith('$')) throw new Error(`JSONPath must start with "$": ${path}`);
+
+  const segments: Segment[] = [];
+  const re = /\.([A-Za-z_$][\w$-]*)|\.\*|\[(\d+)\]|\[\*\]|\[(?:'([^']*)'|"([^"]*)")\]/y;
+  re.lastIndex = 1;
+  while (re.lastIndex < trimmed.length) {
+    const start = re.lastIndex;
+    const m = re.exec(trimmed);
+    if (!m) throw new Error(`Invalid JSONPath at "${trimmed.slice(start)}": ${path}`);
+    if (m[1] !== undefined) segments.push(m[1]);
+    else if (m[2] !== undefined) segments.push(Number(m[2]));
+    else if (m[3] !== undefined) segments.push(m[3]);
+    else if (m[4] !== undefined) segments.push(m[4]);
+    else segments.push('*');
+  }
+  return segments;
+}
+
+/** Every value `path` reaches in `value`; empty when it reaches nothing. */
+export function queryJsonPath(value: unknown, path: string): unknown[] {
+  let current: unknown[] = [value];
+  for (const segment of parseJsonPath(path)) {
+    const next: unknown[] = [];
+    for (const node of current) {
+      if (segment === '*') {
+        if (Array.isArray(node)) next.push(...(node as unknown[]));
+        else if (node && typeof node === 'object') next.push(...Object.values(node));
+      } else if (Array.isArray(node)) {
+        if (segment === 'length') next.push(node.length);
+        else if (typeof segment === 'number' && segment < node.length) next.push(node[segment]);
+      } else if (node && typeof node === 'object' && String(segment) in node) {
+        next.push((node as Record<string, unknown>)[String(segment)]);
+      }
+    }
+    current = next;
+  }
+  return current;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => deepEqual(item, b[i]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    if (Array.isArray(a) || Array.isArray(b)) return false;
+    const ak = Object.keys(a);
+    const bk = Object.keys(b);
+    return (
+      ak.length === bk.length &&
+      ak.every((k) =>
+        deepEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]),
+      )
+    );
+  }
+  return false;
+}
+
+function contains(actual: unknown, expected: unknown): boolean {
+  if (typeof actual === 'string') return actual.includes(String(expected));
+  if (Array.isArray(actual)) return actual.some((item) => deepEqual(item, expected));
+  return false;
+}
+
+/** Check one assertion against a parsed JSON body. */
+export function checkJsonAssertion(body: unknown, assertion: JsonAssertion): AssertionResult {
+  let values: unknown[];
+  try {
+    values = queryJsonPath(body, assertion.path);
+  } catch (err) {
+    return { path: assertion.path, passed: false, message: (err as Error).message };
+  }
+
+  const wildcard = parseJsonPath(assertion.path).includes('*');
+  const found = values.length > 0;
+  const actual = wildcard ? values : values[0];
+  const fail = (message: string): AssertionResult => ({
+    path: assertion.path,
+    passed: false,
+    ...(found ? { actual } : {}),
+    message,
+  });
+
+  const expectExists = assertion.exists ?? true;
+  if (found !== expectExists) {
+    return fail(expectExists ? 'Path not found' : 'Path exists but should not');
+  }
+  if (!found) return { path: assertion.path, passed: true };
+
+  if ('equals' in assertion && !deepEqual(actual, assertion.equals)) {
+    return fail(`Expected ${JSON.stringify(assertion.equals)}`);
+  }
+  if ('contains' in assertion && !contains(actual, assertion.contains)) {
+    return fail(`Expected to contain ${JSON.stringify(assertion.contains)}`);
+  }
+  if (assertion.matches !== undefined) {
+    if (typeof actual !== 'string' || !new RegExp(assertion.matches).test(actual)) {
+      return fail(`Expected to match /${assertion.matches}/`);
+    }
+  }
+  return { path: assertion.path, passed: true, actual };
+}
@@ -1,29 +1,146 @@
 import { spawn, type ChildProcess } from 'node:child_process';
+import { appendFileSync, createReadStream, mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
 import { createInterface, type Interface } from 'node:readline';
-import type { LogSourceConfig, LogEntry, LogLevel } from '../types/index.js';
-import { createParser, type LogParser } from './log-parsers/index.js';
+import type {
+  LogAlert,
+  LogEntry,
+  LogLevel,
+  LogSourceConfig,
+  LogWatchRule,
+} from '../types/index.js';
+import { loadParser, type LogParser } from './log-parsers/index.js';
+import type { SensitiveDataDetector } from './sensitive-data.js';
+import { logCarriesId } from './trace-correlation.js';
 
 const MAX_BUFFER_SIZE = 10_000;
+// Indented lines (`    at fn (file.js:1:2)`, `  File "app.py"`), Java causes, Python tracebacks
+const CONTINUATION = /^\s+\S|^Caused by:|^Traceback \(most recent call last\):|^\.\.\. \d+ more/;
+const MAX_FOLDED_LINES = 200;
+// A trace is written in one go; an indented line after a pause starts a new entry
+const FOLD_WINDOW_MS = 1000;
+const RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+// Messages from the docker CLI itself (not the container) on stderr
+const DOCKER_CLI_ERROR = /^(Error response from daemon|Error: No such container|no such service):/i;
+
+// journald PRIORITY → level; 5 (notice) and 6 (info) leave the parsed level alone
+const JOURNALD_LEVELS: Record<string, LogLevel> = {
+  '0': 'fatal',
+  '1': 'fatal',
+  '2': 'fatal',
+  '3': 'error',
+  '4': 'warn',
+  '7': 'debug',
+};
+
+const ARCHIVE_FLUSH_MS = 500;
+
+export interface LogFilters {
+  source?: string;
+  level?: LogLevel;
+  since?: number;
+  until?: number;
+  limit?: number;
+}
+
+const DEFAULT_WATCH: LogWatchRule[] = [{ level: 'error' }];
+const DEFAULT_WATCH_WINDOW_MS = 10_000;
+
+interface Watcher {
+  name: string;
+  levels: Set<LogLevel> | null;
+  pattern: RegExp | null;
+  count: number;
+  windowMs: number;
+  hits: { entry: LogEntry; at: number }[];
+}
 
 interface SourceState {
   config: LogSourceConfig;
   parser: LogParser;
   buffer: LogEntry[];
+  watchers: Watcher[];
+  continuation: RegExp | null;
+  /** The entry continuation lines are folded into */
+  last?: { entry: LogEntry; stream?: unknown; lines: number; at: number; archived?: boolean };
   process?: ChildProcess;
   readline?: Interface;
+  /** docker/journald: when the last follower exited; the next one resumes from here */
+  since?: number;
+  retries: number;
+  retryTimer?: NodeJS.Timeout;
+  stopped?: boolean;
 }
 
 export class LogCollector {
   private sources = new Map<string, SourceState>();
+  private detector: SensitiveDataDetector | null = null;
+  private alertListeners: ((alert: LogAlert) => void)[] = [];
+  private startedAt = 0;
+  private archive: { file: string; queue: string[]; timer: NodeJS.Timeout } | null = null;
 
   constructor(private configs: Record<string, LogSourceConfig>) {}
 
-  start(): void {
+  /**
+   * Append every entry to `file` as JSON lines (redacted when the detector
+   * redacts), so `history()` reaches past the in-memory buffers. An entry is
+   * written once no more stack-trace lines can fold into it.
+   */
+  setArchive(file: string | null): void {
+    this.flushArchive(true);
+    if (this.archive) clearInterval(this.archive.timer);
+    this.archive = null;
+    if (!file) return;
+
+    mkdirSync(dirname(file), { recursive: true });
+    const timer = setInterval(() => this.flushArchive(), ARCHIVE_FLUSH_MS);
+    timer.unref();
+    this.archive = { file, queue: [], timer };
+  }
+
+  /** Called whenever a source's watch rule fires. */
+  onAlert(listener: (alert: LogAlert) => void): void {
+    this.alertListeners.push(listener);
+  }
+
+  /** Check every incoming line for leaked secrets and personal data. */
+  setSensitiveDataDetector(detector: SensitiveDataDetector | null): void {
+    this.detector = detector;
+  }
+
+  /**
+   * Load each source's parser and start following it. A source whose parser
+   * cannot be loaded is skipped with a warning.
+   */
+  async start(): Promise<void> {
+    this.startedAt = Date.now();
     for (const [name, config] of Object.entries(this.configs)) {
+      let parser: LogParser;
+      let continuation: RegExp | null;
+      let watchers: Watcher[];
+      try {
+        parser = await loadParser(config);
+        watchers = (config.watch ?? DEFAULT_WATCH).map(createWatcher);
+        continuation =
+          config.multiline === false
+            ? null
+            : config.continuationPattern
+              ? new RegExp(config.continuationPattern)
+              : CONTINUATION;
+      } catch (err) {
+        console.error(`[f4tl] Log source "${name}": ${(err as Error).message}`);
+        continue;
+      }
+
       const state: SourceState = {
         config,
-        parser: createParser(config.parser),
+        parser,
         buffer: [],
+        watchers,
+        continuation,
+        retries: 0,
       };
 
       this.sources.set(name, state);
@@ -32,12 +149,19 @@ export class LogCollector {
         this.startProcess(name, state);
       } else if (config.type === 'file' && config.path) {
         this.startFileTail(name, state);
+      } else if (config.type === 'docker' && (config.container || config.service)) {
+        this.startFollower(name, state);
+      } else if (config.type === 'journald' && config.unit) {
+        this.startFollower(name, state);
       }
     }
   }
 
   stop(): void {
+    this.setArchive(null);
     for (const state of this.sources.values()) {
+      state.stopped = true;
+      clearTimeout(state.retryTimer);
       if (state.process) {
         state.process.kill('SIGTERM');
         state.process = undefined;
@@ -56,13 +180,7 @@ export class LogCollector {
     return state.buffer.slice(-lines);
   }
 
-  getLogs(filters?: {
-    source?: string;
-    level?: LogLevel;
-    since?: number;
-    until?: number;
-    limit?: number;
-  }): LogEntry[] {
+  getLogs(filters?: LogFilters): LogEntry[] {
     let entries: LogEntry[] = [];
 
     if (filters?.source) {
@@ -76,41 +194,66 @@ export class LogCollector {
       entries.sort((a, b) => a.timestamp - b.timestamp);
     }
 
-    if (filters?.level) {
-      const levels = levelAndAbove(filters.level);
-      entries = entries.filter((e) => levels.has(e.level));
+    return entries.filter((e) => matchesFilters(e, filters)).slice(-(filters?.limit ?? 200));
+  }
+
+  /**
+   * Like `getLogs`, but read from the archive when there is one, so a time
+   * range can reach entries the buffers have already evicted.
+   */
+  async history(filters?: LogFilters): Promise<LogEntry[]> {
+    const archive = this.archive;
+    if (!archive) return this.getLogs(filters);
+    if (filters?.source && !this.sources.has(filters.source)) {
+      throw new Error(`Unknown log source: "${filters.source}"`);
     }
 
-    if (filters?.since) {
-      const since = filters.since;
-      entries = entries.filter((e) => e.timestamp >= since);
+    this.flushArchive();
+    const entries: LogEntry[] = [];
+
+    const rl = createInterface({ input: createReadStream(archive.file) });
+    try {
+      for await (const line of rl) {
+        let entry: LogEntry;
+        try {
+          entry = JSON.parse(line) as LogEntry;
+        } catch {
+          continue;
+        }
+        if (matchesFilters(entry, filters)) entries.push(entry);
+      }
+    } catch {
+      // Nothing has been written yet
     }
 
-    if (filters?.until) {
-      const until = filters.until;
-      entries = entries.filter((e) => e.timestamp <= until);
+    for (const state of this.sources.values()) {
+      if (state.last && !state.last.archived && matchesFilters(state.last.entry, filters)) {
+        entries.push(state.last.entry);
+      }
     }
 
-    const limit = filters?.limit ?? 200;
-    return entries.slice(-limit);
+    entries.sort((a, b) => a.timestamp - b.timestamp);
+    return entries.slice(-(filters?.limit ?? 200));
   }
 
   search(
     pattern: string,
-    opts?: { source?: string; caseSensitive?: boolean; limit?: number },
+    opts?: { source?: string; caseSensitive?: boolean; limit?: number; traceIds?: string[] },
   ): LogEntry[] {
     const flags = opts?.caseSensitive ? '' : 'i';
     const re = new RegExp(pattern, flags);
+    const traceIds = opts?.traceIds;
+    const matches = (e: LogEntry) => re.test(e.message) && (!traceIds || logCarriesId(e, traceIds));
 
     let entries: LogEntry[] = [];
 
     if (opts?.source) {
       const state = this.sources.get(opts.source);
       if (!state) throw new Error(`Unknown log source: "${opts.source}"`);
-      entries = state.buffer.filter((e) => re.test(e.message));
+      entries = state.buffer.filter(matches);
     } else {
       for (const state of this.sources.values()) {
-        entries.push(...state.buffer.filter((e) => re.test(e.message)));
+        entries.push(...state.buffer.filter(matches));
       }
       entries.sort((a, b) => a.timestamp - b.timestamp);
     }
@@ -119,6 +262,19 @@ export class LogCollector {
     return entries.slice(-limit);
   }
 
+  /** Entries carrying one of the correlation IDs recorded on a step, oldest first. */
+  correlated(
+    traceIds: string[],
+    opts?: { source?: string; level?: LogLevel; limit?: number },
+  ): LogEntry[] {
+    const entries = this.getLogs({
+      source: opts?.source,
+      level: opts?.level,
+      limit: Number.MAX_SAFE_INTEGER,
+    }).filter((e) => logCarriesId(e, traceIds));
+    return entries.slice(-(opts?.limit ?? 100));
+  }
+
   getSourceNames(): string[] {
     return [...this.sources.keys()];
   }
@@ -166,11 +322,165 @@ export class LogCollector {
     });
   }
 
-  private pushLine(name: string, state: SourceState, line: string): void {
+  /**
+   * Follow a docker container/compose service or a journald unit. `docker
+   * logs -f` exits when the container stops, so the follower is restarted
+   * with a backoff and resumes from when the previous one exited.
+   */
+  private startFollower(name: string, state: SourceState): void {
+    const { command, args } = followerCommand(state.config, state.since);
+    const proc = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    state.process = proc;
+
+    const docker = state.config.type === 'docker';
+    let missing = false;
+    proc.on('error', (err) => {
+      missing = true;
+      console.error(`[f4tl] Log source "${name}": ${err.message}`);
+    });
+
+    if (!proc.stdout || !proc.stderr) return;
+    const rl = createInterface({ input: proc.stdout });
+    rl.on('line', (line) => {
+      state.retries = 0;
+      if (docker) this.pushLine(name, state, line, { stream: 'stdout' });
+      else this.pushJournaldLine(name, state, line);
+    });
+
+    // docker logs replays the container's stderr on its own stderr; journalctl
+    // only writes its own diagnostics there
+    const rlErr = createInterface({ input: proc.stderr });
+    rlErr.on('line', (line) => {
+      if (docker && !DOCKER_CLI_ERROR.test(line)) {
+        state.retries = 0;
+        this.pushLine(name, state, line, { stream: 'stderr' });
+      } else if (line.trim()) {
+        console.error(`[f4tl] Log source "${name}": ${line}`);
+      }
+    });
+
+    proc.on('close', () => {
+      rl.close();
+      rlErr.close();
+      if (state.process === proc) state.process = undefined;
+      if (state.stopped || missing) return;
+
+      if (state.retries === 0) state.since = Date.now();
+      const delay = Math.min(RECONNECT_DELAY_MS * 2 ** state.retries, MAX_RECONNECT_DELAY_MS);
+      state.retries++;
+      state.retryTimer = setTimeout(() => {
+        if (!state.stopped) this.startFollower(name, state);
+      }, delay);
+      state.retryTimer.unref();
+    });
+  }
+
+  /**
+   * Fire the rules this entry completes. Entries timestamped before the
+   * collector started are history replayed by `tail`/`docker logs` and skipped.
+   */
+  private checkWatchers(name: string, state: SourceState, entry: LogEntry): void {
+    if (entry.timestamp < this.startedAt - 1000) return;
+    const now = Date.now();
+    for (const watcher of state.watchers) {
+      if (watcher.levels && !watcher.levels.has(entry.level)) continue;
+      if (watcher.pattern && !watcher.pattern.test(entry.message)) continue;
+
+      watcher.hits = watcher.hits.filter((h) => now - h.at <= watcher.windowMs);
+      watcher.hits.push({ entry, at: now });
+      if (watcher.hits.length < watcher.count) continue;
+
+      const alert: LogAlert = {
+        rule: watcher.name,
+        source: name,
+        entries: watcher.hits.map((h) => h.entry),
+        timestamp: now,
+      };
+      watcher.hits = [];
+      for (const listener of this.alertListeners) listener(alert);
+    }
+  }
+
+  private archiveLast(state: SourceState): void {
+    const last = state.last;
+    if (!this.archive || !last || last.archived) return;
+    last.archived = true;
+    const entry = this.detector?.redacting ? this.detector.redactDeep(last.entry) : last.entry;
+    this.archive.queue.push(JSON.stringify(entry));
+  }
+
+  /** Write queued entries; `all` also writes the entries still open for folding. */
+  private flushArchive(all = false): void {
+    if (!this.archive) return;
+    const now = Date.now();
+    for (const state of this.sources.values()) {
+      if (all || (state.last && now - state.last.at > FOLD_WINDOW_MS)) this.archiveLast(state);
+    }
+
+    const queue = this.archive.queue;
+    if (queue.length === 0) return;
+    this.archive.queue = [];
+    try {
+      appendFileSync(this.archive.file, `${queue.join('\n')}\n`);
+    } catch (err) {
+      console.error(`[f4tl] Log archive write failed: ${(err as Error).message}`);
+    }
+  }
+
+  /** Append a stack-trace line to the previous entry of the same stream. */
+  private foldLine(name: string, state: SourceState, line: string, stream: unknown): boolean {
+    const last = state.last;
+    if (!state.continuation || !last || !state.continuation.test(line)) return false;
+    const now = Date.now();
+    if (last.stream !== stream || last.lines >= MAX_FOLDED_LINES) return false;
+    if (now - last.at > FOLD_WINDOW_MS) return false;
+
+    last.entry.message += `\n${line}`;
+    last.lines++;
+    last.at = now;
+    this.detector?.observe(line, 'log', name);
+    return true;
+  }
+
+  private pushJournaldLine(name: string, state: SourceState, line: string): void {
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(line) as Record<string, unknown>;
+    } catch {
+      this.pushLine(name, state, line);
+      return;
+    }
+    // Non-UTF-8 messages come as byte arrays
+    const message = Array.isArray(record.MESSAGE)
+      ? Buffer.from(record.MESSAGE as number[]).toString('utf-8')
+      : record.MESSAGE;
+    if (typeof message !== 'string') return;
+
+    const priority = JOURNALD_LEVELS[String(record.PRIORITY)];
+    this.pushLine(name, state, message, undefined, priority);
+  }
+
+  private pushLine(
+    name: string,
+    state: SourceState,
+    line: string,
+    extra?: Record<string, unknown>,
+    minLevel?: LogLevel,
+  ): void {
+    if (this.foldLine(name, state, line, extra?.stream)) return;
+
     const entry = state.parser(name, line);
     if (!entry) return;
+    if (extra) entry.metadata = { ...entry.metadata, ...extra };
+    if (minLevel && LEVEL_ORDER.indexOf(minLevel) > LEVEL_ORDER.indexOf(entry.level)) {
+      entry.level = minLevel;
+    }
 
+    this.detector?.observe(entry.message, 'log', name);
     state.buffer.push(entry);
+    this.archiveLast(state);
+    state.last = { entry, stream: extra?.stream, lines: 0, at: Date.now() };
+    this.checkWatchers(name, state, entry);
 
     // FIFO eviction
     if (state.buffer.length > MAX_BUFFER_SIZE) {
@@ -179,6 +489,79 @@ export class LogCollector {
   }
 }
 
+function followerCommand(
+  config: LogSourceConfig,
+  since: number | undefined,
+): { command: string; args: string[] } {
+  if (config.type === 'journald') {
+    return {
+      command: 'journalctl',
+      args: [
+        '--follow',
+        '--output=json',
+        '--no-pager',
+        ...(config.user ? ['--user'] : []),
+        ...(since ? [`--since=@${Math.floor(since / 1000)}`] : ['--lines=100']),
+        `--unit=${config.unit}`,
+      ],
+    };
+  }
+
+  const from = since ? ['--since', new Date(since).toISOString()] : ['--tail', '100'];
+  if (config.service) {
+    return {
+      command: 'docker',
+      args: [
+        'compose',
+        ...(config.composeFile ? ['-f', config.composeFile] : []),
+        'logs',
+        '--follow',
+        '--no-log-prefix',
+        ...from,
+        config.service,
+      ],
+    };
+  }
+  return { command: 'docker', args: ['logs', '--follow', ...from, config.container ?? ''] };
+}
+
+/** `ERROR [api] TypeError: x is undefined` — the first line of the message, for tool output */
+export function describeLogEntry(entry: LogEntry): string {
+  const line = entry.message.split('\n', 1)[0];
+  return `${entry.level.toUpperCase()} [${entry.source}] ${line.length > 200 ? `${line.slice(0, 200)}…` : line}`;
+}
+
+function matchesFilters(entry: LogEntry, filters?: LogFilters): boolean {
+  if (filters?.source && entry.source !== filters.source) return false;
+  if (filters?.level && LEVEL_ORDER.indexOf(entry.level) < LEVEL_ORDER.indexOf(filters.level)) {
+    return false;
+  }
+  if (filters?.since && entry.timestamp < filters.since) return false;
+  if (filters?.until && entry.timestamp > filters.until) return false;
+  return true;
+}
+
+function createWatcher(rule: LogWatchRule): Watcher {
+  const count = rule.count ?? 1;
+  const windowMs = rule.windowMs ?? DEFAULT_WATCH_WINDOW_MS;
+  let name = rule.name;
+  if (!name) {
+    const what =
+      [rule.level && `level >= ${rule.level}`, rule.pattern && `/${rule.pattern}/`]
+        .filter(Boolean)
+        .join(' and ') || 'any entry';
+    name = count > 1 ? `${count} × ${what} in ${windowMs / 1000}s` : what;
+  }
+  return {
+    name,
+    levels: rule.level ? levelAndAbove(rule.level) : null,
+    pattern: rule.pattern ? new RegExp(rule.pattern) : null,
+    count,
+    windowMs,
+    hits: [],
+  };
+}
+
 const LEVEL_ORDER: LogLevel[] = ['debug', 'info', 'warn', 'error', 'fatal'];
 
 function levelAndAbove(level: LogLevel): Set<LogLevel> {
@@ -1,19 +1,85 @@
-import type { LogEntry } from '../../types/index.js';
-import { parseJsonLine } from './json-parser.js';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { LogEntry, LogSourceConfig } from '../../types/index.js';
+import {
+  BUNYAN_FORMAT,
+  PINO_FORMAT,
+  WINSTON_FORMAT,
+  createJsonParser,
+  parseJsonLine,
+} from './json-parser.js';
 import { parseClfLine } from './clf-parser.js';
 import { parsePlainLine } from './plain-parser.js';
+import { parseLogfmtLine } from './logfmt-parser.js';
+import { createRegexParser } from './regex-parser.js';
 
 export type LogParser = (source: string, line: string) => LogEntry | null;
 
-export function createParser(format: 'json' | 'clf' | 'plain'): LogParser {
-  switch (format) {
+/** The parser for a source's built-in `parser` format. */
+export function createParser(config: Pick<LogSourceConfig, 'parser' | 'pattern'>): LogParser {
+  switch (config.parser) {
     case 'json':
       return parseJsonLine;
     case 'clf':
       return parseClfLine;
     case 'plain':
       return parsePlainLine;
+    case 'logfmt':
+      return parseLogfmtLine;
+    case 'pino':
+      return createJsonParser(PINO_FORMAT);
+    case 'bunyan':
+      return createJsonParser(BUNYAN_FORMAT);
+    case 'winston':
+      return createJsonParser(WINSTON_FORMAT);
+    case 'regex':
+      if (!config.pattern) throw new Error('The regex parser needs a `pattern`');
+      return createRegexParser(config.pattern);
+    case 'custom':
+      throw new Error('Custom parsers are loaded with loadParser()');
   }
 }
 
-export { parseJsonLine, parseClfLine, parsePlainLine };
+/**
+ * The parser for a source, importing `parserModule` (relative to the working
+ * directory) for `parser: 'custom'`. The module's default export, or its
+ * `parse` export, is called per line; entries without a string `message` and
+ * lines that throw are dropped.
+ */
+export async function loadParser(config: LogSourceConfig): Promise<LogParser> {
+  if (config.parser !== 'custom') return createParser(config);
+  if (!config.parserModule) throw new Error('The custom parser needs a `parserModule`');
+
+  const mod = (await import(pathToFileURL(resolve(config.parserModule)).href)) as {
+    default?: unknown;
+    parse?: unknown;
+  };
+  const parse = typeof mod.default === 'function' ? mod.default : mod.parse;
+  if (typeof parse !== 'function') {
+    throw new Error(`${config.parserModule} exports no parser function`);
+  }
+
+  return (source, line) => {
+    try {
+      const entry = (parse as LogParser)(source, line);
+      if (!entry || typeof entry.message !== 'string') return null;
+      return {
+        ...entry,
+        source,
+        level: entry.level ?? 'info',
+        timestamp: entry.timestamp ?? Date.now(),
+      };
+    } catch {
+      return null;
+    }
+  };
+}
+
+export {
+  parseJsonLine,
+  parseClfLine,
+  parsePlainLine,
+  parseLogfmtLine,
+  createJsonParser,
+  createRegexParser,
+};
@@ -19,46 +19,140 @@ const LEVEL_MAP: Record<string, LogLevel> = {
   critical: 'fatal',
 };
 
-function normalizeLevel(raw: unknown): LogLevel {
+// winston's npm and syslog level sets
+const WINSTON_LEVELS: Record<string, LogLevel> = {
+  ...LEVEL_MAP,
+  http: 'info',
+  verbose: 'debug',
+  silly: 'debug',
+  emerg: 'fatal',
+  alert: 'fatal',
+  crit: 'fatal',
+  notice: 'info',
+};
+
+/** Where a JSON logging library puts the level, message, time and error stack. */
+export interface JsonLogFormat {
+  levelKeys: string[];
+  messageKeys: string[];
+  timeKeys: string[];
+  levels: Record<string, LogLevel>;
+  /** Dotted path to an error stack, appended to the message */
+  stackKey?: string;
+}
+
+const GENERIC: JsonLogFormat = {
+  levelKeys: ['level', 'severity'],
+  messageKeys: ['msg', 'message', 'text', 'log'],
+  // pino: time (epoch ms), winston: timestamp (ISO)
+  timeKeys: ['time', 'timestamp', '@timestamp', 'ts', 'date'],
+  levels: LEVEL_MAP,
+};
+
+/** pino: numeric `level`, `msg`, epoch-ms `time`, serialized `err` */
+export const PINO_FORMAT: JsonLogFormat = {
+  levelKeys: ['level'],
+  messageKeys: ['msg'],
+  timeKeys: ['time'],
+  levels: LEVEL_MAP,
+  stackKey: 'err.stack',
+};
+
+/** bunyan: like pino, with an ISO `time` */
+export const BUNYAN_FORMAT: JsonLogFormat = PINO_FORMAT;
+
+/** winston: string `level` (npm or syslog), `message`, `timestamp`, `stack` from format.errors() */
+export const WINSTON_FORMAT: JsonLogFormat = {
+  levelKeys: ['level'],
+  messageKeys: ['message'],
+  timeKeys: ['timestamp'],
+  levels: WINSTON_LEVELS,
+  stackKey: 'stack',
+};
+
+export function normalizeLevel(
+  raw: unknown,
+  levels: Record<string, LogLevel> = LEVEL_MAP,
+): LogLevel {
   if (raw === undefined || raw === null) return 'info';
   const key = String(raw).toLowerCase();
-  return LEVEL_MAP[key] ?? 'info';
+  return levels[key] ?? 'info';
 }
 
-function extractTimestamp(obj: Record<string, unknown>): number {
-  // pino: time (epoch ms), winston: timestamp (ISO)
-  for (const key of ['time', 'timestamp', '@timestamp', 'ts', 'date']) {
-    const val = obj[key];
-    if (typeof val === 'number') return val;
-    if (typeof val === 'string') {
-      const d = new Date(val).getTime();
-      if (!isNaN(d)) return d;
+/** Epoch ms from a number (seconds or ms) or a date string, or null. */
+export function toTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value) {
+    if (/^\d+(\.\d+)?$/.test(value)) {
+      const n = Number(value);
+      return n < 1e12 ? Math.round(n * 1000) : n;
     }
+    const d = new Date(value).getTime();
+    if (!isNaN(d)) return d;
   }
-  return Date.now();
+  return null;
 }
 
-function extractMessage(obj: Record<string, unknown>): string {
-  for (const key of ['msg', 'message', 'text', 'log']) {
-    if (typeof obj[key] === 'string') return obj[key] as string;
+function first(obj: Record<string, unknown>, keys: string[]): unknown {
+  for (const key of keys) {
+    if (obj[key] !== undefined) return obj[key];
   }
-  return JSON.stringify(obj);
+  return undefined;
 }
 
-export function parseJsonLine(source: string, line: string): LogEntry | null {
-  const trimmed = line.trim();
-  if (!trimmed || !trimmed.startsWith('{')) return null;
-
-  try {
-    const obj = JSON.parse(trimmed) as Record<string, unknown>;
-    return {
-      source,
-      level: normalizeLevel(obj.level ?? obj.severity),
-      message: extractMessage(obj),
-      timestamp: extractTimestamp(obj),
-      metadata: obj,
-    };
-  } catch {
-    return null;
+function valueAt(obj: Record<string, unknown>, path: string): unknown {
+  let value: unknown = obj;
+  for (const key of path.split('.')) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
   }
+  return value;
 }
+
+function extractTimestamp(obj: Record<string, unknown>, keys: string[]): number {
+  for (const key of keys) {
+    const ts = toTimestamp(obj[key]);
+    if (ts !== null) return ts;
+  }
+  return Date.now();
+}
+
+function extractMessage(obj: Record<string, unknown>, format: JsonLogFormat): string {
+  let message: string | undefined;
+  for (const key of format.messageKeys) {
+    if (typeof obj[key] === 'string') {
+      message = obj[key] as string;
+      break;
+    }
+  }
+
+  const stack = format.stackKey ? valueAt(obj, format.stackKey) : undefined;
+  if (typeof stack === 'string' && stack) {
+    if (!message || stack.startsWith(message)) return stack;
+    return `${message}\n${stack}`;
+  }
+  return message ?? JSON.stringify(obj);
+}
+
+/** A parser for one JSON line per entry, reading fields where `format` says. */
+export function createJsonParser(format: JsonLogFormat) {
+  return (source: string, line: string): LogEntry | null => {
+    const trimmed = line.trim();
+    if (!trimmed || !trimmed.startsWith('{')) return null;
+
+    try {
+      const obj = JSON.parse(trimmed) as Record<string, unknown>;
+      return {
+        source,
+        level: normalizeLevel(first(obj, format.levelKeys), format.levels),
+        message: extractMessage(obj, format),
+        timestamp: extractTimestamp(obj, format.timeKeys),
+        metadata: obj,
+      };
+    } catch {
+      return null;
+    }
+  };
+}
+
+export const parseJsonLine = createJsonParser(GENERIC);
@@ -0,0 +1,46 @@
+import type { LogEntry } from '../../types/index.js';
+import { normalizeLevel, toTimestamp } from './json-parser.js';
+
+// key=value, key="quoted \"value\"", or a bare key (a flag)
+const PAIR = /([^\s=]+)(?:=("(?:[^"\\]|\\.)*"|\S*))?/g;
+
+function unquote(value: string): string {
+  if (!value.startsWith('"')) return value;
+  try {
+    return JSON.parse(value) as string;
+  } catch {
+    return value.slice(1, -1);
+  }
+}
+
+/** Parse a logfmt line (`level=error msg="payment failed" order=42`). Values stay strings. */
+export function parseLogfmtLine(source: string, line: string): LogEntry | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  const fields: Record<string, unknown> = {};
+  let pairs = 0;
+  for (const m of trimmed.matchAll(PAIR)) {
+    const [, key, value] = m;
+    if (value === undefined) {
+      fields[key] = true;
+    } else {
+      fields[key] = unquote(value);
+      pairs++;
+    }
+  }
+  if (pairs === 0) return null;
+
+  const message = fields.msg ?? fields.message;
+  const time = [fields.time, fields.ts, fields.t, fields.timestamp]
+    .map(toTimestamp)
+    .find((t) => t !== null);
+
+  return {
+    source,
+    level: normalizeLevel(fields.level ?? fields.lvl ?? fields.severity),
+    message: typeof message === 'string' ? message : trimmed,
+    timestamp: time ?? Date.now(),
+    metadata: fields,
+  };
+}
@@ -0,0 +1,39 @@
+import type { LogEntry } from '../../types/index.js';
+import { normalizeLevel, toTimestamp } from './json-parser.js';
+
+const FIELD_GROUPS = new Set(['level', 'timestamp', 'time', 'message', 'msg']);
+
+/**
+ * A parser from a regex with named groups: `level`, `timestamp` (or `time`)
+ * and `message` (or `msg`, default: the whole line). Other named groups
+ * become metadata. Lines that do not match are dropped.
+ */
+export function createRegexParser(pattern: string) {
+  let re: RegExp;
+  try {
+    re = new RegExp(pattern);
+  } catch (err) {
+    throw new Error(`Invalid log parser pattern: ${(err as Error).message}`);
+  }
+
+  return (source: string, line: string): LogEntry | null => {
+    const trimmed = line.trim();
+    if (!trimmed) return null;
+    const m = re.exec(trimmed);
+    if (!m) return null;
+    const groups = m.groups ?? {};
+
+    const metadata: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(groups)) {
+      if (value !== undefined && !FIELD_GROUPS.has(key)) metadata[key] = value;
+    }
+
+    return {
+      source,
+      level: normalizeLevel(groups.level),
+      message: groups.message ?? groups.msg ?? trimmed,
+      timestamp: toTimestamp(groups.timestamp ?? groups.time) ?? Date.now(),
+      ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    };
+  };
+}
@@ -0,0 +1,108 @@
+import { createHmac } from 'node:crypto';
+import type { AuthMfaConfig } from '../types/index.js';
+import type { LogCollector } from './log-collector.js';
+
+export type TotpAlgorithm = AuthMfaConfig['algorithm'];
+
+export interface TotpOptions {
+  digits: number;
+  period: number;
+  algorithm: TotpAlgorithm;
+}
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=-]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error(`Invalid base32 character "${char}" in TOTP secret`);
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 0xff);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Accepts a bare base32 secret or an `otpauth://totp/...` URI (as shown under
+ * the QR code). Settings in the URI override `defaults`.
+ */
+export function parseTotpSecret(
+  value: string,
+  defaults: TotpOptions,
+): { key: Buffer; options: TotpOptions } {
+  if (!value.startsWith('otpauth://')) return { key: base32Decode(value), options: defaults };
+
+  const params = new URL(value).searchParams;
+  const secret = params.get('secret');
+  if (!secret) throw new Error('otpauth URI has no secret parameter');
+  const algorithm = params.get('algorithm')?.toUpperCase();
+  return {
+    key: base32Decode(secret),
+    options: {
+      digits: Number(params.get('digits')) || defaults.digits,
+      period: Number(params.get('period')) || defaults.period,
+      algorithm:
+        algorithm === 'SHA1' || algorithm === 'SHA256' || algorithm === 'SHA512'
+          ? algorithm
+          : defaults.algorithm,
+    },
+  };
+}
+
+/** RFC 6238 time-based one-time password for `timestamp` (ms). */
+export function generateTotp(key: Buffer, options: TotpOptions, timestamp = Date.now()): string {
+  const counter = Math.floor(timestamp / 1000 / options.period);
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = createHmac(options.algorithm.toLowerCase(), key).update(message).digest();
+  // Dynamic truncation (RFC 4226 §5.3)
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** options.digits).padStart(options.digits, '0');
+}
+
+/** Milliseconds until the code for `timestamp` rolls over. */
+export function totpRemainingMs(period: number, timestamp = Date.now()): number {
+  return period * 1000 - (timestamp % (period * 1000));
+}
+
+/**
+ * Poll a log source for a one-time code printed after `since`, e.g. by a dev
+ * mailer or SMS stub. `pattern`'s first capture group is the code. Lines up to
+ * a second before `since` count, since many log formats floor to the second.
+ */
+export async function waitForLoggedCode(
+  logs: Pick<LogCollector, 'search'>,
+  opts: { source: string; pattern: string; since: number; timeout: number },
+): Promise<string> {
+  const re = new RegExp(opts.pattern);
+  const deadline = Date.now() + opts.timeout;
+
+  for (;;) {
+    const entries = logs
+      .search(opts.pattern, { source: opts.source, caseSensitive: true })
+      .filter((e) => e.timestamp >= opts.since - 1000);
+    const latest = entries.at(-1);
+    if (latest) {
+      const match = re.exec(latest.message);
+      if (match) return match[1] ?? match[0];
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `No MFA code matching /${opts.pattern}/ appeared in log source "${opts.source}" within ${opts.timeout}ms`,
+      );
+    }
+    await new Promise((resolve) => setTimeout(resolve, 250));
+  }
+}
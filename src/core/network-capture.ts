@@ -1,34 +1,162 @@
-import type { Page, Request, Response, WebSocket } from 'playwright';
+import type { Page, Request, Response, Route, WebSocket } from 'playwright';
 import type {
   CapturedRequest,
   CapturedResponse,
+  GraphqlOperation,
+  GraphqlOperationType,
+  NetworkError,
   WebSocketMessage,
   InterceptRule,
+  HarEntry,
+  NetworkBodyConfig,
+  ReplayFallback,
+  ReplayMatchOptions,
+  ReplayStats,
 } from '../types/index.js';
 import { nanoid } from 'nanoid';
+import { FixtureMatcher, createHarEntry, fulfillFromEntry } from './network-fixtures.js';
+import { describeOperation, parseGraphqlErrors, parseGraphqlRequest } from './graphql.js';
+import { redactCredentialHeaders, urlLocation } from './sensitive-data.js';
+import type { SensitiveDataDetector } from './sensitive-data.js';
+import type { TraceCorrelator } from './trace-correlation.js';
+
+export interface NetworkCaptureOptions {
+  /** Response body capture; bodies are not kept when omitted. */
+  bodies?: NetworkBodyConfig;
+  /** Checked against request URLs and response bodies. */
+  detector?: SensitiveDataDetector | null;
+  /** Adds a request-ID header to outgoing requests. */
+  correlator?: TraceCorrelator | null;
+}
+
+export interface BodyFilters {
+  urlPattern?: string;
+  method?: string;
+  resourceType?: string;
+  statusMin?: number;
+  statusMax?: number;
+  /** Regex matched against request and response bodies */
+  bodyPattern?: string;
+  /** GraphQL operation name; matches any operation of a batch */
+  operationName?: string;
+  operationType?: GraphqlOperationType;
+  limit?: number;
+}
+
+export interface RecordOptions {
+  urlPattern?: string;
+  resourceTypes: string[];
+}
+
+export interface ReplayOptions extends RecordOptions {
+  match: ReplayMatchOptions;
+  fallback: ReplayFallback;
+}
+
+/** A record/replay filter with its URL pattern compiled. */
+interface UrlFilter {
+  urlRe: RegExp | null;
+  resourceTypes: string[];
+}
+
+interface Recording {
+  filter: UrlFilter;
+  entries: HarEntry[];
+  pending: Set<Promise<void>>;
+}
+
+interface Replay {
+  options: ReplayOptions;
+  filter: UrlFilter;
+  matcher: FixtureMatcher;
+  stats: ReplayStats;
+}
+
+const MAX_UNMATCHED = 50;
+const API_RESOURCE_TYPES = new Set(['xhr', 'fetch']);
+// Response bodies checked for leaked secrets: API and page text only
+const SCANNED_BODY_TYPES = new Set(['document', 'xhr', 'fetch']);
+const SCANNED_CONTENT_TYPE = /json|text|xml|javascript|graphql/i;
+// Pages routinely show a support or contact address; only API responses leak them
+const PAGE_IGNORED_LEAKS = ['email'];
+// Bodies declared larger than this are never read. Chunked bodies declare no
+// length and Playwright can only read them whole, so they are dropped after reading.
+const MAX_READ_BODY = 5_000_000;
+// SSE and multipart (@defer/@stream) bodies may never finish
+const STREAMING_CONTENT_TYPE = /event-stream|multipart\//i;
+// How long a step waits for body reads before moving on
+const BODY_SETTLE_TIMEOUT = 300;
+
+/** Compile once, so a bad pattern fails the tool call instead of every response. */
+function compileFilter({ urlPattern, resourceTypes }: RecordOptions): UrlFilter {
+  let urlRe: RegExp | null = null;
+  if (urlPattern) {
+    try {
+      urlRe = new RegExp(urlPattern, 'i');
+    } catch (err) {
+      throw new Error(`Invalid urlPattern: ${(err as Error).message}`);
+    }
+  }
+  return { urlRe, resourceTypes };
+}
+
+function matchesFilter(filter: UrlFilter, url: string, resourceType: string): boolean {
+  if (filter.resourceTypes.length > 0 && !filter.resourceTypes.includes(resourceType)) {
+    return false;
+  }
+  return !filter.urlRe || filter.urlRe.test(url);
+}
 
 export class NetworkCapture {
   private requests: CapturedRequest[] = [];
   private responses: CapturedResponse[] = [];
   private wsMessages: WebSocketMessage[] = [];
   private interceptRules: InterceptRule[] = [];
+  private recording: Recording | null = null;
+  private replay: Replay | null = null;
   private destroyed = false;
+  private bodies: NetworkBodyConfig | null;
+  private detector: SensitiveDataDetector | null;
+  private correlator: TraceCorrelator | null;
+  /** Responses holding a body, oldest first, for eviction */
+  private storedBodies: { response: CapturedResponse; size: number }[] = [];
+  private storedBodyBytes = 0;
+  private pendingBodies = new Set<Promise<void>>();
+  private readingBodies = new WeakSet<CapturedResponse>();
+  private graphqlErrorListeners: ((error: NetworkError) => void)[] = [];
 
-  constructor(private page: Page) {
+  constructor(
+    private page: Page,
+    options: NetworkCaptureOptions = {},
+  ) {
+    this.bodies = options.bodies?.capture ? options.bodies : null;
+    this.detector = options.detector ?? null;
+    this.correlator = options.correlator ?? null;
     this.setupListeners();
   }
 
+  /** Install the route hook before the first request when requests carry correlation IDs. */
+  async init(): Promise<void> {
+    if (this.correlator) await this.applyInterceptRules();
+  }
+
   private setupListeners(): void {
     this.page.on('request', (req: Request) => {
       if (this.destroyed) return;
+      this.detector?.observe(req.url(), 'request-url', urlLocation(req.url()));
+      const body = req.postData() ?? undefined;
+      const graphql = API_RESOURCE_TYPES.has(req.resourceType())
+        ? parseGraphqlRequest({ method: req.method(), url: req.url(), body })
+        : null;
       this.requests.push({
         id: nanoid(),
         url: req.url(),
         method: req.method(),
         headers: req.headers(),
-        body: req.postData() ?? undefined,
+        body,
         resourceType: req.resourceType(),
         timestamp: Date.now(),
+        ...(graphql ? { graphql, pageUrl: this.page.url() } : {}),
       });
     });
 
@@ -39,7 +167,7 @@ export class NetworkCapture {
         .reverse()
         .find((r) => r.url === req.url() && r.method === req.method());
 
-      this.responses.push({
+      const captured: CapturedResponse = {
         requestId: matchingReq?.id ?? 'unknown',
         url: res.url(),
         status: res.status(),
@@ -50,7 +178,22 @@ export class NetworkCapture {
           end: Date.now(),
           duration: matchingReq ? Date.now() - matchingReq.timestamp : 0,
         },
+      };
+      this.responses.push(captured);
+      const reading = this.readBody(res, req.resourceType(), captured, matchingReq?.graphql);
+      this.pendingBodies.add(reading);
+      this.readingBodies.add(captured);
+      void reading.finally(() => {
+        this.pendingBodies.delete(reading);
+        this.readingBodies.delete(captured);
       });
+
+      const rec = this.recording;
+      if (rec && matchesFilter(rec.filter, res.url(), req.resourceType())) {
+        const pending = this.recordResponse(rec, res, matchingReq?.timestamp ?? Date.now());
+        rec.pending.add(pending);
+        void pending.finally(() => rec.pending.delete(pending));
+      }
     });
 
     this.page.on('websocket', (ws: WebSocket) => {
@@ -79,14 +222,10 @@ export class NetworkCapture {
     });
   }
 
-  getRequests(filters?: {
-    urlPattern?: string;
-    method?: string;
-    resourceType?: string;
-    statusMin?: number;
-    statusMax?: number;
-    limit?: number;
-  }): { requests: CapturedRequest[]; responses: CapturedResponse[] } {
+  getRequests(filters?: BodyFilters): {
+    requests: CapturedRequest[];
+    responses: CapturedResponse[];
+  } {
     let reqs = [...this.requests];
     let resps = [...this.responses];
 
@@ -113,6 +252,24 @@ export class NetworkCapture {
       reqs = reqs.filter((r) => respReqIds.has(r.id));
     }
 
+    if (filters?.operationName || filters?.operationType) {
+      reqs = reqs.filter((r) =>
+        r.graphql?.some(
+          (op) =>
+            (!filters.operationName || op.operationName === filters.operationName) &&
+            (!filters.operationType || op.operationType === filters.operationType),
+        ),
+      );
+    }
+
+    if (filters?.bodyPattern) {
+      const re = new RegExp(filters.bodyPattern, 'i');
+      const bodyHits = new Set(
+        resps.filter((r) => r.body !== undefined && re.test(r.body)).map((r) => r.requestId),
+      );
+      reqs = reqs.filter((r) => (r.body !== undefined && re.test(r.body)) || bodyHits.has(r.id));
+    }
+
     const limit = filters?.limit ?? 100;
     reqs = reqs.slice(-limit);
     const reqIds = new Set(reqs.map((r) => r.id));
@@ -121,6 +278,30 @@ export class NetworkCapture {
     return { requests: reqs, responses: resps };
   }
 
+  /**
+   * Resolves once bodies of responses seen so far have been read, or after
+   * `timeout` ms, so a slow or endless response can't stall the caller.
+   */
+  async bodiesSettled(timeout = BODY_SETTLE_TIMEOUT): Promise<void> {
+    if (this.pendingBodies.size === 0) return;
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      Promise.all(this.pendingBodies),
+      new Promise((r) => (timer = setTimeout(r, timeout))),
+    ]);
+    clearTimeout(timer);
+  }
+
+  /** True while the response's body is still being read, e.g. past `bodiesSettled`'s timeout. */
+  isReadingBody(response: CapturedResponse): boolean {
+    return this.readingBodies.has(response);
+  }
+
+  /** Called for each 2xx/3xx GraphQL response whose body carries an `errors` array. */
+  onGraphqlErrors(listener: (error: NetworkError) => void): void {
+    this.graphqlErrorListeners.push(listener);
+  }
+
   getWebSocketMessages(urlPattern?: string, limit = 100): WebSocketMessage[] {
     let msgs = [...this.wsMessages];
     if (urlPattern) {
@@ -147,18 +328,243 @@ export class NetworkCapture {
 
   async clearInterceptRules(): Promise<void> {
     this.interceptRules = [];
-    await this.page.unroute('**/*').catch(() => {});
+    await this.applyInterceptRules();
   }
 
   getInterceptRules(): InterceptRule[] {
     return [...this.interceptRules];
   }
 
+  /** Reinstall rules from another page's capture, keeping their IDs. */
+  async restoreInterceptRules(rules: InterceptRule[]): Promise<void> {
+    this.interceptRules = [...rules];
+    await this.applyInterceptRules();
+  }
+
+  // ── Record / Replay ──────────────────────────────────────────────────────
+
+  /** Start collecting matching responses (with bodies) as HAR entries. */
+  startRecording(filter: RecordOptions): void {
+    if (this.recording) throw new Error('Already recording. Stop the current recording first.');
+    this.recording = { filter: compileFilter(filter), entries: [], pending: new Set() };
+  }
+
+  /** Stop recording and return the entries, once in-flight body reads finish. */
+  async stopRecording(): Promise<HarEntry[]> {
+    const rec = this.recording;
+    if (!rec) throw new Error('Not recording.');
+    this.recording = null;
+    await Promise.all(rec.pending);
+    return rec.entries.sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+  }
+
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Keep the body (within limits), check it for leaks and/or collect GraphQL
+   * errors, reading it at most once.
+   */
+  private async readBody(
+    res: Response,
+    resourceType: string,
+    captured: CapturedResponse,
+    operations: GraphqlOperation[] | undefined,
+  ): Promise<void> {
+    const headers = res.headers();
+    const contentType = (headers['content-type'] ?? '').toLowerCase();
+    if (STREAMING_CONTENT_TYPE.test(contentType)) return;
+    const store = this.bodies?.contentTypes.some((t) => contentType.includes(t.toLowerCase()));
+    const scan =
+      this.detector &&
+      SCANNED_BODY_TYPES.has(resourceType) &&
+      SCANNED_CONTENT_TYPE.test(contentType);
+    const graphql =
+      !!operations &&
+      contentType.includes('json') &&
+      !operations.some((op) => op.operationType === 'subscription');
+    if (!store && !scan && !graphql) return;
+    if (Number(headers['content-length'] ?? 0) > MAX_READ_BODY) return;
+
+    let buf: Buffer;
+    try {
+      buf = await res.body();
+    } catch {
+      // Redirects and aborted requests have no body
+      return;
+    }
+    if (this.destroyed || buf.length > MAX_READ_BODY) return;
+
+    const text = buf.toString('utf-8');
+    if (scan) {
+      const ignore = resourceType === 'document' ? PAGE_IGNORED_LEAKS : [];
+      this.detector?.observe(text, 'response-body', urlLocation(res.url()), undefined, ignore);
+    }
+    if (store) this.storeBody(captured, buf);
+    if (graphql) {
+      const errors = parseGraphqlErrors(text);
+      if (errors.length === 0) return;
+      captured.graphqlErrors = errors;
+      if (res.status() < 400) this.reportGraphqlErrors(res, operations, errors);
+    }
+  }
+
+  /** GraphQL servers report failures as a 200 with an `errors` array; surface those as network errors. */
+  private reportGraphqlErrors(
+    res: Response,
+    operations: GraphqlOperation[],
+    errors: string[],
+  ): void {
+    const label = operations.map(describeOperation).join(', ');
+    const error: NetworkError = {
+      url: res.url(),
+      method: res.request().method(),
+      status: res.status(),
+      statusText: `GraphQL errors in ${label}: ${errors.slice(0, 3).join('; ')}`,
+      timestamp: Date.now(),
+      graphql: {
+        ...(operations.length === 1 && operations[0].operationName
+          ? { operationName: operations[0].operationName }
+          : {}),
+        errors,
+      },
+    };
+    for (const listener of this.graphqlErrorListeners) listener(error);
+  }
+
+  private storeBody(captured: CapturedResponse, buf: Buffer): void {
+    const limits = this.bodies;
+    if (!limits) return;
+
+    const kept = buf.subarray(0, limits.maxSize);
+    captured.body = kept.toString('utf-8');
+    captured.bodySize = buf.length;
+    if (buf.length > kept.length) captured.bodyTruncated = true;
+
+    this.storedBodies.push({ response: captured, size: kept.length });
+    this.storedBodyBytes += kept.length;
+    while (this.storedBodyBytes > limits.maxTotalSize) {
+      const oldest = this.storedBodies.shift();
+      if (!oldest) break;
+      delete oldest.response.body;
+      oldest.response.bodyEvicted = true;
+      this.storedBodyBytes -= oldest.size;
+    }
+  }
+
+  private async recordResponse(rec: Recording, res: Response, startedAt: number): Promise<void> {
+    const req = res.request();
+    let body: Buffer | null = null;
+    try {
+      body = await res.body();
+    } catch {
+      // Redirects and aborted requests have no body
+    }
+
+    // Fixtures get committed and shared, so credentials and detected secrets are masked
+    const entry = createHarEntry({
+      method: req.method(),
+      url: res.url(),
+      requestHeaders: redactCredentialHeaders(req.headers()),
+      postData: this.redactBody(req.postData() ?? undefined),
+      status: res.status(),
+      statusText: res.statusText(),
+      responseHeaders: redactCredentialHeaders(res.headers()),
+      body,
+      startedAt,
+      duration: Date.now() - startedAt,
+    });
+    const { content } = entry.response;
+    if (content.text !== undefined && !content.encoding) {
+      content.text = this.redactBody(content.text);
+    }
+    rec.entries.push(entry);
+  }
+
+  /** Text body with detected secrets masked, when redaction is on. */
+  private redactBody<T extends string | undefined>(text: T): T {
+    return text !== undefined && this.detector?.redacting
+      ? (this.detector.redact(text) as T)
+      : text;
+  }
+
+  /**
+   * Answer matching requests from recorded entries. Intercept rules still run
+   * first; requests without a fixture go live, get a 404, or are aborted.
+   */
+  async startReplay(fixture: string, entries: HarEntry[], options: ReplayOptions): Promise<void> {
+    this.replay = {
+      options,
+      filter: compileFilter(options),
+      matcher: new FixtureMatcher(entries, options.match),
+      stats: { fixture, entryCount: entries.length, served: 0, fallbacks: 0, unmatched: [] },
+    };
+    await this.applyInterceptRules();
+  }
+
+  async stopReplay(): Promise<ReplayStats | null> {
+    const stats = this.getReplayStats();
+    this.replay = null;
+    await this.applyInterceptRules();
+    return stats;
+  }
+
+  getReplayStats(): ReplayStats | null {
+    if (!this.replay) return null;
+    const { stats } = this.replay;
+    return { ...stats, unmatched: [...stats.unmatched] };
+  }
+
+  private async replayRequest(replay: Replay, route: Route): Promise<void> {
+    const req = route.request();
+    // Recorded bodies were redacted, so match against the redacted live body
+    const body = this.redactBody(req.postData() ?? undefined);
+    const entry = replay.matcher.match(req.method(), req.url(), body);
+    if (entry) {
+      replay.stats.served++;
+      await route.fulfill(fulfillFromEntry(entry));
+      return;
+    }
+
+    replay.stats.fallbacks++;
+    if (replay.stats.unmatched.length < MAX_UNMATCHED) {
+      replay.stats.unmatched.push({ method: req.method(), url: req.url() });
+    }
+
+    switch (replay.options.fallback) {
+      case 'not-found':
+        await route.fulfill({
+          status: 404,
+          contentType: 'application/json',
+          body: JSON.stringify({ error: 'No recorded fixture for this request' }),
+        });
+        return;
+      case 'abort':
+        await route.abort('failed');
+        return;
+      default:
+        await this.continueRoute(route);
+    }
+  }
+
+  /** Send the request on, with a correlation header when it applies. */
+  private async continueRoute(route: Route): Promise<void> {
+    const req = route.request();
+    const correlator = this.correlator;
+    if (!correlator?.applies(req.url(), req.resourceType(), this.page.url())) {
+      await route.continue();
+      return;
+    }
+    const { name, value } = correlator.next(req.resourceType());
+    await route.continue({ headers: { ...req.headers(), [name]: value } });
+  }
+
   private async applyInterceptRules(): Promise<void> {
     // Remove all existing routes and re-apply
     await this.page.unroute('**/*').catch(() => {});
 
-    if (this.interceptRules.length === 0) return;
+    if (this.interceptRules.length === 0 && !this.replay && !this.correlator) return;
 
     await this.page.route('**/*', async (route) => {
       const url = route.request().url();
@@ -189,7 +595,14 @@ export class NetworkCapture {
         }
       }
 
-      await route.continue();
+      const replay = this.replay;
+      const req = route.request();
+      if (replay && matchesFilter(replay.filter, url, req.resourceType())) {
+        await this.replayRequest(replay, route);
+        return;
+      }
+
+      await this.continueRoute(route);
     });
   }
 
@@ -197,8 +610,28 @@ export class NetworkCapture {
     this.destroyed = true;
     this.requests = [];
     this.responses = [];
+    this.storedBodies = [];
+    this.storedBodyBytes = 0;
     this.wsMessages = [];
     this.interceptRules = [];
+    this.recording = null;
+    this.replay = null;
+    this.graphqlErrorListeners = [];
     this.page.unroute('**/*').catch(() => {});
   }
 }
+
+/**
+ * Body text for tool output: JSON is pretty-printed, then everything is cut
+ * to `maxLength` characters with a note saying how much was left out.
+ */
+export function formatBody(body: string, maxLength: number): string {
+  let text = body;
+  try {
+    text = JSON.stringify(JSON.parse(body), null, 2);
+  } catch {
+    // Not JSON (or truncated JSON); show as-is
+  }
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength)}\n… [${text.length - maxLength} more characters]`;
+}
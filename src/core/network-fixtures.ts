@@ -0,0 +1,179 @@
+import type { HarEntry, HarFile, HarHeader, ReplayMatchOptions } from '../types/index.js';
+
+/** Responses larger than this are recorded without a body. */
+export const MAX_FIXTURE_BODY_BYTES = 5 * 1024 * 1024;
+
+const TEXT_MIME =
+  /^(text\/|application\/(json|[\w.-]+\+json|javascript|xml|[\w.-]+\+xml|x-www-form-urlencoded|graphql))/i;
+
+// Bodies are stored decoded, so the original encoding and length no longer apply
+const DROPPED_HEADERS = new Set([
+  'content-encoding',
+  'content-length',
+  'transfer-encoding',
+  'connection',
+  'keep-alive',
+]);
+
+export function toHarHeaders(headers: Record<string, string>): HarHeader[] {
+  return Object.entries(headers)
+    .filter(([name]) => !DROPPED_HEADERS.has(name.toLowerCase()))
+    .map(([name, value]) => ({ name, value }));
+}
+
+export function fromHarHeaders(headers: HarHeader[]): Record<string, string> {
+  return Object.fromEntries(headers.map((h) => [h.name, h.value]));
+}
+
+export interface RecordedExchange {
+  method: string;
+  url: string;
+  requestHeaders: Record<string, string>;
+  postData?: string;
+  status: number;
+  statusText: string;
+  responseHeaders: Record<string, string>;
+  body: Buffer | null;
+  startedAt: number;
+  duration: number;
+}
+
+export function createHarEntry(x: RecordedExchange): HarEntry {
+  const header = (headers: Record<string, string>, name: string) =>
+    Object.entries(headers).find(([k]) => k.toLowerCase() === name)?.[1];
+  const mimeType = header(x.responseHeaders, 'content-type') ?? 'application/octet-stream';
+
+  const content: HarEntry['response']['content'] = { size: x.body?.length ?? 0, mimeType };
+  if (x.body && x.body.length <= MAX_FIXTURE_BODY_BYTES) {
+    if (TEXT_MIME.test(mimeType)) {
+      content.text = x.body.toString('utf-8');
+    } else {
+      content.text = x.body.toString('base64');
+      content.encoding = 'base64';
+    }
+  }
+
+  return {
+    startedDateTime: new Date(x.startedAt).toISOString(),
+    time: x.duration,
+    request: {
+      method: x.method,
+      url: x.url,
+      headers: toHarHeaders(x.requestHeaders),
+      ...(x.postData !== undefined
+        ? {
+            postData: {
+              mimeType: header(x.requestHeaders, 'content-type') ?? 'application/octet-stream',
+              text: x.postData,
+            },
+          }
+        : {}),
+    },
+    response: {
+      status: x.status,
+      statusText: x.statusText,
+      headers: toHarHeaders(x.responseHeaders),
+      content,
+    },
+  };
+}
+
+export function createHar(entries: HarEntry[], version: string): HarFile {
+  return { log: { version: '1.2', creator: { name: 'f4tl', version }, entries } };
+}
+
+export function parseHar(raw: string): HarEntry[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('Fixture is not valid JSON');
+  }
+  const entries = (parsed as Partial<HarFile> | null)?.log?.entries;
+  if (!Array.isArray(entries)) throw new Error('Fixture is not a HAR file (missing log.entries)');
+  return entries;
+}
+
+function normalizeUrl(url: string, query: boolean): string {
+  try {
+    const u = new URL(url);
+    if (!query) return `${u.origin}${u.pathname}`;
+    u.searchParams.sort();
+    return `${u.origin}${u.pathname}${u.search}`;
+  } catch {
+    return url;
+  }
+}
+
+// JSON bodies compare by value so key order and whitespace do not matter
+function normalizeBody(body: string | undefined): string {
+  if (!body) return '';
+  try {
+    return JSON.stringify(JSON.parse(body));
+  } catch {
+    return body;
+  }
+}
+
+export function requestKey(
+  method: string,
+  url: string,
+  body: string | undefined,
+  options: ReplayMatchOptions,
+): string {
+  return [
+    options.method ? method.toUpperCase() : '*',
+    normalizeUrl(url, options.query),
+    options.body ? normalizeBody(body) : '',
+  ].join('\n');
+}
+
+/**
+ * Looks up recorded responses for live requests. Entries that share a key are
+ * served in recorded order and the last one repeats, so a list that changes
+ * after a POST replays the same way it was recorded.
+ */
+export class FixtureMatcher {
+  private entries = new Map<string, HarEntry[]>();
+  private hits = new Map<string, number>();
+
+  constructor(
+    entries: HarEntry[],
+    private options: ReplayMatchOptions,
+  ) {
+    for (const entry of entries) {
+      const key = requestKey(
+        entry.request.method,
+        entry.request.url,
+        entry.request.postData?.text,
+        options,
+      );
+      this.entries.set(key, [...(this.entries.get(key) ?? []), entry]);
+    }
+  }
+
+  match(method: string, url: string, body?: string): HarEntry | null {
+    const key = requestKey(method, url, body, this.options);
+    const candidates = this.entries.get(key);
+    if (!candidates) return null;
+
+    const hit = this.hits.get(key) ?? 0;
+    this.hits.set(key, hit + 1);
+    return candidates[Math.min(hit, candidates.length - 1)];
+  }
+}
+
+export function fulfillFromEntry(entry: HarEntry): {
+  status: number;
+  headers: Record<string, string>;
+  body: string | Buffer;
+} {
+  const { status, headers, content } = entry.response;
+  const body =
+    content.encoding === 'base64'
+      ? Buffer.from(content.text ?? '', 'base64')
+      : (content.text ?? '');
+  // A masked Set-Cookie would plant a bogus cookie, so masked headers are not replayed
+  const replayed = headers.filter((h) => !h.value.startsWith('[REDACTED:'));
+  return { status, headers: fromHarHeaders(replayed), body };
+}
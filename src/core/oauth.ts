@@ -0,0 +1,137 @@
+import { createHash, randomBytes } from 'node:crypto';
+import type { AuthOauthConfig, OAuthTokens } from '../types/index.js';
+
+export interface OAuthClient {
+  id: string;
+  secret?: string;
+}
+
+// ── PKCE ─────────────────────────────────────────────────────────────────────
+
+export function pkceChallenge(verifier: string): string {
+  return createHash('sha256').update(verifier).digest('base64url');
+}
+
+export function createPkcePair(): { verifier: string; challenge: string } {
+  const verifier = randomBytes(32).toString('base64url');
+  return { verifier, challenge: pkceChallenge(verifier) };
+}
+
+// ── Authorization request ────────────────────────────────────────────────────
+
+export function buildAuthorizeUrl(
+  oauth: AuthOauthConfig,
+  clientId: string,
+  params: { state: string; challenge?: string },
+): string {
+  const url = new URL(oauth.authUrl);
+  url.searchParams.set('client_id', clientId);
+  url.searchParams.set('redirect_uri', oauth.callbackUrl);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('state', params.state);
+  if (oauth.scope) url.searchParams.set('scope', oauth.scope);
+  if (params.challenge) {
+    url.searchParams.set('code_challenge', params.challenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+  }
+  return url.toString();
+}
+
+/** Whether `url` is the configured callback, ignoring its query string. */
+export function isCallbackUrl(url: string, callbackUrl: string): boolean {
+  try {
+    const a = new URL(url);
+    const b = new URL(callbackUrl);
+    return a.origin === b.origin && a.pathname === b.pathname;
+  } catch {
+    return false;
+  }
+}
+
+export function parseCallback(url: string, expectedState: string): { code: string } {
+  const params = new URL(url).searchParams;
+  const error = params.get('error');
+  if (error) {
+    const description = params.get('error_description');
+    throw new Error(`OAuth provider returned "${error}"${description ? `: ${description}` : ''}`);
+  }
+  if (params.get('state') !== expectedState) {
+    throw new Error('OAuth callback state does not match the authorization request');
+  }
+  const code = params.get('code');
+  if (!code) throw new Error('OAuth callback is missing the authorization code');
+  return { code };
+}
+
+// ── Token endpoint ───────────────────────────────────────────────────────────
+
+async function requestTokens(
+  tokenUrl: string,
+  form: Record<string, string>,
+  now = Date.now(),
+): Promise<OAuthTokens> {
+  const res = await fetch(tokenUrl, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+    },
+    body: new URLSearchParams(form).toString(),
+  });
+
+  const text = await res.text();
+  let body: Record<string, unknown> = {};
+  try {
+    body = JSON.parse(text) as Record<string, unknown>;
+  } catch {
+    // Reported below with the raw text
+  }
+
+  if (!res.ok || typeof body.access_token !== 'string') {
+    const reason = body.error_description ?? body.error ?? (text.slice(0, 200) || res.statusText);
+    throw new Error(`Token endpoint returned ${res.status}: ${String(reason)}`);
+  }
+
+  return {
+    accessToken: body.access_token,
+    ...(typeof body.refresh_token === 'string' ? { refreshToken: body.refresh_token } : {}),
+    ...(typeof body.id_token === 'string' ? { idToken: body.id_token } : {}),
+    ...(typeof body.expires_in === 'number' ? { expiresAt: now + body.expires_in * 1000 } : {}),
+  };
+}
+
+function clientParams(client: OAuthClient): Record<string, string> {
+  return client.secret
+    ? { client_id: client.id, client_secret: client.secret }
+    : { client_id: client.id };
+}
+
+export function exchangeCode(
+  tokenUrl: string,
+  oauth: AuthOauthConfig,
+  client: OAuthClient,
+  code: string,
+  verifier?: string,
+): Promise<OAuthTokens> {
+  return requestTokens(tokenUrl, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: oauth.callbackUrl,
+    ...clientParams(client),
+    ...(verifier ? { code_verifier: verifier } : {}),
+  });
+}
+
+export async function refreshTokens(
+  tokenUrl: string,
+  client: OAuthClient,
+  refreshToken: string,
+): Promise<OAuthTokens> {
+  const tokens = await requestTokens(tokenUrl, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken,
+    ...clientParams(client),
+  });
+  // Providers that don't rotate refresh tokens leave it out of the response
+  return { refreshToken, ...tokens };
+}
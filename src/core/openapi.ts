@@ -0,0 +1,431 @@
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import type { CapturedRequest, CapturedResponse } from '../types/index.js';
+
+/** The parts of an OpenAPI 3.x document the contract checks read. */
+export interface OpenApiDocument {
+  openapi: string;
+  servers?: { url: string }[];
+  paths: Record<string, Record<string, unknown>>;
+  components?: Record<string, unknown>;
+}
+
+export type JsonSchema = Record<string, unknown>;
+
+export type ApiViolationKind =
+  | 'undocumented-path'
+  | 'undocumented-method'
+  | 'undocumented-status'
+  | 'missing-parameter'
+  | 'missing-body'
+  | 'invalid-json'
+  | 'missing-field'
+  | 'unexpected-field'
+  | 'wrong-type'
+  | 'invalid-enum'
+  | 'no-matching-schema'
+  | 'ambiguous-schema';
+
+export interface ApiViolation {
+  kind: ApiViolationKind;
+  direction: 'request' | 'response';
+  /** `response.items[0].email`, or `request.query.page` */
+  path: string;
+  message: string;
+}
+
+export interface ApiCheck {
+  method: string;
+  url: string;
+  status: number;
+  /** `GET /users/{id}`, or the raw method and path when undocumented */
+  operation: string;
+  violations: ApiViolation[];
+  /** Response body was not captured in full, so its schema was not checked */
+  bodySkipped?: boolean;
+}
+
+export interface ContractOptions {
+  basePath?: string;
+  validateRequests?: boolean;
+}
+
+interface Operation {
+  parameters?: unknown[];
+  requestBody?: unknown;
+  responses?: Record<string, unknown>;
+}
+
+interface CompiledPath {
+  template: string;
+  regex: RegExp;
+  params: number;
+  item: Record<string, unknown>;
+}
+
+const METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const MAX_VIOLATIONS = 20;
+
+/** Read an OpenAPI 3 document from a `.json` file, or YAML for any other extension. */
+export async function loadOpenApiSpec(path: string): Promise<OpenApiDocument> {
+  let doc: unknown;
+  try {
+    const text = await readFile(path, 'utf-8');
+    doc = extname(path).toLowerCase() === '.json' ? JSON.parse(text) : parseYaml(text);
+  } catch (err) {
+    throw new Error(`Could not read OpenAPI spec ${path}: ${(err as Error).message}`);
+  }
+  const spec = doc as Partial<OpenApiDocument> | null;
+  if (!spec || typeof spec.openapi !== 'string' || !spec.openapi.startsWith('3')) {
+    throw new Error(`${path} is not an OpenAPI 3 document (missing "openapi": "3.x").`);
+  }
+  return { ...spec, paths: spec.paths ?? {} } as OpenApiDocument;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value;
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? String(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
+
+/** A `servers[0].url` of `https://api.test/v1` (or just `/v1`) gives a base path of `/v1`. */
+function serverBasePath(doc: OpenApiDocument): string {
+  const url = doc.servers?.[0]?.url;
+  if (!url) return '';
+  try {
+    return new URL(url, 'http://placeholder').pathname.replace(/\/$/, '');
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Checks captured requests and responses against an OpenAPI 3 document:
+ * documented paths, methods and status codes, required query parameters and
+ * request bodies, and response bodies against their JSON schemas (types,
+ * required and unknown fields, enums, composition and `$ref`s).
+ */
+export class ApiContract {
+  private paths: CompiledPath[];
+  private basePath: string;
+
+  constructor(
+    private doc: OpenApiDocument,
+    private options: ContractOptions = {},
+  ) {
+    this.basePath = (options.basePath ?? serverBasePath(doc)).replace(/\/$/, '');
+    this.paths = Object.entries(doc.paths)
+      .map(([template, item]) => {
+        const names = template.match(/\{[^}]+\}/g) ?? [];
+        const source = template
+          .split(/\{[^}]+\}/)
+          .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+          .join('[^/]+');
+        return { template, regex: new RegExp(`^${source}/?$`), params: names.length, item };
+      })
+      // Literal paths win over templated ones: /users/me before /users/{id}
+      .sort((a, b) => a.params - b.params);
+  }
+
+  /** The spec path for a request path, with the base path removed; null when outside it. */
+  private specPath(url: string): string | null {
+    let pathname: string;
+    try {
+      pathname = new URL(url).pathname;
+    } catch {
+      return null;
+    }
+    if (!this.basePath) return pathname;
+    if (pathname !== this.basePath && !pathname.startsWith(`${this.basePath}/`)) return null;
+    return pathname.slice(this.basePath.length) || '/';
+  }
+
+  /**
+   * Check one exchange. Returns null for requests that are not API calls:
+   * outside the base path, or matching no spec path when there is no base
+   * path to say otherwise.
+   */
+  check(request: CapturedRequest, response: CapturedResponse): ApiCheck | null {
+    const method = request.method.toUpperCase();
+    const path = this.specPath(request.url);
+    if (path === null) return null;
+    const result: ApiCheck = {
+      method,
+      url: request.url,
+      status: response.status,
+      operation: `${method} ${path}`,
+      violations: [],
+    };
+
+    const matched = this.paths.find((p) => p.regex.test(path));
+    if (!matched) {
+      if (!this.basePath) return null;
+      result.violations.push({
+        kind: 'undocumented-path',
+        direction: 'request',
+        path: 'request',
+        message: `${path} is not in the spec`,
+      });
+      return result;
+    }
+
+    result.operation = `${method} ${matched.template}`;
+    const operation = matched.item[method.toLowerCase()];
+    if (!isObject(operation) || !METHODS.includes(method.toLowerCase())) {
+      result.violations.push({
+        kind: 'undocumented-method',
+        direction: 'request',
+        path: 'request',
+        message: `${method} is not documented for ${matched.template}`,
+      });
+      return result;
+    }
+
+    const op = operation as Operation;
+    if (this.options.validateRequests ?? true) {
+      this.checkRequest(op, matched.item, request, result.violations);
+    }
+    result.bodySkipped = this.checkResponse(op, response, result.violations);
+    result.violations = result.violations.slice(0, MAX_VIOLATIONS);
+    return result;
+  }
+
+  private checkRequest(
+    op: Operation,
+    item: Record<string, unknown>,
+    request: CapturedRequest,
+    out: ApiViolation[],
+  ): void {
+    const query = new URL(request.url).searchParams;
+    const params = [...this.list(item.parameters), ...this.list(op.parameters)];
+    for (const param of params) {
+      if (param.in !== 'query' || param.required !== true || typeof param.name !== 'string') {
+        continue;
+      }
+      if (!query.has(param.name)) {
+        out.push({
+          kind: 'missing-parameter',
+          direction: 'request',
+          path: `request.query.${param.name}`,
+          message: `Required query parameter "${param.name}" was not sent`,
+        });
+      }
+    }
+
+    const body = this.resolve(op.requestBody);
+    if (!isObject(body)) return;
+    if (request.body === undefined || request.body === '') {
+      if (body.required === true) {
+        out.push({
+          kind: 'missing-body',
+          direction: 'request',
+          path: 'request.body',
+          message: 'Required request body was not sent',
+        });
+      }
+      return;
+    }
+
+    const schema = this.mediaSchema(body.content, request.headers['content-type']);
+    if (!schema) return;
+    const value = this.parseJson(request.body, 'request', out);
+    if (value !== undefined) this.validate(schema, value, 'request.body', 'request', out);
+  }
+
+  /** Returns true when the body schema could not be checked. */
+  private checkResponse(op: Operation, response: CapturedResponse, out: ApiViolation[]): boolean {
+    const responses = op.responses ?? {};
+    const status = String(response.status);
+    const documented =
+      responses[status] ?? responses[`${status[0]}XX`] ?? responses[`${status[0]}xx`];
+    const spec = this.resolve(documented ?? responses.default);
+    if (!isObject(spec)) {
+      out.push({
+        kind: 'undocumented-status',
+        direction: 'response',
+        path: 'response.status',
+        message: `Status ${status} is not documented (expected ${Object.keys(responses).join(', ') || 'none'})`,
+      });
+      return false;
+    }
+
+    const schema = this.mediaSchema(spec.content, response.headers['content-type']);
+    if (!schema) return false;
+    if (response.body === undefined || response.bodyTruncated) return true;
+    if (response.body === '') return false;
+
+    const value = this.parseJson(response.body, 'response', out);
+    if (value !== undefined) this.validate(schema, value, 'response', 'response', out);
+    return false;
+  }
+
+  /** JSON schema for the content type actually sent, if the spec describes it as JSON. */
+  private mediaSchema(content: unknown, contentType = ''): JsonSchema | null {
+    if (!isObject(content)) return null;
+    const sent = contentType.split(';')[0]?.trim().toLowerCase() ?? '';
+    if (sent && !/json/.test(sent)) return null;
+
+    const key =
+      Object.keys(content).find((k) => k.toLowerCase() === sent) ??
+      Object.keys(content).find((k) => /json/i.test(k)) ??
+      Object.keys(content).find((k) => k === '*/*');
+    const media = key ? this.resolve(content[key]) : undefined;
+    const schema = isObject(media) ? this.resolve(media.schema) : undefined;
+    return isObject(schema) ? schema : null;
+  }
+
+  private parseJson(
+    text: string,
+    direction: ApiViolation['direction'],
+    out: ApiViolation[],
+  ): unknown {
+    try {
+      return JSON.parse(text) as unknown;
+    } catch {
+      out.push({
+        kind: 'invalid-json',
+        direction,
+        path: `${direction}.body`,
+        message: 'Body is not valid JSON',
+      });
+      return undefined;
+    }
+  }
+
+  private list(value: unknown): Record<string, unknown>[] {
+    return Array.isArray(value) ? value.map((v) => this.resolve(v)).filter(isObject) : [];
+  }
+
+  /** Follow local `$ref`s (`#/components/schemas/User`) until a plain object is reached. */
+  private resolve(value: unknown, depth = 0): unknown {
+    if (!isObject(value) || typeof value.$ref !== 'string' || depth > 20) return value;
+    const ref = value.$ref;
+    if (!ref.startsWith('#/')) return {};
+    let target: unknown = this.doc;
+    for (const part of ref.slice(2).split('/')) {
+      const key = part.replace(/~1/g, '/').replace(/~0/g, '~');
+      target = isObject(target) ? target[key] : undefined;
+    }
+    return this.resolve(target, depth + 1);
+  }
+
+  /** Validate `value` against `schema`, appending violations. Returns whether it passed. */
+  validate(
+    rawSchema: unknown,
+    value: unknown,
+    path: string,
+    direction: ApiViolation['direction'],
+    out: ApiViolation[],
+  ): boolean {
+    const schema = this.resolve(rawSchema);
+    if (!isObject(schema) || out.length >= MAX_VIOLATIONS) return true;
+    const before = out.length;
+
+    if (Array.isArray(schema.allOf)) {
+      for (const part of schema.allOf) this.validate(part, value, path, direction, out);
+    }
+    for (const key of ['oneOf', 'anyOf'] as const) {
+      const options = schema[key];
+      if (!Array.isArray(options)) continue;
+      const matches = options.filter((option) =>
+        this.validate(option, value, path, direction, []),
+      ).length;
+      if (matches === 0) {
+        out.push({
+          kind: 'no-matching-schema',
+          direction,
+          path,
+          message: `${preview(value)} matches none of the ${key} schemas`,
+        });
+      } else if (key === 'oneOf' && matches > 1) {
+        out.push({
+          kind: 'ambiguous-schema',
+          direction,
+          path,
+          message: `${preview(value)} matches ${matches} of the oneOf schemas, expected exactly one`,
+        });
+      }
+    }
+
+    const actual = typeOf(value);
+    const types = Array.isArray(schema.type)
+      ? (schema.type as string[])
+      : typeof schema.type === 'string'
+        ? [schema.type]
+        : [];
+    const nullable = schema.nullable === true || types.includes('null');
+    if (value === null && nullable) return out.length === before;
+
+    const typeOk =
+      types.length === 0 ||
+      types.includes(actual) ||
+      (actual === 'integer' && types.includes('number'));
+    if (!typeOk) {
+      out.push({
+        kind: 'wrong-type',
+        direction,
+        path,
+        message: `Expected ${types.join(' or ')}, got ${actual} ${preview(value)}`,
+      });
+      return false;
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((e) => e === value)) {
+      out.push({
+        kind: 'invalid-enum',
+        direction,
+        path,
+        message: `${preview(value)} is not one of ${schema.enum.map((e) => preview(e)).join(', ')}`,
+      });
+    }
+
+    if (isObject(value)) {
+      const properties = isObject(schema.properties) ? schema.properties : {};
+      const required = Array.isArray(schema.required) ? (schema.required as string[]) : [];
+      for (const name of required) {
+        if (!(name in value)) {
+          out.push({
+            kind: 'missing-field',
+            direction,
+            path: `${path}.${name}`,
+            message: `Required field "${name}" is missing`,
+          });
+        }
+      }
+      for (const [name, child] of Object.entries(value)) {
+        const childPath = `${path}.${name}`;
+        if (name in properties) {
+          this.validate(properties[name], child, childPath, direction, out);
+        } else if (schema.additionalProperties === false) {
+          out.push({
+            kind: 'unexpected-field',
+            direction,
+            path: childPath,
+            message: `Field "${name}" is not in the schema`,
+          });
+        } else if (isObject(schema.additionalProperties)) {
+          this.validate(schema.additionalProperties, child, childPath, direction, out);
+        }
+      }
+    }
+
+    if (Array.isArray(value) && schema.items !== undefined) {
+      value.forEach((item, i) =>
+        this.validate(schema.items, item, `${path}[${i}]`, direction, out),
+      );
+    }
+
+    return out.length === before;
+  }
+}
@@ -0,0 +1,264 @@
+import type { Page } from 'playwright';
+import type {
+  PerfBudget,
+  PerfBudgetViolation,
+  PerfMetrics,
+  ResourceTiming,
+} from '../types/index.js';
+
+/**
+ * Installed on every browser context. Long tasks and interaction timings are
+ * not reliably buffered by the browser, so they are observed from page start.
+ */
+export const PERF_INIT_SCRIPT = `(() => {
+  if (globalThis.__f4tlPerf || typeof PerformanceObserver === 'undefined') return;
+  const perf = { inp: undefined, longTasks: { count: 0, totalTime: 0, maxDuration: 0 } };
+  globalThis.__f4tlPerf = perf;
+  const observe = (type, onEntry, opts) => {
+    try {
+      new PerformanceObserver((list) => list.getEntries().forEach(onEntry))
+        .observe({ type, buffered: true, ...opts });
+    } catch {}
+  };
+  observe('longtask', (e) => {
+    perf.longTasks.count++;
+    perf.longTasks.totalTime += e.duration;
+    perf.longTasks.maxDuration = Math.max(perf.longTasks.maxDuration, e.duration);
+  });
+  observe('event', (e) => {
+    if (e.interactionId) perf.inp = Math.max(perf.inp ?? 0, e.duration);
+  }, { durationThreshold: 16 });
+})();`;
+
+// Runs in the page; LCP and layout shifts are buffered, so takeRecords() returns them synchronously
+const COLLECT_SCRIPT = `(() => {
+  const buffered = (type) => {
+    try {
+      const po = new PerformanceObserver(() => {});
+      po.observe({ type, buffered: true });
+      const entries = po.takeRecords();
+      po.disconnect();
+      return entries;
+    } catch {
+      return [];
+    }
+  };
+  const nav = performance.getEntriesByType('navigation')[0];
+  const fcp = performance.getEntriesByName('first-contentful-paint')[0];
+  const lcp = buffered('largest-contentful-paint').pop();
+  const shifts = buffered('layout-shift')
+    .filter((e) => !e.hadRecentInput)
+    .map((e) => ({ startTime: e.startTime, value: e.value }));
+  const state = globalThis.__f4tlPerf;
+  return {
+    url: location.href,
+    ttfb: nav ? nav.responseStart : undefined,
+    fcp: fcp ? fcp.startTime : undefined,
+    lcp: lcp ? lcp.startTime : undefined,
+    shifts,
+    inp: state ? state.inp : undefined,
+    longTasks: state ? state.longTasks : { count: 0, totalTime: 0, maxDuration: 0 },
+    resources: performance.getEntriesByType('resource').map((r) => ({
+      url: r.name,
+      type: r.initiatorType,
+      duration: r.duration,
+      transferBytes: r.transferSize,
+    })),
+  };
+})()`;
+
+interface RawPerf {
+  url: string;
+  ttfb?: number;
+  fcp?: number;
+  lcp?: number;
+  shifts: { startTime: number; value: number }[];
+  inp?: number;
+  longTasks: PerfMetrics['longTasks'];
+  resources: ResourceTiming[];
+}
+
+/** CLS as the largest session window: shifts < 1s apart, window capped at 5s. */
+export function cumulativeLayoutShift(shifts: { startTime: number; value: number }[]): number {
+  let max = 0;
+  let windowValue = 0;
+  let windowStart = 0;
+  let last = -Infinity;
+
+  for (const shift of shifts) {
+    if (shift.startTime - last < 1000 && shift.startTime - windowStart < 5000) {
+      windowValue += shift.value;
+    } else {
+      windowValue = shift.value;
+      windowStart = shift.startTime;
+    }
+    last = shift.startTime;
+    max = Math.max(max, windowValue);
+  }
+  return max;
+}
+
+export function summarizeResources(resources: ResourceTiming[]): PerfMetrics['resources'] {
+  const byType: PerfMetrics['resources']['byType'] = {};
+  let transferBytes = 0;
+
+  for (const r of resources) {
+    const entry = (byType[r.type] ??= { count: 0, transferBytes: 0 });
+    entry.count++;
+    entry.transferBytes += r.transferBytes;
+    transferBytes += r.transferBytes;
+  }
+
+  const slowest = [...resources]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, 5)
+    .map((r) => ({ ...r, duration: Math.round(r.duration) }));
+
+  return { count: resources.length, transferBytes, byType, slowest };
+}
+
+const round = (n: number | undefined, digits = 0): number | undefined =>
+  n === undefined ? undefined : Number(n.toFixed(digits));
+
+/** Gather Web Vitals, long tasks, JS heap (via CDP) and resource timing for the current page. */
+export async function collectPerfMetrics(page: Page): Promise<PerfMetrics> {
+  const raw = (await page.evaluate(COLLECT_SCRIPT)) as RawPerf;
+
+  let jsHeap: PerfMetrics['jsHeap'];
+  try {
+    const client = await page.context().newCDPSession(page);
+    const { usedSize, totalSize } = await client.send('Runtime.getHeapUsage');
+    jsHeap = { usedBytes: usedSize, totalBytes: totalSize };
+    await client.detach();
+  } catch {
+    // CDP is Chromium-only — continue without heap numbers
+  }
+
+  return {
+    url: raw.url,
+    vitals: {
+      lcp: round(raw.lcp),
+      fcp: round(raw.fcp),
+      cls: round(cumulativeLayoutShift(raw.shifts), 4),
+      inp: round(raw.inp),
+      ttfb: round(raw.ttfb),
+    },
+    longTasks: {
+      count: raw.longTasks.count,
+      totalTime: Math.round(raw.longTasks.totalTime),
+      maxDuration: Math.round(raw.longTasks.maxDuration),
+    },
+    ...(jsHeap ? { jsHeap } : {}),
+    resources: summarizeResources(raw.resources),
+  };
+}
+
+export function urlPath(url: string): string | null {
+  try {
+    return new URL(url).pathname;
+  } catch {
+    return null;
+  }
+}
+
+function pathMatches(pattern: string, pathname: string): boolean {
+  const regex = new RegExp(
+    `^${pattern
+      .split('*')
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')}$`,
+  );
+  return regex.test(pathname);
+}
+
+function metricValue(
+  metrics: PerfMetrics,
+  metric: PerfBudgetViolation['metric'],
+): number | undefined {
+  switch (metric) {
+    case 'longTaskTime':
+      return metrics.longTasks.totalTime;
+    case 'jsHeapMb':
+      return metrics.jsHeap && Number((metrics.jsHeap.usedBytes / 1024 / 1024).toFixed(1));
+    case 'transferKb':
+      return Math.round(metrics.resources.transferBytes / 1024);
+    default:
+      return metrics.vitals[metric];
+  }
+}
+
+const BUDGET_METRICS: PerfBudgetViolation['metric'][] = [
+  'lcp',
+  'fcp',
+  'cls',
+  'inp',
+  'ttfb',
+  'longTaskTime',
+  'jsHeapMb',
+  'transferKb',
+];
+
+export function checkPerfBudgets(
+  metrics: PerfMetrics,
+  budgets: PerfBudget[],
+): PerfBudgetViolation[] {
+  const pathname = urlPath(metrics.url);
+  if (pathname === null) return [];
+
+  const violations: PerfBudgetViolation[] = [];
+  for (const budget of budgets) {
+    if (!pathMatches(budget.path, pathname)) continue;
+    for (const metric of BUDGET_METRICS) {
+      const limit = budget[metric];
+      const value = metricValue(metrics, metric);
+      if (limit !== undefined && value !== undefined && value > limit) {
+        violations.push({ metric, value, budget: limit, path: budget.path });
+      }
+    }
+  }
+  return violations;
+}
+
+const METRIC_LABELS: Record<PerfBudgetViolation['metric'], [label: string, unit: string]> = {
+  lcp: ['LCP', 'ms'],
+  fcp: ['FCP', 'ms'],
+  cls: ['CLS', ''],
+  inp: ['INP', 'ms'],
+  ttfb: ['TTFB', 'ms'],
+  longTaskTime: ['Long task time', 'ms'],
+  jsHeapMb: ['JS heap', ' MB'],
+  transferKb: ['Transfer size', ' KB'],
+};
+
+export function metricLabel(metric: PerfBudgetViolation['metric']): string {
+  return METRIC_LABELS[metric][0];
+}
+
+export function formatBudgetViolation(v: PerfBudgetViolation): string {
+  const [label, unit] = METRIC_LABELS[v.metric];
+  return `${label} ${v.value}${unit} exceeds the ${v.budget}${unit} budget`;
+}
+
+/**
+ * Reports each budget violation once per URL path and metric, so repeated
+ * steps on a slow page do not flood the report with duplicate findings.
+ */
+export class PerfBudgetTracker {
+  private reported = new Set<string>();
+
+  constructor(private budgets: PerfBudget[]) {}
+
+  check(metrics: PerfMetrics): PerfBudgetViolation[] {
+    const pathname = urlPath(metrics.url) ?? metrics.url;
+    return checkPerfBudgets(metrics, this.budgets).filter((v) => {
+      const key = `${pathname}\n${v.metric}`;
+      if (this.reported.has(key)) return false;
+      this.reported.add(key);
+      return true;
+    });
+  }
+
+  reset(): void {
+    this.reported.clear();
+  }
+}
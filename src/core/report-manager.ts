@@ -1,12 +1,14 @@
 import { EventEmitter } from 'node:events';
 import { mkdir, writeFile } from 'node:fs/promises';
-import { join } from 'node:path';
+import { dirname, join, relative, sep } from 'node:path';
 import { nanoid } from 'nanoid';
 import type {
   Bug,
   BugSeverity,
+  ExportedTest,
   Finding,
   FindingCategory,
+  JourneyReportEntry,
   ReportConfig,
   ReportData,
   ReportFormat,
@@ -15,14 +17,25 @@ import type {
   SessionEventType,
   SessionSummary,
 } from '../types/index.js';
+import type { SensitiveDataDetector } from './sensitive-data.js';
 
 type ScreenshotResolver = (stepId: string) => Promise<string | null>;
 
+const REPORT_EXTENSIONS: Record<ReportFormat, string> = {
+  markdown: 'md',
+  json: 'json',
+  html: 'html',
+  junit: 'junit.xml',
+  sarif: 'sarif',
+};
+
 export class ReportManager {
   private bugs: Bug[] = [];
   private findings: Finding[] = [];
+  private journeys: JourneyReportEntry[] = [];
   private currentSessionId: string | null = null;
   private emitter = new EventEmitter();
+  private detector: SensitiveDataDetector | null = null;
 
   constructor(private config: ReportConfig) {}
 
@@ -30,6 +43,15 @@ export class ReportManager {
     this.currentSessionId = id;
   }
 
+  /** Mask secrets in bug and finding text as they are filed (when redaction is on). */
+  setSensitiveDataDetector(detector: SensitiveDataDetector | null): void {
+    this.detector = detector;
+  }
+
+  private redact<T>(value: T): T {
+    return this.detector?.redacting ? this.detector.redactDeep(value) : value;
+  }
+
   on(type: SessionEventType, listener: (event: SessionEvent) => void): void {
     this.emitter.on(type, listener);
   }
@@ -50,7 +72,7 @@ export class ReportManager {
 
   createBug(params: Omit<Bug, 'id' | 'timestamp'>): Bug {
     const bug: Bug = {
-      ...params,
+      ...this.redact(params),
       id: nanoid(10),
       timestamp: Date.now(),
     };
@@ -61,7 +83,7 @@ export class ReportManager {
 
   addFinding(params: Omit<Finding, 'id' | 'timestamp'>): Finding {
     const finding: Finding = {
-      ...params,
+      ...this.redact(params),
       id: nanoid(10),
       timestamp: Date.now(),
     };
@@ -74,6 +96,21 @@ export class ReportManager {
     return [...this.bugs];
   }
 
+  /** Journey outcomes to include in generated reports (set by `f4tl ci`). */
+  setJourneyResults(results: JourneyReportEntry[]): void {
+    this.journeys = results.map(({ name, status, duration, error, bugId }) => ({
+      name,
+      status,
+      duration,
+      ...(error ? { error } : {}),
+      ...(bugId ? { bugId } : {}),
+    }));
+  }
+
+  getJourneyResults(): JourneyReportEntry[] {
+    return [...this.journeys];
+  }
+
   getFindings(): Finding[] {
     return [...this.findings];
   }
@@ -98,6 +135,7 @@ export class ReportManager {
       performance: 0,
       accessibility: 0,
       security: 0,
+      api: 0,
       suggestion: 0,
       observation: 0,
     };
@@ -128,11 +166,7 @@ export class ReportManager {
     };
   }
 
-  async generateReport(
-    session: Session,
-    format: ReportFormat,
-    screenshotResolver: ScreenshotResolver,
-  ): Promise<string> {
+  getReportData(session: Session, sessionDir?: string): ReportData {
     const summary = this.getSummary(session);
     const reportData: ReportData = {
       session,
@@ -143,6 +177,26 @@ export class ReportManager {
       summary,
     };
 
+    if (sessionDir && session.artifacts?.length) {
+      reportData.artifacts = session.artifacts.map((a) => ({
+        ...a,
+        href: relative(this.config.outputDir, join(sessionDir, a.file)).split(sep).join('/'),
+      }));
+    }
+    if (this.journeys.length > 0) {
+      reportData.journeys = this.journeys;
+    }
+    return reportData;
+  }
+
+  async generateReport(
+    session: Session,
+    format: ReportFormat,
+    screenshotResolver: ScreenshotResolver,
+    sessionDir?: string,
+  ): Promise<string> {
+    const reportData = this.getReportData(session, sessionDir);
+
     const generators: Record<
       ReportFormat,
       () => Promise<{
@@ -152,13 +206,14 @@ export class ReportManager {
       markdown: () => import('../report/markdown.js'),
       json: () => import('../report/json.js'),
       html: () => import('../report/html.js'),
+      junit: () => import('../report/junit.js'),
+      sarif: () => import('../report/sarif.js'),
     };
 
     const mod = await generators[format]();
     const content = await mod.generate(reportData, screenshotResolver);
 
-    const ext = format === 'markdown' ? 'md' : format;
-    const filename = `report-${session.id}.${ext}`;
+    const filename = `report-${session.id}.${REPORT_EXTENSIONS[format]}`;
     await mkdir(this.config.outputDir, { recursive: true });
     const outputPath = join(this.config.outputDir, filename);
     await writeFile(outputPath, content);
@@ -167,9 +222,26 @@ export class ReportManager {
     return outputPath;
   }
 
+  /** Write the session as a `@playwright/test` spec, by default beside the reports. */
+  async exportTest(
+    session: Session,
+    outputPath?: string,
+  ): Promise<ExportedTest & { outputPath: string }> {
+    const { generatePlaywrightTest } = await import('../report/playwright-test.js');
+    const exported = generatePlaywrightTest(session, this.bugs);
+
+    const path = outputPath ?? join(this.config.outputDir, `session-${session.id}.spec.ts`);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, exported.code);
+
+    console.error(`[f4tl] Test exported: ${path}`);
+    return { ...exported, outputPath: path };
+  }
+
   reset(): void {
     this.bugs = [];
     this.findings = [];
+    this.journeys = [];
     this.currentSessionId = null;
   }
 }
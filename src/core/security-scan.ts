@@ -0,0 +1,366 @@
+import type { CapturedRequest, CapturedResponse } from '../types/index.js';
+import type { StorageState } from './auth-cache.js';
+
+export type SecurityCheck =
+  | 'headers'
+  | 'cors'
+  | 'cookies'
+  | 'mixed-content'
+  | 'url-tokens'
+  | 'storage';
+
+export type SecuritySeverity = 'high' | 'medium' | 'low';
+
+export interface SecurityIssue {
+  check: SecurityCheck;
+  severity: SecuritySeverity;
+  origin: string;
+  title: string;
+  detail: string;
+  /** URLs (or cookie / storage keys) that showed the problem */
+  evidence: string[];
+}
+
+export interface SecurityScanInput {
+  requests: CapturedRequest[];
+  responses: CapturedResponse[];
+  storage?: StorageState;
+}
+
+export const SECURITY_CHECKS: SecurityCheck[] = [
+  'headers',
+  'cors',
+  'cookies',
+  'mixed-content',
+  'url-tokens',
+  'storage',
+];
+
+// Six months, the minimum the HSTS preload list accepts
+const MIN_HSTS_MAX_AGE = 15_552_000;
+
+const SECRET_NAME =
+  /^(access[_-]?token|id[_-]?token|refresh[_-]?token|token|auth|jwt|api[_-]?key|apikey|secret|client[_-]?secret|password|passwd|session[_-]?id|sid)$/i;
+const SESSION_COOKIE = /sess|sid|auth|token|jwt|login/i;
+const JWT = /^eyJ[\w-]+\.eyJ[\w-]+\.[\w-]*$/;
+const TOKEN_KEY = /token|jwt|auth|session|secret|api[_-]?key/i;
+// Subresources that can read or rewrite the page when loaded over plain HTTP
+const ACTIVE_RESOURCES = new Set(['script', 'stylesheet', 'xhr', 'fetch', 'websocket']);
+
+function originOf(url: string): string | null {
+  try {
+    const { origin } = new URL(url);
+    return origin === 'null' ? null : origin;
+  } catch {
+    return null;
+  }
+}
+
+/** Parse a CSP header into directive → sources. */
+export function parseCsp(header: string): Map<string, string[]> {
+  const directives = new Map<string, string[]>();
+  for (const part of header.split(';')) {
+    const [name, ...sources] = part.trim().split(/\s+/);
+    if (name && !directives.has(name.toLowerCase())) {
+      directives.set(name.toLowerCase(), sources);
+    }
+  }
+  return directives;
+}
+
+/** Reasons a CSP fails to stop injected scripts, empty when it holds up. */
+export function cspWeaknesses(header: string): string[] {
+  const csp = parseCsp(header);
+  const scriptSrc = csp.get('script-src') ?? csp.get('default-src');
+  if (!scriptSrc) return ['no script-src or default-src directive'];
+
+  const weaknesses: string[] = [];
+  // A nonce or hash makes browsers ignore 'unsafe-inline'
+  const hasNonce = scriptSrc.some((s) => /^'(nonce|sha256|sha384|sha512)-/.test(s));
+  if (scriptSrc.includes("'unsafe-inline'") && !hasNonce) {
+    weaknesses.push("script-src allows 'unsafe-inline'");
+  }
+  if (scriptSrc.includes("'unsafe-eval'")) weaknesses.push("script-src allows 'unsafe-eval'");
+  const wildcards = scriptSrc.filter((s) => s === '*' || s === 'http:' || s === 'https:');
+  if (wildcards.length > 0) weaknesses.push(`script-src allows any host (${wildcards.join(' ')})`);
+  return weaknesses;
+}
+
+interface IssueSink {
+  add(issue: Omit<SecurityIssue, 'evidence'>, evidence: string): void;
+  issues(): SecurityIssue[];
+}
+
+/** Merge repeated issues per origin + title, keeping up to 10 distinct evidence entries. */
+function issueSink(): IssueSink {
+  const byKey = new Map<string, SecurityIssue>();
+  return {
+    add(issue, evidence) {
+      const key = `${issue.origin}\n${issue.title}`;
+      const existing = byKey.get(key);
+      if (!existing) {
+        byKey.set(key, { ...issue, evidence: [evidence] });
+      } else if (existing.evidence.length < 10 && !existing.evidence.includes(evidence)) {
+        existing.evidence.push(evidence);
+      }
+    },
+    issues: () => [...byKey.values()],
+  };
+}
+
+function scanDocumentHeaders(sink: IssueSink, origin: string, res: CapturedResponse): void {
+  const h = res.headers;
+  const csp = h['content-security-policy'];
+
+  if (!csp) {
+    sink.add(
+      {
+        check: 'headers',
+        severity: 'medium',
+        origin,
+        title: 'Missing Content-Security-Policy',
+        detail: 'Pages are served without a CSP, so injected scripts run unrestricted.',
+      },
+      res.url,
+    );
+  } else {
+    for (const weakness of cspWeaknesses(csp)) {
+      sink.add(
+        {
+          check: 'headers',
+          severity: 'medium',
+          origin,
+          title: `Weak Content-Security-Policy: ${weakness}`,
+          detail: `The policy does not prevent script injection: ${csp}`,
+        },
+        res.url,
+      );
+    }
+  }
+
+  const frameAncestors = csp ? parseCsp(csp).has('frame-ancestors') : false;
+  if (!h['x-frame-options'] && !frameAncestors) {
+    sink.add(
+      {
+        check: 'headers',
+        severity: 'medium',
+        origin,
+        title: 'Missing clickjacking protection',
+        detail:
+          'Neither X-Frame-Options nor CSP frame-ancestors is set, so other sites can frame these pages.',
+      },
+      res.url,
+    );
+  }
+
+  if (origin.startsWith('https:')) {
+    const hsts = h['strict-transport-security'];
+    const maxAge = Number(/max-age=(\d+)/i.exec(hsts ?? '')?.[1] ?? 0);
+    if (!hsts) {
+      sink.add(
+        {
+          check: 'headers',
+          severity: 'medium',
+          origin,
+          title: 'Missing Strict-Transport-Security',
+          detail: 'Without HSTS the first visit can be downgraded to plain HTTP.',
+        },
+        res.url,
+      );
+    } else if (maxAge < MIN_HSTS_MAX_AGE) {
+      sink.add(
+        {
+          check: 'headers',
+          severity: 'low',
+          origin,
+          title: 'Short Strict-Transport-Security max-age',
+          detail: `max-age is ${maxAge}s; at least ${MIN_HSTS_MAX_AGE}s (180 days) is recommended.`,
+        },
+        res.url,
+      );
+    }
+  }
+}
+
+function scanCors(sink: IssueSink, origin: string, res: CapturedResponse): void {
+  const allowOrigin = res.headers['access-control-allow-origin']?.trim();
+  const credentials = res.headers['access-control-allow-credentials']?.trim() === 'true';
+  if (!allowOrigin || !credentials) return;
+
+  if (allowOrigin === '*' || allowOrigin === 'null') {
+    sink.add(
+      {
+        check: 'cors',
+        severity: 'high',
+        origin,
+        title: `CORS allows origin "${allowOrigin}" with credentials`,
+        detail:
+          allowOrigin === '*'
+            ? 'Access-Control-Allow-Origin: * is combined with Access-Control-Allow-Credentials: true. Browsers refuse to share such responses, and the server evidently means to trust every origin.'
+            : 'Sandboxed iframes and file: pages send Origin: null, so any site can read these credentialed responses.',
+      },
+      res.url,
+    );
+  }
+}
+
+function secretParams(url: string): string[] {
+  try {
+    const names: string[] = [];
+    const parsed = new URL(url);
+    const hash = new URLSearchParams(parsed.hash.replace(/^#/, ''));
+    for (const params of [parsed.searchParams, hash]) {
+      for (const [name, value] of params) {
+        if (value && (SECRET_NAME.test(name) || JWT.test(value))) names.push(name);
+      }
+    }
+    return [...new Set(names)];
+  } catch {
+    return [];
+  }
+}
+
+function scanStorage(sink: IssueSink, storage: StorageState, httpsHosts: Set<string>): void {
+  for (const cookie of storage.cookies) {
+    const host = cookie.domain.replace(/^\./, '');
+    const origin = `${httpsHosts.has(host) ? 'https' : 'http'}://${host}`;
+    const sessionLike = SESSION_COOKIE.test(cookie.name);
+    const evidence = `cookie ${cookie.name} (${cookie.domain}${cookie.path})`;
+
+    if (!cookie.secure && httpsHosts.has(host)) {
+      sink.add(
+        {
+          check: 'cookies',
+          severity: sessionLike ? 'high' : 'medium',
+          origin,
+          title: `Cookie "${cookie.name}" missing Secure`,
+          detail: 'The cookie is also sent over plain HTTP, where it can be intercepted.',
+        },
+        evidence,
+      );
+    }
+    if (!cookie.httpOnly && sessionLike) {
+      sink.add(
+        {
+          check: 'cookies',
+          severity: 'medium',
+          origin,
+          title: `Cookie "${cookie.name}" missing HttpOnly`,
+          detail: 'Scripts can read this session cookie, so any XSS can steal the session.',
+        },
+        evidence,
+      );
+    }
+    if (cookie.sameSite === 'None' && sessionLike) {
+      sink.add(
+        {
+          check: 'cookies',
+          severity: cookie.secure ? 'low' : 'medium',
+          origin,
+          title: `Cookie "${cookie.name}" uses SameSite=None`,
+          detail: 'Cross-site requests carry this session cookie, which enables CSRF.',
+        },
+        evidence,
+      );
+    }
+  }
+
+  for (const { origin, localStorage } of storage.origins) {
+    for (const { name, value } of localStorage) {
+      if (!JWT.test(value) && !(TOKEN_KEY.test(name) && value.length >= 16)) continue;
+      sink.add(
+        {
+          check: 'storage',
+          severity: 'medium',
+          origin,
+          title: 'Token stored in localStorage',
+          detail:
+            'localStorage is readable by every script on the origin, so an XSS can exfiltrate the token. Prefer an HttpOnly cookie.',
+        },
+        `localStorage.${name}`,
+      );
+    }
+  }
+}
+
+/**
+ * Inspect captured traffic and browser storage for common security
+ * misconfigurations. Issues are merged per origin and title.
+ */
+export function runSecurityScan(
+  input: SecurityScanInput,
+  checks: SecurityCheck[] = SECURITY_CHECKS,
+): SecurityIssue[] {
+  const enabled = new Set(checks);
+  const sink = issueSink();
+  const requestsById = new Map(input.requests.map((r) => [r.id, r]));
+
+  const httpsHosts = new Set<string>();
+
+  for (const res of input.responses) {
+    const origin = originOf(res.url);
+    if (!origin) continue;
+    if (origin.startsWith('https:')) httpsHosts.add(new URL(origin).hostname);
+
+    const request = requestsById.get(res.requestId);
+    const isDocument = request?.resourceType === 'document';
+    if (enabled.has('headers') && isDocument && res.status < 300) {
+      scanDocumentHeaders(sink, origin, res);
+    }
+    if (enabled.has('cors')) scanCors(sink, origin, res);
+  }
+
+  // Requests are captured in order, so the latest document is the page that asked for the rest
+  let page: string | null = null;
+  for (const req of input.requests) {
+    const origin = originOf(req.url);
+    if (!origin) continue;
+
+    if (enabled.has('url-tokens')) {
+      const names = secretParams(req.url);
+      if (names.length > 0) {
+        sink.add(
+          {
+            check: 'url-tokens',
+            severity: 'high',
+            origin,
+            title: `Credentials in URL (${names.join(', ')})`,
+            detail:
+              'Secrets in query strings or fragments end up in browser history, server logs and Referer headers.',
+          },
+          req.url,
+        );
+      }
+    }
+
+    if (req.resourceType === 'document') {
+      page = origin;
+    } else if (
+      enabled.has('mixed-content') &&
+      page?.startsWith('https:') &&
+      origin.startsWith('http:')
+    ) {
+      const active = ACTIVE_RESOURCES.has(req.resourceType);
+      sink.add(
+        {
+          check: 'mixed-content',
+          severity: active ? 'high' : 'low',
+          origin: page,
+          title: active ? 'Mixed content: active resource over HTTP' : 'Mixed content over HTTP',
+          detail: `An HTTPS page loads ${req.resourceType} resources over plain HTTP${active ? ', which a network attacker can rewrite' : ''}.`,
+        },
+        req.url,
+      );
+    }
+  }
+
+  if (input.storage && (enabled.has('cookies') || enabled.has('storage'))) {
+    const storage: StorageState = {
+      cookies: enabled.has('cookies') ? input.storage.cookies : [],
+      origins: enabled.has('storage') ? input.storage.origins : [],
+    };
+    scanStorage(sink, storage, httpsHosts);
+  }
+
+  return sink.issues();
+}
@@ -0,0 +1,245 @@
+import type { SensitiveBuiltin, SensitiveDataConfig, SensitivePattern } from '../types/index.js';
+
+export type LeakSource = 'response-body' | 'request-url' | 'console' | 'log';
+
+export type LeakSeverity = SensitivePattern['severity'];
+
+export interface SensitiveMatch {
+  type: string;
+  value: string;
+  index: number;
+}
+
+/** Every distinct value of one type seen in one place. Samples are masked. */
+export interface LeakRecord {
+  type: string;
+  severity: LeakSeverity;
+  source: LeakSource;
+  /** URL without query string, page URL, or log source name */
+  location: string;
+  count: number;
+  samples: string[];
+  firstSeen: number;
+  stepIds: string[];
+}
+
+type TrackedLeak = LeakRecord & { values: Set<string> };
+
+interface Detector {
+  type: string;
+  pattern: RegExp;
+  severity: LeakSeverity;
+  validate?: (value: string) => boolean;
+}
+
+const MAX_SAMPLES = 3;
+
+/** Luhn checksum over the digits of `value`. */
+export function luhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return digits.length > 0 && sum % 10 === 0;
+}
+
+// Issuer prefixes (Visa, Mastercard, Amex, Discover, JCB, Diners) keep
+// millisecond timestamps and order numbers that happen to pass Luhn out
+const CARD_PREFIX = /^(4|5[1-5]|2[2-7]|3[47]|6011|65|35|3[068])/;
+
+const BUILTINS: Record<SensitiveBuiltin, Omit<Detector, 'type'>> = {
+  email: {
+    pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g,
+    severity: 'medium',
+  },
+  card: {
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    severity: 'high',
+    validate: (value) => {
+      const digits = value.replace(/\D/g, '');
+      return CARD_PREFIX.test(digits) && luhnValid(digits);
+    },
+  },
+  jwt: {
+    pattern: /\beyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g,
+    severity: 'high',
+  },
+  apiKey: {
+    pattern:
+      /\b(?:(?:sk|pk|rk)_(?:live|test)_[0-9A-Za-z]{16,}|AKIA[0-9A-Z]{16}|gh[pousr]_[A-Za-z0-9]{36,}|github_pat_\w{22,}|xox[abprs]-[A-Za-z0-9-]{10,}|AIza[\w-]{35}|sk-[\w-]{20,})/g,
+    severity: 'high',
+  },
+};
+
+/** `jane.doe@example.com` → `ja***@***.com`; others keep their first and last 2 characters. */
+export function maskValue(value: string): string {
+  const at = value.indexOf('@');
+  if (at > 0) {
+    const tld = value.slice(value.lastIndexOf('.'));
+    return `${value.slice(0, Math.min(2, at))}***@***${tld}`;
+  }
+  return value.length > 8 ? `${value.slice(0, 2)}***${value.slice(-2)}` : '***';
+}
+
+/**
+ * Finds secrets and personal data in text with the built-in and configured
+ * patterns. Text passed to `observe` is tracked as a leak; `redact` masks
+ * matches as `[REDACTED:<type>]` before data is stored.
+ */
+export class SensitiveDataDetector {
+  private detectors: Detector[];
+  private allow: RegExp[];
+  private leaks = new Map<string, TrackedLeak>();
+  private pending: TrackedLeak[] = [];
+
+  constructor(private config: SensitiveDataConfig) {
+    this.detectors = [
+      ...config.builtins.map((type) => ({ type, ...BUILTINS[type] })),
+      ...config.patterns.map((p) => {
+        try {
+          return { type: p.name, pattern: new RegExp(p.pattern, 'g'), severity: p.severity };
+        } catch (err) {
+          throw new Error(`Invalid sensitiveData pattern "${p.name}": ${(err as Error).message}`);
+        }
+      }),
+    ];
+    this.allow = config.allow.map((a) => new RegExp(a));
+  }
+
+  /** Whether stored steps, bugs and findings should be masked. */
+  get redacting(): boolean {
+    return this.config.redact && this.detectors.length > 0;
+  }
+
+  find(text: string): SensitiveMatch[] {
+    const matches: SensitiveMatch[] = [];
+    for (const d of this.detectors) {
+      for (const m of text.matchAll(d.pattern)) {
+        const value = m[0];
+        if (!value || (d.validate && !d.validate(value))) continue;
+        if (this.allow.some((a) => a.test(value))) continue;
+        matches.push({ type: d.type, value, index: m.index });
+      }
+    }
+    return matches.sort((a, b) => a.index - b.index);
+  }
+
+  redact(text: string): string {
+    let out = '';
+    let cursor = 0;
+    for (const m of this.find(text)) {
+      // Overlapping matches (an email inside a JWT claim, say) are covered by the first
+      if (m.index < cursor) continue;
+      out += `${text.slice(cursor, m.index)}[REDACTED:${m.type}]`;
+      cursor = m.index + m.value.length;
+    }
+    return out + text.slice(cursor);
+  }
+
+  /** Copy of `value` with every string inside it redacted. */
+  redactDeep<T>(value: T): T {
+    if (typeof value === 'string') return this.redact(value) as T;
+    if (Array.isArray(value)) return value.map((v: unknown) => this.redactDeep(v)) as T;
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(
+        Object.entries(value).map(([k, v]) => [k, this.redactDeep(v)]),
+      ) as T;
+    }
+    return value;
+  }
+
+  /**
+   * Record matches in `text` as leaks from `source` at `location`, except
+   * those of `ignoreTypes`. Returns how many matched.
+   */
+  observe(
+    text: string,
+    source: LeakSource,
+    location: string,
+    stepId?: string,
+    ignoreTypes: string[] = [],
+  ): number {
+    const matches = this.find(text).filter((m) => !ignoreTypes.includes(m.type));
+    for (const m of matches) {
+      const key = `${m.type}\n${source}\n${location}`;
+      let leak = this.leaks.get(key);
+      if (!leak) {
+        const detector = this.detectors.find((d) => d.type === m.type);
+        leak = {
+          type: m.type,
+          severity: detector?.severity ?? 'medium',
+          source,
+          location,
+          count: 0,
+          samples: [],
+          firstSeen: Date.now(),
+          stepIds: [],
+          values: new Set(),
+        };
+        this.leaks.set(key, leak);
+        this.pending.push(leak);
+      }
+      if (!leak.values.has(m.value)) {
+        leak.values.add(m.value);
+        leak.count = leak.values.size;
+        if (leak.samples.length < MAX_SAMPLES) leak.samples.push(maskValue(m.value));
+      }
+      if (stepId && !leak.stepIds.includes(stepId)) leak.stepIds.push(stepId);
+    }
+    return matches.length;
+  }
+
+  getLeaks(): LeakRecord[] {
+    return [...this.leaks.values()].map(toRecord);
+  }
+
+  /** Leaks first seen since the last call. */
+  takeNew(): LeakRecord[] {
+    const leaks = this.pending.map(toRecord);
+    this.pending = [];
+    return leaks;
+  }
+
+  reset(): void {
+    this.leaks.clear();
+    this.pending = [];
+  }
+}
+
+function toRecord({ values: _, ...leak }: TrackedLeak): LeakRecord {
+  return { ...leak, samples: [...leak.samples], stepIds: [...leak.stepIds] };
+}
+
+/** Leak location for a URL: origin and path, without the query that may hold the secret. */
+export function urlLocation(url: string): string {
+  try {
+    const { origin, pathname } = new URL(url);
+    return `${origin}${pathname}`;
+  } catch {
+    return url;
+  }
+}
+
+// Opaque session IDs and tokens no pattern recognizes
+const CREDENTIAL_HEADERS = new Set([
+  'authorization',
+  'proxy-authorization',
+  'cookie',
+  'set-cookie',
+]);
+
+/** Copy of `headers` with credential headers masked as `[REDACTED:<name>]`, whatever their value. */
+export function redactCredentialHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => {
+      const key = name.toLowerCase();
+      return [name, CREDENTIAL_HEADERS.has(key) ? `[REDACTED:${key}]` : value];
+    }),
+  );
+}
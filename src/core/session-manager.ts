@@ -5,21 +5,50 @@ import { join } from 'node:path';
 import type {
   BrowserAction,
   F4tlConfig,
+  LogAlert,
+  LogEntry,
   Session,
+  SessionArtifact,
   SessionConfig,
   SessionEvent,
   SessionEventType,
   SessionStep,
   StepMetadata,
+  VisualComparison,
 } from '../types/index.js';
+import type { SensitiveDataDetector } from './sensitive-data.js';
+
+// Per step; the first errors are the ones that explain the rest
+const MAX_SERVER_ERRORS = 50;
+// Backend log lines trail the action that caused them by tens to hundreds of ms
+const LOG_ALERT_SETTLE = 250;
 
 export class SessionManager {
   private session: Session | null = null;
+  private serverErrors: LogEntry[] = [];
   private emitter = new EventEmitter();
   private contextsSeen = new Set<string>();
+  private detector: SensitiveDataDetector | null = null;
+  private alertSettle = 0;
 
   constructor(private config: SessionConfig) {}
 
+  /**
+   * Watch console output for leaked secrets and, when redaction is on, mask
+   * them in recorded steps before they reach session.json or the dashboard.
+   */
+  setSensitiveDataDetector(detector: SensitiveDataDetector | null): void {
+    this.detector = detector;
+  }
+
+  /**
+   * Log sources are being watched: hold each step briefly so alerts its action
+   * caused land on it, not on the next one.
+   */
+  watchLogAlerts(settle = LOG_ALERT_SETTLE): void {
+    this.alertSettle = settle;
+  }
+
   on(type: SessionEventType, listener: (event: SessionEvent) => void): void {
     this.emitter.on(type, listener);
   }
@@ -39,9 +68,25 @@ export class SessionManager {
     this.emitter.emit(type, event);
   }
 
+  /**
+   * Broadcast a fired log watch rule and hold its entries for the next step,
+   * which records them as `metadata.serverErrors`.
+   */
+  addLogAlert(alert: LogAlert): void {
+    if (!this.session) return;
+    for (const entry of alert.entries) {
+      if (this.serverErrors.length >= MAX_SERVER_ERRORS) break;
+      if (!this.serverErrors.includes(entry)) this.serverErrors.push(entry);
+    }
+    // Steps are masked in recordStep; the broadcast copy has to be masked here
+    const detector = this.detector;
+    this.emit('log:alert', detector?.redacting ? detector.redactDeep(alert) : alert);
+  }
+
   startSession(fullConfig: F4tlConfig): string {
     const id = nanoid(12);
     this.contextsSeen.clear();
+    this.serverErrors = [];
     this.session = {
       id,
       startTime: Date.now(),
@@ -60,6 +105,7 @@ export class SessionManager {
     duration: number,
     error?: string,
     contextId?: string,
+    visual?: VisualComparison,
   ): Promise<SessionStep> {
     if (!this.session) {
       throw new Error('No active session. Call startSession() first.');
@@ -72,14 +118,36 @@ export class SessionManager {
       this.contextsSeen.add(contextId);
     }
 
+    if (this.alertSettle > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.alertSettle));
+    }
+
+    const id = nanoid(10);
+    const detector = this.detector;
+    if (detector) {
+      for (const msg of metadata.consoleErrors) {
+        detector.observe(msg.text, 'console', metadata.url, id);
+      }
+    }
+    const redact = <T>(value: T): T => (detector?.redacting ? detector.redactDeep(value) : value);
+
+    if (this.serverErrors.length > 0) {
+      metadata = {
+        ...metadata,
+        serverErrors: [...(metadata.serverErrors ?? []), ...this.serverErrors],
+      };
+      this.serverErrors = [];
+    }
+
     const step: SessionStep = {
-      id: nanoid(10),
+      id,
       ...(contextId ? { contextId } : {}),
-      action,
+      action: redact(action),
       screenshot,
-      metadata,
+      metadata: redact(metadata),
       duration,
-      error,
+      error: error && redact(error),
+      ...(visual ? { visual } : {}),
     };
 
     this.session.steps.push(step);
@@ -123,6 +191,7 @@ export class SessionManager {
           metadata: step.metadata,
           duration: step.duration,
           error: step.error,
+          ...(step.visual ? { visual: step.visual } : {}),
         },
         null,
         2,
@@ -130,6 +199,27 @@ export class SessionManager {
     );
   }
 
+  /**
+   * Write an extra image next to a step's screenshot as `<stepId>.<suffix>.png`
+   * (e.g. visual regression baseline/diff). Written even when keepArtifacts is
+   * off, since reports and the dashboard read these from disk.
+   */
+  async saveStepImage(stepId: string, suffix: string, png: Buffer): Promise<string> {
+    if (!this.session) throw new Error('No active session');
+
+    const dir = join(this.config.outputDir, this.session.id);
+    await mkdir(dir, { recursive: true });
+    const imagePath = join(dir, `${stepId}.${suffix}.png`);
+    await writeFile(imagePath, png);
+    return imagePath;
+  }
+
+  /** Note a recording (trace/HAR) that the browser writes into the session directory. */
+  addArtifact(artifact: SessionArtifact): void {
+    if (!this.session) return;
+    this.session.artifacts = [...(this.session.artifacts ?? []), artifact];
+  }
+
   async endSession(): Promise<Session> {
     if (!this.session) throw new Error('No active session');
 
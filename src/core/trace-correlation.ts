@@ -0,0 +1,109 @@
+import { randomBytes, randomUUID } from 'node:crypto';
+import type { CorrelationConfig, LogEntry } from '../types/index.js';
+
+// A page load can fire hundreds of same-origin asset requests; keep the step
+// readable. API calls and navigations are what backend logs are about, so
+// their IDs are always kept.
+const MAX_ASSET_IDS_PER_STEP = 100;
+const ALWAYS_KEPT = new Set(['document', 'xhr', 'fetch']);
+
+export interface CorrelationHeader {
+  name: string;
+  value: string;
+  /** What backend logs will carry: the request ID, or the trace ID of a traceparent */
+  id: string;
+}
+
+/**
+ * Issues request-ID headers for one page and remembers the IDs sent since
+ * the last step, so the step can be matched with backend log lines.
+ */
+export class TraceCorrelator {
+  readonly header: string;
+  private urlPattern: RegExp | null;
+  private ids: string[] = [];
+  private assetIds = 0;
+  private traceId: string | null = null;
+
+  constructor(private config: CorrelationConfig) {
+    this.header = (
+      config.header ?? (config.format === 'traceparent' ? 'traceparent' : 'x-request-id')
+    ).toLowerCase();
+    this.urlPattern = config.urlPattern ? new RegExp(config.urlPattern, 'i') : null;
+  }
+
+  /**
+   * Whether a request gets a header. Without `urlPattern`, only navigations
+   * and requests to the page's own origin do: an unknown header on a
+   * cross-origin request would trigger a CORS preflight the API may reject.
+   */
+  applies(url: string, resourceType: string, pageUrl: string): boolean {
+    const types = this.config.resourceTypes;
+    if (types.length > 0 && !types.includes(resourceType)) return false;
+    if (this.urlPattern) return this.urlPattern.test(url);
+    if (resourceType === 'document') return true;
+    try {
+      return new URL(url).origin === new URL(pageUrl).origin;
+    } catch {
+      return false;
+    }
+  }
+
+  /** A header for one page request; its ID is recorded for the current step. */
+  next(resourceType: string): CorrelationHeader {
+    let id: string;
+    if (this.config.format === 'traceparent') {
+      this.traceId ??= randomBytes(16).toString('hex');
+      id = this.traceId;
+    } else {
+      id = randomUUID();
+    }
+    if (!this.ids.includes(id)) {
+      if (ALWAYS_KEPT.has(resourceType)) {
+        this.ids.push(id);
+      } else if (this.assetIds < MAX_ASSET_IDS_PER_STEP) {
+        this.ids.push(id);
+        this.assetIds++;
+      }
+    }
+    return this.headerFor(id);
+  }
+
+  /** A header with its own ID, for requests recorded as their own step (`http_request`). */
+  detached(): CorrelationHeader {
+    return this.headerFor(
+      this.config.format === 'traceparent' ? randomBytes(16).toString('hex') : randomUUID(),
+    );
+  }
+
+  private headerFor(id: string): CorrelationHeader {
+    const value =
+      this.config.format === 'traceparent' ? `00-${id}-${randomBytes(8).toString('hex')}-01` : id;
+    return { name: this.header, value, id };
+  }
+
+  /** IDs sent since the last call. With `traceparent`, the next request starts a new trace. */
+  takeIds(): string[] {
+    const ids = this.ids;
+    this.ids = [];
+    this.assetIds = 0;
+    this.traceId = null;
+    return ids;
+  }
+}
+
+function mentions(value: unknown, ids: string[], depth = 0): boolean {
+  if (typeof value === 'string') return ids.some((id) => value.includes(id));
+  if (depth >= 4 || !value || typeof value !== 'object') return false;
+  return Object.values(value).some((v) => mentions(v, ids, depth + 1));
+}
+
+/**
+ * Whether a log entry carries one of `ids`: in any metadata field (e.g.
+ * `reqId`, `trace_id`, `req.headers['x-request-id']`) or, for plain-text
+ * logs, in the message.
+ */
+export function logCarriesId(entry: LogEntry, ids: string[]): boolean {
+  if (ids.length === 0) return false;
+  return ids.some((id) => entry.message.includes(id)) || mentions(entry.metadata, ids);
+}
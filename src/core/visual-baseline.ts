@@ -0,0 +1,196 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import pixelmatch from 'pixelmatch';
+import { PNG } from 'pngjs';
+import type { VisualConfig } from '../types/index.js';
+
+export interface BaselineKeyInput {
+  url: string;
+  viewport: { width: number; height: number };
+  contextId?: string;
+  name?: string;
+}
+
+export interface BaselineMeta extends BaselineKeyInput {
+  key: string;
+  updatedAt: number;
+  /** Set while a mismatching screenshot is waiting for approval. */
+  pending?: { diffRatio: number; detectedAt: number };
+}
+
+export interface ImageDiff {
+  diffPixels: number;
+  totalPixels: number;
+  diffRatio: number;
+  sizeChanged: boolean;
+  diff: Buffer;
+}
+
+/** Characters `baselineKey` produces; anything else could escape `baselineDir`. */
+export const BASELINE_KEY = /^[a-zA-Z0-9_-]+$/;
+
+/**
+ * Stable, filesystem-safe key for a baseline: a readable slug of the URL
+ * path plus viewport and context, suffixed with a short hash of the full
+ * input so query strings and custom names stay distinct.
+ */
+export function baselineKey(input: BaselineKeyInput): string {
+  let path = input.url;
+  try {
+    const parsed = new URL(input.url);
+    path = `${parsed.host}${parsed.pathname}`;
+  } catch {
+    // Not a URL (e.g. about:blank) — slug the raw string
+  }
+
+  const slug =
+    path
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '')
+      .slice(0, 60) || 'page';
+  const { width, height } = input.viewport;
+  const context = input.contextId ?? 'default';
+  const hash = createHash('sha1')
+    .update(JSON.stringify([input.url.split('#')[0], width, height, context, input.name ?? '']))
+    .digest('hex')
+    .slice(0, 8);
+
+  return [slug, input.name, `${width}x${height}`, context, hash]
+    .filter(Boolean)
+    .join('-')
+    .replace(/[^a-zA-Z0-9_-]/g, '-');
+}
+
+function padTo(png: PNG, width: number, height: number): PNG {
+  if (png.width === width && png.height === height) return png;
+  const out = new PNG({ width, height });
+  PNG.bitblt(png, out, 0, 0, png.width, png.height, 0, 0);
+  return out;
+}
+
+/**
+ * Pixel-diff two PNGs. Images of different sizes are padded to the larger
+ * canvas so the added/removed area counts as changed pixels.
+ */
+export function diffImages(baseline: Buffer, actual: Buffer, threshold: number): ImageDiff {
+  const a = PNG.sync.read(baseline);
+  const b = PNG.sync.read(actual);
+  const width = Math.max(a.width, b.width);
+  const height = Math.max(a.height, b.height);
+  const diff = new PNG({ width, height });
+
+  const diffPixels = pixelmatch(
+    padTo(a, width, height).data,
+    padTo(b, width, height).data,
+    diff.data,
+    width,
+    height,
+    { threshold },
+  );
+  const totalPixels = width * height;
+
+  return {
+    diffPixels,
+    totalPixels,
+    diffRatio: totalPixels ? diffPixels / totalPixels : 0,
+    sizeChanged: a.width !== b.width || a.height !== b.height,
+    diff: PNG.sync.write(diff),
+  };
+}
+
+/**
+ * Baselines live in `baselineDir` as `<key>.png` with a `<key>.json` sidecar.
+ * A mismatching screenshot is parked as `<key>.actual.png` until approved.
+ */
+export class VisualBaselineStore {
+  constructor(private config: VisualConfig) {}
+
+  async read(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.path(key, 'png'));
+    } catch {
+      return null;
+    }
+  }
+
+  async write(key: string, png: Buffer, input: BaselineKeyInput): Promise<BaselineMeta> {
+    await mkdir(this.config.baselineDir, { recursive: true });
+    await writeFile(this.path(key, 'png'), png);
+    const meta: BaselineMeta = { key, ...input, updatedAt: Date.now() };
+    await this.writeMeta(meta);
+    return meta;
+  }
+
+  async writePending(
+    key: string,
+    png: Buffer,
+    input: BaselineKeyInput,
+    diffRatio: number,
+  ): Promise<void> {
+    await mkdir(this.config.baselineDir, { recursive: true });
+    await writeFile(this.path(key, 'actual.png'), png);
+    const meta = (await this.readMeta(key)) ?? { key, ...input, updatedAt: Date.now() };
+    meta.pending = { diffRatio, detectedAt: Date.now() };
+    await this.writeMeta(meta);
+  }
+
+  /** Drop a stale pending screenshot once the page matches its baseline again. */
+  async clearPending(key: string): Promise<void> {
+    const meta = await this.readMeta(key);
+    if (!meta?.pending) return;
+    await unlink(this.path(key, 'actual.png')).catch(() => {});
+    delete meta.pending;
+    await this.writeMeta(meta);
+  }
+
+  /** Promote the pending screenshot for `key` to be the new baseline. */
+  async approve(key: string): Promise<BaselineMeta> {
+    if (!BASELINE_KEY.test(key)) throw new Error(`Invalid baseline key "${key}"`);
+    const meta = await this.readMeta(key);
+    if (!meta?.pending) throw new Error(`No pending screenshot for baseline "${key}"`);
+
+    await rename(this.path(key, 'actual.png'), this.path(key, 'png'));
+    delete meta.pending;
+    meta.updatedAt = Date.now();
+    await this.writeMeta(meta);
+    return meta;
+  }
+
+  async list(): Promise<BaselineMeta[]> {
+    let files: string[];
+    try {
+      files = await readdir(this.config.baselineDir);
+    } catch {
+      return [];
+    }
+
+    const metas: BaselineMeta[] = [];
+    for (const file of files.filter((f) => f.endsWith('.json')).sort()) {
+      const meta = await this.readMeta(file.slice(0, -'.json'.length));
+      if (meta) metas.push(meta);
+    }
+    return metas;
+  }
+
+  async listPending(): Promise<BaselineMeta[]> {
+    return (await this.list()).filter((m) => m.pending);
+  }
+
+  private async readMeta(key: string): Promise<BaselineMeta | null> {
+    try {
+      return JSON.parse(await readFile(this.path(key, 'json'), 'utf-8')) as BaselineMeta;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeMeta(meta: BaselineMeta): Promise<void> {
+    await writeFile(this.path(meta.key, 'json'), JSON.stringify(meta, null, 2));
+  }
+
+  private path(key: string, ext: string): string {
+    return join(this.config.baselineDir, `${key}.${ext}`);
+  }
+}
@@ -13,12 +13,16 @@ import type {
   BugSeverity,
   DashboardConfig,
   F4tlConfig,
+  LogEntry,
   SessionConfig,
   SessionEvent,
   SessionListItem,
   WsMessage,
 } from '../types/index.js';
 
+const SAFE_NAME = /^[\w-]+$/;
+const ARTIFACT_FILE = /^[\w-]+\.(?:har|trace\.zip)$/;
+
 export class DashboardServer {
   private app: Hono;
   private server: ServerType | null = null;
@@ -168,6 +172,93 @@ export class DashboardServer {
       }
     });
 
+    // Visual regression images (baseline/diff) saved beside the step screenshot
+    api.get('/sessions/:id/steps/:stepId/visual/:kind', async (c) => {
+      const { id, stepId, kind } = c.req.param();
+      if (kind !== 'baseline' && kind !== 'diff') {
+        return c.json({ error: 'Unknown image kind' }, 400);
+      }
+
+      const imagePath = join(this.sessionConfig.outputDir, id, `${stepId}.${kind}.png`);
+      try {
+        const buf = await readFile(imagePath);
+        c.header('Content-Type', 'image/png');
+        c.header('Cache-Control', 'public, max-age=31536000, immutable');
+        return c.body(buf);
+      } catch {
+        return c.json({ error: 'Image not found' }, 404);
+      }
+    });
+
+    // Trace/HAR recordings in the session directory
+    api.get('/sessions/:id/artifacts', async (c) => {
+      const id = c.req.param('id');
+      if (!SAFE_NAME.test(id)) return c.json({ error: 'Invalid session id' }, 400);
+
+      const dir = join(this.sessionConfig.outputDir, id);
+      let files: string[];
+      try {
+        files = await readdir(dir);
+      } catch {
+        return c.json({ error: 'Session not found' }, 404);
+      }
+
+      const artifacts = [];
+      for (const file of files.filter((f) => ARTIFACT_FILE.test(f)).sort()) {
+        const info = await stat(join(dir, file));
+        artifacts.push({
+          file,
+          type: file.endsWith('.har') ? 'har' : 'trace',
+          size: info.size,
+          url: `/api/sessions/${id}/artifacts/${encodeURIComponent(file)}`,
+        });
+      }
+      return c.json(artifacts);
+    });
+
+    api.get('/sessions/:id/artifacts/:file', async (c) => {
+      const { id, file } = c.req.param();
+      if (!SAFE_NAME.test(id) || !ARTIFACT_FILE.test(file)) {
+        return c.json({ error: 'Invalid artifact name' }, 400);
+      }
+
+      try {
+        const buf = await readFile(join(this.sessionConfig.outputDir, id, file));
+        c.header('Content-Type', file.endsWith('.har') ? 'application/json' : 'application/zip');
+        c.header('Content-Disposition', `attachment; filename="${file}"`);
+        return c.body(buf);
+      } catch {
+        return c.json({ error: 'Artifact not found' }, 404);
+      }
+    });
+
+    // Session log archive (logs.jsonl), newest `limit` entries without metadata
+    api.get('/sessions/:id/logs', async (c) => {
+      const id = c.req.param('id');
+      if (!SAFE_NAME.test(id)) return c.json({ error: 'Invalid session id' }, 400);
+      const limit = Number(c.req.query('limit') ?? 5000);
+
+      let raw: string;
+      try {
+        raw = await readFile(join(this.sessionConfig.outputDir, id, 'logs.jsonl'), 'utf-8');
+      } catch {
+        return c.json([]);
+      }
+
+      const entries = [];
+      for (const line of raw.split('\n')) {
+        if (!line) continue;
+        try {
+          const { source, level, message, timestamp } = JSON.parse(line) as LogEntry;
+          entries.push({ source, level, message, timestamp });
+        } catch {
+          // A line still being written
+        }
+      }
+      entries.sort((a, b) => a.timestamp - b.timestamp);
+      return c.json(entries.slice(-limit));
+    });
+
     // Live session data
     api.get('/live/session', async (c) => {
       if (!this.sessionManager) {
@@ -469,6 +560,7 @@ export class DashboardServer {
     this.sessionManager.on('session:start', broadcast);
     this.sessionManager.on('step:recorded', broadcast);
     this.sessionManager.on('session:end', broadcast);
+    this.sessionManager.on('log:alert', broadcast);
     this.reportManager.on('bug:created', broadcast);
     this.reportManager.on('finding:created', broadcast);
   }
@@ -524,11 +616,19 @@ function sanitizeConfig(cfg: F4tlConfig): Record<string, unknown> {
       if (form) {
         if (form.usernameEnv) form.usernameEnv = `${form.usernameEnv} (env)`;
         if (form.passwordEnv) form.passwordEnv = `${form.passwordEnv} (env)`;
+        const mfa = form.mfa as Record<string, unknown> | undefined;
+        if (mfa?.secretEnv) mfa.secretEnv = `${mfa.secretEnv} (env)`;
       }
       const jwt = role.jwt as Record<string, unknown> | undefined;
       if (jwt?.tokenEnv) jwt.tokenEnv = `${jwt.tokenEnv} (env)`;
       const oauth = role.oauth as Record<string, unknown> | undefined;
       if (oauth?.clientIdEnv) oauth.clientIdEnv = `${oauth.clientIdEnv} (env)`;
+      if (oauth?.clientSecretEnv) oauth.clientSecretEnv = `${oauth.clientSecretEnv} (env)`;
+      const oauthLogin = oauth?.login as Record<string, unknown> | undefined;
+      if (oauthLogin) {
+        if (oauthLogin.usernameEnv) oauthLogin.usernameEnv = `${oauthLogin.usernameEnv} (env)`;
+        if (oauthLogin.passwordEnv) oauthLogin.passwordEnv = `${oauthLogin.passwordEnv} (env)`;
+      }
       const cookies = role.cookies as { items?: { valueEnv?: string }[] } | undefined;
       if (cookies?.items) {
         for (const item of cookies.items) {
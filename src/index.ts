@@ -7,22 +7,48 @@ export type {
   SessionConfig,
   CaptureConfig,
   McpConfig,
+  McpHttpConfig,
   LogSourceConfig,
+  LogParserType,
+  LogWatchRule,
   DatabaseConfig,
   CodebaseConfig,
   AuthConfig,
   ContextOptions,
   ReportConfig,
+  VisualConfig,
+  NetworkConfig,
+  NetworkBodyConfig,
+  CorrelationConfig,
+  ApiConfig,
+  SensitiveDataConfig,
+  SensitivePattern,
+  SensitiveBuiltin,
+  PerfConfig,
+  PerfBudget,
   DashboardConfig,
+  CiConfig,
+  CiFailOn,
   Session,
   SessionStep,
+  SessionArtifact,
+  SessionArtifactType,
   BrowserAction,
   ToolResult,
   CapturedRequest,
   CapturedResponse,
+  HttpExchange,
+  GraphqlOperation,
+  GraphqlOperationType,
   WebSocketMessage,
   InterceptRule,
+  HarEntry,
+  HarFile,
+  ReplayMatchOptions,
+  ReplayFallback,
+  ReplayStats,
   LogEntry,
+  LogAlert,
   QueryResult,
   SchemaInfo,
   SearchMatch,
@@ -32,8 +58,15 @@ export type {
   Finding,
   FindingCategory,
   ReportFormat,
+  ExportedTest,
   ReportData,
+  JourneyReportEntry,
+  CiGateResult,
   SessionSummary,
+  VisualComparison,
+  PerfMetrics,
+  PerfBudgetViolation,
+  WebVitals,
   SessionEvent,
   SessionEventType,
 } from './types/index.js';
@@ -0,0 +1,127 @@
+import type {
+  Bug,
+  BugSeverity,
+  CiFailOn,
+  CiGateResult,
+  JourneyReportEntry,
+  ReportData,
+} from '../types/index.js';
+
+const SEVERITY_ORDER: BugSeverity[] = ['cosmetic', 'minor', 'major', 'critical'];
+
+/**
+ * The run fails on bugs at or above `failOn`, and on any failed journey
+ * unless `failOnJourneys` is false. A journey failure is filed as a `major`
+ * bug, so without the journey check a stricter `failOn` would let it pass.
+ */
+export function evaluateCiGate(
+  bugs: Bug[],
+  failOn: CiFailOn,
+  options: { journeys?: JourneyReportEntry[]; failOnJourneys?: boolean } = {},
+): CiGateResult {
+  const failedJourneys =
+    options.failOnJourneys === false
+      ? []
+      : (options.journeys ?? []).filter((j) => j.status === 'failed').map((j) => j.name);
+
+  let blockingBugs: Bug[] = [];
+  if (failOn !== 'never') {
+    const threshold = SEVERITY_ORDER.indexOf(failOn);
+    blockingBugs = bugs.filter((b) => SEVERITY_ORDER.indexOf(b.severity) >= threshold);
+  }
+  return {
+    failOn,
+    passed: blockingBugs.length === 0 && failedJourneys.length === 0,
+    blockingBugs,
+    failedJourneys,
+  };
+}
+
+function cell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Markdown for a CI job summary (GitHub's `$GITHUB_STEP_SUMMARY`): the gate
+ * verdict first, then bug counts, journey results, blocking bugs, findings by
+ * category, and where the full reports were written.
+ */
+export function generateJobSummary(
+  data: ReportData,
+  gate: CiGateResult,
+  reportPaths: string[] = [],
+): string {
+  const { summary, bugs, findings } = data;
+  const journeys = data.journeys ?? [];
+  const lines: string[] = [];
+
+  lines.push(`## ${gate.passed ? '✅ f4tl QA passed' : '❌ f4tl QA failed'}`);
+  lines.push('');
+  const threshold =
+    gate.failOn === 'never' ? 'never fails on bugs' : `fails on **${gate.failOn}** or worse`;
+  lines.push(
+    `Session \`${summary.sessionId}\` · ${summary.stepCount} steps · ${(summary.duration / 1000).toFixed(1)}s · gate ${threshold}`,
+  );
+  lines.push('');
+
+  lines.push('| Severity | Bugs |');
+  lines.push('| -------- | ---: |');
+  for (const severity of [...SEVERITY_ORDER].reverse()) {
+    lines.push(`| ${severity} | ${summary.bugsBySeverity[severity]} |`);
+  }
+  lines.push('');
+
+  if (journeys.length > 0) {
+    lines.push('### Journeys');
+    lines.push('');
+    lines.push('| Journey | Result | Duration |');
+    lines.push('| ------- | ------ | -------: |');
+    for (const j of journeys) {
+      const icon = j.status === 'passed' ? '✅' : j.status === 'failed' ? '❌' : '⏭️';
+      const error = j.error ? ` — ${cell(j.error)}` : '';
+      lines.push(`| ${cell(j.name)} | ${icon} ${j.status}${error} | ${j.duration}ms |`);
+    }
+    lines.push('');
+  }
+
+  if (gate.failedJourneys.length > 0) {
+    lines.push(`Failing the gate: journey(s) ${gate.failedJourneys.map(cell).join(', ')}.`);
+    lines.push('');
+  }
+
+  if (gate.blockingBugs.length > 0) {
+    lines.push('### Blocking bugs');
+    lines.push('');
+    for (const bug of gate.blockingBugs) {
+      const url = bug.url ? ` — ${bug.url}` : '';
+      lines.push(`- **[${bug.severity.toUpperCase()}]** ${cell(bug.title)}${url}`);
+    }
+    lines.push('');
+  }
+
+  const otherBugs = bugs.length - gate.blockingBugs.length;
+  if (otherBugs > 0) {
+    lines.push(`${otherBugs} more bug(s) below the gate threshold.`);
+    lines.push('');
+  }
+
+  if (findings.length > 0) {
+    const byCategory = Object.entries(summary.findingsByCategory)
+      .filter(([, count]) => count > 0)
+      .map(([category, count]) => `${category} ${count}`)
+      .join(', ');
+    lines.push(`**Findings**: ${findings.length} (${byCategory})`);
+    lines.push('');
+  }
+
+  if (reportPaths.length > 0) {
+    lines.push('<details><summary>Reports</summary>');
+    lines.push('');
+    for (const path of reportPaths) lines.push(`- \`${path}\``);
+    lines.push('');
+    lines.push('</details>');
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
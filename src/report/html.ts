@@ -55,6 +55,14 @@ export async function generate(
           return `<div class="screenshot"><img src="data:image/png;base64,${b64}" alt="Evidence ${id}" /></div>`;
         })
         .join('');
+      const serverLogsHtml = bug.serverLogs?.length
+        ? `<div class="section"><h4>Server Logs</h4><pre class="logs">${bug.serverLogs
+            .map(
+              (e) =>
+                `${new Date(e.timestamp).toISOString()} ${e.level.toUpperCase()} [${escapeHtml(e.source)}] ${escapeHtml(e.message)}`,
+            )
+            .join('\n')}</pre></div>`
+        : '';
 
       return `
       <div class="bug-card">
@@ -79,6 +87,7 @@ export async function generate(
           </div>
         </div>
         ${bug.rootCause ? `<div class="section"><h4>Root Cause</h4><p>${escapeHtml(bug.rootCause)}</p></div>` : ''}
+        ${serverLogsHtml}
         ${evidenceHtml}
       </div>`;
     })
@@ -108,11 +117,59 @@ export async function generate(
     })
     .join('');
 
+  // Visual regressions: baseline/diff images are stored beside the step
+  // screenshot as `<stepId>.baseline.png` / `<stepId>.diff.png`
+  const visualSteps = session.steps.flatMap((step) =>
+    step.visual?.status === 'mismatch' ? [{ step, visual: step.visual }] : [],
+  );
+  const visualHtml = (
+    await Promise.all(
+      visualSteps.map(async ({ step, visual }) => {
+        const images = await Promise.all(
+          [
+            ['Baseline', `${step.id}.baseline`],
+            ['Actual', step.id],
+            ['Diff', `${step.id}.diff`],
+          ].map(async ([label, id]) => {
+            const b64 = await screenshotResolver(id);
+            return b64
+              ? `<figure><figcaption>${label}</figcaption><img src="data:image/png;base64,${b64}" alt="${label} ${escapeHtml(step.id)}" /></figure>`
+              : '';
+          }),
+        );
+
+        return `
+      <div class="finding-card">
+        <div class="finding-header">
+          <span class="category" style="background:#dc2626">VISUAL</span>
+          ${step.contextId ? `<span class="context-badge" style="background:${contextColor(step.contextId)}">${escapeHtml(step.contextId)}</span>` : ''}
+          <h3>${escapeHtml(visual.key)}</h3>
+        </div>
+        <p class="url">${escapeHtml(step.metadata.url)}</p>
+        <p>${(visual.diffRatio * 100).toFixed(3)}% of pixels differ (${visual.diffPixels} px, allowed ${(visual.maxDiffRatio * 100).toFixed(3)}%)${visual.sizeChanged ? ' &mdash; page size changed' : ''}</p>
+        <div class="visual-diff">${images.join('')}</div>
+      </div>`;
+      }),
+    )
+  ).join('');
+
   const hasContexts = session.steps.some((s) => s.contextId);
 
+  const artifacts = data.artifacts ?? [];
+  const artifactsHtml = artifacts
+    .map(
+      (a) =>
+        `<li><a href="${escapeHtml(a.href)}" download>${escapeHtml(a.file)}</a> &mdash; ${a.type === 'trace' ? 'Playwright trace' : 'HAR'} <span class="context-badge" style="background:${contextColor(a.contextId)}">${escapeHtml(a.contextId)}</span></li>`,
+    )
+    .join('');
+
   const timelineRows = session.steps
     .map((step, i) => {
-      const err = step.error ? `<span class="error-badge">Error</span>` : '';
+      const err = step.error
+        ? `<span class="error-badge">Error</span>`
+        : step.visual?.status === 'mismatch'
+          ? `<span class="error-badge">Visual diff</span>`
+          : '';
       const ctxCell = hasContexts
         ? `<td><span class="context-badge" style="background:${contextColor(step.contextId ?? 'default')}">${escapeHtml(step.contextId ?? 'default')}</span></td>`
         : '';
@@ -152,15 +209,19 @@ export async function generate(
     .url { font-size: 0.85rem; color: var(--muted); margin-bottom: 0.75rem; word-break: break-all; }
     .section { margin-bottom: 0.75rem; }
     .columns { display: grid; grid-template-columns: 1fr 1fr; gap: 1rem; }
+    .logs { font-size: 0.8rem; background: var(--bg); border: 1px solid var(--border); border-radius: 4px; padding: 0.5rem; white-space: pre-wrap; word-break: break-all; }
     .screenshot { margin: 0.75rem 0; }
     .screenshot img { max-width: 100%; border: 1px solid var(--border); border-radius: 4px; }
+    .visual-diff { display: grid; grid-template-columns: repeat(3, 1fr); gap: 0.5rem; margin-top: 0.75rem; }
+    .visual-diff figcaption { font-size: 0.75rem; color: var(--muted); text-transform: uppercase; }
+    .visual-diff img { width: 100%; border: 1px solid var(--border); border-radius: 4px; }
     table { width: 100%; border-collapse: collapse; font-size: 0.85rem; }
     th, td { text-align: left; padding: 0.5rem 0.75rem; border-bottom: 1px solid var(--border); }
     th { font-weight: 600; color: var(--muted); font-size: 0.75rem; text-transform: uppercase; }
     .url-cell { max-width: 300px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
     code { background: #e5e7eb; padding: 0.15rem 0.4rem; border-radius: 3px; font-size: 0.85em; }
     .error-badge { background: #fef2f2; color: #dc2626; padding: 0.15rem 0.5rem; border-radius: 3px; font-size: 0.75rem; font-weight: 600; }
-    ol { padding-left: 1.25rem; }
+    ol, .artifacts { padding-left: 1.25rem; }
     li { margin-bottom: 0.25rem; }
     .meta { color: var(--muted); font-size: 0.85rem; margin-bottom: 1.5rem; }
     .context-badge { color: #fff; font-size: 0.65rem; font-weight: 700; padding: 0.15rem 0.5rem; border-radius: 3px; font-family: monospace; white-space: nowrap; }
@@ -181,6 +242,7 @@ export async function generate(
 
   ${bugs.length > 0 ? `<h2>Bugs</h2>${bugsHtml}` : ''}
   ${findings.length > 0 ? `<h2>Findings</h2>${findingsHtml}` : ''}
+  ${visualSteps.length > 0 ? `<h2>Visual Regressions</h2>${visualHtml}` : ''}
   ${
     session.steps.length > 0
       ? `
@@ -191,6 +253,14 @@ export async function generate(
   </table>`
       : ''
   }
+  ${
+    artifacts.length > 0
+      ? `
+  <h2>Recordings</h2>
+  <ul class="artifacts">${artifactsHtml}</ul>
+  ${artifacts.some((a) => a.type === 'trace') ? '<p class="meta">Open traces with <code>npx playwright show-trace &lt;file&gt;</code> or at trace.playwright.dev.</p>' : ''}`
+      : ''
+  }
 
   <p class="meta" style="margin-top:2rem; text-align:center;">Generated by f4tl at ${new Date(data.generatedAt).toISOString()}</p>
 </body>
@@ -0,0 +1,126 @@
+import type { Bug, Finding, JourneyReportEntry, ReportData } from '../types/index.js';
+
+function escapeXml(text: string): string {
+  return (
+    text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+      // Control characters are not allowed in XML 1.0
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, '')
+  );
+}
+
+const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+function testsuite(
+  name: string,
+  cases: string[],
+  counts: { failures: number; skipped?: number; time?: number },
+  timestamp: string,
+): string {
+  const attrs = [
+    `name="${escapeXml(name)}"`,
+    `tests="${cases.length}"`,
+    `failures="${counts.failures}"`,
+    `errors="0"`,
+    `skipped="${counts.skipped ?? 0}"`,
+    `time="${seconds(counts.time ?? 0)}"`,
+    `timestamp="${timestamp}"`,
+  ];
+  if (cases.length === 0) return `  <testsuite ${attrs.join(' ')}/>`;
+  return [`  <testsuite ${attrs.join(' ')}>`, ...cases, '  </testsuite>'].join('\n');
+}
+
+function journeyCase(j: JourneyReportEntry): string {
+  const open = `    <testcase classname="f4tl.journeys" name="${escapeXml(j.name)}" time="${seconds(j.duration)}"`;
+  if (j.status === 'passed') return `${open}/>`;
+
+  const message = escapeXml(j.error ?? `Journey ${j.status}`);
+  const body =
+    j.status === 'skipped'
+      ? `      <skipped message="${message}"/>`
+      : `      <failure message="${message}" type="journey">${escapeXml(
+          [j.error, j.bugId ? `Bug: ${j.bugId}` : ''].filter(Boolean).join('\n'),
+        )}</failure>`;
+  return [`${open}>`, body, '    </testcase>'].join('\n');
+}
+
+function bugCase(bug: Bug): string {
+  const details = [
+    bug.url ? `URL: ${bug.url}` : '',
+    bug.stepsToReproduce.length > 0
+      ? `Steps to reproduce:\n${bug.stepsToReproduce.map((s, i) => `${i + 1}. ${s}`).join('\n')}`
+      : '',
+    `Expected: ${bug.expected}`,
+    `Actual: ${bug.actual}`,
+    bug.rootCause ? `Root cause: ${bug.rootCause}` : '',
+    bug.evidenceStepIds.length > 0 ? `Evidence: steps ${bug.evidenceStepIds.join(', ')}` : '',
+    bug.serverLogs?.length
+      ? `Server logs:\n${bug.serverLogs.map((e) => `${e.level.toUpperCase()} [${e.source}] ${e.message}`).join('\n')}`
+      : '',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return [
+    `    <testcase classname="f4tl.bugs.${bug.severity}" name="${escapeXml(bug.title)}">`,
+    `      <failure message="${escapeXml(`[${bug.severity}] ${bug.title}`)}" type="${bug.severity}">${escapeXml(details)}</failure>`,
+    '    </testcase>',
+  ].join('\n');
+}
+
+function findingCase(f: Finding): string {
+  const out = [f.description, f.url ? `URL: ${f.url}` : ''].filter(Boolean).join('\n\n');
+  return [
+    `    <testcase classname="f4tl.findings.${f.category}" name="${escapeXml(f.title)}">`,
+    `      <system-out>${escapeXml(out)}</system-out>`,
+    '    </testcase>',
+  ].join('\n');
+}
+
+/**
+ * JUnit XML for CI test reporters. Journeys map to test cases; every bug is a
+ * failing case (except those already reported through a failed journey), and
+ * findings are passing cases carrying their description as output.
+ */
+export async function generate(
+  data: ReportData,
+  _screenshotResolver: (stepId: string) => Promise<string | null>,
+): Promise<string> {
+  const { session, summary, bugs, findings } = data;
+  const journeys = data.journeys ?? [];
+  const timestamp = new Date(summary.startTime).toISOString();
+
+  const journeyBugIds = new Set(journeys.map((j) => j.bugId).filter(Boolean));
+  const standaloneBugs = bugs.filter((b) => !journeyBugIds.has(b.id));
+
+  const suites = [
+    testsuite(
+      'journeys',
+      journeys.map(journeyCase),
+      {
+        failures: journeys.filter((j) => j.status === 'failed').length,
+        skipped: journeys.filter((j) => j.status === 'skipped').length,
+        time: journeys.reduce((t, j) => t + j.duration, 0),
+      },
+      timestamp,
+    ),
+    testsuite('bugs', standaloneBugs.map(bugCase), { failures: standaloneBugs.length }, timestamp),
+    testsuite('findings', findings.map(findingCase), { failures: 0 }, timestamp),
+  ];
+
+  const tests = journeys.length + standaloneBugs.length + findings.length;
+  const failures = journeys.filter((j) => j.status === 'failed').length + standaloneBugs.length;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(`f4tl session ${session.id}`)}" tests="${tests}" failures="${failures}" errors="0" time="${seconds(summary.duration)}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
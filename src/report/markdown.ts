@@ -47,6 +47,18 @@ export async function generate(
         lines.push('');
         lines.push(`**Evidence**: Steps ${bug.evidenceStepIds.join(', ')}`);
       }
+      if (bug.serverLogs?.length) {
+        lines.push('');
+        lines.push('**Server Logs**:');
+        lines.push('');
+        lines.push('```');
+        for (const e of bug.serverLogs) {
+          lines.push(
+            `${new Date(e.timestamp).toISOString()} ${e.level.toUpperCase()} [${e.source}] ${e.message}`,
+          );
+        }
+        lines.push('```');
+      }
       lines.push('');
       lines.push('---');
       lines.push('');
@@ -97,5 +109,19 @@ export async function generate(
     }
   }
 
+  if (data.artifacts && data.artifacts.length > 0) {
+    lines.push('');
+    lines.push('## Recordings');
+    lines.push('');
+    for (const a of data.artifacts) {
+      const label = a.type === 'trace' ? 'Playwright trace' : 'HAR';
+      lines.push(`- [${a.file}](${a.href}) — ${label} (${a.contextId})`);
+    }
+    if (data.artifacts.some((a) => a.type === 'trace')) {
+      lines.push('');
+      lines.push('Open traces with `npx playwright show-trace <file>`.');
+    }
+  }
+
   return lines.join('\n');
 }
@@ -0,0 +1,310 @@
+import type { Bug, ExportedTest, Session, SessionStep } from '../types/index.js';
+
+type Params = Record<string, unknown>;
+
+function quote(value: unknown): string {
+  const s = String(value);
+  return `'${s.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\r?\n/g, '\\n')}'`;
+}
+
+const REDACTED = /\[REDACTED:([^\]]+)\]/g;
+
+/**
+ * Quotes strings for the spec. Values masked by sensitive-data redaction
+ * can't be replayed, so each one becomes a `process.env.F4TL_<TYPE>_<n>`
+ * lookup, collected in `envVars` for the header.
+ */
+class Literals {
+  readonly envVars: string[] = [];
+  private counts = new Map<string, number>();
+
+  quote = (value: unknown): string => {
+    const s = String(value);
+    const parts = s.split(REDACTED);
+    if (parts.length === 1) return quote(s);
+
+    // split() with one capture group alternates text and redaction types
+    let out = '`';
+    for (let i = 0; i < parts.length; i++) {
+      if (i % 2 === 0) {
+        out += parts[i].replace(/[\\`]/g, '\\$&').replace(/\$\{/g, '\\${').replace(/\r?\n/g, '\\n');
+      } else {
+        out += `\${process.env.${this.envVar(parts[i])}}`;
+      }
+    }
+    return `${out}\``;
+  };
+
+  /** JSON for object params, with redacted string values swapped for env lookups. */
+  json = (value: unknown): string => {
+    const text = JSON.stringify(value);
+    return text.replace(/"(?:[^"\\]|\\.)*"/g, (token, offset: number) =>
+      token.includes('[REDACTED:') && text[offset + token.length] !== ':'
+        ? this.quote(JSON.parse(token) as string)
+        : token,
+    );
+  };
+
+  private envVar(type: string): string {
+    const name = type.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+    const n = (this.counts.get(name) ?? 0) + 1;
+    this.counts.set(name, n);
+    const envVar = `F4TL_${name}_${n}`;
+    this.envVars.push(envVar);
+    return envVar;
+  }
+}
+
+function comment(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Same mapping as the browser tools use, so exported locators match what ran. */
+function locatorFor(page: string, selector: unknown, quote: Literals['quote']): string | null {
+  const sel = (selector ?? {}) as Params;
+  if (typeof sel.css === 'string') return `${page}.locator(${quote(sel.css)})`;
+  if (typeof sel.text === 'string') return `${page}.locator(${quote(`text=${sel.text}`)})`;
+  if (typeof sel.role === 'string') return `${page}.locator(${quote(`role=${sel.role}`)})`;
+  if (typeof sel.xpath === 'string') return `${page}.locator(${quote(`xpath=${sel.xpath}`)})`;
+  return null;
+}
+
+/** Translate one recorded browser action into a Playwright statement, or null if it has none. */
+function actionLine(page: string, step: SessionStep, literals: Literals): string | null {
+  const p = step.action.params;
+  const { quote, json } = literals;
+  const locator = (selector: unknown) => locatorFor(page, selector, quote);
+
+  switch (step.action.type) {
+    case 'navigate': {
+      const waitUntil =
+        p.waitUntil && p.waitUntil !== 'load' ? `, { waitUntil: ${quote(p.waitUntil)} }` : '';
+      return `await ${page}.goto(${quote(p.url)}${waitUntil});`;
+    }
+    case 'access_check':
+      return `await ${page}.goto(${quote(p.url)});`;
+    case 'click': {
+      const loc = locator(p.selector);
+      return loc && `await ${loc}.click(${p.force ? '{ force: true }' : ''});`;
+    }
+    case 'fill': {
+      const loc = locator(p.selector);
+      return loc && `await ${loc}.fill(${quote(p.value ?? '')});`;
+    }
+    case 'type': {
+      const loc = locator(p.selector);
+      return loc && `await ${loc}.pressSequentially(${quote(p.text ?? '')});`;
+    }
+    case 'select': {
+      const loc = locator(p.selector);
+      const option =
+        p.value !== undefined
+          ? `{ value: ${quote(p.value)} }`
+          : `{ label: ${quote(p.label ?? '')} }`;
+      return loc && `await ${loc}.selectOption(${option});`;
+    }
+    case 'hover': {
+      const loc = locator(p.selector);
+      return loc && `await ${loc}.hover();`;
+    }
+    case 'press':
+      return `await ${page}.keyboard.press(${quote(p.key)});`;
+    case 'scroll': {
+      const loc = p.selector ? locator(p.selector) : null;
+      const [x, y] = [Number(p.x ?? 0), Number(p.y ?? 0)];
+      return loc
+        ? `await ${loc}.evaluate((el) => el.scrollBy(${x}, ${y}));`
+        : `await ${page}.mouse.wheel(${x}, ${y});`;
+    }
+    case 'wait':
+      switch (p.type) {
+        case 'time':
+          return `await ${page}.waitForTimeout(${Number(p.value)});`;
+        case 'selector':
+          return `await ${page}.locator(${quote(p.value)}).waitFor();`;
+        case 'networkidle':
+          return `await ${page}.waitForLoadState('networkidle');`;
+        case 'url':
+          return `await ${page}.waitForURL(${quote(p.value)});`;
+        default:
+          return null;
+      }
+    case 'evaluate':
+      return `await ${page}.evaluate(${quote(p.expression)});`;
+    case 'resize':
+      return `await ${page}.setViewportSize({ width: ${Number(p.width)}, height: ${Number(p.height)} });`;
+    case 'back':
+      return `await ${page}.goBack();`;
+    case 'forward':
+      return `await ${page}.goForward();`;
+    case 'perf_measure':
+      return p.reload ? `await ${page}.reload();` : null;
+    case 'http_request': {
+      const options = [`method: ${quote(p.method ?? 'GET')}`];
+      if (p.headers) options.push(`headers: ${json(p.headers)}`);
+      if (p.query) options.push(`params: ${json(p.query)}`);
+      if (p.json !== undefined) options.push(`data: ${json(p.json)}`);
+      else if (p.body !== undefined) options.push(`data: ${quote(p.body)}`);
+      const call = `${page}.request.fetch(${quote(p.url)}, { ${options.join(', ')} })`;
+      return p.expectStatus !== undefined
+        ? `expect((await ${call}).status()).toBe(${Number(p.expectStatus)});`
+        : `await ${call};`;
+    }
+    // Read-only captures (screenshot, accessibility_tree, visual_compare, a11y_audit)
+    default:
+      return null;
+  }
+}
+
+function pageVariable(contextId: string, taken: Set<string>): string {
+  const words = contextId.split(/[^a-zA-Z0-9]+/).filter(Boolean);
+  let name =
+    words.map((w, i) => (i === 0 ? w.toLowerCase() : w[0].toUpperCase() + w.slice(1))).join('') ||
+    'actor';
+  if (/^\d/.test(name)) name = `actor${name}`;
+  name = `${name}Page`;
+
+  let unique = name;
+  for (let n = 2; taken.has(unique); n++) unique = `${name}${n}`;
+  taken.add(unique);
+  return unique;
+}
+
+/**
+ * Convert a recorded session into a `@playwright/test` spec. Steps replay in
+ * their original order; multi-actor sessions get one browser context per
+ * `contextId`. Steps cited as bug evidence become `expect` assertions on the
+ * URL and the console/network errors that were observed, so the test keeps
+ * failing until the bug is fixed.
+ */
+export function generatePlaywrightTest(session: Session, bugs: Bug[] = []): ExportedTest {
+  const multiActor = session.steps.some((s) => s.contextId && s.contextId !== 'default');
+  const contextIds = multiActor
+    ? [...new Set(session.steps.map((s) => s.contextId ?? 'default'))]
+    : [];
+  const taken = new Set<string>();
+  const pages = new Map(contextIds.map((id) => [id, pageVariable(id, taken)]));
+  const pageFor = (step: SessionStep) => pages.get(step.contextId ?? 'default') ?? 'page';
+
+  const bugsByStep = new Map<string, Bug[]>();
+  for (const bug of bugs) {
+    for (const stepId of bug.evidenceStepIds) {
+      bugsByStep.set(stepId, [...(bugsByStep.get(stepId) ?? []), bug]);
+    }
+  }
+
+  const evidenceSteps = session.steps.filter((s) => bugsByStep.has(s.id));
+  const trackConsole = evidenceSteps.some((s) => s.metadata.consoleErrors.length > 0);
+  const trackNetwork = evidenceSteps.some((s) => s.metadata.networkErrors.length > 0);
+
+  const literals = new Literals();
+  const body: string[] = [];
+  let stepCount = 0;
+  let skippedStepCount = 0;
+  let assertionCount = 0;
+
+  for (const step of session.steps) {
+    const page = pageFor(step);
+    const stepBugs = bugsByStep.get(step.id);
+    const line = actionLine(page, step, literals);
+
+    // A failed action is usually the agent probing; keep it only when it is the bug
+    if (step.error && !stepBugs) {
+      body.push(`// skipped ${step.action.type} (${step.id}): ${comment(step.error)}`);
+      skippedStepCount++;
+      continue;
+    }
+
+    if (line) {
+      body.push(line);
+      stepCount++;
+      if (step.action.type === 'http_request' && step.action.params.expectStatus !== undefined) {
+        assertionCount++;
+      }
+    } else if (!stepBugs) {
+      skippedStepCount++;
+      continue;
+    }
+
+    if (!stepBugs) continue;
+
+    body.push('');
+    for (const bug of stepBugs) {
+      body.push(`// Bug [${bug.severity}]: ${comment(bug.title)}`);
+      body.push(`// Expected: ${comment(bug.expected)}`);
+    }
+    if (step.metadata.url && step.metadata.url !== 'about:blank') {
+      body.push(`await expect(${page}).toHaveURL(${literals.quote(step.metadata.url)});`);
+      assertionCount++;
+    }
+    if (step.metadata.consoleErrors.length > 0) {
+      body.push(`expect(consoleErrors, 'console errors').toEqual([]);`);
+      assertionCount++;
+    }
+    if (step.metadata.networkErrors.length > 0) {
+      body.push(`expect(failedResponses, 'failed requests').toEqual([]);`);
+      assertionCount++;
+    }
+    body.push('');
+  }
+
+  const setup: string[] = [];
+  for (const [contextId, page] of pages) {
+    setup.push(
+      `const ${page} = await (await browser.newContext()).newPage(); // ${comment(contextId)}`,
+    );
+  }
+  const allPages = multiActor ? [...pages.values()] : ['page'];
+  if (trackConsole) {
+    setup.push('const consoleErrors: string[] = [];');
+    for (const page of allPages) {
+      setup.push(
+        `${page}.on('console', (msg) => msg.type() === 'error' && consoleErrors.push(msg.text()));`,
+      );
+    }
+  }
+  if (trackNetwork) {
+    setup.push('const failedResponses: string[] = [];');
+    for (const page of allPages) {
+      setup.push(
+        `${page}.on('response', (res) => res.status() >= 400 && failedResponses.push(\`\${res.status()} \${res.url()}\`));`,
+      );
+    }
+  }
+  if (setup.length > 0) setup.push('');
+
+  const { viewport } = session.config.browser;
+  const header = [
+    `// Exported by f4tl from session ${session.id} (${new Date(session.startTime).toISOString()})`,
+    ...bugs
+      .filter((b) => b.evidenceStepIds.some((id) => session.steps.some((s) => s.id === id)))
+      .map((b) => `// Regression for [${b.severity}] ${comment(b.title)}`),
+    ...(literals.envVars.length > 0
+      ? [
+          `// Values redacted from the recording; set before running: ${literals.envVars.join(', ')}`,
+        ]
+      : []),
+  ];
+
+  const indent = (line: string) => (line ? `  ${line}` : '');
+  const lines = [
+    `import { ${assertionCount > 0 ? 'test, expect' : 'test'} } from '@playwright/test';`,
+    '',
+    ...header,
+    '',
+    `test.use({ viewport: { width: ${viewport.width}, height: ${viewport.height} } });`,
+    '',
+    `test(${quote(`f4tl session ${session.id}`)}, async ({ ${multiActor ? 'browser' : 'page'} }) => {`,
+    ...[...setup, ...body].map(indent),
+    '});',
+    '',
+  ];
+
+  // Collapse blank runs left by adjacent assertion blocks
+  const code = lines
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\n\n(\s*\}\);)/g, '\n$1');
+
+  return { code, stepCount, skippedStepCount, assertionCount, envVars: literals.envVars };
+}
@@ -0,0 +1,143 @@
+import { createHash } from 'node:crypto';
+import type { BugSeverity, FindingCategory, ReportData } from '../types/index.js';
+
+type SarifLevel = 'error' | 'warning' | 'note';
+
+const SEVERITY_LEVELS: Record<BugSeverity, SarifLevel> = {
+  critical: 'error',
+  major: 'error',
+  minor: 'warning',
+  cosmetic: 'note',
+};
+
+// security-severity drives GitHub code scanning's critical/high/medium/low labels
+const SECURITY_SEVERITY: Record<BugSeverity, string> = {
+  critical: '9.0',
+  major: '7.0',
+  minor: '4.0',
+  cosmetic: '1.0',
+};
+
+const CATEGORY_LEVELS: Record<FindingCategory, SarifLevel> = {
+  security: 'warning',
+  api: 'warning',
+  accessibility: 'warning',
+  performance: 'warning',
+  usability: 'note',
+  suggestion: 'note',
+  observation: 'note',
+};
+
+interface SarifRule {
+  id: string;
+  name: string;
+  shortDescription: { text: string };
+  defaultConfiguration: { level: SarifLevel };
+  properties?: Record<string, string>;
+}
+
+function location(url?: string) {
+  return url ? [{ physicalLocation: { artifactLocation: { uri: url } } }] : [];
+}
+
+/** Stable across runs so code scanning can track a result instead of reopening it. */
+function fingerprint(...parts: (string | undefined)[]): string {
+  return createHash('sha256')
+    .update(parts.map((p) => p ?? '').join('\n'))
+    .digest('hex')
+    .slice(0, 32);
+}
+
+/**
+ * SARIF 2.1.0 log with one result per bug (`bug/<severity>` rules) and per
+ * finding (`finding/<category>` rules). Locations are page URLs, since bugs
+ * are found in the running app rather than at a source line.
+ */
+export async function generate(
+  data: ReportData,
+  _screenshotResolver: (stepId: string) => Promise<string | null>,
+): Promise<string> {
+  const { session, summary, bugs, findings } = data;
+  const rules = new Map<string, SarifRule>();
+
+  const results = [
+    ...bugs.map((bug) => {
+      const ruleId = `bug/${bug.severity}`;
+      if (!rules.has(ruleId)) {
+        rules.set(ruleId, {
+          id: ruleId,
+          name: `${bug.severity[0].toUpperCase()}${bug.severity.slice(1)}Bug`,
+          shortDescription: { text: `${bug.severity} bug found during QA` },
+          defaultConfiguration: { level: SEVERITY_LEVELS[bug.severity] },
+          properties: { 'security-severity': SECURITY_SEVERITY[bug.severity] },
+        });
+      }
+      return {
+        ruleId,
+        level: SEVERITY_LEVELS[bug.severity],
+        message: {
+          text: `${bug.title}\n\nExpected: ${bug.expected}\nActual: ${bug.actual}${
+            bug.rootCause ? `\nRoot cause: ${bug.rootCause}` : ''
+          }`,
+        },
+        locations: location(bug.url),
+        partialFingerprints: { 'f4tl/v1': fingerprint(ruleId, bug.title, bug.url) },
+        properties: {
+          bugId: bug.id,
+          stepsToReproduce: bug.stepsToReproduce,
+          evidenceStepIds: bug.evidenceStepIds,
+          ...(bug.contextId ? { contextId: bug.contextId } : {}),
+        },
+      };
+    }),
+    ...findings.map((f) => {
+      const ruleId = `finding/${f.category}`;
+      if (!rules.has(ruleId)) {
+        rules.set(ruleId, {
+          id: ruleId,
+          name: `${f.category[0].toUpperCase()}${f.category.slice(1)}Finding`,
+          shortDescription: { text: `${f.category} finding` },
+          defaultConfiguration: { level: CATEGORY_LEVELS[f.category] },
+        });
+      }
+      return {
+        ruleId,
+        level: CATEGORY_LEVELS[f.category],
+        message: { text: `${f.title}\n\n${f.description}` },
+        locations: location(f.url),
+        partialFingerprints: { 'f4tl/v1': fingerprint(ruleId, f.title, f.url) },
+        properties: {
+          findingId: f.id,
+          evidenceStepIds: f.evidenceStepIds,
+          ...(f.contextId ? { contextId: f.contextId } : {}),
+        },
+      };
+    }),
+  ];
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'f4tl',
+            rules: [...rules.values()],
+          },
+        },
+        automationDetails: { id: `f4tl/${session.id}` },
+        invocations: [
+          {
+            executionSuccessful: true,
+            startTimeUtc: new Date(summary.startTime).toISOString(),
+            ...(summary.endTime ? { endTimeUtc: new Date(summary.endTime).toISOString() } : {}),
+          },
+        ],
+        results,
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
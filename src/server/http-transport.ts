@@ -0,0 +1,121 @@
+import { Hono, type Context } from 'hono';
+import { serve } from '@hono/node-server';
+import { randomUUID, timingSafeEqual } from 'node:crypto';
+import { WebStandardStreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { ServerType } from '@hono/node-server';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { McpHttpConfig } from '../types/index.js';
+
+interface ClientSession {
+  transport: WebStandardStreamableHTTPServerTransport;
+  mcp: McpServer;
+  createdAt: number;
+}
+
+function jsonRpcError(c: Context, status: 400 | 401 | 404, code: number, message: string) {
+  return c.json({ jsonrpc: '2.0', error: { code, message }, id: null }, status);
+}
+
+function tokensMatch(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Streamable HTTP endpoint for the MCP server. Every client that sends an
+ * `initialize` request gets its own transport and McpServer, keyed by the
+ * `Mcp-Session-Id` header, so several clients can share one f4tl process.
+ */
+export class McpHttpServer {
+  private app: Hono;
+  private server: ServerType | null = null;
+  private sessions = new Map<string, ClientSession>();
+
+  constructor(
+    private config: McpHttpConfig,
+    private createMcpServer: () => McpServer,
+    private token?: string,
+  ) {
+    this.app = new Hono();
+    this.registerRoutes();
+  }
+
+  private registerRoutes(): void {
+    this.app.get('/health', (c) => c.json({ status: 'ok', sessions: this.sessions.size }));
+
+    this.app.all(this.config.path, async (c) => {
+      if (this.token) {
+        const header = c.req.header('authorization') ?? '';
+        const match = /^Bearer\s+(.+)$/i.exec(header);
+        if (!match || !tokensMatch(this.token, match[1])) {
+          return jsonRpcError(c, 401, -32001, 'Unauthorized: missing or invalid bearer token');
+        }
+      }
+
+      const sessionId = c.req.header('mcp-session-id');
+      if (sessionId) {
+        const session = this.sessions.get(sessionId);
+        if (!session) return jsonRpcError(c, 404, -32001, 'Session not found');
+        return session.transport.handleRequest(c.req.raw);
+      }
+
+      if (c.req.method !== 'POST') {
+        return jsonRpcError(c, 400, -32000, 'Bad Request: No valid session ID provided');
+      }
+
+      const body = await c.req.json().catch(() => null);
+      if (!isInitializeRequest(body)) {
+        return jsonRpcError(c, 400, -32000, 'Bad Request: No valid session ID provided');
+      }
+
+      const mcp = this.createMcpServer();
+      const transport = new WebStandardStreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          this.sessions.set(id, { transport, mcp, createdAt: Date.now() });
+          console.error(`[f4tl] MCP client connected (session ${id})`);
+        },
+        onsessionclosed: (id) => {
+          this.sessions.delete(id);
+          console.error(`[f4tl] MCP client disconnected (session ${id})`);
+        },
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) this.sessions.delete(transport.sessionId);
+      };
+
+      await mcp.connect(transport);
+      return transport.handleRequest(c.req.raw, { parsedBody: body });
+    });
+  }
+
+  getSessionIds(): string[] {
+    return [...this.sessions.keys()];
+  }
+
+  /** Exposed for tests — handle a request without binding a port. */
+  fetch(request: Request): Response | Promise<Response> {
+    return this.app.fetch(request);
+  }
+
+  async start(): Promise<void> {
+    const { port, host, path } = this.config;
+    this.server = serve({ fetch: this.app.fetch, port, hostname: host });
+    console.error(`[f4tl] MCP HTTP transport listening at http://${host}:${port}${path}`);
+  }
+
+  async stop(): Promise<void> {
+    for (const session of this.sessions.values()) {
+      await session.transport.close().catch(() => {});
+      await session.mcp.close().catch(() => {});
+    }
+    this.sessions.clear();
+
+    if (this.server) {
+      this.server.close();
+      this.server = null;
+    }
+  }
+}
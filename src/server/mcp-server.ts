@@ -1,5 +1,6 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { join } from 'node:path';
 import { z } from 'zod';
 import { BrowserManager } from '../core/browser-manager.js';
 import { SessionManager } from '../core/session-manager.js';
@@ -25,10 +26,19 @@ import {
 import {
   NetworkTools,
   getRequestsSchema,
+  graphqlOperationsSchema,
   interceptSchema,
   getWebSocketsSchema,
+  networkRecordSchema,
+  networkReplaySchema,
 } from './tools/network.js';
-import { LogTools, tailSchema, getLogsSchema, searchLogsSchema } from './tools/logs.js';
+import {
+  LogTools,
+  tailSchema,
+  getLogsSchema,
+  searchLogsSchema,
+  stepLogsSchema,
+} from './tools/logs.js';
 import { DatabaseTools, querySchema, schemaSchema, explainSchema } from './tools/database.js';
 import {
   CodeTools,
@@ -42,6 +52,7 @@ import {
   createBugSchema,
   addFindingSchema,
   generateReportSchema,
+  exportTestSchema,
 } from './tools/report.js';
 import { ReportManager } from '../core/report-manager.js';
 import { WebhookHandler } from '../core/webhook-handler.js';
@@ -49,14 +60,25 @@ import { SessionHistory } from '../core/session-history.js';
 import { WebhookTools, discoverSchema, fireSchema } from './tools/webhook.js';
 import { LearningTools, getHistorySchema, getBugsSchema, compareSchema } from './tools/learning.js';
 import { SuppressionTools, suppressErrorSchema } from './tools/suppression.js';
+import { VisualTools, visualCompareSchema, visualApproveSchema } from './tools/visual.js';
+import { A11yTools, a11yAuditSchema } from './tools/a11y.js';
+import { PerfTools, perfMeasureSchema } from './tools/perf.js';
+import { SensitiveDataDetector } from '../core/sensitive-data.js';
+import { SecurityTools, dataLeaksSchema, securityScanSchema } from './tools/security.js';
+import { VisualBaselineStore } from '../core/visual-baseline.js';
 import { FrameworkTools } from './tools/framework.js';
-import { AuthTools, authLoginSchema } from './tools/auth.js';
+import { AuthTools, authLoginSchema, authStatusSchema } from './tools/auth.js';
+import { AccessTools, accessMatrixSchema } from './tools/access.js';
+import { ApiTools, apiValidateSchema } from './tools/api.js';
+import { HttpTools, httpRequestSchema } from './tools/http.js';
 import { JourneyRunner } from '../core/journey-runner.js';
+import { JourneyExecutor } from '../core/journey-executor.js';
 import { JourneyTools, getJourneySchema } from './tools/journey.js';
 import { ConfigGenTools, generateConfigSchema } from './tools/config-gen.js';
 import { registerPrompts } from './prompts.js';
+import { McpHttpServer } from './http-transport.js';
 import { ToolExecutor } from '../core/tool-executor.js';
-import type { F4tlConfig } from '../types/index.js';
+import type { F4tlConfig, McpHttpConfig } from '../types/index.js';
 
 export class F4tlServer {
   private mcp: McpServer;
@@ -75,48 +97,112 @@ export class F4tlServer {
   private webhookTools: WebhookTools | null = null;
   private learningTools: LearningTools | null = null;
   private suppressionTools: SuppressionTools;
+  private visualTools: VisualTools;
+  private a11yTools: A11yTools;
+  private perfTools: PerfTools;
+  private securityTools: SecurityTools;
+  private httpTools: HttpTools;
   private frameworkTools: FrameworkTools;
   private authTools: AuthTools | null = null;
+  private accessTools: AccessTools | null = null;
+  private apiTools: ApiTools | null = null;
+  private journeyRunner: JourneyRunner | null = null;
   private journeyTools: JourneyTools | null = null;
   private configGenTools: ConfigGenTools;
+  private httpServer: McpHttpServer | null = null;
 
   constructor(private config: F4tlConfig) {
-    this.mcp = new McpServer(
-      { name: config.mcp.name, version: config.mcp.version },
-      { capabilities: { tools: {}, prompts: {} } },
-    );
-
-    this.browserManager = new BrowserManager(config.browser, config.capture);
+    const sensitiveData = new SensitiveDataDetector(config.sensitiveData);
+    this.browserManager = new BrowserManager(
+      config.browser,
+      config.capture,
+      config.perf,
+      config.network,
+    );
+    this.browserManager.setSensitiveDataDetector(sensitiveData);
     this.sessionManager = new SessionManager(config.session);
+    this.sessionManager.setSensitiveDataDetector(sensitiveData);
     this.browserTools = new BrowserTools(this.browserManager, this.sessionManager);
-    this.networkTools = new NetworkTools(this.browserManager);
+    this.networkTools = new NetworkTools(
+      this.browserManager,
+      config.network.fixtureDir,
+      config.mcp.version,
+    );
     this.codeExplorer = new CodeExplorer(config.codebase);
     this.codeTools = new CodeTools(this.codeExplorer);
     this.reportManager = new ReportManager(config.report);
+    this.reportManager.setSensitiveDataDetector(sensitiveData);
     this.reportTools = new ReportTools(
       this.reportManager,
       this.sessionManager,
       config.session.outputDir,
     );
     this.suppressionTools = new SuppressionTools(this.browserManager);
+    this.visualTools = new VisualTools(
+      this.browserManager,
+      this.sessionManager,
+      new VisualBaselineStore(config.visual),
+      config.visual,
+    );
+    this.a11yTools = new A11yTools(this.browserManager, this.sessionManager, this.reportManager);
+    this.perfTools = new PerfTools(
+      this.browserManager,
+      this.sessionManager,
+      this.reportManager,
+      config.perf,
+    );
+    this.perfTools.watchBudgets();
+    this.securityTools = new SecurityTools(
+      this.browserManager,
+      this.sessionManager,
+      this.reportManager,
+      sensitiveData,
+    );
+    this.securityTools.watchLeaks();
+    this.httpTools = new HttpTools(this.browserManager, this.sessionManager, config.app?.baseUrl);
     this.frameworkTools = new FrameworkTools(this.browserManager, config.codebase);
     this.configGenTools = new ConfigGenTools(this.codeExplorer, config.codebase);
 
     // Conditional: auth
     if (config.auth && Object.keys(config.auth).length > 0) {
       this.authTools = new AuthTools(this.browserManager, config.auth);
+      if (config.app?.pages?.length) {
+        this.accessTools = new AccessTools(
+          this.browserManager,
+          this.sessionManager,
+          this.reportManager,
+          config.app,
+          config.auth,
+        );
+      }
+    }
+
+    // Conditional: OpenAPI contract
+    if (config.api) {
+      this.apiTools = new ApiTools(
+        this.browserManager,
+        this.sessionManager,
+        this.reportManager,
+        config.api,
+      );
+      this.apiTools.watchTraffic();
     }
 
     // Conditional: journeys
     if (config.journeys && Object.keys(config.journeys).length > 0) {
-      const runner = new JourneyRunner(config.journeys);
-      this.journeyTools = new JourneyTools(runner);
+      this.journeyRunner = new JourneyRunner(config.journeys);
+      this.journeyTools = new JourneyTools(this.journeyRunner);
     }
 
     // Conditional: logs
     if (config.logs && Object.keys(config.logs).length > 0) {
       this.logCollector = new LogCollector(config.logs);
-      this.logTools = new LogTools(this.logCollector);
+      this.logTools = new LogTools(this.logCollector, this.sessionManager);
+      this.browserManager.setLogCollector(this.logCollector);
+      this.reportTools.setLogCollector(this.logCollector);
+      this.logCollector.setSensitiveDataDetector(sensitiveData);
+      this.logCollector.onAlert((alert) => this.sessionManager.addLogAlert(alert));
+      this.sessionManager.watchLogAlerts();
     }
 
     // Conditional: database
@@ -137,116 +223,138 @@ export class F4tlServer {
       this.learningTools = new LearningTools(history);
     }
 
-    this.registerBrowserTools();
-    this.registerNetworkTools();
-    this.registerCodeTools();
-    this.registerContextTools();
-    this.registerReportTools();
-    this.registerSuppressionTools();
-    this.registerFrameworkTools();
-    this.registerConfigGenTools();
-    if (config.app) this.registerAppTools();
-
-    if (this.authTools) this.registerAuthTools();
-    if (this.journeyTools) this.registerJourneyTools();
-    if (this.logTools) this.registerLogTools();
-    if (this.dbTools) this.registerDatabaseTools();
-    if (this.webhookTools) this.registerWebhookTools();
-    if (this.learningTools) this.registerLearningTools();
-
-    registerPrompts(this.mcp);
+    this.mcp = this.createMcpServer();
 
     this.setupShutdown();
   }
 
+  /**
+   * Create an McpServer with every enabled tool and prompt registered. An
+   * McpServer binds to a single transport, so HTTP mode builds one per client
+   * session while all of them share this instance's browser and collectors.
+   */
+  private createMcpServer(): McpServer {
+    const mcp = new McpServer(
+      { name: this.config.mcp.name, version: this.config.mcp.version },
+      { capabilities: { tools: {}, prompts: {} } },
+    );
+
+    this.registerBrowserTools(mcp);
+    this.registerNetworkTools(mcp);
+    this.registerCodeTools(mcp);
+    this.registerContextTools(mcp);
+    this.registerReportTools(mcp);
+    this.registerSuppressionTools(mcp);
+    this.registerVisualTools(mcp);
+    this.registerA11yTools(mcp);
+    this.registerPerfTools(mcp);
+    this.registerSecurityTools(mcp);
+    this.registerHttpTools(mcp);
+    this.registerFrameworkTools(mcp);
+    this.registerConfigGenTools(mcp);
+    if (this.config.app) this.registerAppTools(mcp);
+
+    if (this.authTools) this.registerAuthTools(mcp);
+    if (this.accessTools) this.registerAccessTools(mcp);
+    if (this.apiTools) this.registerApiTools(mcp);
+    if (this.journeyTools) this.registerJourneyTools(mcp);
+    if (this.logTools) this.registerLogTools(mcp);
+    if (this.dbTools) this.registerDatabaseTools(mcp);
+    if (this.webhookTools) this.registerWebhookTools(mcp);
+    if (this.learningTools) this.registerLearningTools(mcp);
+
+    registerPrompts(mcp);
+    return mcp;
+  }
+
   // ── Browser Tools (15) ──────────────────────────────────────────────────────
 
-  private registerBrowserTools(): void {
+  private registerBrowserTools(mcp: McpServer): void {
     const t = this.browserTools;
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_navigate',
       'Navigate to a URL. Returns screenshot + console/network errors.',
       navigateSchema.shape,
       (params) => t.navigate(navigateSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_click',
       'Click an element by CSS/text/role/xpath selector.',
       clickSchema.shape,
       (params) => t.click(clickSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_fill',
       'Fill an input field (clears existing value first).',
       fillSchema.shape,
       (params) => t.fill(fillSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_type',
       'Type text keystroke-by-keystroke (for autocomplete/search).',
       typeSchema.shape,
       (params) => t.type(typeSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_select',
       'Select a dropdown option by value or label.',
       selectSchema.shape,
       (params) => t.select(selectSchema.parse(params)),
     );
 
-    this.mcp.tool('browser_hover', 'Hover over an element.', hoverSchema.shape, (params) =>
+    mcp.tool('browser_hover', 'Hover over an element.', hoverSchema.shape, (params) =>
       t.hover(hoverSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_press',
       'Press a keyboard key or combo (e.g. Enter, Control+a).',
       pressSchema.shape,
       (params) => t.press(pressSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_scroll',
       'Scroll the page or a container element.',
       scrollSchema.shape,
       (params) => t.scroll(scrollSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_screenshot',
       'Take a screenshot without performing any action.',
       screenshotSchema.shape,
       (params) => t.screenshot(screenshotSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_evaluate',
       'Execute JavaScript in the page context and return the result.',
       evaluateSchema.shape,
       (params) => t.evaluate(evaluateSchema.parse(params)),
     );
 
-    this.mcp.tool('browser_resize', 'Resize the browser viewport.', resizeSchema.shape, (params) =>
+    mcp.tool('browser_resize', 'Resize the browser viewport.', resizeSchema.shape, (params) =>
       t.resize(resizeSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_wait',
       'Wait for time, selector, network idle, or URL change.',
       waitSchema.shape,
       (params) => t.wait(waitSchema.parse(params)),
     );
 
-    this.mcp.tool('browser_back', 'Navigate back in browser history.', () => t.back());
+    mcp.tool('browser_back', 'Navigate back in browser history.', () => t.back());
 
-    this.mcp.tool('browser_forward', 'Navigate forward in browser history.', () => t.forward());
+    mcp.tool('browser_forward', 'Navigate forward in browser history.', () => t.forward());
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_accessibility_tree',
       'Get the accessibility tree of the page.',
       accessibilityTreeSchema.shape,
@@ -254,44 +362,65 @@ export class F4tlServer {
     );
   }
 
-  // ── Network Tools (4) ──────────────────────────────────────────────────────
+  // ── Network Tools (7) ──────────────────────────────────────────────────────
 
-  private registerNetworkTools(): void {
+  private registerNetworkTools(mcp: McpServer): void {
     const t = this.networkTools;
 
-    this.mcp.tool(
+    mcp.tool(
       'network_get_requests',
-      'Get captured HTTP requests/responses with optional filters.',
+      'Get captured HTTP requests/responses with optional filters. Set includeBodies to see what an API returned, or bodyPattern to search request and response bodies. GraphQL calls show their operations and any response errors, and can be filtered by operationName/operationType.',
       getRequestsSchema.shape,
       (params) => t.getRequests(getRequestsSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'network_intercept',
       'Add a network intercept rule (block, mock, or delay requests).',
       interceptSchema.shape,
       (params) => t.intercept(interceptSchema.parse(params)),
     );
 
-    this.mcp.tool('network_clear_intercepts', 'Remove all network intercept rules.', () =>
+    mcp.tool('network_clear_intercepts', 'Remove all network intercept rules.', () =>
       t.clearIntercepts(),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'network_get_websockets',
       'Get captured WebSocket messages.',
       getWebSocketsSchema.shape,
       (params) => t.getWebSockets(getWebSocketsSchema.parse(params)),
     );
+
+    mcp.tool(
+      'graphql_operations',
+      'Summarise the GraphQL operations seen so far, grouped by the page that sent them: call counts, HTTP statuses, average duration and error messages. A 200 response with an errors array counts as a failure.',
+      graphqlOperationsSchema.shape,
+      (params) => t.graphqlOperations(graphqlOperationsSchema.parse(params)),
+    );
+
+    mcp.tool(
+      'network_record',
+      'Record API responses (xhr/fetch by default) with bodies into a HAR fixture. Start before exercising the app, stop to save.',
+      networkRecordSchema.shape,
+      (params) => t.record(networkRecordSchema.parse(params)),
+    );
+
+    mcp.tool(
+      'network_replay',
+      'Serve requests from a recorded HAR fixture so the frontend can be tested without a working backend. Match on method/query/body; unmatched requests go live, 404, or abort.',
+      networkReplaySchema.shape,
+      (params) => t.replay(networkReplaySchema.parse(params)),
+    );
   }
 
   // ── Context Tools (2-3) ────────────────────────────────────────────────────
 
-  private registerContextTools(): void {
+  private registerContextTools(mcp: McpServer): void {
     const bm = this.browserManager;
     const config = this.config;
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_new_context',
       'Create a new isolated browser context (for multi-user testing).',
       {
@@ -330,7 +459,7 @@ export class F4tlServer {
       },
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'browser_switch_context',
       'Switch the active browser context.',
       {
@@ -359,7 +488,7 @@ export class F4tlServer {
     // Auth tool — only if auth config exists
     const auth = config.auth;
     if (auth && Object.keys(auth).length > 0) {
-      this.mcp.tool(
+      mcp.tool(
         'browser_auth',
         'Authenticate the current context with a configured role.',
         {
@@ -387,57 +516,64 @@ export class F4tlServer {
     }
   }
 
-  // ── Log Tools (3) ──────────────────────────────────────────────────────────
+  // ── Log Tools (4) ──────────────────────────────────────────────────────────
 
-  private registerLogTools(): void {
+  private registerLogTools(mcp: McpServer): void {
     const t = this.logTools;
     if (!t) return;
 
-    this.mcp.tool(
+    mcp.tool(
       'logs_tail',
       'Get the most recent log entries from a source.',
       tailSchema.shape,
       (params) => t.tail(tailSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'logs_get',
-      'Get log entries with filters (source, level, time range).',
+      'Get log entries with filters (source, level, time range, or a range of steps).',
       getLogsSchema.shape,
       (params) => t.getLogs(getLogsSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'logs_search',
-      'Search log entries by regex pattern.',
+      'Search log entries by regex pattern and/or correlation ID (traceId).',
       searchLogsSchema.shape,
       (params) => t.searchLogs(searchLogsSchema.parse(params)),
     );
+
+    mcp.tool(
+      'step_logs',
+      'Get the backend log lines for a step (default: the latest), matched by the request IDs f4tl sent during it. Requires network.correlation and a backend that logs the header; JSON log fields and plain-text messages are both searched.',
+      stepLogsSchema.shape,
+      (params) => t.stepLogs(stepLogsSchema.parse(params)),
+    );
   }
 
   // ── Database Tools (3) ─────────────────────────────────────────────────────
 
-  private registerDatabaseTools(): void {
+  private registerDatabaseTools(mcp: McpServer): void {
     const t = this.dbTools;
     if (!t) return;
 
-    this.mcp.tool(
+    mcp.tool(
       'db_query',
       'Execute a read-only SQL query (SELECT only, auto-limited to 1000 rows).',
       querySchema.shape,
       (params) => t.query(querySchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'db_schema',
       'Get database schema (tables, columns, foreign keys).',
       schemaSchema.shape,
       (params) => t.schema(schemaSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'db_explain',
-      'Get the query execution plan (EXPLAIN ANALYZE).',
+      'Get the query execution plan (EXPLAIN ANALYZE on PostgreSQL, EXPLAIN FORMAT=JSON on MySQL, EXPLAIN QUERY PLAN on SQLite).',
       explainSchema.shape,
       (params) => t.explain(explainSchema.parse(params)),
     );
@@ -445,31 +581,28 @@ export class F4tlServer {
 
   // ── Code Tools (4) ─────────────────────────────────────────────────────────
 
-  private registerCodeTools(): void {
+  private registerCodeTools(mcp: McpServer): void {
     const t = this.codeTools;
 
-    this.mcp.tool(
+    mcp.tool(
       'code_search',
       'Search codebase with ripgrep (regex pattern matching).',
       searchSchema.shape,
       (params) => t.search(searchSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'code_read',
       'Read a file from the project codebase.',
       readFileSchema.shape,
       (params) => t.readFile(readFileSchema.parse(params)),
     );
 
-    this.mcp.tool(
-      'code_find_files',
-      'Find files by glob pattern.',
-      findFilesSchema.shape,
-      (params) => t.findFiles(findFilesSchema.parse(params)),
+    mcp.tool('code_find_files', 'Find files by glob pattern.', findFilesSchema.shape, (params) =>
+      t.findFiles(findFilesSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'code_git_diff',
       'Get git diff (uncommitted changes or against a ref).',
       gitDiffSchema.shape,
@@ -477,45 +610,52 @@ export class F4tlServer {
     );
   }
 
-  // ── Report Tools (4) ──────────────────────────────────────────────────────
+  // ── Report Tools (5) ──────────────────────────────────────────────────────
 
-  private registerReportTools(): void {
+  private registerReportTools(mcp: McpServer): void {
     const t = this.reportTools;
 
-    this.mcp.tool(
+    mcp.tool(
       'report_create_bug',
       'Record a bug with severity, steps to reproduce, expected/actual behavior.',
       createBugSchema.shape,
       (params) => t.createBug(createBugSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'report_add_finding',
-      'Record a QA finding (usability, performance, accessibility, security, suggestion, observation).',
+      'Record a QA finding (usability, performance, accessibility, security, api, suggestion, observation).',
       addFindingSchema.shape,
       (params) => t.addFinding(addFindingSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'report_generate',
-      'Generate a QA report (markdown, json, or html). Returns the output file path.',
+      'Generate a QA report (markdown, json, html, junit, or sarif). Returns the output file path.',
       generateReportSchema.shape,
       (params) => t.generateReport(generateReportSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'report_get_session_summary',
       'Get current session statistics (step count, bugs, findings, duration).',
       () => t.getSessionSummary(),
     );
+
+    mcp.tool(
+      'session_export_test',
+      'Export the current session as a runnable @playwright/test spec. Bug evidence steps become expect assertions; multi-actor sessions get one browser context per actor.',
+      exportTestSchema.shape,
+      (params) => t.exportTest(exportTestSchema.parse(params)),
+    );
   }
 
   // ── App Profile Tools (1) ────────────────────────────────────────────────
 
-  private registerAppTools(): void {
+  private registerAppTools(mcp: McpServer): void {
     const appConfig = this.config.app;
 
-    this.mcp.tool(
+    mcp.tool(
       'get_app_profile',
       'Get the configured app profile (name, baseUrl, pages, roles, ignore patterns). Provides context about the target application under test.',
       async () => {
@@ -533,10 +673,10 @@ export class F4tlServer {
 
   // ── Suppression Tools (1) ────────────────────────────────────────────────
 
-  private registerSuppressionTools(): void {
+  private registerSuppressionTools(mcp: McpServer): void {
     const t = this.suppressionTools;
 
-    this.mcp.tool(
+    mcp.tool(
       'suppress_error',
       'Add a runtime error suppression pattern (regex). Suppresses matching console or network errors from capture results.',
       suppressErrorSchema.shape,
@@ -544,12 +684,91 @@ export class F4tlServer {
     );
   }
 
+  // ── Visual Regression Tools (2) ──────────────────────────────────────────
+
+  private registerVisualTools(mcp: McpServer): void {
+    const t = this.visualTools;
+
+    mcp.tool(
+      'visual_compare',
+      'Screenshot the page and pixel-diff it against the stored baseline for this URL + viewport + context. Creates the baseline on first run. Use mask to hide dynamic regions.',
+      visualCompareSchema.shape,
+      (params) => t.compare(visualCompareSchema.parse(params)),
+    );
+
+    mcp.tool(
+      'visual_approve',
+      'Promote pending screenshots from visual_compare mismatches to be the new baselines. Call without keys to list pending ones.',
+      visualApproveSchema.shape,
+      (params) => t.approve(visualApproveSchema.parse(params)),
+    );
+  }
+
+  // ── Accessibility Tools (1) ──────────────────────────────────────────────
+
+  private registerA11yTools(mcp: McpServer): void {
+    const t = this.a11yTools;
+
+    mcp.tool(
+      'a11y_audit',
+      'Run an automated WCAG audit (axe-core) on the page: contrast, labels, alt text, landmarks, focus order, ARIA. Returns violations with selectors and WCAG criteria; set fileFindings to record them as accessibility findings.',
+      a11yAuditSchema.shape,
+      (params) => t.audit(a11yAuditSchema.parse(params)),
+    );
+  }
+
+  // ── Performance Tools (1) ────────────────────────────────────────────────
+
+  private registerPerfTools(mcp: McpServer): void {
+    const t = this.perfTools;
+
+    mcp.tool(
+      'perf_measure',
+      'Measure page performance: Core Web Vitals (LCP, FCP, CLS, INP, TTFB), long tasks, JS heap, and resource timing. Set reload to measure a fresh load. Metrics over a configured perf budget are filed as performance findings.',
+      perfMeasureSchema.shape,
+      (params) => t.measure(perfMeasureSchema.parse(params)),
+    );
+  }
+
+  // ── Security Tools (2) ───────────────────────────────────────────────────
+
+  private registerSecurityTools(mcp: McpServer): void {
+    const t = this.securityTools;
+
+    mcp.tool(
+      'security_scan',
+      'Check captured traffic and browser storage for security misconfigurations: missing or weak CSP, HSTS, X-Frame-Options, CORS wildcard with credentials, cookies without Secure/HttpOnly/SameSite, mixed content, and tokens in URLs or localStorage. Issues are filed as security findings, once per origin.',
+      securityScanSchema.shape,
+      (params) => t.scan(securityScanSchema.parse(params)),
+    );
+
+    mcp.tool(
+      'data_leaks',
+      'List sensitive data (emails, card numbers, JWTs, API keys, custom sensitiveData patterns) seen so far in response bodies, request URLs, console output and server logs. Values are masked. New leaks are also filed as security findings while you test.',
+      dataLeaksSchema.shape,
+      (params) => t.leaks(dataLeaksSchema.parse(params)),
+    );
+  }
+
+  // ── HTTP Tools (1) ───────────────────────────────────────────────────────
+
+  private registerHttpTools(mcp: McpServer): void {
+    const t = this.httpTools;
+
+    mcp.tool(
+      'http_request',
+      "Send an HTTP request directly from the active browser context, reusing its cookies (and optionally a Bearer token from storage). The exchange is recorded as a session step with status, timing and body, so API calls made to set up or verify state appear in reports and exported tests. Use expectStatus and JSONPath assertions (e.g. $.items[0].status equals 'paid') to check the response; failures mark the step as failed.",
+      httpRequestSchema.shape,
+      (params) => t.request(httpRequestSchema.parse(params)),
+    );
+  }
+
   // ── Framework Tools (1) ──────────────────────────────────────────────────
 
-  private registerFrameworkTools(): void {
+  private registerFrameworkTools(mcp: McpServer): void {
     const t = this.frameworkTools;
 
-    this.mcp.tool(
+    mcp.tool(
       'detect_framework',
       'Detect the frontend framework, SPA behavior, and database from package.json and runtime checks. Returns framework-specific testing hints.',
       async () => t.detect(),
@@ -558,10 +777,10 @@ export class F4tlServer {
 
   // ── Config Gen Tools (1) ────────────────────────────────────────────────
 
-  private registerConfigGenTools(): void {
+  private registerConfigGenTools(mcp: McpServer): void {
     const t = this.configGenTools;
 
-    this.mcp.tool(
+    mcp.tool(
       'generate_config',
       'Analyze the project to gather information for generating an f4tl.config.ts. Returns framework, routes, auth patterns, database, env vars, and base URL candidates.',
       generateConfigSchema.shape,
@@ -569,40 +788,75 @@ export class F4tlServer {
     );
   }
 
-  // ── Auth Tools (1) ───────────────────────────────────────────────────────
+  // ── Auth Tools (2) ───────────────────────────────────────────────────────
 
-  private registerAuthTools(): void {
+  private registerAuthTools(mcp: McpServer): void {
     const t = this.authTools;
     if (!t) return;
 
-    this.mcp.tool(
+    mcp.tool(
       'auth_login',
       'Authenticate the current browser context with a configured role. Supports form, cookie, storage-state, jwt, oauth, and custom strategies.',
       authLoginSchema.shape,
       (params) => t.login(authLoginSchema.parse(params)),
     );
+
+    mcp.tool(
+      'auth_status',
+      'Show which roles have saved auth state in .f4tl/auth, when it expires, and whether it can be refreshed. Pass clear: true to delete it and force a fresh login.',
+      authStatusSchema.shape,
+      (params) => t.status(authStatusSchema.parse(params)),
+    );
+  }
+
+  // ── Access Control Tools (1) ─────────────────────────────────────────────
+
+  private registerAccessTools(mcp: McpServer): void {
+    const t = this.accessTools;
+    if (!t) return;
+
+    mcp.tool(
+      'access_matrix',
+      'Check role-based access: visit every app.pages entry as every auth role (plus anonymous) in fresh contexts, classify each as allowed, login-redirect, forbidden, not-found, redirected, empty, or error, and compare with the roles each page allows. Escalations are filed as security bugs.',
+      accessMatrixSchema.shape,
+      (params) => t.matrix(accessMatrixSchema.parse(params)),
+    );
+  }
+
+  // ── API Contract Tools (1) ───────────────────────────────────────────────
+
+  private registerApiTools(mcp: McpServer): void {
+    const t = this.apiTools;
+    if (!t) return;
+
+    mcp.tool(
+      'api_validate',
+      'Validate captured XHR/fetch requests and responses against the OpenAPI spec in api.spec: documented paths, methods and status codes, required query parameters, and request/response bodies against their schemas (types, required fields, enums). Violations are filed as "api" findings linked to the step that triggered the request.',
+      apiValidateSchema.shape,
+      (params) => t.validate(apiValidateSchema.parse(params)),
+    );
   }
 
   // ── Journey Tools (3) ────────────────────────────────────────────────────
 
-  private registerJourneyTools(): void {
+  private registerJourneyTools(mcp: McpServer): void {
     const t = this.journeyTools;
     if (!t) return;
 
-    this.mcp.tool(
+    mcp.tool(
       'list_journeys',
       'List all configured test journeys with descriptions, modes, dependencies, and current status.',
       async () => t.listJourneys(),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'get_journey',
       'Get full journey definition with steps, auth requirements, and current progress.',
       getJourneySchema.shape,
       (params) => t.getJourney(getJourneySchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'journey_status',
       'Get status of all journeys (pending/in_progress/completed/failed) in the current session.',
       async () => t.journeyStatus(),
@@ -611,18 +865,18 @@ export class F4tlServer {
 
   // ── Webhook Tools (2) ─────────────────────────────────────────────────────
 
-  private registerWebhookTools(): void {
+  private registerWebhookTools(mcp: McpServer): void {
     const t = this.webhookTools;
     if (!t) return;
 
-    this.mcp.tool(
+    mcp.tool(
       'webhook_discover',
       'Discover webhook endpoints, event types, required fields, and state transitions from source code.',
       discoverSchema.shape,
       (params) => t.discover(discoverSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'webhook_fire',
       'Fire a synthetic webhook POST with optional signing and UI verification.',
       fireSchema.shape,
@@ -632,25 +886,25 @@ export class F4tlServer {
 
   // ── Learning Tools (3) ───────────────────────────────────────────────────
 
-  private registerLearningTools(): void {
+  private registerLearningTools(mcp: McpServer): void {
     const t = this.learningTools;
     if (!t) return;
 
-    this.mcp.tool(
+    mcp.tool(
       'session_get_history',
       'Get past session history with coverage stats, bug counts, and URL coverage.',
       getHistorySchema.shape,
       (params) => t.getHistory(getHistorySchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'session_get_bugs',
       'Get bug ledger across all sessions with recurrence tracking.',
       getBugsSchema.shape,
       (params) => t.getBugs(getBugsSchema.parse(params)),
     );
 
-    this.mcp.tool(
+    mcp.tool(
       'session_compare',
       'Compare two sessions: coverage gaps, new/fixed/persistent bugs.',
       compareSchema.shape,
@@ -660,22 +914,33 @@ export class F4tlServer {
 
   // ── Lifecycle ──────────────────────────────────────────────────────────────
 
+  /**
+   * Stop services and end the session. The browser closes before the session
+   * ends so trace/HAR recordings are on disk by the time `session:end` fires.
+   */
+  async stop(): Promise<void> {
+    if (this.httpServer) {
+      await this.httpServer.stop();
+    }
+    if (this.logCollector) {
+      this.logCollector.stop();
+    }
+    if (this.dbConnector) {
+      await this.dbConnector.disconnect();
+    }
+    if (this.browserManager.isLaunched()) {
+      await this.browserManager.close();
+    }
+    if (this.sessionManager.getSession()) {
+      await this.sessionManager.endSession();
+    }
+  }
+
   private setupShutdown(): void {
     const shutdown = async () => {
       console.error('[f4tl] Shutting down...');
       try {
-        if (this.logCollector) {
-          this.logCollector.stop();
-        }
-        if (this.dbConnector) {
-          await this.dbConnector.disconnect();
-        }
-        if (this.sessionManager.getSession()) {
-          await this.sessionManager.endSession();
-        }
-        if (this.browserManager.isLaunched()) {
-          await this.browserManager.close();
-        }
+        await this.stop();
       } catch (err) {
         console.error('[f4tl] Shutdown error:', err);
       }
@@ -686,14 +951,31 @@ export class F4tlServer {
     process.on('SIGTERM', shutdown);
   }
 
-  async start(): Promise<void> {
-    console.error('[f4tl] Starting MCP server...');
+  /**
+   * Open a session, launch the browser, and start optional log/database services.
+   * Shared by every start mode.
+   */
+  private async startServices(): Promise<void> {
+    // The session comes first so recordings can be written into its directory
+    const sessionId = this.sessionManager.startSession(this.config);
+    this.reportManager.setSessionId(sessionId);
+
+    const { outputDir, trace, har, keepArtifacts } = this.config.session;
+    if (trace || har) {
+      this.browserManager.setRecording({
+        dir: join(outputDir, sessionId),
+        trace,
+        har,
+        onArtifact: (artifact) => this.sessionManager.addArtifact(artifact),
+      });
+    }
 
     await this.browserManager.launch();
     console.error('[f4tl] Browser launched');
 
     if (this.logCollector) {
-      this.logCollector.start();
+      if (keepArtifacts) this.logCollector.setArchive(join(outputDir, sessionId, 'logs.jsonl'));
+      await this.logCollector.start();
       console.error('[f4tl] Log collector started');
     }
 
@@ -705,33 +987,68 @@ export class F4tlServer {
         console.error('[f4tl] Database connection failed (tools will error on use):', err);
       }
     }
+  }
 
-    const sessionId = this.sessionManager.startSession(this.config);
-    this.reportManager.setSessionId(sessionId);
-
-    const transport = new StdioServerTransport();
-    await this.mcp.connect(transport);
-
-    // Count registered tools
-    const toolCount =
+  private countTools(): number {
+    return (
       15 + // browser
-      4 + // network
+      7 + // network (incl. record/replay, graphql)
       4 + // code
       2 + // context (new_context, switch_context)
-      4 + // report
+      5 + // report (incl. session_export_test)
       1 + // suppression
+      2 + // visual regression
+      1 + // accessibility
+      1 + // performance
+      2 + // security (scan, data leaks)
+      1 + // http_request
       1 + // framework detection
       1 + // config gen
       (this.config.app ? 1 : 0) + // app profile
       (this.config.auth && Object.keys(this.config.auth).length > 0 ? 1 : 0) + // browser_auth (context)
-      (this.authTools ? 1 : 0) + // auth_login
+      (this.authTools ? 2 : 0) + // auth_login, auth_status
+      (this.accessTools ? 1 : 0) + // access_matrix
+      (this.apiTools ? 1 : 0) + // api_validate
       (this.journeyTools ? 3 : 0) + // journeys
-      (this.logTools ? 3 : 0) + // logs
+      (this.logTools ? 4 : 0) + // logs
       (this.dbTools ? 3 : 0) + // db
       (this.webhookTools ? 2 : 0) + // webhook
-      (this.learningTools ? 3 : 0); // learning
+      (this.learningTools ? 3 : 0) // learning
+    );
+  }
 
-    console.error(`[f4tl] MCP server ready (${toolCount} tools, 10 prompts registered)`);
+  async start(): Promise<void> {
+    console.error('[f4tl] Starting MCP server...');
+
+    await this.startServices();
+
+    const transport = new StdioServerTransport();
+    await this.mcp.connect(transport);
+
+    console.error(`[f4tl] MCP server ready (${this.countTools()} tools, 11 prompts registered)`);
+  }
+
+  /**
+   * Serve MCP over streamable HTTP instead of stdio so several clients can share
+   * this instance's warm browser, log collectors and session.
+   */
+  async startHttp(httpConfig: McpHttpConfig): Promise<void> {
+    console.error('[f4tl] Starting MCP server (HTTP transport)...');
+
+    let token: string | undefined;
+    if (httpConfig.tokenEnv) {
+      token = process.env[httpConfig.tokenEnv];
+      if (!token) throw new Error(`Environment variable ${httpConfig.tokenEnv} not set.`);
+    }
+
+    await this.startServices();
+
+    this.httpServer = new McpHttpServer(httpConfig, () => this.createMcpServer(), token);
+    await this.httpServer.start();
+
+    console.error(
+      `[f4tl] MCP server ready (${this.countTools()} tools, 11 prompts registered${token ? ', bearer auth' : ''})`,
+    );
   }
 
   /**
@@ -741,26 +1058,8 @@ export class F4tlServer {
   async startHeadless(): Promise<void> {
     console.error('[f4tl] Starting headless (agent mode)...');
 
-    await this.browserManager.launch();
-    console.error('[f4tl] Browser launched');
-
-    if (this.logCollector) {
-      this.logCollector.start();
-      console.error('[f4tl] Log collector started');
-    }
-
-    if (this.dbConnector) {
-      try {
-        await this.dbConnector.connect();
-        console.error('[f4tl] Database connected');
-      } catch (err) {
-        console.error('[f4tl] Database connection failed (tools will error on use):', err);
-      }
-    }
-
-    const sessionId = this.sessionManager.startSession(this.config);
-    this.reportManager.setSessionId(sessionId);
-    console.error(`[f4tl] Headless session started: ${sessionId}`);
+    await this.startServices();
+    console.error(`[f4tl] Headless session started: ${this.sessionManager.getSession()?.id}`);
   }
 
   /**
@@ -820,7 +1119,7 @@ export class F4tlServer {
       (p) => bt.accessibilityTree(accessibilityTreeSchema.parse(p)),
     );
 
-    // Network tools (4)
+    // Network tools (7)
     te.register('network_get_requests', 'Get HTTP requests', getRequestsSchema, (p) =>
       nt.getRequests(getRequestsSchema.parse(p)),
     );
@@ -833,6 +1132,24 @@ export class F4tlServer {
     te.register('network_get_websockets', 'Get WebSocket messages', getWebSocketsSchema, (p) =>
       nt.getWebSockets(getWebSocketsSchema.parse(p)),
     );
+    te.register(
+      'graphql_operations',
+      'Summarise GraphQL operations per page',
+      graphqlOperationsSchema,
+      (p) => nt.graphqlOperations(graphqlOperationsSchema.parse(p)),
+    );
+    te.register(
+      'network_record',
+      'Record API responses to a HAR fixture',
+      networkRecordSchema,
+      (p) => nt.record(networkRecordSchema.parse(p)),
+    );
+    te.register(
+      'network_replay',
+      'Replay API responses from a HAR fixture',
+      networkReplaySchema,
+      (p) => nt.replay(networkReplaySchema.parse(p)),
+    );
 
     // Code tools (4)
     te.register('code_search', 'Search codebase', searchSchema, (p) =>
@@ -912,11 +1229,40 @@ export class F4tlServer {
     te.register('report_get_session_summary', 'Get session statistics', z.object({}), () =>
       rt.getSessionSummary(),
     );
+    te.register(
+      'session_export_test',
+      'Export session as a Playwright test',
+      exportTestSchema,
+      (p) => rt.exportTest(exportTestSchema.parse(p)),
+    );
 
     // Suppression (1)
     te.register('suppress_error', 'Suppress error pattern', suppressErrorSchema, (p) =>
       this.suppressionTools.suppressError(suppressErrorSchema.parse(p)),
     );
+    te.register('visual_compare', 'Diff page against visual baseline', visualCompareSchema, (p) =>
+      this.visualTools.compare(visualCompareSchema.parse(p)),
+    );
+    te.register('visual_approve', 'Approve pending visual baselines', visualApproveSchema, (p) =>
+      this.visualTools.approve(visualApproveSchema.parse(p)),
+    );
+    te.register('a11y_audit', 'Run a WCAG accessibility audit', a11yAuditSchema, (p) =>
+      this.a11yTools.audit(a11yAuditSchema.parse(p)),
+    );
+    te.register('perf_measure', 'Measure Web Vitals and resource timing', perfMeasureSchema, (p) =>
+      this.perfTools.measure(perfMeasureSchema.parse(p)),
+    );
+    te.register('security_scan', 'Scan headers, cookies and storage', securityScanSchema, (p) =>
+      this.securityTools.scan(securityScanSchema.parse(p)),
+    );
+    te.register('data_leaks', 'List detected sensitive data', dataLeaksSchema, (p) =>
+      this.securityTools.leaks(dataLeaksSchema.parse(p)),
+    );
+
+    // HTTP (1)
+    te.register('http_request', 'Send an HTTP request with browser auth', httpRequestSchema, (p) =>
+      this.httpTools.request(httpRequestSchema.parse(p)),
+    );
 
     // Framework (1)
     te.register('detect_framework', 'Detect frontend framework', z.object({}), () =>
@@ -934,6 +1280,24 @@ export class F4tlServer {
       te.register('auth_login', 'Authenticate with role', authLoginSchema, (p) =>
         auth.login(authLoginSchema.parse(p)),
       );
+      te.register('auth_status', 'Saved auth state per role', authStatusSchema, (p) =>
+        auth.status(authStatusSchema.parse(p)),
+      );
+    }
+    if (this.accessTools) {
+      const access = this.accessTools;
+      te.register('access_matrix', 'Check role × page access', accessMatrixSchema, (p) =>
+        access.matrix(accessMatrixSchema.parse(p)),
+      );
+    }
+    if (this.apiTools) {
+      const api = this.apiTools;
+      te.register(
+        'api_validate',
+        'Check traffic against the OpenAPI spec',
+        apiValidateSchema,
+        (p) => api.validate(apiValidateSchema.parse(p)),
+      );
     }
     if (this.journeyTools) {
       const journeys = this.journeyTools;
@@ -958,6 +1322,9 @@ export class F4tlServer {
       te.register('logs_search', 'Search logs', searchLogsSchema, (p) =>
         logs.searchLogs(searchLogsSchema.parse(p)),
       );
+      te.register('step_logs', 'Get backend logs for a step', stepLogsSchema, (p) =>
+        logs.stepLogs(stepLogsSchema.parse(p)),
+      );
     }
     if (this.dbTools) {
       const db = this.dbTools;
@@ -1002,6 +1369,25 @@ export class F4tlServer {
     return te;
   }
 
+  /**
+   * Build a JourneyExecutor that replays configured guided journeys through the
+   * browser tools. Returns null when no journeys are configured.
+   */
+  buildJourneyExecutor(): JourneyExecutor | null {
+    if (!this.journeyRunner) return null;
+    return new JourneyExecutor(
+      this.journeyRunner,
+      this.browserTools,
+      this.browserManager,
+      this.sessionManager,
+      {
+        authConfigs: this.config.auth,
+        baseUrl: this.config.app?.baseUrl,
+        reportManager: this.reportManager,
+      },
+    );
+  }
+
   getSessionManager(): SessionManager {
     return this.sessionManager;
   }
@@ -118,6 +118,7 @@ export function registerPrompts(mcp: McpServer): void {
               '',
               '## Console Error Monitoring',
               '9. On every page visited, check for console errors. Aggregate all unique errors.',
+              '   When all pages are visited, call security_scan once. It checks the headers, cookies and storage seen during the run and files "security" findings.',
               '',
               '## Reporting',
               '10. For every bug found, use report_create_bug with appropriate severity:',
@@ -208,6 +209,7 @@ export function registerPrompts(mcp: McpServer): void {
               '9. Use report_add_finding for non-bug observations (e.g. performance changes, UX differences).',
               '',
               '10. Call report_get_session_summary at the end to produce a regression summary.',
+              '11. If you recorded bugs with evidenceStepIds, call session_export_test so each one becomes a permanent Playwright regression test.',
             ].join('\n'),
           },
         },
@@ -222,7 +224,7 @@ export function registerPrompts(mcp: McpServer): void {
     {
       title: 'Accessibility Audit',
       description:
-        'Audit a page for accessibility: check ARIA labels, alt text, contrast, keyboard navigation, and record violations.',
+        'Audit a page for accessibility: run the WCAG rule engine, review the accessibility tree, test keyboard navigation, and record violations.',
       argsSchema: {
         url: z.string().describe('The URL to audit for accessibility'),
       },
@@ -241,26 +243,13 @@ export function registerPrompts(mcp: McpServer): void {
               '## Page Setup',
               `1. Use browser_navigate to go to ${url}. Take a browser_screenshot.`,
               '',
-              '## Accessibility Tree Analysis',
-              '2. Call browser_accessibility_tree to get the full accessibility tree.',
-              '3. Analyze the tree for:',
-              '   - Interactive elements (buttons, links, inputs) missing accessible names',
-              '   - Elements with generic or non-descriptive roles',
-              '   - Missing or incorrect ARIA attributes',
-              '   Record each violation using report_add_finding with category "accessibility".',
-              '',
-              '## Alt Text Check',
-              '4. Use browser_evaluate to find images missing alt text:',
-              '   `document.querySelectorAll("img:not([alt]), img[alt=\\"\\"]").length`',
-              '   For each image without alt text, record a report_add_finding with category "accessibility" including the image src.',
-              '',
-              '## Contrast Check',
-              '5. Use browser_evaluate to check text contrast ratios. Run a script that:',
-              '   - Selects all text elements',
-              '   - Computes foreground and background colors using getComputedStyle',
-              '   - Calculates the contrast ratio',
-              '   - Flags elements with contrast ratio below 4.5:1 (WCAG AA for normal text) or 3:1 (for large text)',
-              '   Record each low-contrast element as a report_add_finding with category "accessibility".',
+              '## Automated Audit',
+              '2. Call a11y_audit with fileFindings: true. It runs a WCAG 2.1 AA rule engine (contrast, labels, alt text, landmarks, focus order, ARIA validity) and records each violated rule as an "accessibility" finding with this page as evidence.',
+              '3. Review the violations: for critical/serious ones that block a task (e.g. an unlabeled submit button), also record a report_create_bug.',
+              '4. If the page has dialogs, menus, or tabs, open each one and run a11y_audit again scoped with selector, since hidden content is not audited.',
+              '',
+              '## Accessibility Tree Review',
+              '5. Call browser_accessibility_tree and check what rules cannot: generic or misleading accessible names (e.g. "click here"), and a reading order that does not match the visual layout.',
               '',
               '## Keyboard Navigation',
               '6. Test keyboard navigation by:',
@@ -273,20 +262,8 @@ export function registerPrompts(mcp: McpServer): void {
               '   - Take browser_screenshot at key points to document focus states',
               '   Record keyboard navigation issues as report_add_finding with category "accessibility".',
               '',
-              '## Form Label Association',
-              '7. Use browser_evaluate to check that every form input has an associated label:',
-              '   `document.querySelectorAll("input:not([type=hidden]), select, textarea").forEach(el => { ... })`',
-              '   Check for: matching <label for="...">, aria-label, aria-labelledby, or wrapping <label>.',
-              '   Record missing label associations as report_add_finding with category "accessibility".',
-              '',
-              '## Heading Structure',
-              '8. Use browser_evaluate to verify heading hierarchy:',
-              '   - Check that there is exactly one h1',
-              '   - Check that heading levels do not skip (e.g. h1 -> h3 without h2)',
-              '   Record heading structure issues as report_add_finding with category "accessibility".',
-              '',
               '## Summary',
-              '9. Call report_get_session_summary to produce the audit results.',
+              '7. Call report_get_session_summary to produce the audit results.',
             ].join('\n'),
           },
         },
@@ -399,7 +376,7 @@ export function registerPrompts(mcp: McpServer): void {
     {
       title: 'Performance Check',
       description:
-        'Check page performance: slow network responses, large payloads, page load timing, excessive DOM nodes, and record findings.',
+        'Check page performance: Core Web Vitals, slow network responses, large payloads, excessive DOM nodes, and record findings.',
       argsSchema: {
         url: z.string().describe('The URL to check for performance'),
       },
@@ -428,26 +405,14 @@ export function registerPrompts(mcp: McpServer): void {
               '   For each slow or oversized request, use report_add_finding with category "performance" including the URL, duration, and size.',
               '',
               '## Page Load Timing',
-              '4. Use browser_evaluate to get detailed timing metrics:',
-              '   ```',
-              '   JSON.stringify((() => {',
-              '     const t = performance.timing;',
-              '     return {',
-              '       dns: t.domainLookupEnd - t.domainLookupStart,',
-              '       tcp: t.connectEnd - t.connectStart,',
-              '       ttfb: t.responseStart - t.requestStart,',
-              '       download: t.responseEnd - t.responseStart,',
-              '       domInteractive: t.domInteractive - t.navigationStart,',
-              '       domComplete: t.domComplete - t.navigationStart,',
-              '       fullLoad: t.loadEventEnd - t.navigationStart,',
-              '     };',
-              '   })())',
-              '   ```',
-              '   Flag any metric that seems excessive:',
+              '4. Call perf_measure with reload: true to measure a fresh load. It returns Core Web Vitals (LCP, FCP, CLS, INP, TTFB), long tasks, JS heap, and a resource timing breakdown.',
+              '   Flag any metric outside the "good" thresholds:',
+              '   - LCP > 2500ms',
+              '   - CLS > 0.1',
+              '   - INP > 200ms (only present after an interaction — click something, then call perf_measure again without reload)',
               '   - TTFB > 800ms',
-              '   - DOM interactive > 3000ms',
-              '   - Full load > 5000ms',
-              '   Record as report_add_finding with category "performance".',
+              '   - Long task total > 200ms',
+              '   Configured budgets are checked automatically and already filed as "performance" findings (see budgetViolations). Record anything else with report_add_finding, category "performance".',
               '',
               '## DOM Complexity',
               '5. Use browser_evaluate to check DOM size:',
@@ -803,4 +768,65 @@ export function registerPrompts(mcp: McpServer): void {
       ],
     }),
   );
+
+  // ── 11. access-control-test ─────────────────────────────────────────────────
+
+  mcp.registerPrompt(
+    'access-control-test',
+    {
+      title: 'Access Control Test',
+      description:
+        'Check that every configured role reaches only the pages it should: run the role × page access matrix, investigate escalations and lockouts, and probe the APIs behind leaked pages.',
+      argsSchema: {
+        roles: z
+          .string()
+          .optional()
+          .describe('Comma-separated roles to check. If omitted, checks every configured role.'),
+      },
+    },
+    ({ roles }) => {
+      const roleList = roles
+        ?.split(',')
+        .map((r) => r.trim())
+        .filter(Boolean);
+      return {
+        messages: [
+          {
+            role: 'user' as const,
+            content: {
+              type: 'text' as const,
+              text: [
+                'Test role-based access control across the app.',
+                '',
+                '## Phase 1: Expectations',
+                '',
+                '1. Call get_app_profile and review app.pages. Each page lists the roles allowed to open it in `allow` (or its single `auth` role); pages with neither are public.',
+                '2. Call auth_status to confirm every role can log in. Note any page whose expectations look wrong or missing, and report it as a finding with category "suggestion" rather than guessing.',
+                '',
+                '## Phase 2: Matrix',
+                '',
+                roleList?.length
+                  ? `1. Call access_matrix with roles ${JSON.stringify(roleList)}.`
+                  : '1. Call access_matrix with default arguments.',
+                '   It logs each role into its own fresh context, opens every page, and classifies the result as allowed, login-redirect, forbidden, not-found, redirected, empty, or error.',
+                '2. Every escalation (a role reached a page it should not) is filed as a security bug automatically.',
+                '',
+                '## Phase 3: Investigation',
+                '',
+                '1. For each escalation, open the page as that role with browser_new_context and auth_login, then check network_get_requests: did the API return real data, or did only the shell render? Record what the API exposed as a finding with category "security".',
+                '2. For each "empty" outcome, look at network_get_requests for 401/403 responses to confirm the server enforced access on the data layer.',
+                '3. For each lockout (a role denied a page it should reach), file a bug with severity "major".',
+                '4. For each error, read the message; fix the auth config or report a finding if the page itself is broken.',
+                '',
+                '## Phase 4: Reporting',
+                '',
+                '1. Call report_get_session_summary and summarize the matrix: roles × pages, with escalations first.',
+                '2. Call report_generate with format "html".',
+              ].join('\n'),
+            },
+          },
+        ],
+      };
+    },
+  );
 }
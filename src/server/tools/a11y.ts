@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { meetsImpact, runA11yAudit } from '../../core/a11y-audit.js';
+import type { A11yViolation } from '../../core/a11y-audit.js';
+import type { BrowserManager } from '../../core/browser-manager.js';
+import type { ReportManager } from '../../core/report-manager.js';
+import type { SessionManager } from '../../core/session-manager.js';
+import type { BrowserAction, ToolResult } from '../../types/index.js';
+
+const impactSchema = z.enum(['minor', 'moderate', 'serious', 'critical']);
+
+// ── Schemas ──────────────────────────────────────────────────────────────────
+
+export const a11yAuditSchema = z.object({
+  selector: z
+    .string()
+    .optional()
+    .describe('CSS selector to scope the audit (defaults to the whole page)'),
+  standard: z
+    .enum(['wcag2a', 'wcag2aa', 'wcag21aa', 'wcag22aa'])
+    .default('wcag21aa')
+    .describe('WCAG conformance level to test against'),
+  bestPractices: z
+    .boolean()
+    .default(true)
+    .describe('Also run best-practice rules (landmarks, heading order, page regions)'),
+  minImpact: impactSchema.default('minor').describe('Drop violations below this impact'),
+  fileFindings: z
+    .boolean()
+    .default(false)
+    .describe('Record each violated rule as an "accessibility" finding with this step as evidence'),
+  maxNodes: z
+    .number()
+    .int()
+    .min(1)
+    .max(100)
+    .default(10)
+    .describe('Max offending elements listed per rule'),
+});
+
+// ── Tool Class ───────────────────────────────────────────────────────────────
+
+export class A11yTools {
+  constructor(
+    private bm: BrowserManager,
+    private sm: SessionManager,
+    private rm: ReportManager,
+  ) {}
+
+  private getContextId(): string | undefined {
+    return this.bm.getContextNames().length > 1 ? this.bm.getActiveContextId() : undefined;
+  }
+
+  async audit(params: z.infer<typeof a11yAuditSchema>): Promise<ToolResult> {
+    const start = Date.now();
+    const action: BrowserAction = { type: 'a11y_audit', params, timestamp: start };
+    const contextId = this.getContextId();
+
+    try {
+      const { result, capture } = await this.bm.queueReadAction(async () => {
+        const result = await runA11yAudit(this.bm.getPage(), {
+          standard: params.standard,
+          bestPractices: params.bestPractices,
+          selector: params.selector,
+        });
+        const capture = await this.bm.getCaptureManager().capture();
+        return { result, capture };
+      });
+
+      const step = await this.sm.recordStep(
+        action,
+        capture.screenshot,
+        capture.metadata,
+        Date.now() - start,
+        undefined,
+        contextId,
+      );
+
+      const violations = result.violations.filter((v) => meetsImpact(v.impact, params.minImpact));
+      const findingIds = params.fileFindings
+        ? this.fileFindings(violations, result.url, step.id, contextId)
+        : [];
+
+      const byImpact: Record<string, number> = {};
+      const byCategory: Record<string, number> = {};
+      for (const v of violations) {
+        byImpact[v.impact] = (byImpact[v.impact] ?? 0) + 1;
+        byCategory[v.category] = (byCategory[v.category] ?? 0) + 1;
+      }
+
+      const summary = {
+        url: result.url,
+        standard: result.standard,
+        stepId: step.id,
+        violationCount: violations.length,
+        elementCount: violations.reduce((n, v) => n + v.nodes.length, 0),
+        byImpact,
+        byCategory,
+        passCount: result.passCount,
+        incompleteCount: result.incompleteCount,
+        ...(params.fileFindings ? { findingIds } : {}),
+        violations: violations.map((v) => ({
+          ...v,
+          nodes: v.nodes.slice(0, params.maxNodes),
+          ...(v.nodes.length > params.maxNodes
+            ? { moreNodes: v.nodes.length - params.maxNodes }
+            : {}),
+        })),
+      };
+
+      return {
+        content: [
+          { type: 'text', text: JSON.stringify(summary, null, 2) },
+          { type: 'image', data: capture.screenshot, mimeType: 'image/png' },
+        ],
+      };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const emptyMeta = {
+        url: '',
+        title: '',
+        viewport: { width: 0, height: 0 },
+        consoleErrors: [],
+        networkErrors: [],
+      };
+      await this.sm
+        .recordStep(action, '', emptyMeta, Date.now() - start, msg, contextId)
+        .catch(() => {});
+      return { content: [{ type: 'text', text: `Error: ${msg}` }], isError: true };
+    }
+  }
+
+  /** One finding per violated rule and URL; re-auditing the same page does not duplicate. */
+  private fileFindings(
+    violations: A11yViolation[],
+    url: string,
+    stepId: string,
+    contextId?: string,
+  ): string[] {
+    const existing = new Set(
+      this.rm
+        .getFindings()
+        .filter((f) => f.category === 'accessibility')
+        .map((f) => `${f.url}\n${f.title}`),
+    );
+
+    const ids: string[] = [];
+    for (const v of violations) {
+      const title = `${v.help} (${v.rule})`;
+      if (existing.has(`${url}\n${title}`)) continue;
+
+      const elements = v.nodes
+        .slice(0, 5)
+        .map((n) => `- \`${n.selector}\``)
+        .join('\n');
+      const more = v.nodes.length > 5 ? `\n- …and ${v.nodes.length - 5} more` : '';
+      const wcag = v.wcag.length > 0 ? `WCAG ${v.wcag.join(', ')}` : 'Best practice';
+
+      const finding = this.rm.addFinding({
+        title,
+        category: 'accessibility',
+        description: `[${v.impact}] ${v.description} (${wcag})\n\nAffected elements:\n${elements}${more}\n\n${v.helpUrl}`,
+        evidenceStepIds: [stepId],
+        url,
+        ...(contextId ? { contextId } : {}),
+      });
+      ids.push(finding.id);
+    }
+    return ids;
+  }
+}
@@ -0,0 +1,299 @@
+import { z } from 'zod';
+import {
+  ANONYMOUS_ROLE,
+  accessVerdict,
+  classifyVisit,
+  expectedRoles,
+  loginUrls,
+} from '../../core/access-matrix.js';
+import type { AccessOutcome, AccessVerdict, PageVisit } from '../../core/access-matrix.js';
+import type { BrowserManager } from '../../core/browser-manager.js';
+import type { ReportManager } from '../../core/report-manager.js';
+import type { SessionManager } from '../../core/session-manager.js';
+import type {
+  AppConfig,
+  AppPage,
+  AuthConfig,
+  BrowserAction,
+  ToolResult,
+} from '../../types/index.js';
+
+// ── Schemas ──────────────────────────────────────────────────────────────────
+
+export const accessMatrixSchema = z.object({
+  roles: z
+    .array(z.string())
+    .optional()
+    .describe('Auth roles to check (default: every configured role)'),
+  pages: z
+    .array(z.string())
+    .optional()
+    .describe('Paths from app.pages to check (default: every configured page)'),
+  includeAnonymous: z
+    .boolean()
+    .default(true)
+    .describe(`Also visit every page without logging in, as the "${ANONYMOUS_ROLE}" role`),
+  fileBugs: z
+    .boolean()
+    .default(true)
+    .describe('File a bug for each page a role reached but should have been denied'),
+  minTextLength: z
+    .number()
+    .int()
+    .min(0)
+    .default(50)
+    .describe('Pages with less visible text than this count as rendered-but-empty'),
+  waitUntil: z
+    .enum(['load', 'domcontentloaded', 'networkidle'])
+    .default('networkidle')
+    .describe('When to classify the page; networkidle lets data requests settle first'),
+});
+
+interface AccessCell {
+  role: string;
+  path: string;
+  expected: 'allow' | 'deny';
+  outcome: AccessOutcome;
+  verdict: AccessVerdict;
+  status: number | null;
+  finalUrl: string;
+  stepId?: string;
+  error?: string;
+}
+
+// ── Tool Class ───────────────────────────────────────────────────────────────
+
+export class AccessTools {
+  constructor(
+    private bm: BrowserManager,
+    private sm: SessionManager,
+    private rm: ReportManager,
+    private app: AppConfig,
+    private authConfigs: Record<string, AuthConfig>,
+  ) {}
+
+  /**
+   * Visit every page as every role, each role in its own fresh context, and
+   * compare what happened against the roles each page allows. The caller's
+   * active context is restored afterwards.
+   */
+  async matrix(params: z.infer<typeof accessMatrixSchema>): Promise<ToolResult> {
+    try {
+      const allRoles = Object.keys(this.authConfigs);
+      const roles = params.roles ?? allRoles;
+      const unknown = roles.filter((r) => !this.authConfigs[r]);
+      if (unknown.length > 0) {
+        throw new Error(`Auth config not found for role(s): ${unknown.join(', ')}`);
+      }
+
+      const pages = (this.app.pages ?? []).filter(
+        (p) => !params.pages || params.pages.includes(p.path),
+      );
+      if (pages.length === 0) {
+        throw new Error(
+          params.pages
+            ? `None of ${params.pages.join(', ')} are listed in app.pages.`
+            : 'No pages configured in app.pages.',
+        );
+      }
+
+      const actors = params.includeAnonymous ? [ANONYMOUS_ROLE, ...roles] : roles;
+      const previous = this.bm.getActiveContextId();
+      const cells: AccessCell[] = [];
+
+      try {
+        for (const role of actors) {
+          cells.push(...(await this.checkRole(role, pages, allRoles, params)));
+        }
+      } finally {
+        if (this.bm.getContextNames().includes(previous)) this.bm.switchContext(previous);
+      }
+
+      const bugIds = params.fileBugs ? this.fileBugs(cells, pages) : [];
+      const count = (verdict: AccessVerdict) => cells.filter((c) => c.verdict === verdict).length;
+
+      const matrix: Record<string, Record<string, AccessOutcome>> = {};
+      for (const cell of cells) {
+        matrix[cell.path] = { ...matrix[cell.path], [cell.role]: cell.outcome };
+      }
+
+      const summary = {
+        roles: actors,
+        pages: pages.map((p) => p.path),
+        checked: cells.length,
+        ok: count('ok'),
+        escalations: count('escalation'),
+        lockouts: count('lockout'),
+        errors: count('error'),
+        matrix,
+        problems: cells.filter((c) => c.verdict !== 'ok'),
+        ...(params.fileBugs ? { bugIds } : {}),
+      };
+
+      return { content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }] };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
+
+  private async checkRole(
+    role: string,
+    pages: AppPage[],
+    allRoles: string[],
+    params: z.infer<typeof accessMatrixSchema>,
+  ): Promise<AccessCell[]> {
+    const contextId = `access-${role}`;
+    const expectation = (page: AppPage) =>
+      expectedRoles(page, allRoles).includes(role) ? ('allow' as const) : ('deny' as const);
+
+    try {
+      await this.bm.queueWriteAction(async () => {
+        await this.bm.createContext(contextId);
+        this.bm.switchContext(contextId);
+        if (role !== ANONYMOUS_ROLE) await this.bm.executeAuth(role, this.authConfigs);
+      });
+    } catch (err) {
+      // Without a session every page would look like a lockout, so report the cause instead
+      await this.bm.removeContext(contextId).catch(() => {});
+      const error = `Could not authenticate: ${(err as Error).message}`;
+      return pages.map((page) => ({
+        role,
+        path: page.path,
+        expected: expectation(page),
+        outcome: 'error',
+        verdict: 'error',
+        status: null,
+        finalUrl: '',
+        error,
+      }));
+    }
+
+    const cells: AccessCell[] = [];
+    try {
+      for (const page of pages) {
+        cells.push(await this.checkPage(role, page, expectation(page), contextId, params));
+      }
+    } finally {
+      await this.bm.removeContext(contextId).catch(() => {});
+    }
+    return cells;
+  }
+
+  private async checkPage(
+    role: string,
+    page: AppPage,
+    expected: 'allow' | 'deny',
+    contextId: string,
+    params: z.infer<typeof accessMatrixSchema>,
+  ): Promise<AccessCell> {
+    const start = Date.now();
+    const url = new URL(page.path, this.app.baseUrl).toString();
+    const action: BrowserAction = {
+      type: 'access_check',
+      params: { role, path: page.path, url, expected },
+      timestamp: start,
+    };
+
+    try {
+      const { visit, capture } = await this.bm.queueWriteAction(async () => {
+        const p = this.bm.getPage();
+        const response = await p.goto(url, { waitUntil: params.waitUntil });
+        const headings = await p.locator('h1').allTextContents();
+        const text = await p.locator('body').innerText();
+        const visit: PageVisit = {
+          requestedUrl: url,
+          finalUrl: p.url(),
+          status: response?.status() ?? null,
+          heading: [await p.title(), headings[0] ?? ''].join(' '),
+          textLength: text.trim().length,
+        };
+        const capture = await this.bm.getCaptureManager().capture();
+        return { visit, capture };
+      });
+
+      const outcome = classifyVisit(visit, {
+        loginUrls: loginUrls(this.authConfigs),
+        minTextLength: params.minTextLength,
+      });
+      action.params = { ...action.params, outcome, status: visit.status };
+      const step = await this.sm.recordStep(
+        action,
+        capture.screenshot,
+        capture.metadata,
+        Date.now() - start,
+        undefined,
+        contextId,
+      );
+
+      return {
+        role,
+        path: page.path,
+        expected,
+        outcome,
+        verdict: accessVerdict(outcome, expected === 'allow'),
+        status: visit.status,
+        finalUrl: visit.finalUrl,
+        stepId: step.id,
+      };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const emptyMeta = {
+        url: '',
+        title: '',
+        viewport: { width: 0, height: 0 },
+        consoleErrors: [],
+        networkErrors: [],
+      };
+      await this.sm
+        .recordStep(action, '', emptyMeta, Date.now() - start, msg, contextId)
+        .catch(() => {});
+      return {
+        role,
+        path: page.path,
+        expected,
+        outcome: 'error',
+        verdict: 'error',
+        status: null,
+        finalUrl: '',
+        error: msg,
+      };
+    }
+  }
+
+  /** One bug per role and page that leaked; re-running the matrix does not duplicate. */
+  private fileBugs(cells: AccessCell[], pages: AppPage[]): string[] {
+    const existing = new Set(this.rm.getBugs().map((b) => b.title));
+    const allRoles = Object.keys(this.authConfigs);
+
+    const ids: string[] = [];
+    for (const cell of cells) {
+      if (cell.verdict !== 'escalation') continue;
+      const title = `Security: "${cell.role}" can access ${cell.path}`;
+      if (existing.has(title)) continue;
+
+      const page = pages.find((p) => p.path === cell.path);
+      const allowed = page ? expectedRoles(page, allRoles) : [];
+      const anonymous = cell.role === ANONYMOUS_ROLE;
+      const url = new URL(cell.path, this.app.baseUrl).toString();
+
+      const bug = this.rm.createBug({
+        title,
+        severity: anonymous ? 'critical' : 'major',
+        stepsToReproduce: [
+          anonymous ? 'Open a fresh browser without logging in' : `Log in as "${cell.role}"`,
+          `Open ${url}`,
+        ],
+        expected: `Access is denied; only ${allowed.join(', ')} may open ${page?.label ?? cell.path}`,
+        actual: `The page rendered (HTTP ${cell.status ?? 'n/a'}) at ${cell.finalUrl}`,
+        evidenceStepIds: cell.stepId ? [cell.stepId] : [],
+        url,
+        contextId: `access-${cell.role}`,
+      });
+      ids.push(bug.id);
+    }
+    return ids;
+  }
+}
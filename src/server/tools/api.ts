@@ -0,0 +1,221 @@
+import { z } from 'zod';
+import { ApiContract, loadOpenApiSpec } from '../../core/openapi.js';
+import type { ApiCheck, ApiViolation } from '../../core/openapi.js';
+import type { BrowserManager } from '../../core/browser-manager.js';
+import type { ReportManager } from '../../core/report-manager.js';
+import type { SessionManager } from '../../core/session-manager.js';
+import type {
+  ApiConfig,
+  CapturedResponse,
+  SessionEvent,
+  SessionStep,
+  ToolResult,
+} from '../../types/index.js';
+
+// ── Schemas ──────────────────────────────────────────────────────────────────
+
+export const apiValidateSchema = z.object({
+  urlPattern: z.string().optional().describe('Regex; only check requests to matching URLs'),
+  fileFindings: z
+    .boolean()
+    .default(true)
+    .describe('Record each distinct violation as an "api" finding, once per operation'),
+  limit: z.number().int().positive().default(50).describe('Max violations to list'),
+});
+
+// Only script-initiated requests are API calls; documents and assets are not
+const API_RESOURCE_TYPES = new Set(['xhr', 'fetch']);
+
+const VIOLATION_PHRASES: Record<ApiViolation['kind'], (path: string, status: number) => string> = {
+  'undocumented-path': () => 'is not documented',
+  'undocumented-method': () => 'is not documented for this path',
+  'undocumented-status': (_, status) => `returned undocumented status ${status}`,
+  'missing-parameter': (p) => `was sent without ${p}`,
+  'missing-body': () => 'was sent without its required body',
+  'invalid-json': (p) => `sent invalid JSON in ${p}`,
+  'missing-field': (p) => `is missing ${p}`,
+  'unexpected-field': (p) => `has undocumented field ${p}`,
+  'wrong-type': (p) => `has the wrong type for ${p}`,
+  'invalid-enum': (p) => `has a value outside the enum for ${p}`,
+  'no-matching-schema': (p) => `matches none of the schemas for ${p}`,
+  'ambiguous-schema': (p) => `matches more than one oneOf schema for ${p}`,
+};
+
+interface Exchange {
+  check: ApiCheck;
+  /** Request timestamp, to find the step that triggered it */
+  started: number;
+}
+
+// ── Tool Class ───────────────────────────────────────────────────────────────
+
+export class ApiTools {
+  private contract: Promise<ApiContract> | null = null;
+  private checked = new WeakSet<CapturedResponse>();
+  private warned = false;
+
+  constructor(
+    private bm: BrowserManager,
+    private sm: SessionManager,
+    private rm: ReportManager,
+    private config: ApiConfig,
+  ) {}
+
+  private getContextId(): string | undefined {
+    return this.bm.getContextNames().length > 1 ? this.bm.getActiveContextId() : undefined;
+  }
+
+  /** Load the spec once; a failed load is retried on the next call. */
+  private loadContract(): Promise<ApiContract> {
+    this.contract ??= loadOpenApiSpec(this.config.spec).then(
+      (doc) =>
+        new ApiContract(doc, {
+          basePath: this.config.basePath,
+          validateRequests: this.config.validateRequests,
+        }),
+    );
+    return this.contract.catch((err: unknown) => {
+      this.contract = null;
+      throw err;
+    });
+  }
+
+  /**
+   * After each recorded step, check the API calls captured since the last
+   * one and file violations as findings with that step as evidence.
+   */
+  watchTraffic(): void {
+    if (!this.config.autoValidate) return;
+
+    this.sm.on('step:recorded', (event: SessionEvent) => {
+      const { step } = event.data as { step: SessionStep };
+      void this.checkNew(step).catch((err: unknown) => {
+        if (this.warned) return;
+        this.warned = true;
+        console.error('[f4tl] API contract validation disabled:', (err as Error).message);
+      });
+    });
+  }
+
+  private async checkNew(step: SessionStep): Promise<void> {
+    const contract = await this.loadContract();
+    const nc = this.bm.getNetworkCapture();
+    await nc.bodiesSettled();
+    const exchanges = this.collect(contract, undefined, true);
+    this.fileFindings(exchanges, () => step);
+  }
+
+  async validate(params: z.infer<typeof apiValidateSchema>): Promise<ToolResult> {
+    try {
+      const contract = await this.loadContract();
+      await this.bm.getNetworkCapture().bodiesSettled();
+      const exchanges = this.collect(contract, params.urlPattern, false);
+      const failing = exchanges.filter((e) => e.check.violations.length > 0);
+
+      const findingIds = params.fileFindings
+        ? this.fileFindings(failing, (e) => this.triggeringStep(e.started))
+        : [];
+
+      const byOperation: Record<string, number> = {};
+      for (const { check } of failing) {
+        byOperation[check.operation] = (byOperation[check.operation] ?? 0) + 1;
+      }
+
+      const violations = failing.flatMap(({ check }) =>
+        check.violations.map((v) => ({
+          operation: check.operation,
+          url: check.url,
+          status: check.status,
+          ...v,
+        })),
+      );
+
+      const summary = {
+        checked: exchanges.length,
+        passed: exchanges.length - failing.length,
+        failed: failing.length,
+        bodiesSkipped: exchanges.filter((e) => e.check.bodySkipped).length,
+        failedByOperation: byOperation,
+        ...(params.fileFindings ? { findingIds } : {}),
+        violations: violations.slice(0, params.limit),
+        ...(violations.length > params.limit ? { truncated: violations.length } : {}),
+      };
+
+      return { content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }] };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
+
+  /** Check captured XHR/fetch exchanges; `onlyNew` skips responses already checked. */
+  private collect(contract: ApiContract, urlPattern: string | undefined, onlyNew: boolean) {
+    const nc = this.bm.getNetworkCapture();
+    const { requests, responses } = nc.getRequests({ limit: Number.MAX_SAFE_INTEGER });
+    const responseFor = new Map(responses.map((r) => [r.requestId, r]));
+    const patterns = [this.config.urlPattern, urlPattern]
+      .filter((p): p is string => p !== undefined)
+      .map((p) => new RegExp(p, 'i'));
+
+    const exchanges: Exchange[] = [];
+    for (const request of requests) {
+      const response = responseFor.get(request.id);
+      if (!response || !API_RESOURCE_TYPES.has(request.resourceType)) continue;
+      if (!patterns.every((re) => re.test(request.url))) continue;
+      if (onlyNew && this.checked.has(response)) continue;
+
+      const check = contract.check(request, response);
+      // A body still being read is checked on a later step, once it has arrived
+      if (onlyNew && check?.bodySkipped && nc.isReadingBody(response)) continue;
+      this.checked.add(response);
+      if (check) exchanges.push({ check, started: request.timestamp });
+    }
+    return exchanges;
+  }
+
+  /** The latest step started before the request: the action that caused it. */
+  private triggeringStep(started: number): SessionStep | undefined {
+    const steps = this.sm.getSession()?.steps ?? [];
+    return [...steps].reverse().find((s) => s.action.timestamp <= started);
+  }
+
+  /** One finding per operation and violation; array indices are ignored when deduplicating. */
+  private fileFindings(
+    exchanges: Exchange[],
+    stepFor: (exchange: Exchange) => SessionStep | undefined,
+  ): string[] {
+    const existing = new Set(
+      this.rm
+        .getFindings()
+        .filter((f) => f.category === 'api')
+        .map((f) => f.title),
+    );
+
+    const ids: string[] = [];
+    for (const exchange of exchanges) {
+      const { check } = exchange;
+      for (const violation of check.violations) {
+        // The same violation on every item of a list is one finding
+        const path = violation.path.replace(/\[\d+\]/g, '[]');
+        const title = `${check.operation} ${VIOLATION_PHRASES[violation.kind](path, check.status)}`;
+        if (existing.has(title)) continue;
+        existing.add(title);
+
+        const step = stepFor(exchange);
+        const contextId = step?.contextId ?? this.getContextId();
+        const finding = this.rm.addFinding({
+          title,
+          category: 'api',
+          description: `${violation.message}\n\nSeen on ${check.method} ${check.url} → ${check.status}`,
+          evidenceStepIds: step ? [step.id] : [],
+          url: check.url,
+          ...(contextId ? { contextId } : {}),
+        });
+        ids.push(finding.id);
+      }
+    }
+    return ids;
+  }
+}
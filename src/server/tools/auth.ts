@@ -1,5 +1,13 @@
 import { z } from 'zod';
 import type { BrowserManager } from '../../core/browser-manager.js';
+import {
+  AUTH_STATE_DIR,
+  authStatePath,
+  clearAuthState,
+  isAuthStateFresh,
+  loadAuthState,
+  resolveAuthCache,
+} from '../../core/auth-cache.js';
 import type { AuthConfig, ToolResult } from '../../types/index.js';
 
 // ── Schemas ──────────────────────────────────────────────────────────────────
@@ -8,6 +16,14 @@ export const authLoginSchema = z.object({
   role: z.string().describe('Auth role name from config (e.g. "admin", "buyer")'),
 });
 
+export const authStatusSchema = z.object({
+  role: z.string().optional().describe('Only report this role (default: every configured role)'),
+  clear: z
+    .boolean()
+    .default(false)
+    .describe('Delete the saved state first, so the next auth_login logs in from scratch'),
+});
+
 // ── Tool Class ───────────────────────────────────────────────────────────────
 
 export class AuthTools {
@@ -18,7 +34,7 @@ export class AuthTools {
 
   async login(params: z.infer<typeof authLoginSchema>): Promise<ToolResult> {
     try {
-      await this.browserManager.executeAuth(params.role, this.authConfigs);
+      const { source } = await this.browserManager.executeAuth(params.role, this.authConfigs);
       const page = this.browserManager.getPage();
       const url = page.url();
 
@@ -31,6 +47,7 @@ export class AuthTools {
                 status: 'authenticated',
                 role: params.role,
                 strategy: this.authConfigs[params.role]?.strategy,
+                source,
                 context: this.browserManager.getActiveContextId(),
                 currentUrl: url,
               },
@@ -47,4 +64,54 @@ export class AuthTools {
       };
     }
   }
+
+  async status(params: z.infer<typeof authStatusSchema>): Promise<ToolResult> {
+    try {
+      if (params.role && !this.authConfigs[params.role]) {
+        throw new Error(`Auth config for role "${params.role}" not found.`);
+      }
+      const roles = params.role ? [params.role] : Object.keys(this.authConfigs);
+      const cleared = params.clear
+        ? await clearAuthState(AUTH_STATE_DIR, params.role ? [params.role] : undefined)
+        : [];
+
+      const now = Date.now();
+      const status = await Promise.all(
+        roles.map(async (role) => {
+          const config = this.authConfigs[role];
+          const cache = config ? resolveAuthCache(config) : null;
+          const path = authStatePath(role);
+          const saved = await loadAuthState(path);
+          return {
+            role,
+            strategy: config?.strategy,
+            cache: cache ? { ttl: cache.ttl, probe: cache.probe?.url ?? null } : 'disabled',
+            saved: saved
+              ? {
+                  path,
+                  savedAt: new Date(saved.savedAt).toISOString(),
+                  expiresAt: new Date(saved.expiresAt).toISOString(),
+                  fresh: isAuthStateFresh(saved, now),
+                  refreshable: Boolean(saved.tokens?.refreshToken),
+                }
+              : null,
+          };
+        }),
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ roles: status, cleared }, null, 2),
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
 }
@@ -1,7 +1,13 @@
 import { z } from 'zod';
 import type { BrowserManager } from '../../core/browser-manager.js';
 import type { SessionManager } from '../../core/session-manager.js';
-import type { BrowserAction, BrowserActionType, ToolResult } from '../../types/index.js';
+import { describeLogEntry } from '../../core/log-collector.js';
+import type {
+  BrowserAction,
+  BrowserActionType,
+  StepMetadata,
+  ToolResult,
+} from '../../types/index.js';
 
 // ── Shared selector schema ───────────────────────────────────────────────────
 
@@ -24,6 +30,17 @@ function toPlaywrightSelector(sel: z.infer<typeof selectorSchema>): string {
   throw new Error('Invalid selector');
 }
 
+// Log entries that fired a watch rule during the action, so the agent sees them right away
+function serverErrorLines(metadata: StepMetadata): string[] {
+  const entries = metadata.serverErrors ?? [];
+  if (entries.length === 0) return [];
+  return [
+    `server_errors: ${entries.length}`,
+    ...entries.slice(0, 5).map((e) => `  ${describeLogEntry(e)}`),
+    ...(entries.length > 5 ? [`  (${entries.length - 5} more on the step)`] : []),
+  ];
+}
+
 // ── Tool Schemas ─────────────────────────────────────────────────────────────
 
 export const navigateSchema = z.object({
@@ -129,7 +146,7 @@ export class BrowserTools {
       const capture = await this.bm.getCaptureManager().capture();
       const duration = Date.now() - start;
       const ctxId = this.getContextId();
-      await this.sm.recordStep(
+      const step = await this.sm.recordStep(
         browserAction,
         capture.screenshot,
         capture.metadata,
@@ -146,6 +163,7 @@ export class BrowserTools {
         capture.metadata.networkErrors.length
           ? `network_errors: ${capture.metadata.networkErrors.length}`
           : null,
+        ...serverErrorLines(step.metadata),
       ]
         .filter(Boolean)
         .join('\n');
@@ -187,7 +205,7 @@ export class BrowserTools {
       const capture = await this.bm.getCaptureManager().capture();
       const duration = Date.now() - start;
       const ctxId = this.getContextId();
-      await this.sm.recordStep(
+      const step = await this.sm.recordStep(
         browserAction,
         capture.screenshot,
         capture.metadata,
@@ -196,7 +214,10 @@ export class BrowserTools {
         ctxId,
       );
 
-      const resultText = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+      const resultText = [
+        typeof result === 'string' ? result : JSON.stringify(result, null, 2),
+        ...serverErrorLines(step.metadata),
+      ].join('\n');
 
       return {
         content: [
@@ -6,7 +6,10 @@ import type { ToolResult } from '../../types/index.js';
 
 export const querySchema = z.object({
   sql: z.string().describe('SELECT query to execute (read-only)'),
-  params: z.array(z.unknown()).optional().describe('Parameterized query values ($1, $2, ...)'),
+  params: z
+    .array(z.unknown())
+    .optional()
+    .describe('Parameterized query values ($1, $2, ... for PostgreSQL; ? for MySQL/SQLite)'),
 });
 
 export const schemaSchema = z.object({
@@ -0,0 +1,284 @@
+import { z } from 'zod';
+import { request as playwrightRequest, type APIRequestContext } from 'playwright';
+import { checkJsonAssertion, type AssertionResult } from '../../core/json-path.js';
+import { formatBody } from '../../core/network-capture.js';
+import { describeLogEntry } from '../../core/log-collector.js';
+import { redactCredentialHeaders } from '../../core/sensitive-data.js';
+import type { BrowserManager } from '../../core/browser-manager.js';
+import type { SessionManager } from '../../core/session-manager.js';
+import type { BrowserAction, HttpExchange, StepMetadata, ToolResult } from '../../types/index.js';
+
+// ── Schemas ──────────────────────────────────────────────────────────────────
+
+const assertionSchema = z.object({
+  path: z
+    .string()
+    .describe('JSONPath into the response body, e.g. "$.items[0].status" or "$.items.length"'),
+  equals: z.unknown().optional().describe('Value must deep-equal this'),
+  exists: z.boolean().optional().describe('Path must (default) or must not resolve'),
+  contains: z
+    .unknown()
+    .optional()
+    .describe('String value must contain this substring, or array must contain this element'),
+  matches: z.string().optional().describe('Regex the string value must match'),
+});
+
+export const httpRequestSchema = z.object({
+  url: z
+    .string()
+    .describe('Absolute URL, or a path resolved against app.baseUrl (else the current page)'),
+  method: z.enum(['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS']).default('GET'),
+  headers: z.record(z.string()).optional().describe('Request headers'),
+  query: z
+    .record(z.union([z.string(), z.number(), z.boolean()]))
+    .optional()
+    .describe('Query parameters to append'),
+  json: z.unknown().optional().describe('JSON request body'),
+  body: z.string().optional().describe('Raw request body (use json for JSON)'),
+  useBrowserAuth: z
+    .boolean()
+    .default(true)
+    .describe("Send the active context's cookies; false sends the request without any state"),
+  bearerFromStorage: z
+    .string()
+    .optional()
+    .describe('localStorage/sessionStorage key on the current page to send as a Bearer token'),
+  expectStatus: z.number().int().optional().describe('Fail unless the response has this status'),
+  assertions: z
+    .array(assertionSchema)
+    .optional()
+    .describe('Checks on the JSON response body; failures mark the step as failed'),
+  timeout: z.number().int().positive().default(30_000).describe('Request timeout in ms'),
+  maxBodyLength: z
+    .number()
+    .int()
+    .positive()
+    .default(4000)
+    .describe('Characters of the response body to return and store on the step'),
+});
+
+// ── Tool Class ───────────────────────────────────────────────────────────────
+
+export class HttpTools {
+  constructor(
+    private bm: BrowserManager,
+    private sm: SessionManager,
+    private baseUrl?: string,
+  ) {}
+
+  private getContextId(): string | undefined {
+    return this.bm.getContextNames().length > 1 ? this.bm.getActiveContextId() : undefined;
+  }
+
+  private resolveUrl(url: string): string {
+    if (/^https?:\/\//i.test(url)) return url;
+    const pageUrl = this.bm.getPage().url();
+    const base = this.baseUrl ?? (/^https?:/.test(pageUrl) ? pageUrl : undefined);
+    if (!base) {
+      throw new Error(`Cannot resolve "${url}": set app.baseUrl or navigate to the app first.`);
+    }
+    return new URL(url, base).toString();
+  }
+
+  /**
+   * Send a request from the active context, record it as a step with the
+   * response on `metadata.http`, and check the status and body assertions.
+   */
+  async request(params: z.infer<typeof httpRequestSchema>): Promise<ToolResult> {
+    const start = Date.now();
+    const contextId = this.getContextId();
+    // Credentials stay out of session.json, the dashboard and exported specs
+    const recorded = params.headers
+      ? { ...params, headers: redactCredentialHeaders(params.headers) }
+      : params;
+    const action: BrowserAction = { type: 'http_request', params: recorded, timestamp: start };
+
+    let url = params.url;
+    try {
+      url = this.resolveUrl(params.url);
+      action.params = { ...recorded, url };
+
+      const exchange = await this.bm.queueWriteAction(() => this.send(url, params));
+      const text = exchange.text;
+      const results = this.check(text, exchange.status, params);
+      const failed = results.filter((r) => !r.passed);
+
+      const http: HttpExchange = {
+        method: params.method,
+        url,
+        status: exchange.status,
+        statusText: exchange.statusText,
+        durationMs: exchange.durationMs,
+        responseHeaders: redactCredentialHeaders(exchange.headers),
+        ...(text ? { responseBody: text.slice(0, params.maxBodyLength) } : {}),
+        ...(results.length > 0 ? { assertions: results } : {}),
+      };
+      const metadata: StepMetadata = {
+        url,
+        title: `${params.method} ${exchange.status} ${exchange.statusText}`.trim(),
+        viewport: { width: 0, height: 0 },
+        consoleErrors: [],
+        networkErrors:
+          exchange.status >= 400
+            ? [
+                {
+                  url,
+                  method: params.method,
+                  status: exchange.status,
+                  statusText: exchange.statusText,
+                  timestamp: Date.now(),
+                },
+              ]
+            : [],
+        http,
+        ...(exchange.traceId ? { traceIds: [exchange.traceId] } : {}),
+      };
+      const error =
+        failed.length > 0
+          ? `Assertion failed: ${failed.map((r) => `${r.path} (${r.message ?? 'failed'})`).join('; ')}`
+          : undefined;
+      const step = await this.sm.recordStep(
+        action,
+        '',
+        metadata,
+        Date.now() - start,
+        error,
+        contextId,
+      );
+
+      const summary = {
+        stepId: step.id,
+        status: exchange.status,
+        statusText: exchange.statusText,
+        durationMs: exchange.durationMs,
+        headers: exchange.headers,
+        ...(text ? { body: formatBody(text, params.maxBodyLength) } : {}),
+        ...(results.length > 0 ? { passed: failed.length === 0, assertions: results } : {}),
+        ...(step.metadata.serverErrors
+          ? { serverErrors: step.metadata.serverErrors.map(describeLogEntry) }
+          : {}),
+      };
+
+      return { content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }] };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const emptyMeta = {
+        url,
+        title: '',
+        viewport: { width: 0, height: 0 },
+        consoleErrors: [],
+        networkErrors: [],
+      };
+      await this.sm
+        .recordStep(action, '', emptyMeta, Date.now() - start, msg, contextId)
+        .catch(() => {});
+      return {
+        content: [{ type: 'text', text: `Error: ${msg}` }],
+        isError: true,
+      };
+    }
+  }
+
+  private async send(
+    url: string,
+    params: z.infer<typeof httpRequestSchema>,
+  ): Promise<{
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    text: string;
+    durationMs: number;
+    traceId?: string;
+  }> {
+    const headers = { ...params.headers };
+    if (params.bearerFromStorage) {
+      const token = await this.readStoredToken(params.bearerFromStorage);
+      if (!token) {
+        throw new Error(`No "${params.bearerFromStorage}" in localStorage or sessionStorage.`);
+      }
+      headers.authorization ??= `Bearer ${token}`;
+    }
+    const correlator = this.bm.getTraceCorrelator();
+    const trace = correlator?.applies(url, 'fetch', this.baseUrl ?? this.bm.getPage().url())
+      ? correlator.detached()
+      : null;
+    if (trace) headers[trace.name] ??= trace.value;
+
+    // The context's request client shares its cookie jar with the pages
+    const api: APIRequestContext = params.useBrowserAuth
+      ? this.bm.getPage().context().request
+      : await playwrightRequest.newContext();
+    try {
+      const sent = Date.now();
+      const res = await api.fetch(url, {
+        method: params.method,
+        headers,
+        ...(params.query ? { params: params.query } : {}),
+        ...(params.json !== undefined ? { data: params.json } : {}),
+        ...(params.body !== undefined && params.json === undefined ? { data: params.body } : {}),
+        timeout: params.timeout,
+        failOnStatusCode: false,
+      });
+      const text = params.method === 'HEAD' ? '' : (await res.body()).toString('utf-8');
+      return {
+        status: res.status(),
+        statusText: res.statusText(),
+        headers: res.headers(),
+        text,
+        durationMs: Date.now() - sent,
+        ...(trace ? { traceId: trace.id } : {}),
+      };
+    } finally {
+      if (!params.useBrowserAuth) await api.dispose();
+    }
+  }
+
+  private async readStoredToken(key: string): Promise<string | null> {
+    return this.bm.getPage().evaluate(
+      /* istanbul ignore next */
+      (k: string) => {
+        const g = globalThis as Record<string, unknown>;
+        for (const api of ['localStorage', 'sessionStorage']) {
+          const storage = g[api] as { getItem: (k: string) => string | null } | undefined;
+          const value = storage?.getItem(k);
+          if (value) return value;
+        }
+        return null;
+      },
+      key,
+    );
+  }
+
+  private check(
+    text: string,
+    status: number,
+    params: z.infer<typeof httpRequestSchema>,
+  ): AssertionResult[] {
+    const results: AssertionResult[] = [];
+    if (params.expectStatus !== undefined) {
+      const passed = status === params.expectStatus;
+      results.push({
+        path: 'status',
+        passed,
+        actual: status,
+        ...(passed ? {} : { message: `Expected ${params.expectStatus}` }),
+      });
+    }
+    if (!params.assertions?.length) return results;
+
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return [
+        ...results,
+        ...params.assertions.map((a) => ({
+          path: a.path,
+          passed: false,
+          message: 'Response body is not JSON',
+        })),
+      ];
+    }
+    return [...results, ...params.assertions.map((a) => checkJsonAssertion(body, a))];
+  }
+}
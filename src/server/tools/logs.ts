@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import type { LogCollector } from '../../core/log-collector.js';
-import type { ToolResult, LogLevel } from '../../types/index.js';
+import type { SessionManager } from '../../core/session-manager.js';
+import type { ToolResult, LogEntry, LogLevel } from '../../types/index.js';
 
 // ── Schemas ──────────────────────────────────────────────────────────────────
 
@@ -9,38 +10,69 @@ export const tailSchema = z.object({
   lines: z.number().default(50).describe('Number of recent lines to return'),
 });
 
+const levelSchema = z
+  .enum(['debug', 'info', 'warn', 'error', 'fatal'])
+  .optional()
+  .describe('Minimum log level');
+
+const stepRefSchema = z.union([z.number().int().positive(), z.string()]);
+
 export const getLogsSchema = z.object({
   source: z.string().optional().describe('Filter by source name'),
-  level: z
-    .enum(['debug', 'info', 'warn', 'error', 'fatal'])
-    .optional()
-    .describe('Minimum log level'),
+  level: levelSchema,
   since: z.number().optional().describe('Start timestamp (epoch ms)'),
   until: z.number().optional().describe('End timestamp (epoch ms)'),
+  fromStep: stepRefSchema
+    .optional()
+    .describe('Start when this step started (1-based step number or step ID)'),
+  toStep: stepRefSchema
+    .optional()
+    .describe('End when the step after this one started (default: fromStep)'),
   limit: z.number().default(200).describe('Max entries to return'),
 });
 
 export const searchLogsSchema = z.object({
-  pattern: z.string().describe('Regex pattern to search for in log messages'),
+  pattern: z
+    .string()
+    .optional()
+    .describe('Regex pattern to search for in log messages (optional with traceId)'),
+  traceId: z
+    .string()
+    .optional()
+    .describe('Only entries carrying this correlation ID (see step traceIds)'),
   source: z.string().optional().describe('Limit search to this source'),
   caseSensitive: z.boolean().default(false).describe('Case-sensitive search'),
   limit: z.number().default(100).describe('Max results'),
 });
 
+export const stepLogsSchema = z.object({
+  stepId: z.string().optional().describe('Step ID (default: the latest step)'),
+  source: z.string().optional().describe('Limit to this source'),
+  level: levelSchema,
+  limit: z.number().default(100).describe('Max entries to return'),
+});
+
+function formatEntry(e: LogEntry) {
+  return {
+    timestamp: new Date(e.timestamp).toISOString(),
+    level: e.level,
+    source: e.source,
+    message: e.message,
+  };
+}
+
 // ── Tool Class ───────────────────────────────────────────────────────────────
 
 export class LogTools {
-  constructor(private collector: LogCollector) {}
+  constructor(
+    private collector: LogCollector,
+    private sm?: SessionManager,
+  ) {}
 
   async tail(params: z.infer<typeof tailSchema>): Promise<ToolResult> {
     try {
       const entries = this.collector.tail(params.source, params.lines);
-      const formatted = entries.map((e) => ({
-        timestamp: new Date(e.timestamp).toISOString(),
-        level: e.level,
-        source: e.source,
-        message: e.message,
-      }));
+      const formatted = entries.map(formatEntry);
 
       return {
         content: [
@@ -64,20 +96,25 @@ export class LogTools {
 
   async getLogs(params: z.infer<typeof getLogsSchema>): Promise<ToolResult> {
     try {
-      const entries = this.collector.getLogs({
+      let { since, until } = params;
+      const range =
+        params.fromStep !== undefined || params.toStep !== undefined
+          ? this.stepRange(params.fromStep ?? params.toStep, params.toStep ?? params.fromStep)
+          : null;
+      if (range) {
+        since = Math.max(since ?? 0, range.since);
+        if (range.until !== undefined) until = Math.min(until ?? Infinity, range.until);
+      }
+
+      const entries = await this.collector.history({
         source: params.source,
         level: params.level as LogLevel | undefined,
-        since: params.since,
-        until: params.until,
+        since,
+        until,
         limit: params.limit,
       });
 
-      const formatted = entries.map((e) => ({
-        timestamp: new Date(e.timestamp).toISOString(),
-        level: e.level,
-        source: e.source,
-        message: e.message,
-      }));
+      const formatted = entries.map(formatEntry);
 
       return {
         content: [
@@ -86,6 +123,13 @@ export class LogTools {
             text: JSON.stringify(
               {
                 sources: this.collector.getSourceNames(),
+                ...(range
+                  ? {
+                      steps: range.label,
+                      since: new Date(since ?? 0).toISOString(),
+                      ...(until !== undefined ? { until: new Date(until).toISOString() } : {}),
+                    }
+                  : {}),
                 count: formatted.length,
                 entries: formatted,
               },
@@ -103,27 +147,58 @@ export class LogTools {
     }
   }
 
+  /**
+   * The time span of steps `from`..`to`: from the first one's start until the
+   * next step after `to` starts (open-ended for the latest step), so log lines
+   * written after an action returns still count towards it.
+   */
+  private stepRange(
+    from: number | string | undefined,
+    to: number | string | undefined,
+  ): { since: number; until?: number; label: string } {
+    const steps = this.sm?.getSession()?.steps ?? [];
+    const indexOf = (ref: number | string | undefined): number => {
+      const index = typeof ref === 'number' ? ref - 1 : steps.findIndex((s) => s.id === ref);
+      if (index < 0 || index >= steps.length) throw new Error(`Step not found: ${ref}`);
+      return index;
+    };
+    const start = indexOf(from);
+    const end = indexOf(to);
+    if (end < start) throw new Error('toStep comes before fromStep.');
+
+    const next = steps.at(end + 1);
+    return {
+      since: steps[start].action.timestamp,
+      ...(next ? { until: next.action.timestamp } : {}),
+      label: start === end ? `${start + 1}` : `${start + 1}-${end + 1}`,
+    };
+  }
+
   async searchLogs(params: z.infer<typeof searchLogsSchema>): Promise<ToolResult> {
     try {
-      const entries = this.collector.search(params.pattern, {
+      if (params.pattern === undefined && params.traceId === undefined) {
+        throw new Error('Provide a pattern, a traceId, or both.');
+      }
+      const entries = this.collector.search(params.pattern ?? '', {
         source: params.source,
         caseSensitive: params.caseSensitive,
         limit: params.limit,
+        ...(params.traceId ? { traceIds: [params.traceId] } : {}),
       });
 
-      const formatted = entries.map((e) => ({
-        timestamp: new Date(e.timestamp).toISOString(),
-        level: e.level,
-        source: e.source,
-        message: e.message,
-      }));
+      const formatted = entries.map(formatEntry);
 
       return {
         content: [
           {
             type: 'text',
             text: JSON.stringify(
-              { pattern: params.pattern, count: formatted.length, entries: formatted },
+              {
+                ...(params.pattern !== undefined ? { pattern: params.pattern } : {}),
+                ...(params.traceId ? { traceId: params.traceId } : {}),
+                count: formatted.length,
+                entries: formatted,
+              },
               null,
               2,
             ),
@@ -137,4 +212,45 @@ export class LogTools {
       };
     }
   }
+
+  /** Backend log lines carrying the correlation IDs sent during one step. */
+  async stepLogs(params: z.infer<typeof stepLogsSchema>): Promise<ToolResult> {
+    try {
+      const steps = this.sm?.getSession()?.steps ?? [];
+      const step = params.stepId ? steps.find((s) => s.id === params.stepId) : steps.at(-1);
+      if (!step) {
+        throw new Error(params.stepId ? `Step not found: ${params.stepId}` : 'No steps recorded.');
+      }
+
+      const traceIds = step.metadata.traceIds ?? [];
+      const entries =
+        traceIds.length > 0
+          ? this.collector.correlated(traceIds, {
+              source: params.source,
+              level: params.level as LogLevel | undefined,
+              limit: params.limit,
+            })
+          : [];
+
+      const result = {
+        stepId: step.id,
+        action: step.action.type,
+        traceIds,
+        count: entries.length,
+        entries: entries.map(formatEntry),
+        ...(traceIds.length === 0
+          ? {
+              note: 'No correlation IDs were sent during this step. Enable network.correlation, and log the request-ID header on the backend.',
+            }
+          : {}),
+      };
+
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
 }
@@ -1,6 +1,27 @@
 import { z } from 'zod';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { describeOperation } from '../../core/graphql.js';
+import { formatBody } from '../../core/network-capture.js';
+import { createHar, parseHar } from '../../core/network-fixtures.js';
 import type { BrowserManager } from '../../core/browser-manager.js';
-import type { ToolResult } from '../../types/index.js';
+import type { CapturedRequest, CapturedResponse, ToolResult } from '../../types/index.js';
+
+const fixtureNameSchema = z
+  .string()
+  .regex(/^[\w.-]+$/, 'Use letters, digits, ".", "_" or "-"')
+  .default('api')
+  .describe('Fixture name; stored as <network.fixtureDir>/<name>.har');
+
+const operationTypeSchema = z
+  .enum(['query', 'mutation', 'subscription'])
+  .optional()
+  .describe('GraphQL operation type filter');
+
+const resourceTypesSchema = z
+  .array(z.string())
+  .default(['xhr', 'fetch'])
+  .describe('Resource types to include (empty for all)');
 
 // ── Schemas ──────────────────────────────────────────────────────────────────
 
@@ -13,6 +34,24 @@ export const getRequestsSchema = z.object({
     .describe('Resource type filter (document, xhr, fetch, image, etc.)'),
   statusMin: z.number().optional().describe('Minimum HTTP status code'),
   statusMax: z.number().optional().describe('Maximum HTTP status code'),
+  operationName: z.string().optional().describe('GraphQL operation name filter'),
+  operationType: operationTypeSchema,
+  bodyPattern: z
+    .string()
+    .optional()
+    .describe(
+      'Regex; only requests whose request or response body matches (implies includeBodies)',
+    ),
+  includeBodies: z
+    .boolean()
+    .default(false)
+    .describe('Include request and response bodies (JSON pretty-printed)'),
+  maxBodyLength: z
+    .number()
+    .int()
+    .positive()
+    .default(2000)
+    .describe('Characters shown per body before truncating'),
   limit: z.number().default(50).describe('Max results to return'),
 });
 
@@ -35,16 +74,81 @@ export const getWebSocketsSchema = z.object({
   limit: z.number().default(50).describe('Max messages to return'),
 });
 
+export const graphqlOperationsSchema = z.object({
+  operationName: z.string().optional().describe('Only this GraphQL operation'),
+  operationType: operationTypeSchema,
+  pageUrlPattern: z.string().optional().describe('Regex on the URL of the page that sent them'),
+  errorsOnly: z
+    .boolean()
+    .default(false)
+    .describe('Only operations that returned GraphQL errors or an HTTP error status'),
+});
+
+export const networkRecordSchema = z.object({
+  action: z.enum(['start', 'stop']).describe('Start recording, or stop and save the fixture'),
+  name: fixtureNameSchema,
+  urlPattern: z.string().optional().describe('Regex; only record matching URLs'),
+  resourceTypes: resourceTypesSchema,
+});
+
+export const networkReplaySchema = z.object({
+  action: z
+    .enum(['start', 'stop', 'status'])
+    .describe('Start replaying a fixture, stop, or report hit/miss counts'),
+  name: fixtureNameSchema,
+  match: z
+    .object({
+      method: z.boolean().default(true).describe('Require the same HTTP method'),
+      query: z.boolean().default(true).describe('Require the same query string'),
+      body: z.boolean().default(false).describe('Require the same request body (JSON by value)'),
+    })
+    .default({})
+    .describe('Which parts of a request must equal the recorded one'),
+  fallback: z
+    .enum(['live', 'not-found', 'abort'])
+    .default('live')
+    .describe('Unmatched requests: hit the real backend, return 404, or fail the request'),
+  urlPattern: z.string().optional().describe('Regex; only replay matching URLs'),
+  resourceTypes: resourceTypesSchema,
+});
+
+interface OperationSummary {
+  operation: string;
+  count: number;
+  errorCount: number;
+  statuses: Record<number, number>;
+  responded: number;
+  totalDuration: number;
+  errors: string[];
+}
+
+/** Page a request came from, without its query string or hash. */
+function pageKey(req: CapturedRequest): string {
+  if (!req.pageUrl) return '(unknown page)';
+  try {
+    const url = new URL(req.pageUrl);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return req.pageUrl;
+  }
+}
+
 // ── Tool Class ───────────────────────────────────────────────────────────────
 
 export class NetworkTools {
-  constructor(private bm: BrowserManager) {}
+  constructor(
+    private bm: BrowserManager,
+    private fixtureDir = '.f4tl/fixtures',
+    private version = '0.1.0',
+  ) {}
 
   async getRequests(params: z.infer<typeof getRequestsSchema>): Promise<ToolResult> {
     try {
       const nc = this.bm.getNetworkCapture();
       const data = nc.getRequests(params);
 
+      const withBodies = params.includeBodies || params.bodyPattern !== undefined;
+
       const summary = data.requests.map((req) => {
         const resp = data.responses.find((r) => r.requestId === req.id);
         return {
@@ -53,6 +157,9 @@ export class NetworkTools {
           resourceType: req.resourceType,
           status: resp?.status ?? '(pending)',
           duration: resp?.timing.duration ?? null,
+          ...(req.graphql ? { graphql: req.graphql.map(describeOperation) } : {}),
+          ...(resp?.graphqlErrors ? { graphqlErrors: resp.graphqlErrors } : {}),
+          ...(withBodies ? this.bodies(req.body, resp, params.maxBodyLength) : {}),
         };
       });
 
@@ -72,6 +179,102 @@ export class NetworkTools {
     }
   }
 
+  private bodies(
+    requestBody: string | undefined,
+    resp: CapturedResponse | undefined,
+    maxLength: number,
+  ): Record<string, unknown> {
+    const note = resp?.bodyEvicted
+      ? 'evicted (network.bodies.maxTotalSize reached)'
+      : resp?.bodyTruncated
+        ? 'truncated at network.bodies.maxSize'
+        : undefined;
+    return {
+      ...(requestBody ? { requestBody: formatBody(requestBody, maxLength) } : {}),
+      ...(resp?.body !== undefined ? { responseBody: formatBody(resp.body, maxLength) } : {}),
+      ...(resp?.bodySize !== undefined ? { responseBodySize: resp.bodySize } : {}),
+      ...(note ? { responseBodyNote: note } : {}),
+    };
+  }
+
+  /** GraphQL operations grouped by the page that sent them, with counts and errors. */
+  async graphqlOperations(params: z.infer<typeof graphqlOperationsSchema>): Promise<ToolResult> {
+    try {
+      const nc = this.bm.getNetworkCapture();
+      await nc.bodiesSettled();
+      const { requests, responses } = nc.getRequests({
+        operationName: params.operationName,
+        operationType: params.operationType,
+        limit: Number.MAX_SAFE_INTEGER,
+      });
+      const responseFor = new Map(responses.map((r) => [r.requestId, r]));
+      const pagePattern = params.pageUrlPattern ? new RegExp(params.pageUrlPattern, 'i') : null;
+
+      const pages = new Map<string, Map<string, OperationSummary>>();
+      let total = 0;
+      for (const req of requests) {
+        if (!req.graphql) continue;
+        const page = pageKey(req);
+        if (pagePattern && !pagePattern.test(page)) continue;
+        const resp = responseFor.get(req.id);
+        const failed = !!resp && (resp.status >= 400 || !!resp.graphqlErrors);
+        if (params.errorsOnly && !failed) continue;
+
+        const operations = pages.get(page) ?? new Map<string, OperationSummary>();
+        pages.set(page, operations);
+        for (const op of req.graphql) {
+          if (params.operationName && op.operationName !== params.operationName) continue;
+          if (params.operationType && op.operationType !== params.operationType) continue;
+          const label = describeOperation(op);
+          const summary = operations.get(label) ?? {
+            operation: label,
+            count: 0,
+            errorCount: 0,
+            statuses: {},
+            responded: 0,
+            totalDuration: 0,
+            errors: [],
+          };
+          operations.set(label, summary);
+          summary.count++;
+          total++;
+          if (resp) {
+            summary.statuses[resp.status] = (summary.statuses[resp.status] ?? 0) + 1;
+            summary.responded++;
+            summary.totalDuration += resp.timing.duration;
+          }
+          if (failed) summary.errorCount++;
+          for (const message of resp?.graphqlErrors ?? []) {
+            if (summary.errors.length < 5 && !summary.errors.includes(message)) {
+              summary.errors.push(message);
+            }
+          }
+        }
+      }
+
+      const result = {
+        total,
+        pages: [...pages].map(([pageUrl, operations]) => ({
+          pageUrl,
+          operations: [...operations.values()].map(
+            ({ responded, totalDuration, errors, ...summary }) => ({
+              ...summary,
+              avgDurationMs: responded > 0 ? Math.round(totalDuration / responded) : null,
+              ...(errors.length > 0 ? { errors } : {}),
+            }),
+          ),
+        })),
+      };
+
+      return { content: [{ type: 'text', text: JSON.stringify(result, null, 2) }] };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
+
   async intercept(params: z.infer<typeof interceptSchema>): Promise<ToolResult> {
     try {
       const nc = this.bm.getNetworkCapture();
@@ -127,4 +330,116 @@ export class NetworkTools {
       };
     }
   }
+
+  async record(params: z.infer<typeof networkRecordSchema>): Promise<ToolResult> {
+    try {
+      const nc = this.bm.getNetworkCapture();
+      const path = join(this.fixtureDir, `${params.name}.har`);
+
+      if (params.action === 'start') {
+        nc.startRecording({ urlPattern: params.urlPattern, resourceTypes: params.resourceTypes });
+        const types = params.resourceTypes.length > 0 ? params.resourceTypes.join(', ') : 'all';
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Recording ${types} responses for ${path}. Call network_record with action "stop" to save.`,
+            },
+          ],
+        };
+      }
+
+      const entries = await nc.stopRecording();
+      await mkdir(this.fixtureDir, { recursive: true });
+      await writeFile(path, JSON.stringify(createHar(entries, this.version), null, 2));
+
+      const byStatus: Record<string, number> = {};
+      for (const e of entries) {
+        const bucket = `${Math.floor(e.response.status / 100)}xx`;
+        byStatus[bucket] = (byStatus[bucket] ?? 0) + 1;
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              { status: 'saved', path, entryCount: entries.length, byStatus },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
+
+  async replay(params: z.infer<typeof networkReplaySchema>): Promise<ToolResult> {
+    try {
+      const nc = this.bm.getNetworkCapture();
+
+      if (params.action === 'status' || params.action === 'stop') {
+        const stats = params.action === 'stop' ? await nc.stopReplay() : nc.getReplayStats();
+        return {
+          content: [
+            {
+              type: 'text',
+              text: stats
+                ? JSON.stringify(
+                    { status: params.action === 'stop' ? 'stopped' : 'replaying', ...stats },
+                    null,
+                    2,
+                  )
+                : 'Not replaying.',
+            },
+          ],
+        };
+      }
+
+      const path = join(this.fixtureDir, `${params.name}.har`);
+      let raw: string;
+      try {
+        raw = await readFile(path, 'utf-8');
+      } catch {
+        throw new Error(`Fixture not found: ${path}. Record one with network_record first.`);
+      }
+      const entries = parseHar(raw);
+
+      await nc.startReplay(path, entries, {
+        match: params.match,
+        fallback: params.fallback,
+        urlPattern: params.urlPattern,
+        resourceTypes: params.resourceTypes,
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                status: 'replaying',
+                fixture: path,
+                entryCount: entries.length,
+                match: params.match,
+                fallback: params.fallback,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
 }
@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import {
+  PerfBudgetTracker,
+  checkPerfBudgets,
+  collectPerfMetrics,
+  formatBudgetViolation,
+  metricLabel,
+  urlPath,
+} from '../../core/perf-collector.js';
+import type { BrowserManager } from '../../core/browser-manager.js';
+import type { ReportManager } from '../../core/report-manager.js';
+import type { SessionManager } from '../../core/session-manager.js';
+import type {
+  BrowserAction,
+  PerfConfig,
+  SessionEvent,
+  SessionStep,
+  ToolResult,
+} from '../../types/index.js';
+
+// ── Schemas ──────────────────────────────────────────────────────────────────
+
+export const perfMeasureSchema = z.object({
+  reload: z
+    .boolean()
+    .default(false)
+    .describe('Reload the page first to measure a fresh load instead of the current state'),
+  waitUntil: z
+    .enum(['load', 'domcontentloaded', 'networkidle'])
+    .default('load')
+    .describe('When to consider the reload finished'),
+});
+
+// ── Tool Class ───────────────────────────────────────────────────────────────
+
+export class PerfTools {
+  private tracker: PerfBudgetTracker;
+
+  constructor(
+    private bm: BrowserManager,
+    private sm: SessionManager,
+    private rm: ReportManager,
+    private config: PerfConfig,
+  ) {
+    this.tracker = new PerfBudgetTracker(config.budgets);
+  }
+
+  private getContextId(): string | undefined {
+    return this.bm.getContextNames().length > 1 ? this.bm.getActiveContextId() : undefined;
+  }
+
+  /**
+   * File a "performance" finding whenever a recorded step carries metrics that
+   * exceed a configured budget. Covers perf_measure as well as every step when
+   * `perf.collectOnSteps` is on.
+   */
+  watchBudgets(): void {
+    if (this.config.budgets.length === 0) return;
+
+    this.sm.on('session:start', () => this.tracker.reset());
+    this.sm.on('step:recorded', (event: SessionEvent) => {
+      const { step } = event.data as { step: SessionStep };
+      const metrics = step.metadata.perf;
+      if (!metrics) return;
+
+      const pathname = urlPath(metrics.url) ?? metrics.url;
+      for (const v of this.tracker.check(metrics)) {
+        this.rm.addFinding({
+          title: `${metricLabel(v.metric)} over budget on ${pathname}`,
+          category: 'performance',
+          description: `${formatBudgetViolation(v)} (budget for \`${v.path}\`).`,
+          evidenceStepIds: [step.id],
+          url: metrics.url,
+          ...(step.contextId ? { contextId: step.contextId } : {}),
+        });
+      }
+    });
+  }
+
+  async measure(params: z.infer<typeof perfMeasureSchema>): Promise<ToolResult> {
+    const start = Date.now();
+    const action: BrowserAction = { type: 'perf_measure', params, timestamp: start };
+    const contextId = this.getContextId();
+
+    try {
+      if (params.reload) {
+        await this.bm.queueWriteAction(async () => {
+          await this.bm.getPage().reload({ waitUntil: params.waitUntil });
+        });
+      }
+
+      const { metrics, capture } = await this.bm.queueReadAction(async () => {
+        const metrics = await collectPerfMetrics(this.bm.getPage());
+        const capture = await this.bm.getCaptureManager().capture();
+        return { metrics, capture };
+      });
+      capture.metadata.perf = metrics;
+
+      const step = await this.sm.recordStep(
+        action,
+        capture.screenshot,
+        capture.metadata,
+        Date.now() - start,
+        undefined,
+        contextId,
+      );
+
+      const budgetViolations = checkPerfBudgets(metrics, this.config.budgets).map((v) => ({
+        ...v,
+        message: formatBudgetViolation(v),
+      }));
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ stepId: step.id, ...metrics, budgetViolations }, null, 2),
+          },
+        ],
+      };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const emptyMeta = {
+        url: '',
+        title: '',
+        viewport: { width: 0, height: 0 },
+        consoleErrors: [],
+        networkErrors: [],
+      };
+      await this.sm
+        .recordStep(action, '', emptyMeta, Date.now() - start, msg, contextId)
+        .catch(() => {});
+      return { content: [{ type: 'text', text: `Error: ${msg}` }], isError: true };
+    }
+  }
+}
@@ -1,9 +1,10 @@
 import { z } from 'zod';
 import { readFile } from 'node:fs/promises';
 import { join } from 'node:path';
+import type { LogCollector } from '../../core/log-collector.js';
 import type { ReportManager } from '../../core/report-manager.js';
 import type { SessionManager } from '../../core/session-manager.js';
-import type { ToolResult } from '../../types/index.js';
+import type { LogEntry, ToolResult } from '../../types/index.js';
 
 // ── Schemas ──────────────────────────────────────────────────────────────────
 
@@ -28,7 +29,15 @@ export const createBugSchema = z.object({
 export const addFindingSchema = z.object({
   title: z.string().describe('Finding title'),
   category: z
-    .enum(['usability', 'performance', 'accessibility', 'security', 'suggestion', 'observation'])
+    .enum([
+      'usability',
+      'performance',
+      'accessibility',
+      'security',
+      'api',
+      'suggestion',
+      'observation',
+    ])
     .describe('Finding category'),
   description: z.string().describe('Detailed description'),
   evidenceStepIds: z.array(z.string()).default([]).describe('Step IDs as evidence'),
@@ -37,21 +46,57 @@ export const addFindingSchema = z.object({
 });
 
 export const generateReportSchema = z.object({
-  format: z.enum(['markdown', 'json', 'html']).default('markdown').describe('Report output format'),
+  format: z
+    .enum(['markdown', 'json', 'html', 'junit', 'sarif'])
+    .default('markdown')
+    .describe('Report output format (junit and sarif are for CI systems)'),
 });
 
+export const exportTestSchema = z.object({
+  outputPath: z
+    .string()
+    .optional()
+    .describe('Where to write the spec (defaults to <report.outputDir>/session-<id>.spec.ts)'),
+});
+
+// Server log lines attached to a bug as evidence
+const MAX_BUG_LOG_LINES = 20;
+
 // ── Tool Class ───────────────────────────────────────────────────────────────
 
 export class ReportTools {
+  private logCollector: LogCollector | null = null;
+
   constructor(
     private rm: ReportManager,
     private sm: SessionManager,
     private sessionOutputDir: string,
   ) {}
 
+  /** Attach backend log lines correlated with a bug's evidence steps. */
+  setLogCollector(logCollector: LogCollector | null): void {
+    this.logCollector = logCollector;
+  }
+
+  private correlatedLogs(stepIds: string[]): LogEntry[] {
+    if (!this.logCollector || stepIds.length === 0) return [];
+    const steps = this.sm.getSession()?.steps ?? [];
+    const traceIds = steps
+      .filter((s) => stepIds.includes(s.id))
+      .flatMap((s) => s.metadata.traceIds ?? []);
+    if (traceIds.length === 0) return [];
+    return this.logCollector
+      .correlated(traceIds, { limit: MAX_BUG_LOG_LINES })
+      .map(({ metadata: _metadata, ...entry }) => entry);
+  }
+
   async createBug(params: z.infer<typeof createBugSchema>): Promise<ToolResult> {
     try {
-      const bug = this.rm.createBug(params);
+      const serverLogs = this.correlatedLogs(params.evidenceStepIds);
+      const bug = this.rm.createBug({
+        ...params,
+        ...(serverLogs.length > 0 ? { serverLogs } : {}),
+      });
       return {
         content: [
           {
@@ -62,6 +107,7 @@ export class ReportTools {
                 bugId: bug.id,
                 severity: bug.severity,
                 title: bug.title,
+                ...(serverLogs.length > 0 ? { serverLogLines: serverLogs.length } : {}),
               },
               null,
               2,
@@ -122,7 +168,12 @@ export class ReportTools {
         }
       };
 
-      const outputPath = await this.rm.generateReport(session, params.format, screenshotResolver);
+      const outputPath = await this.rm.generateReport(
+        session,
+        params.format,
+        screenshotResolver,
+        sessionDir,
+      );
 
       return {
         content: [
@@ -150,6 +201,40 @@ export class ReportTools {
     }
   }
 
+  async exportTest(params: z.infer<typeof exportTestSchema>): Promise<ToolResult> {
+    try {
+      const session = this.sm.getSession();
+      if (!session) throw new Error('No active session');
+
+      const result = await this.rm.exportTest(session, params.outputPath);
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(
+              {
+                status: 'exported',
+                outputPath: result.outputPath,
+                stepCount: result.stepCount,
+                skippedStepCount: result.skippedStepCount,
+                assertionCount: result.assertionCount,
+                ...(result.envVars.length > 0 ? { envVars: result.envVars } : {}),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
+
   async getSessionSummary(): Promise<ToolResult> {
     try {
       const session = this.sm.getSession();
@@ -0,0 +1,227 @@
+import { z } from 'zod';
+import { SECURITY_CHECKS, runSecurityScan } from '../../core/security-scan.js';
+import type { SecurityCheck, SecurityIssue } from '../../core/security-scan.js';
+import type { LeakRecord, LeakSource, SensitiveDataDetector } from '../../core/sensitive-data.js';
+import type { BrowserManager } from '../../core/browser-manager.js';
+import type { ReportManager } from '../../core/report-manager.js';
+import type { SessionManager } from '../../core/session-manager.js';
+import type { SessionEvent, SessionStep, ToolResult } from '../../types/index.js';
+
+// ── Schemas ──────────────────────────────────────────────────────────────────
+
+export const securityScanSchema = z.object({
+  checks: z
+    .array(z.enum(SECURITY_CHECKS as [SecurityCheck, ...SecurityCheck[]]))
+    .default(SECURITY_CHECKS)
+    .describe(
+      'Checks to run: headers (CSP, HSTS, X-Frame-Options), cors, cookies, mixed-content, url-tokens, storage',
+    ),
+  urlPattern: z.string().optional().describe('Regex; only scan captured requests to matching URLs'),
+  minSeverity: z
+    .enum(['low', 'medium', 'high'])
+    .default('low')
+    .describe('Ignore issues below this severity'),
+  fileFindings: z
+    .boolean()
+    .default(true)
+    .describe('Record each issue as a "security" finding, once per origin'),
+});
+
+export const dataLeaksSchema = z.object({
+  source: z
+    .enum(['response-body', 'request-url', 'console', 'log'])
+    .optional()
+    .describe('Only list leaks seen in this source'),
+  fileFindings: z
+    .boolean()
+    .default(true)
+    .describe('Record leaks not yet filed as "security" findings'),
+});
+
+const SEVERITY_RANK = { low: 0, medium: 1, high: 2 } as const;
+
+const LEAK_TYPE_LABELS: Record<string, string> = {
+  email: 'Email address',
+  card: 'Card number',
+  jwt: 'JWT',
+  apiKey: 'API key',
+};
+
+function leakTitle(leak: LeakRecord): string {
+  const what = LEAK_TYPE_LABELS[leak.type] ?? `Sensitive data (${leak.type})`;
+  const where: Record<LeakSource, string> = {
+    'response-body': 'response body',
+    'request-url': 'request URL',
+    console: 'console output',
+    log: `server log "${leak.location}"`,
+  };
+  return `${what} in ${where[leak.source]}`;
+}
+
+// ── Tool Class ───────────────────────────────────────────────────────────────
+
+export class SecurityTools {
+  constructor(
+    private bm: BrowserManager,
+    private sm: SessionManager,
+    private rm: ReportManager,
+    private detector: SensitiveDataDetector | null = null,
+  ) {}
+
+  /**
+   * File each newly detected leak as a finding as soon as a step is recorded,
+   * with that step as evidence.
+   */
+  watchLeaks(): void {
+    const detector = this.detector;
+    if (!detector) return;
+
+    this.sm.on('session:start', () => detector.reset());
+    this.sm.on('step:recorded', (event: SessionEvent) => {
+      const { step } = event.data as { step: SessionStep };
+      this.fileLeaks(detector.takeNew(), step);
+    });
+  }
+
+  async leaks(params: z.infer<typeof dataLeaksSchema>): Promise<ToolResult> {
+    try {
+      const detector = this.detector;
+      if (!detector) throw new Error('Sensitive data detection is disabled.');
+
+      const steps = this.sm.getSession()?.steps ?? [];
+      const pending = detector.takeNew();
+      const findingIds = params.fileFindings ? this.fileLeaks(pending, steps.at(-1)) : [];
+
+      const leaks = detector
+        .getLeaks()
+        .filter((l) => !params.source || l.source === params.source)
+        .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+
+      const summary = {
+        leakCount: leaks.length,
+        redacting: detector.redacting,
+        ...(params.fileFindings ? { findingIds } : {}),
+        leaks: leaks.map((l) => ({ title: leakTitle(l), ...l })),
+      };
+
+      return { content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }] };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
+
+  private getContextId(): string | undefined {
+    return this.bm.getContextNames().length > 1 ? this.bm.getActiveContextId() : undefined;
+  }
+
+  async scan(params: z.infer<typeof securityScanSchema>): Promise<ToolResult> {
+    try {
+      const contextId = this.getContextId();
+      const { requests, responses } = this.bm.getNetworkCapture().getRequests({
+        urlPattern: params.urlPattern,
+        limit: Number.MAX_SAFE_INTEGER,
+      });
+      const storage = await this.bm.queueReadAction(() =>
+        this.bm.getPage().context().storageState(),
+      );
+
+      const issues = runSecurityScan({ requests, responses, storage }, params.checks).filter(
+        (i) => SEVERITY_RANK[i.severity] >= SEVERITY_RANK[params.minSeverity],
+      );
+      issues.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+
+      const findingIds = params.fileFindings ? this.fileFindings(issues, contextId) : [];
+
+      const bySeverity: Record<string, number> = {};
+      const byCheck: Record<string, number> = {};
+      for (const issue of issues) {
+        bySeverity[issue.severity] = (bySeverity[issue.severity] ?? 0) + 1;
+        byCheck[issue.check] = (byCheck[issue.check] ?? 0) + 1;
+      }
+
+      const summary = {
+        scannedRequests: requests.length,
+        scannedResponses: responses.length,
+        issueCount: issues.length,
+        bySeverity,
+        byCheck,
+        ...(params.fileFindings ? { findingIds } : {}),
+        issues,
+      };
+
+      return { content: [{ type: 'text', text: JSON.stringify(summary, null, 2) }] };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
+
+  /**
+   * One finding per issue and origin; rescanning does not duplicate. Evidence
+   * is the latest recorded step on that origin, if any.
+   */
+  private fileFindings(issues: SecurityIssue[], contextId?: string): string[] {
+    const existing = new Set(
+      this.rm
+        .getFindings()
+        .filter((f) => f.category === 'security')
+        .map((f) => `${f.url}\n${f.title}`),
+    );
+    const steps = this.sm.getSession()?.steps ?? [];
+
+    const ids: string[] = [];
+    for (const issue of issues) {
+      if (existing.has(`${issue.origin}\n${issue.title}`)) continue;
+
+      const step = [...steps].reverse().find((s) => s.metadata.url.startsWith(issue.origin));
+      const evidence = issue.evidence.map((e) => `- ${e}`).join('\n');
+      const finding = this.rm.addFinding({
+        title: issue.title,
+        category: 'security',
+        description: `[${issue.severity}] ${issue.detail}\n\nSeen on:\n${evidence}`,
+        evidenceStepIds: step ? [step.id] : [],
+        url: issue.origin,
+        ...(contextId ? { contextId } : {}),
+      });
+      ids.push(finding.id);
+    }
+    return ids;
+  }
+
+  /** One finding per leak type, source and location; samples are already masked. */
+  private fileLeaks(leaks: LeakRecord[], step?: SessionStep): string[] {
+    if (leaks.length === 0) return [];
+    const existing = new Set(
+      this.rm
+        .getFindings()
+        .filter((f) => f.category === 'security')
+        .map((f) => `${f.url}\n${f.title}`),
+    );
+
+    const ids: string[] = [];
+    for (const leak of leaks) {
+      // Log sources are names, not URLs; pin those to the page under test
+      const url = leak.source === 'log' ? (step?.metadata.url ?? '') : leak.location;
+      const title = leakTitle(leak);
+      if (existing.has(`${url}\n${title}`)) continue;
+
+      const values = leak.count === 1 ? '1 distinct value' : `${leak.count} distinct values`;
+      const finding = this.rm.addFinding({
+        title,
+        category: 'security',
+        description: `[${leak.severity}] ${values} seen at ${leak.location}, e.g. ${leak.samples.join(', ')}`,
+        evidenceStepIds: leak.stepIds.length > 0 ? leak.stepIds : step ? [step.id] : [],
+        url,
+        ...(step?.contextId ? { contextId: step.contextId } : {}),
+      });
+      existing.add(`${url}\n${title}`);
+      ids.push(finding.id);
+    }
+    return ids;
+  }
+}
@@ -0,0 +1,213 @@
+import { z } from 'zod';
+import { BASELINE_KEY, baselineKey, diffImages } from '../../core/visual-baseline.js';
+import type { BrowserManager } from '../../core/browser-manager.js';
+import type { SessionManager } from '../../core/session-manager.js';
+import type { VisualBaselineStore } from '../../core/visual-baseline.js';
+import type {
+  BrowserAction,
+  ToolResult,
+  VisualComparison,
+  VisualConfig,
+} from '../../types/index.js';
+
+// ── Schemas ──────────────────────────────────────────────────────────────────
+
+export const visualCompareSchema = z.object({
+  name: z
+    .string()
+    .optional()
+    .describe('Optional state name to keep several baselines for the same URL (e.g. "menu-open")'),
+  fullPage: z.boolean().default(false).describe('Compare the full scrollable page'),
+  mask: z
+    .array(z.string())
+    .default([])
+    .describe('CSS selectors to mask before comparing (timestamps, ads, avatars)'),
+  threshold: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Per-pixel color tolerance, 0-1 (defaults to visual.threshold)'),
+  maxDiffRatio: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe('Fraction of pixels allowed to differ (defaults to visual.maxDiffRatio)'),
+});
+
+export const visualApproveSchema = z.object({
+  keys: z
+    .array(z.string().regex(BASELINE_KEY, 'Invalid baseline key'))
+    .optional()
+    .describe('Baseline keys to approve (from visual_compare). Omit to list pending keys.'),
+  all: z.boolean().default(false).describe('Approve every pending screenshot'),
+});
+
+// ── Tool Class ───────────────────────────────────────────────────────────────
+
+export class VisualTools {
+  constructor(
+    private bm: BrowserManager,
+    private sm: SessionManager,
+    private store: VisualBaselineStore,
+    private config: VisualConfig,
+  ) {}
+
+  private getContextId(): string | undefined {
+    return this.bm.getContextNames().length > 1 ? this.bm.getActiveContextId() : undefined;
+  }
+
+  async compare(params: z.infer<typeof visualCompareSchema>): Promise<ToolResult> {
+    const start = Date.now();
+    const action: BrowserAction = { type: 'visual_compare', params, timestamp: start };
+
+    try {
+      const { png, metadata } = await this.bm.queueReadAction(async () => {
+        const page = this.bm.getPage();
+        const png = await page.screenshot({
+          type: 'png',
+          fullPage: params.fullPage,
+          animations: 'disabled',
+          caret: 'hide',
+          mask: params.mask.map((sel) => page.locator(sel)),
+        });
+        const metadata = await this.bm.getCaptureManager().collect();
+        return { png, metadata };
+      });
+
+      const input = {
+        url: metadata.url,
+        viewport: metadata.viewport,
+        contextId: this.getContextId(),
+        name: params.name,
+      };
+      const key = baselineKey(input);
+      const maxDiffRatio = params.maxDiffRatio ?? this.config.maxDiffRatio;
+      const baseline = await this.store.read(key);
+
+      let visual: VisualComparison;
+      let diff: Buffer | null = null;
+
+      if (!baseline) {
+        await this.store.write(key, png, input);
+        visual = { key, status: 'new', diffPixels: 0, diffRatio: 0, maxDiffRatio };
+      } else {
+        const result = diffImages(baseline, png, params.threshold ?? this.config.threshold);
+        const status = result.diffRatio > maxDiffRatio ? 'mismatch' : 'match';
+        visual = {
+          key,
+          status,
+          diffPixels: result.diffPixels,
+          diffRatio: result.diffRatio,
+          maxDiffRatio,
+          ...(result.sizeChanged ? { sizeChanged: true } : {}),
+        };
+        if (status === 'mismatch') {
+          await this.store.writePending(key, png, input, result.diffRatio);
+        } else {
+          await this.store.clearPending(key);
+        }
+        if (result.diffPixels > 0) diff = result.diff;
+      }
+
+      const screenshot = png.toString('base64');
+      const step = await this.sm.recordStep(
+        action,
+        screenshot,
+        metadata,
+        Date.now() - start,
+        undefined,
+        input.contextId,
+        visual,
+      );
+
+      // Baseline and diff sit beside the step screenshot for reports/dashboard
+      if (baseline && diff) {
+        await this.sm.saveStepImage(step.id, 'baseline', baseline);
+        await this.sm.saveStepImage(step.id, 'diff', diff);
+      }
+
+      const summary = {
+        ...visual,
+        diffRatio: Number(visual.diffRatio.toFixed(6)),
+        stepId: step.id,
+        url: metadata.url,
+        ...(visual.status === 'new'
+          ? { note: 'No baseline existed; this screenshot is now the baseline.' }
+          : {}),
+        ...(visual.status === 'mismatch'
+          ? { note: `Call visual_approve with keys ["${key}"] if this change is intended.` }
+          : {}),
+      };
+
+      return {
+        content: [
+          { type: 'text', text: JSON.stringify(summary, null, 2) },
+          {
+            type: 'image',
+            data: diff && visual.status === 'mismatch' ? diff.toString('base64') : screenshot,
+            mimeType: 'image/png',
+          },
+        ],
+      };
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      const emptyMeta = {
+        url: '',
+        title: '',
+        viewport: { width: 0, height: 0 },
+        consoleErrors: [],
+        networkErrors: [],
+      };
+      await this.sm
+        .recordStep(action, '', emptyMeta, Date.now() - start, msg, this.getContextId())
+        .catch(() => {});
+      return { content: [{ type: 'text', text: `Error: ${msg}` }], isError: true };
+    }
+  }
+
+  async approve(params: z.infer<typeof visualApproveSchema>): Promise<ToolResult> {
+    try {
+      const pending = await this.store.listPending();
+      const keys = params.all ? pending.map((m) => m.key) : (params.keys ?? []);
+
+      if (keys.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                {
+                  approved: [],
+                  pending: pending.map((m) => ({
+                    key: m.key,
+                    url: m.url,
+                    diffRatio: m.pending?.diffRatio,
+                  })),
+                },
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+      }
+
+      const approved: string[] = [];
+      for (const key of keys) {
+        await this.store.approve(key);
+        approved.push(key);
+      }
+
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ approved }, null, 2) }],
+      };
+    } catch (err) {
+      return {
+        content: [{ type: 'text', text: `Error: ${(err as Error).message}` }],
+        isError: true,
+      };
+    }
+  }
+}
@@ -13,6 +13,10 @@ export interface SessionConfig {
   outputDir: string;
   maxSteps: number;
   keepArtifacts: boolean;
+  /** Record a Playwright trace zip per browser context. */
+  trace: boolean;
+  /** Record a HAR file per browser context. */
+  har: boolean;
 }
 
 export interface SuppressErrorsConfig {
@@ -28,23 +32,76 @@ export interface CaptureConfig {
   suppressErrors?: SuppressErrorsConfig;
 }
 
+export interface McpHttpConfig {
+  port: number;
+  host: string;
+  path: string;
+  tokenEnv?: string;
+}
+
 export interface McpConfig {
   name: string;
   version: string;
   logLevel: 'debug' | 'info' | 'warn' | 'error';
+  http?: McpHttpConfig;
 }
 
 export interface LogSourceConfig {
-  type: 'process' | 'file';
+  type: 'process' | 'file' | 'docker' | 'journald';
   command?: string;
   args?: string[];
   path?: string;
-  parser: 'json' | 'clf' | 'plain';
-}
+  /** docker: container name or ID (`docker logs -f`) */
+  container?: string;
+  /** docker: docker compose service name (`docker compose logs -f`) */
+  service?: string;
+  /** docker: compose file, when not in the working directory */
+  composeFile?: string;
+  /** journald: systemd unit to follow */
+  unit?: string;
+  /** journald: follow the user's journal (`--user`) */
+  user?: boolean;
+  parser: LogParserType;
+  /** regex: named groups `level`, `timestamp`, `message`; other groups become metadata */
+  pattern?: string;
+  /** custom: module whose default export parses a line: `(source, line) => LogEntry | null` */
+  parserModule?: string;
+  /** Fold stack traces and other continuation lines into the previous entry (default true) */
+  multiline?: boolean;
+  /** Regex for continuation lines (default: indented lines, `Caused by:`, `Traceback`) */
+  continuationPattern?: string;
+  /** Alert rules checked on every entry (default: level >= error; `[]` turns alerts off) */
+  watch?: LogWatchRule[];
+}
+
+/** Fires when `count` entries matching `level` and `pattern` arrive within `windowMs`. */
+export interface LogWatchRule {
+  /** Shown in alerts (default: a description of the rule) */
+  name?: string;
+  /** Minimum level */
+  level?: LogLevel;
+  /** Regex tested against the message */
+  pattern?: string;
+  /** Matching entries needed to fire (default 1: every match) */
+  count?: number;
+  windowMs?: number;
+}
+
+export type LogParserType =
+  | 'json'
+  | 'clf'
+  | 'plain'
+  | 'logfmt'
+  | 'regex'
+  | 'pino'
+  | 'bunyan'
+  | 'winston'
+  | 'custom';
 
 export interface DatabaseConfig {
-  type: 'postgres';
+  type: 'postgres' | 'mysql' | 'sqlite';
   connectionString?: string;
+  filename?: string;
   host?: string;
   port?: number;
   database?: string;
@@ -60,6 +117,20 @@ export interface CodebaseConfig {
   excludePatterns: string[];
 }
 
+export interface AuthMfaConfig {
+  /** `totp` generates codes from a shared secret; `log` reads them from a log source. */
+  type: 'totp' | 'log';
+  codeSelector: string;
+  submitSelector: string;
+  secretEnv?: string;
+  digits: number;
+  period: number;
+  algorithm: 'SHA1' | 'SHA256' | 'SHA512';
+  logSource?: string;
+  logPattern: string;
+  timeout: number;
+}
+
 export interface AuthFormLogin {
   loginUrl: string;
   usernameSelector: string;
@@ -67,6 +138,7 @@ export interface AuthFormLogin {
   submitSelector: string;
   usernameEnv: string;
   passwordEnv: string;
+  mfa?: AuthMfaConfig;
 }
 
 export interface AuthJwtConfig {
@@ -75,11 +147,33 @@ export interface AuthJwtConfig {
   storageType: 'localStorage' | 'sessionStorage' | 'cookie';
 }
 
+export interface AuthOauthLogin {
+  usernameSelector: string;
+  passwordSelector: string;
+  submitSelector: string;
+  usernameEnv: string;
+  passwordEnv: string;
+}
+
 export interface AuthOauthConfig {
   provider: string;
   authUrl: string;
   clientIdEnv: string;
   callbackUrl: string;
+  scope?: string;
+  login?: AuthOauthLogin;
+  consentSelector?: string;
+  tokenUrl?: string;
+  clientSecretEnv?: string;
+  pkce: boolean;
+  tokenStorage: { storageKey: string; storageType: 'localStorage' | 'sessionStorage' | 'cookie' };
+}
+
+export interface OAuthTokens {
+  accessToken: string;
+  refreshToken?: string;
+  idToken?: string;
+  expiresAt?: number;
 }
 
 export interface AuthConfig {
@@ -90,6 +184,19 @@ export interface AuthConfig {
   customScriptPath?: string;
   jwt?: AuthJwtConfig;
   oauth?: AuthOauthConfig;
+  cache?: AuthCacheConfig;
+}
+
+export interface AuthProbe {
+  url: string;
+  selector: string;
+  timeout: number;
+}
+
+export interface AuthCacheConfig {
+  enabled: boolean;
+  ttl: number;
+  probe?: AuthProbe;
 }
 
 export interface ContextOptions {
@@ -121,6 +228,94 @@ export interface ReportConfig {
   outputDir: string;
 }
 
+export interface VisualConfig {
+  baselineDir: string;
+  threshold: number;
+  maxDiffRatio: number;
+}
+
+export interface NetworkBodyConfig {
+  /** Keep response bodies so network_get_requests can show and search them. */
+  capture: boolean;
+  /** Substrings matched against the content-type, e.g. `json` or `text/html`. */
+  contentTypes: string[];
+  /** Bytes kept per body; longer bodies are truncated. */
+  maxSize: number;
+  /** Bytes kept across all bodies per context; the oldest are dropped first. */
+  maxTotalSize: number;
+}
+
+export interface CorrelationConfig {
+  /** Add a request-ID header to page requests and record the IDs on each step. */
+  enabled: boolean;
+  /** `uuid`: a new ID per request. `traceparent`: one W3C trace per step, one span per request. */
+  format: 'uuid' | 'traceparent';
+  /** Header name (default: `traceparent` for that format, else `x-request-id`). */
+  header?: string;
+  /** Regex; tag requests to matching URLs instead of the page's own origin. */
+  urlPattern?: string;
+  /** Resource types to tag (empty for all). */
+  resourceTypes: string[];
+}
+
+export interface NetworkConfig {
+  /** Where network_record writes fixtures and network_replay reads them. */
+  fixtureDir: string;
+  bodies: NetworkBodyConfig;
+  correlation: CorrelationConfig;
+}
+
+export interface ApiConfig {
+  /** OpenAPI 3 document (JSON), relative to the working directory. */
+  spec: string;
+  /** Path prefix before the spec's paths, e.g. `/api/v1` (default: from `servers[0].url`). */
+  basePath?: string;
+  /** Regex; only requests to matching URLs are checked. */
+  urlPattern?: string;
+  /** Check request bodies and required query parameters too. */
+  validateRequests: boolean;
+  /** Check traffic after every step and file violations as findings. */
+  autoValidate: boolean;
+}
+
+export type SensitiveBuiltin = 'email' | 'card' | 'jwt' | 'apiKey';
+
+export interface SensitivePattern {
+  name: string;
+  /** Regex source; the whole match is treated as the secret. */
+  pattern: string;
+  severity: 'high' | 'medium' | 'low';
+}
+
+export interface SensitiveDataConfig {
+  /** Mask matches in recorded steps, bugs and findings before they are stored. */
+  redact: boolean;
+  builtins: SensitiveBuiltin[];
+  /** Extra detectors, e.g. internal customer or account ID formats. */
+  patterns: SensitivePattern[];
+  /** Regexes for values that are never reported or masked, e.g. seeded test accounts. */
+  allow: string[];
+}
+
+export interface PerfBudget {
+  /** Pathname glob (`*` wildcard), e.g. `/checkout` or `/products/*`. */
+  path: string;
+  lcp?: number;
+  fcp?: number;
+  cls?: number;
+  inp?: number;
+  ttfb?: number;
+  longTaskTime?: number;
+  jsHeapMb?: number;
+  transferKb?: number;
+}
+
+export interface PerfConfig {
+  /** Attach performance metrics to every recorded step. */
+  collectOnSteps: boolean;
+  budgets: PerfBudget[];
+}
+
 export interface DashboardConfig {
   port: number;
   host: string;
@@ -133,6 +328,18 @@ export interface AgentConfig {
   systemPrompt?: string;
 }
 
+/** Lowest bug severity that fails `f4tl ci`; `never` only reports. */
+export type CiFailOn = BugSeverity | 'never';
+
+export interface CiConfig {
+  failOn: CiFailOn;
+  /** Fail when any journey fails, whatever the bug severities. */
+  failOnJourneys: boolean;
+  formats: ReportFormat[];
+  /** Job summary markdown file. Defaults to `<report.outputDir>/summary-<sessionId>.md`. */
+  summaryPath?: string;
+}
+
 export interface F4tlConfig {
   browser: BrowserConfig;
   session: SessionConfig;
@@ -143,12 +350,18 @@ export interface F4tlConfig {
   database?: DatabaseConfig;
   codebase: CodebaseConfig;
   report: ReportConfig;
+  visual: VisualConfig;
+  network: NetworkConfig;
+  api?: ApiConfig;
+  sensitiveData: SensitiveDataConfig;
+  perf: PerfConfig;
   dashboard: DashboardConfig;
   webhooks?: WebhookConfig;
   learning?: LearningConfig;
   app?: AppConfig;
   journeys?: JourneysConfig;
   agent?: AgentConfig;
+  ci: CiConfig;
 }
 
 // ── Browser Action Types ─────────────────────────────────────────────────────
@@ -168,7 +381,12 @@ export type BrowserActionType =
   | 'wait'
   | 'back'
   | 'forward'
-  | 'accessibility_tree';
+  | 'accessibility_tree'
+  | 'visual_compare'
+  | 'a11y_audit'
+  | 'perf_measure'
+  | 'access_check'
+  | 'http_request';
 
 export interface BrowserAction {
   type: BrowserActionType;
@@ -191,6 +409,8 @@ export interface NetworkError {
   status: number;
   statusText: string;
   timestamp: number;
+  /** Set when a GraphQL response reported `errors` despite its HTTP status */
+  graphql?: { operationName?: string; errors: string[] };
 }
 
 export interface DomMetrics {
@@ -206,6 +426,63 @@ export interface StepMetadata {
   consoleErrors: ConsoleMessage[];
   networkErrors: NetworkError[];
   domMetrics?: DomMetrics;
+  perf?: PerfMetrics;
+  http?: HttpExchange;
+  /** Correlation IDs sent with this step's requests (`network.correlation`) */
+  traceIds?: string[];
+  /** Log entries that fired a watch rule since the previous step */
+  serverErrors?: LogEntry[];
+}
+
+/** A request sent by `http_request`, stored on its step. */
+export interface HttpExchange {
+  method: string;
+  url: string;
+  status: number;
+  statusText: string;
+  durationMs: number;
+  responseHeaders: Record<string, string>;
+  /** Cut to the tool's `maxBodyLength` */
+  responseBody?: string;
+  assertions?: { path: string; passed: boolean; actual?: unknown; message?: string }[];
+}
+
+// ── Performance Types ───────────────────────────────────────────────────────
+
+/** Core Web Vitals in ms, except CLS which is unitless. */
+export interface WebVitals {
+  lcp?: number;
+  fcp?: number;
+  cls?: number;
+  inp?: number;
+  ttfb?: number;
+}
+
+export interface ResourceTiming {
+  url: string;
+  type: string;
+  duration: number;
+  transferBytes: number;
+}
+
+export interface PerfMetrics {
+  url: string;
+  vitals: WebVitals;
+  longTasks: { count: number; totalTime: number; maxDuration: number };
+  jsHeap?: { usedBytes: number; totalBytes: number };
+  resources: {
+    count: number;
+    transferBytes: number;
+    byType: Record<string, { count: number; transferBytes: number }>;
+    slowest: ResourceTiming[];
+  };
+}
+
+export interface PerfBudgetViolation {
+  metric: Exclude<keyof PerfBudget, 'path'>;
+  value: number;
+  budget: number;
+  path: string;
 }
 
 // ── Session Types ────────────────────────────────────────────────────────────
@@ -218,6 +495,7 @@ export interface SessionStep {
   metadata: StepMetadata;
   duration: number;
   error?: string;
+  visual?: VisualComparison;
 }
 
 export interface Session {
@@ -226,9 +504,32 @@ export interface Session {
   endTime?: number;
   steps: SessionStep[];
   contexts?: string[];
+  artifacts?: SessionArtifact[];
   config: F4tlConfig;
 }
 
+export type SessionArtifactType = 'trace' | 'har';
+
+/** A recording file in the session directory, written when its context closes. */
+export interface SessionArtifact {
+  type: SessionArtifactType;
+  contextId: string;
+  file: string;
+}
+
+// ── Visual Regression Types ──────────────────────────────────────────────────
+
+export type VisualCompareStatus = 'new' | 'match' | 'mismatch';
+
+export interface VisualComparison {
+  key: string;
+  status: VisualCompareStatus;
+  diffPixels: number;
+  diffRatio: number;
+  maxDiffRatio: number;
+  sizeChanged?: boolean;
+}
+
 // ── Tool Result Types ────────────────────────────────────────────────────────
 
 export interface TextContent {
@@ -269,6 +570,21 @@ export interface CapturedRequest {
   body?: string;
   resourceType: string;
   timestamp: number;
+  /** GraphQL operations in the request; more than one when batched */
+  graphql?: GraphqlOperation[];
+  /** URL of the page that sent it; set for GraphQL requests */
+  pageUrl?: string;
+}
+
+export type GraphqlOperationType = 'query' | 'mutation' | 'subscription';
+
+export interface GraphqlOperation {
+  operationName?: string;
+  /** Unknown for persisted queries sent without their document */
+  operationType?: GraphqlOperationType;
+  variables?: Record<string, unknown>;
+  /** Sent as an automatic persisted query hash */
+  persisted?: boolean;
 }
 
 export interface CapturedResponse {
@@ -278,6 +594,14 @@ export interface CapturedResponse {
   statusText: string;
   headers: Record<string, string>;
   body?: string;
+  /** Full body size in bytes, set when the body was captured */
+  bodySize?: number;
+  /** Only the first `network.bodies.maxSize` bytes were kept */
+  bodyTruncated?: boolean;
+  /** Dropped to stay under `network.bodies.maxTotalSize` */
+  bodyEvicted?: boolean;
+  /** Messages from a GraphQL response's `errors` array */
+  graphqlErrors?: string[];
   timing: { start: number; end: number; duration: number };
 }
 
@@ -296,6 +620,55 @@ export interface InterceptRule {
   delay?: number;
 }
 
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+/** One HAR 1.2 entry, reduced to the fields replay needs. */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    headers: HarHeader[];
+    postData?: { mimeType: string; text: string };
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string; encoding?: 'base64' };
+  };
+}
+
+export interface HarFile {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+export interface ReplayMatchOptions {
+  method: boolean;
+  /** Compare query strings; when false `/api/items?page=2` matches `/api/items`. */
+  query: boolean;
+  body: boolean;
+}
+
+/** What to do with a request that has no recorded fixture. */
+export type ReplayFallback = 'live' | 'not-found' | 'abort';
+
+export interface ReplayStats {
+  fixture: string;
+  entryCount: number;
+  served: number;
+  fallbacks: number;
+  unmatched: { method: string; url: string }[];
+}
+
 // ── Log Types ────────────────────────────────────────────────────────────────
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'fatal';
@@ -308,6 +681,14 @@ export interface LogEntry {
   metadata?: Record<string, unknown>;
 }
 
+/** A watch rule that fired, with the entries that made it fire. */
+export interface LogAlert {
+  rule: string;
+  source: string;
+  entries: LogEntry[];
+  timestamp: number;
+}
+
 // ── Database Types ───────────────────────────────────────────────────────────
 
 export interface QueryResult {
@@ -365,6 +746,8 @@ export interface Bug {
   rootCause?: string;
   evidenceStepIds: string[];
   url?: string;
+  /** Backend log lines carrying the evidence steps' correlation IDs */
+  serverLogs?: LogEntry[];
   timestamp: number;
 }
 
@@ -373,6 +756,7 @@ export type FindingCategory =
   | 'performance'
   | 'accessibility'
   | 'security'
+  | 'api'
   | 'suggestion'
   | 'observation';
 
@@ -387,7 +771,35 @@ export interface Finding {
   timestamp: number;
 }
 
-export type ReportFormat = 'markdown' | 'json' | 'html';
+export type ReportFormat = 'markdown' | 'json' | 'html' | 'junit' | 'sarif';
+
+/** Outcome of a replayed journey, included in reports from `f4tl ci`. */
+export interface JourneyReportEntry {
+  name: string;
+  status: 'passed' | 'failed' | 'skipped';
+  duration: number;
+  error?: string;
+  bugId?: string;
+}
+
+export interface CiGateResult {
+  failOn: CiFailOn;
+  passed: boolean;
+  /** Bugs at or above the `failOn` severity. */
+  blockingBugs: Bug[];
+  /** Names of failed journeys, when they fail the gate. */
+  failedJourneys: string[];
+}
+
+/** A session converted into a runnable `@playwright/test` spec. */
+export interface ExportedTest {
+  code: string;
+  stepCount: number;
+  skippedStepCount: number;
+  assertionCount: number;
+  /** Environment variables standing in for values redacted from the session */
+  envVars: string[];
+}
 
 export interface SessionSummary {
   sessionId: string;
@@ -411,6 +823,9 @@ export interface ReportData {
   generatedAt: number;
   duration: number;
   summary: SessionSummary;
+  /** Session artifacts with links relative to the report file. */
+  artifacts?: (SessionArtifact & { href: string })[];
+  journeys?: JourneyReportEntry[];
 }
 
 // ── Session Event Types ─────────────────────────────────────────────────────
@@ -420,7 +835,8 @@ export type SessionEventType =
   | 'session:end'
   | 'step:recorded'
   | 'bug:created'
-  | 'finding:created';
+  | 'finding:created'
+  | 'log:alert';
 
 export interface SessionEvent<T = unknown> {
   type: SessionEventType;
@@ -475,6 +891,8 @@ export interface AppPage {
   path: string;
   label?: string;
   auth?: string;
+  /** Roles (plus `anonymous`) expected to reach this page, checked by `access_matrix` */
+  allow?: string[];
   priority: 'high' | 'medium' | 'low';
 }
 
@@ -7,6 +7,12 @@ import {
   databaseConfigSchema,
   codebaseConfigSchema,
   reportConfigSchema,
+  visualConfigSchema,
+  perfConfigSchema,
+  ciConfigSchema,
+  networkConfigSchema,
+  apiConfigSchema,
+  sensitiveDataConfigSchema,
   dashboardConfigSchema,
   webhookConfigSchema,
   learningConfigSchema,
@@ -46,6 +52,8 @@ describe('sessionConfigSchema', () => {
     expect(result.outputDir).toBe('.f4tl/sessions');
     expect(result.maxSteps).toBe(1000);
     expect(result.keepArtifacts).toBe(true);
+    expect(result.trace).toBe(false);
+    expect(result.har).toBe(false);
   });
 });
 
@@ -107,6 +115,20 @@ describe('mcpConfigSchema', () => {
   it('rejects trace logLevel', () => {
     expect(() => mcpConfigSchema.parse({ logLevel: 'trace' })).toThrow();
   });
+
+  it('fills HTTP transport defaults when http is provided', () => {
+    const result = mcpConfigSchema.parse({ http: { tokenEnv: 'F4TL_TOKEN' } });
+    expect(result.http).toEqual({
+      port: 3100,
+      host: 'localhost',
+      path: '/mcp',
+      tokenEnv: 'F4TL_TOKEN',
+    });
+  });
+
+  it('rejects an HTTP path without a leading slash', () => {
+    expect(() => mcpConfigSchema.parse({ http: { path: 'mcp' } })).toThrow();
+  });
 });
 
 describe('reportConfigSchema', () => {
@@ -184,6 +206,125 @@ describe('databaseConfigSchema', () => {
       expect(() => databaseConfigSchema.parse({ port: 65536 })).toThrow();
     });
   });
+
+  it('defaults type to postgres and accepts mysql and sqlite', () => {
+    expect(databaseConfigSchema.parse({}).type).toBe('postgres');
+    expect(databaseConfigSchema.parse({ type: 'mysql' }).type).toBe('mysql');
+    expect(databaseConfigSchema.parse({ type: 'sqlite', filename: 'app.db' }).filename).toBe(
+      'app.db',
+    );
+  });
+
+  it('rejects unknown database types', () => {
+    expect(() => databaseConfigSchema.parse({ type: 'oracle' })).toThrow();
+  });
+});
+
+describe('visualConfigSchema', () => {
+  it('applies defaults', () => {
+    expect(visualConfigSchema.parse({})).toEqual({
+      baselineDir: '.f4tl/baselines',
+      threshold: 0.1,
+      maxDiffRatio: 0.001,
+    });
+  });
+
+  it('rejects a threshold outside 0-1', () => {
+    expect(() => visualConfigSchema.parse({ threshold: 1.5 })).toThrow();
+  });
+});
+
+describe('perfConfigSchema', () => {
+  it('defaults to no per-step collection and no budgets', () => {
+    expect(perfConfigSchema.parse({})).toEqual({ collectOnSteps: false, budgets: [] });
+  });
+
+  it('defaults a budget path to every page', () => {
+    const result = perfConfigSchema.parse({ budgets: [{ lcp: 2500 }] });
+    expect(result.budgets[0]).toEqual({ path: '*', lcp: 2500 });
+  });
+
+  it('rejects negative budgets', () => {
+    expect(() => perfConfigSchema.parse({ budgets: [{ path: '/', cls: -0.1 }] })).toThrow();
+  });
+});
+
+describe('ciConfigSchema', () => {
+  it('fails on major bugs and failed journeys and writes every report format by default', () => {
+    expect(ciConfigSchema.parse({})).toEqual({
+      failOn: 'major',
+      failOnJourneys: true,
+      formats: ['markdown', 'json', 'html', 'junit', 'sarif'],
+    });
+  });
+
+  it('accepts never and rejects unknown severities', () => {
+    expect(ciConfigSchema.parse({ failOn: 'never' }).failOn).toBe('never');
+    expect(() => ciConfigSchema.parse({ failOn: 'blocker' })).toThrow();
+  });
+});
+
+describe('networkConfigSchema', () => {
+  it('stores fixtures under .f4tl/fixtures by default', () => {
+    expect(networkConfigSchema.parse({}).fixtureDir).toBe('.f4tl/fixtures');
+  });
+
+  it('captures text and JSON bodies up to 100 KB each by default', () => {
+    expect(networkConfigSchema.parse({}).bodies).toEqual({
+      capture: true,
+      contentTypes: ['json', 'text/plain', 'text/html', 'xml', 'graphql', 'x-www-form-urlencoded'],
+      maxSize: 100_000,
+      maxTotalSize: 20_000_000,
+    });
+  });
+
+  it('rejects non-positive body limits', () => {
+    expect(() => networkConfigSchema.parse({ bodies: { maxSize: 0 } })).toThrow();
+  });
+});
+
+describe('apiConfigSchema', () => {
+  it('requires a spec and validates automatically by default', () => {
+    expect(apiConfigSchema.parse({ spec: 'openapi.json' })).toEqual({
+      spec: 'openapi.json',
+      validateRequests: true,
+      autoValidate: true,
+    });
+    expect(() => apiConfigSchema.parse({})).toThrow();
+  });
+
+  it('is optional in root configSchema', () => {
+    expect(configSchema.parse({}).api).toBeUndefined();
+  });
+});
+
+describe('sensitiveDataConfigSchema', () => {
+  it('redacts with every builtin pattern by default', () => {
+    expect(sensitiveDataConfigSchema.parse({})).toEqual({
+      redact: true,
+      builtins: ['email', 'card', 'jwt', 'apiKey'],
+      patterns: [],
+      allow: [],
+    });
+  });
+
+  it('defaults custom pattern severity to medium', () => {
+    const result = sensitiveDataConfigSchema.parse({
+      patterns: [{ name: 'customer-id', pattern: 'CUST-\\d{6}' }],
+    });
+    expect(result.patterns[0].severity).toBe('medium');
+  });
+
+  it('rejects unknown builtins and pattern names with spaces', () => {
+    expect(() => sensitiveDataConfigSchema.parse({ builtins: ['ssn'] })).toThrow();
+    expect(() =>
+      sensitiveDataConfigSchema.parse({ patterns: [{ name: 'customer id', pattern: 'x' }] }),
+    ).toThrow();
+  });
+
+  it('is always present in root configSchema', () => {
+    expect(configSchema.parse({}).sensitiveData.redact).toBe(true);
+  });
 });
 
 describe('codebaseConfigSchema', () => {
@@ -267,6 +408,14 @@ describe('appConfigSchema', () => {
     expect(() => appConfigSchema.parse({ baseUrl: 'not-a-url' })).toThrow();
   });
 
+  it('accepts the roles allowed to open a page', () => {
+    const result = appConfigSchema.parse({
+      baseUrl: 'http://localhost:3000',
+      pages: [{ path: '/admin', allow: ['admin', 'owner'] }],
+    });
+    expect(result.pages![0].allow).toEqual(['admin', 'owner']);
+  });
+
   it('defaults page priority to medium', () => {
     const result = appConfigSchema.parse({
       baseUrl: 'http://localhost:3000',
@@ -331,6 +480,94 @@ describe('authConfigSchema', () => {
     expect(result.oauth?.provider).toBe('github');
   });
 
+  it('defaults oauth to no PKCE and a localStorage token', () => {
+    const result = authConfigSchema.parse({
+      strategy: 'oauth',
+      oauth: {
+        provider: 'okta',
+        authUrl: 'https://idp.example.com/authorize',
+        clientIdEnv: 'OKTA_CLIENT_ID',
+        callbackUrl: 'http://localhost:3000/callback',
+        login: {
+          usernameSelector: '#identifier',
+          passwordSelector: '#password',
+          submitSelector: 'button[type="submit"]',
+          usernameEnv: 'IDP_USER',
+          passwordEnv: 'IDP_PASSWORD',
+        },
+        consentSelector: 'button#allow',
+      },
+    });
+    expect(result.oauth).toMatchObject({
+      pkce: false,
+      tokenStorage: { storageKey: 'token', storageType: 'localStorage' },
+    });
+    expect(result.oauth?.login?.usernameEnv).toBe('IDP_USER');
+  });
+
+  it('accepts a cache block with a login probe', () => {
+    const result = authConfigSchema.parse({
+      strategy: 'jwt',
+      jwt: { tokenEnv: 'TOKEN' },
+      cache: { probe: { url: 'http://localhost:3000/account', selector: '[data-testid=avatar]' } },
+    });
+    expect(result.cache).toEqual({
+      enabled: true,
+      ttl: 3600,
+      probe: {
+        url: 'http://localhost:3000/account',
+        selector: '[data-testid=avatar]',
+        timeout: 5000,
+      },
+    });
+  });
+
+  it('accepts a TOTP mfa step on form login with RFC 6238 defaults', () => {
+    const result = authConfigSchema.parse({
+      strategy: 'form',
+      formLogin: {
+        loginUrl: '/login',
+        usernameSelector: '#email',
+        passwordSelector: '#password',
+        submitSelector: 'button[type=submit]',
+        usernameEnv: 'ADMIN_EMAIL',
+        passwordEnv: 'ADMIN_PASSWORD',
+        mfa: {
+          type: 'totp',
+          codeSelector: '#otp',
+          submitSelector: '#verify',
+          secretEnv: 'ADMIN_TOTP_SECRET',
+        },
+      },
+    });
+    expect(result.formLogin?.mfa).toMatchObject({
+      digits: 6,
+      period: 30,
+      algorithm: 'SHA1',
+      timeout: 30_000,
+    });
+    expect(new RegExp(result.formLogin?.mfa?.logPattern ?? '').exec('code: 123456')?.[1]).toBe(
+      '123456',
+    );
+  });
+
+  it('rejects unknown mfa types', () => {
+    expect(() =>
+      authConfigSchema.parse({
+        strategy: 'form',
+        formLogin: {
+          loginUrl: '/login',
+          usernameSelector: '#email',
+          passwordSelector: '#password',
+          submitSelector: 'button',
+          usernameEnv: 'U',
+          passwordEnv: 'P',
+          mfa: { type: 'webauthn', codeSelector: '#otp', submitSelector: '#verify' },
+        },
+      }),
+    ).toThrow();
+  });
+
   it('still accepts form strategy', () => {
     const result = authConfigSchema.parse({
       strategy: 'form',
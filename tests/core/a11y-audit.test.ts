@@ -0,0 +1,82 @@
+import {
+  meetsImpact,
+  ruleCategory,
+  toViolations,
+  wcagCriteria,
+} from '../../src/core/a11y-audit.js';
+import type { AxeResults } from 'axe-core';
+
+describe('ruleCategory', () => {
+  it.each([
+    ['color-contrast', 'contrast'],
+    ['color-contrast-enhanced', 'contrast'],
+    ['image-alt', 'alt-text'],
+    ['input-image-alt', 'alt-text'],
+    ['label', 'labels'],
+    ['button-name', 'labels'],
+    ['link-name', 'labels'],
+    ['landmark-one-main', 'structure'],
+    ['region', 'structure'],
+    ['heading-order', 'structure'],
+    ['tabindex', 'focus'],
+    ['scrollable-region-focusable', 'focus'],
+    ['aria-allowed-attr', 'aria'],
+    ['aria-valid-attr-value', 'aria'],
+    ['meta-viewport', 'other'],
+  ])('maps %s to %s', (rule, category) => {
+    expect(ruleCategory(rule)).toBe(category);
+  });
+});
+
+describe('wcagCriteria', () => {
+  it('converts success criterion tags and ignores level tags', () => {
+    expect(wcagCriteria(['cat.color', 'wcag2aa', 'wcag143', 'wcag1410'])).toEqual([
+      '1.4.3',
+      '1.4.10',
+    ]);
+  });
+});
+
+describe('toViolations', () => {
+  const violation = (id: string, impact: 'minor' | 'critical', tags: string[]) => ({
+    id,
+    impact,
+    tags,
+    help: `${id} help`,
+    description: `${id} description`,
+    helpUrl: `https://dequeuniversity.com/rules/axe/4.10/${id}`,
+    nodes: [
+      {
+        target: ['#main', ['my-widget', 'button']],
+        html: `<button>${'x'.repeat(300)}</button>`,
+        failureSummary: 'Fix any of the following',
+      },
+    ],
+  });
+
+  it('sorts by impact and flattens selectors and WCAG criteria', () => {
+    const results = {
+      violations: [
+        violation('region', 'minor', ['best-practice']),
+        violation('image-alt', 'critical', ['wcag2a', 'wcag111']),
+      ],
+    } as unknown as Pick<AxeResults, 'violations'>;
+
+    const [first, second] = toViolations(results);
+    expect(first.rule).toBe('image-alt');
+    expect(first.category).toBe('alt-text');
+    expect(first.wcag).toEqual(['1.1.1']);
+    expect(first.nodes[0].selector).toBe('#main my-widget >>> button');
+    expect(first.nodes[0].html.length).toBe(200);
+    expect(second.rule).toBe('region');
+    expect(second.wcag).toEqual([]);
+  });
+});
+
+describe('meetsImpact', () => {
+  it('compares impacts by severity', () => {
+    expect(meetsImpact('critical', 'serious')).toBe(true);
+    expect(meetsImpact('moderate', 'serious')).toBe(false);
+    expect(meetsImpact('minor', 'minor')).toBe(true);
+  });
+});
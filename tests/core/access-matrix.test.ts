@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ANONYMOUS_ROLE,
+  accessVerdict,
+  classifyVisit,
+  expectedRoles,
+  loginUrls,
+} from '../../src/core/access-matrix.js';
+import type { PageVisit } from '../../src/core/access-matrix.js';
+import type { AuthConfig } from '../../src/types/index.js';
+
+const opts = { loginUrls: ['http://app.test/signin'], minTextLength: 50 };
+
+function visit(overrides: Partial<PageVisit>): PageVisit {
+  return {
+    requestedUrl: 'http://app.test/admin',
+    finalUrl: 'http://app.test/admin',
+    status: 200,
+    heading: 'Admin | Acme',
+    textLength: 500,
+    ...overrides,
+  };
+}
+
+describe('classifyVisit', () => {
+  it('treats a rendered page at the requested path as allowed', () => {
+    expect(classifyVisit(visit({ finalUrl: 'http://app.test/admin/' }), opts)).toBe('allowed');
+  });
+
+  it('maps denial status codes', () => {
+    expect(classifyVisit(visit({ status: 403 }), opts)).toBe('forbidden');
+    expect(classifyVisit(visit({ status: 401 }), opts)).toBe('forbidden');
+    expect(classifyVisit(visit({ status: 404 }), opts)).toBe('not-found');
+    expect(classifyVisit(visit({ status: 500 }), opts)).toBe('error');
+  });
+
+  it('spots "access denied" pages served as 200', () => {
+    expect(classifyVisit(visit({ heading: 'Acme Access Denied' }), opts)).toBe('forbidden');
+  });
+
+  it('tells login redirects from other redirects', () => {
+    expect(classifyVisit(visit({ finalUrl: 'http://app.test/signin?next=/admin' }), opts)).toBe(
+      'login-redirect',
+    );
+    expect(classifyVisit(visit({ finalUrl: 'http://app.test/auth/login' }), opts)).toBe(
+      'login-redirect',
+    );
+    expect(classifyVisit(visit({ finalUrl: 'http://app.test/dashboard' }), opts)).toBe(
+      'redirected',
+    );
+  });
+
+  it('treats a shell without content as empty', () => {
+    expect(classifyVisit(visit({ textLength: 12 }), opts)).toBe('empty');
+  });
+});
+
+describe('expected access', () => {
+  const roles = ['admin', 'buyer'];
+
+  it('uses allow, then auth, then everyone', () => {
+    expect(
+      expectedRoles({ path: '/a', allow: ['admin'], auth: 'buyer', priority: 'high' }, roles),
+    ).toEqual(['admin']);
+    expect(expectedRoles({ path: '/b', auth: 'buyer', priority: 'high' }, roles)).toEqual([
+      'buyer',
+    ]);
+    expect(expectedRoles({ path: '/', priority: 'high' }, roles)).toEqual([
+      ANONYMOUS_ROLE,
+      'admin',
+      'buyer',
+    ]);
+  });
+
+  it('flags escalations and lockouts', () => {
+    expect(accessVerdict('allowed', false)).toBe('escalation');
+    expect(accessVerdict('empty', true)).toBe('lockout');
+    expect(accessVerdict('login-redirect', false)).toBe('ok');
+    expect(accessVerdict('error', false)).toBe('error');
+  });
+
+  it('collects login URLs from form and oauth roles', () => {
+    const auth: Record<string, AuthConfig> = {
+      admin: {
+        strategy: 'form',
+        formLogin: {
+          loginUrl: 'http://app.test/signin',
+          usernameSelector: '#u',
+          passwordSelector: '#p',
+          submitSelector: '#s',
+          usernameEnv: 'U',
+          passwordEnv: 'P',
+        },
+      },
+      token: {
+        strategy: 'jwt',
+        jwt: { tokenEnv: 'T', storageKey: 't', storageType: 'localStorage' },
+      },
+    };
+    expect(loginUrls(auth)).toEqual(['http://app.test/signin']);
+  });
+});
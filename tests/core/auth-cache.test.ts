@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readdir, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  authStatePath,
+  clearAuthState,
+  isAuthStateFresh,
+  loadAuthState,
+  resolveAuthCache,
+  saveAuthState,
+} from '../../src/core/auth-cache.js';
+import type { SavedAuthState } from '../../src/core/auth-cache.js';
+
+function savedState(role: string): SavedAuthState {
+  return {
+    role,
+    strategy: 'form',
+    savedAt: 1000,
+    expiresAt: 2000,
+    storageState: { cookies: [], origins: [] },
+  };
+}
+
+describe('resolveAuthCache', () => {
+  it('caches OAuth roles by default and others only when configured', () => {
+    expect(resolveAuthCache({ strategy: 'oauth' })).toEqual({ enabled: true, ttl: 3600 });
+    expect(resolveAuthCache({ strategy: 'form' })).toBeNull();
+    expect(resolveAuthCache({ strategy: 'form', cache: { enabled: true, ttl: 60 } })).toEqual({
+      enabled: true,
+      ttl: 60,
+    });
+  });
+
+  it('can be turned off per role', () => {
+    expect(
+      resolveAuthCache({ strategy: 'oauth', cache: { enabled: false, ttl: 3600 } }),
+    ).toBeNull();
+    expect(resolveAuthCache({ strategy: 'form', cache: { enabled: true, ttl: 0 } })).toBeNull();
+  });
+});
+
+describe('saved auth state', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'f4tl-auth-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips through a private file named after the role', async () => {
+    const path = authStatePath('admin/ops', dir);
+    const state: SavedAuthState = {
+      ...savedState('admin/ops'),
+      strategy: 'oauth',
+      tokens: { accessToken: 'at', refreshToken: 'rt' },
+    };
+    await saveAuthState(path, state);
+
+    expect(path).toBe(join(dir, 'admin-ops.json'));
+    expect(await loadAuthState(path)).toEqual(state);
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+  });
+
+  it('returns null for missing files', async () => {
+    expect(await loadAuthState(join(dir, 'missing.json'))).toBeNull();
+  });
+
+  it('treats state as stale shortly before it expires', () => {
+    const state = { expiresAt: 100_000 } as SavedAuthState;
+    expect(isAuthStateFresh(state, 50_000)).toBe(true);
+    expect(isAuthStateFresh(state, 80_000)).toBe(false);
+  });
+
+  it('clears the given roles, or all of them', async () => {
+    for (const role of ['admin', 'buyer', 'viewer']) {
+      await saveAuthState(authStatePath(role, dir), savedState(role));
+    }
+
+    expect(await clearAuthState(dir, ['admin', 'missing'])).toEqual([join(dir, 'admin.json')]);
+    expect((await clearAuthState(dir)).sort()).toEqual([
+      join(dir, 'buyer.json'),
+      join(dir, 'viewer.json'),
+    ]);
+    expect(await readdir(dir)).toEqual([]);
+  });
+
+  it('clears nothing when the directory does not exist', async () => {
+    expect(await clearAuthState(join(dir, 'nope'))).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { EventEmitter } from 'node:events';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BrowserManager } from '../../src/core/browser-manager.js';
+import { authStatePath, saveAuthState } from '../../src/core/auth-cache.js';
+import { DEFAULT_CONFIG } from '../../src/config/defaults.js';
+import type { AuthConfig } from '../../src/types/index.js';
+
+// Every context the fake browser opened, with the options it got
+const opened: { options: Record<string, unknown>; page: FakePage }[] = [];
+
+class FakePage extends EventEmitter {
+  private currentUrl = 'about:blank';
+  routes = 0;
+  setDefaultNavigationTimeout = () => {};
+  setDefaultTimeout = () => {};
+  url = () => this.currentUrl;
+  goto = async (url: string) => {
+    this.currentUrl = url;
+  };
+  locator = () => ({ first: () => ({ waitFor: async () => {} }) });
+  route = async () => {
+    this.routes++;
+  };
+  unroute = async () => {
+    this.routes = 0;
+  };
+  close = async () => {};
+}
+
+vi.mock('playwright', () => ({
+  chromium: {
+    launch: async () => ({
+      newContext: async (options: Record<string, unknown>) => {
+        const page = new FakePage();
+        opened.push({ options, page });
+        return {
+          addInitScript: async () => {},
+          newPage: async () => page,
+          storageState: async () => ({ cookies: [], origins: [] }),
+          close: async () => {},
+        };
+      },
+      close: async () => {},
+    }),
+  },
+}));
+
+describe('BrowserManager auth', () => {
+  const cwd = process.cwd();
+  let dir: string;
+  let bm: BrowserManager;
+
+  const role: AuthConfig = {
+    strategy: 'form',
+    cache: { enabled: true, ttl: 3600 },
+  };
+
+  beforeEach(async () => {
+    opened.length = 0;
+    dir = await mkdtemp(join(tmpdir(), 'f4tl-bm-'));
+    process.chdir(dir);
+    await saveAuthState(authStatePath('admin'), {
+      role: 'admin',
+      strategy: 'form',
+      savedAt: Date.now(),
+      expiresAt: Date.now() + 3_600_000,
+      storageState: { cookies: [], origins: [] },
+    });
+    bm = new BrowserManager(DEFAULT_CONFIG.browser, DEFAULT_CONFIG.capture);
+    await bm.launch();
+  });
+
+  afterEach(async () => {
+    await bm.close();
+    process.chdir(cwd);
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps the options a context was created with when a cached role logs in', async () => {
+    const options = {
+      viewport: { width: 390, height: 844 },
+      userAgent: 'f4tl-mobile',
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+    };
+    await bm.createContext('mobile', options);
+    bm.switchContext('mobile');
+    await bm.getNetworkCapture().addInterceptRule({ urlPattern: '/ads/', action: 'block' });
+    const rules = bm.getNetworkCapture().getInterceptRules();
+
+    expect(await bm.executeAuth('admin', { admin: role })).toEqual({ source: 'cache' });
+
+    expect(opened).toHaveLength(3);
+    expect(opened[2].options).toMatchObject({
+      ...options,
+      storageState: { cookies: [], origins: [] },
+    });
+    expect(bm.getPage()).toBe(opened[2].page);
+    expect(bm.getNetworkCapture().getInterceptRules()).toEqual(rules);
+    expect(opened[2].page.routes).toBe(1);
+  });
+
+  it('refuses to reopen a context while a network recording is running', async () => {
+    bm.getNetworkCapture().startRecording({ resourceTypes: [] });
+
+    await expect(bm.executeAuth('admin', { admin: role })).rejects.toThrow(
+      'Stop network_record/network_replay first',
+    );
+    expect(opened).toHaveLength(1);
+    expect(bm.getNetworkCapture().isRecording()).toBe(true);
+  });
+});
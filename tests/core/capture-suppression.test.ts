@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { CaptureManager } from '../../src/core/capture.js';
+import { NetworkCapture } from '../../src/core/network-capture.js';
 import type { CaptureConfig } from '../../src/types/index.js';
 
 // Minimal mock page
@@ -17,6 +18,7 @@ function createMockPage() {
     url: vi.fn().mockReturnValue('http://localhost:3000/test'),
     title: vi.fn().mockResolvedValue('Test Page'),
     viewportSize: vi.fn().mockReturnValue({ width: 1280, height: 720 }),
+    unroute: vi.fn().mockResolvedValue(undefined),
     context: vi.fn().mockReturnValue({
       newCDPSession: vi.fn().mockRejectedValue(new Error('no CDP')),
     }),
@@ -59,6 +61,21 @@ describe('CaptureManager — Error Suppression', () => {
     expect(result.metadata.networkErrors).toHaveLength(1);
   });
 
+  it('collects metadata and drains errors without taking a screenshot', async () => {
+    const cm = new CaptureManager(page as never, baseConfig);
+    page.emit('console', {
+      type: () => 'error',
+      text: () => 'boom',
+      location: () => ({}),
+    });
+
+    const metadata = await cm.collect();
+    expect(metadata).toMatchObject({ url: 'http://localhost:3000/test', title: 'Test Page' });
+    expect(metadata.consoleErrors).toHaveLength(1);
+    expect(page.screenshot).not.toHaveBeenCalled();
+    expect((await cm.capture()).metadata.consoleErrors).toEqual([]);
+  });
+
   it('suppresses console errors matching config patterns', async () => {
     const cm = new CaptureManager(page as never, {
       ...baseConfig,
@@ -198,3 +215,78 @@ describe('CaptureManager — Error Suppression', () => {
     expect(sups.network).toEqual(['bar']);
   });
 });
+
+describe('CaptureManager — GraphQL errors', () => {
+  function graphqlExchange(status: number, body: string, postData: string) {
+    const request = {
+      method: () => 'POST',
+      url: () => 'http://localhost:3000/graphql',
+      headers: () => ({}),
+      postData: () => postData,
+      resourceType: () => 'fetch',
+    };
+    const response = {
+      status: () => status,
+      url: () => 'http://localhost:3000/graphql',
+      request: () => request,
+      statusText: () => 'OK',
+      headers: () => ({ 'content-type': 'application/json' }),
+      body: async () => Buffer.from(body),
+    };
+    return { request, response };
+  }
+
+  it('reports a 200 response with an errors array as a network error', async () => {
+    const page = createMockPage();
+    const nc = new NetworkCapture(page as never);
+    const cm = new CaptureManager(
+      page as never,
+      { format: 'png', quality: 90, fullPage: false, animations: 'disabled' },
+      false,
+      null,
+      nc,
+    );
+
+    for (const { request, response } of [
+      graphqlExchange(
+        200,
+        '{"data":null,"errors":[{"message":"Not authorised"}]}',
+        '{"query":"mutation PlaceOrder { placeOrder { id } }"}',
+      ),
+      graphqlExchange(200, '{"data":{"cart":[]}}', '{"query":"query GetCart { cart { id } }"}'),
+    ]) {
+      page.emit('request', request);
+      page.emit('response', response);
+    }
+
+    const { metadata } = await cm.capture();
+    expect(metadata.networkErrors).toEqual([
+      expect.objectContaining({
+        url: 'http://localhost:3000/graphql',
+        status: 200,
+        statusText: 'GraphQL errors in mutation PlaceOrder: Not authorised',
+        graphql: { operationName: 'PlaceOrder', errors: ['Not authorised'] },
+      }),
+    ]);
+  });
+
+  it('does not wait on response bodies that never finish', async () => {
+    const page = createMockPage();
+    const nc = new NetworkCapture(page as never);
+    const cm = new CaptureManager(
+      page as never,
+      { format: 'png', quality: 90, fullPage: false, animations: 'disabled' },
+      false,
+      null,
+      nc,
+    );
+
+    const { request, response } = graphqlExchange(200, '', '{"query":"{ cart { id } }"}');
+    page.emit('request', request);
+    page.emit('response', { ...response, body: () => new Promise<Buffer>(() => {}) });
+
+    const started = Date.now();
+    await cm.capture();
+    expect(Date.now() - started).toBeLessThan(2000);
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { DatabaseConnector } from '../../src/core/database-connector.js';
+import { createDriver } from '../../src/core/db-drivers/index.js';
+import type { DatabaseDriver } from '../../src/core/db-drivers/index.js';
+import type { DatabaseConfig } from '../../src/types/index.js';
+
+const baseConfig: DatabaseConfig = { type: 'postgres', maxConnections: 1, queryTimeout: 5000 };
+
+function createFakeDriver(defaultSchema?: string) {
+  return {
+    defaultSchema,
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined),
+    query: vi.fn().mockResolvedValue({ rows: [{ id: 1 }], rowCount: 1 }),
+    getTables: vi.fn().mockResolvedValue([]),
+    explainSql: vi.fn((sql: string) => `EXPLAIN ${sql}`),
+  } satisfies DatabaseDriver;
+}
+
+describe('DatabaseConnector', () => {
+  it('rejects write statements before they reach the driver', async () => {
+    const driver = createFakeDriver();
+    const db = new DatabaseConnector(baseConfig, driver);
+
+    await expect(db.query('DELETE FROM users')).rejects.toThrow('prohibited keywords');
+    await expect(db.query('PRAGMA query_only = OFF')).rejects.toThrow('prohibited keywords');
+    expect(driver.query).not.toHaveBeenCalled();
+  });
+
+  it('rejects SELECTs that read or write files on the database host', async () => {
+    const driver = createFakeDriver();
+    const db = new DatabaseConnector(baseConfig, driver);
+
+    await expect(db.query("SELECT * FROM users INTO OUTFILE '/tmp/users.csv'")).rejects.toThrow(
+      'server files',
+    );
+    await expect(db.query("SELECT 1 INTO dumpfile '/var/www/shell.php'")).rejects.toThrow(
+      'server files',
+    );
+    await expect(db.query("SELECT LOAD_FILE('/etc/passwd')")).rejects.toThrow('server files');
+    expect(driver.query).not.toHaveBeenCalled();
+  });
+
+  it('injects a LIMIT and strips the trailing semicolon', async () => {
+    const driver = createFakeDriver();
+    const db = new DatabaseConnector(baseConfig, driver);
+
+    const result = await db.query('SELECT * FROM users;', [1]);
+    expect(driver.query).toHaveBeenCalledWith('SELECT * FROM users LIMIT 1000', [1]);
+    expect(result.rowCount).toBe(1);
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+
+    await db.query('SELECT * FROM users LIMIT 5');
+    expect(driver.query).toHaveBeenLastCalledWith('SELECT * FROM users LIMIT 5', undefined);
+  });
+
+  it('enforces allowedTables across quoting styles and the default schema', async () => {
+    const driver = createFakeDriver('shop');
+    const db = new DatabaseConnector({ ...baseConfig, allowedTables: ['users'] }, driver);
+
+    await expect(db.query('SELECT * FROM `shop`.`users`')).resolves.toBeDefined();
+    await expect(db.query('SELECT * FROM users JOIN "secrets" ON 1=1')).rejects.toThrow(
+      'Table "secrets" is not in the allowed tables list.',
+    );
+    await expect(db.query('SELECT * FROM `secrets`')).rejects.toThrow('"secrets"');
+  });
+
+  it('uses the driver dialect for EXPLAIN', async () => {
+    const driver = createFakeDriver();
+    const db = new DatabaseConnector(baseConfig, driver);
+
+    await db.explain('SELECT 1');
+    expect(driver.query).toHaveBeenCalledWith('EXPLAIN SELECT 1 LIMIT 1000', undefined);
+  });
+
+  it('defaults getSchema to the allowed tables', async () => {
+    const driver = createFakeDriver();
+    const db = new DatabaseConnector({ ...baseConfig, allowedTables: ['users'] }, driver);
+
+    expect(await db.getSchema()).toEqual({ tables: [] });
+    expect(driver.getTables).toHaveBeenCalledWith(['users']);
+  });
+});
+
+describe('createDriver', () => {
+  it.each([
+    ['postgres', 'EXPLAIN (ANALYZE, FORMAT JSON) SELECT 1'],
+    ['mysql', 'EXPLAIN FORMAT=JSON SELECT 1'],
+    ['sqlite', 'EXPLAIN QUERY PLAN SELECT 1'],
+  ] as const)('selects the %s driver', (type, explain) => {
+    expect(createDriver({ ...baseConfig, type }).explainSql('SELECT 1')).toBe(explain);
+  });
+});
+
+const nodeSqlite = process.getBuiltinModule?.('node:sqlite');
+
+describe.skipIf(!nodeSqlite)('SqliteDriver', () => {
+  let dir: string;
+  let db: DatabaseConnector;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'f4tl-sqlite-'));
+    const filename = join(dir, 'app.db');
+
+    const seed = new nodeSqlite!.DatabaseSync(filename);
+    seed.exec(`
+      CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT NOT NULL, role TEXT DEFAULT 'buyer');
+      CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users(id), total REAL);
+      INSERT INTO users (email) VALUES ('a@test.com'), ('b@test.com');
+      INSERT INTO orders (user_id, total) VALUES (1, 9.5);
+    `);
+    seed.close();
+
+    db = new DatabaseConnector({ ...baseConfig, type: 'sqlite', filename });
+    await db.connect();
+  });
+
+  afterAll(async () => {
+    await db?.disconnect();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('runs parameterized SELECTs', async () => {
+    const result = await db.query('SELECT email FROM users WHERE id = ?', [2]);
+    expect(result.rows).toEqual([{ email: 'b@test.com' }]);
+    expect(result.rowCount).toBe(1);
+  });
+
+  it('returns the same SchemaInfo shape as postgres', async () => {
+    const schema = await db.getSchema();
+    expect(schema.tables.map((t) => t.name)).toEqual(['orders', 'users']);
+
+    const users = schema.tables[1];
+    expect(users.columns).toContainEqual({
+      name: 'email',
+      type: 'TEXT',
+      nullable: false,
+      defaultValue: undefined,
+    });
+    expect(users.columns).toContainEqual({
+      name: 'role',
+      type: 'TEXT',
+      nullable: true,
+      defaultValue: "'buyer'",
+    });
+    expect(schema.tables[0].foreignKeys).toEqual([
+      { column: 'user_id', referencesTable: 'users', referencesColumn: 'id' },
+    ]);
+  });
+
+  it('returns a query plan from explain', async () => {
+    const result = await db.explain('SELECT * FROM orders WHERE user_id = 1');
+    expect(result.rows.length).toBeGreaterThan(0);
+    expect(result.rows[0]).toHaveProperty('detail');
+  });
+
+  it('opens the file read-only even if validation were bypassed', async () => {
+    const driver = createDriver({ ...baseConfig, type: 'sqlite', filename: join(dir, 'app.db') });
+    await driver.connect();
+    try {
+      await expect(driver.query('DELETE FROM users')).rejects.toThrow();
+    } finally {
+      await driver.disconnect();
+    }
+
+    const result = await db.query('SELECT COUNT(*) AS n FROM users');
+    expect(result.rows[0].n).toBe(2);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeOperation,
+  parseGraphqlDocument,
+  parseGraphqlErrors,
+  parseGraphqlRequest,
+} from '../../src/core/graphql.js';
+
+describe('parseGraphqlDocument', () => {
+  it('finds named operations and skips fragments, arguments and strings', () => {
+    const doc = `
+      # query Commented { x }
+      fragment Item on Product { id name }
+      query GetCart($id: ID!, $note: String = "{ not a block }") @cached {
+        cart(id: $id) { items { ...Item } }
+      }
+      mutation AddToCart { add { id } }
+    `;
+    expect(parseGraphqlDocument(doc)).toEqual([
+      { type: 'query', name: 'GetCart' },
+      { type: 'mutation', name: 'AddToCart' },
+    ]);
+  });
+
+  it('treats a bare selection set as an anonymous query', () => {
+    expect(parseGraphqlDocument('{ me { id } }')).toEqual([{ type: 'query' }]);
+    expect(parseGraphqlDocument('subscription { orderUpdated { id } }')).toEqual([
+      { type: 'subscription' },
+    ]);
+  });
+});
+
+describe('parseGraphqlRequest', () => {
+  it('reads POST bodies and picks the operation named by operationName', () => {
+    const body = JSON.stringify({
+      query: 'query A { a } mutation B { b }',
+      operationName: 'B',
+      variables: { id: 1 },
+    });
+    expect(parseGraphqlRequest({ method: 'POST', url: 'https://x.test/graphql', body })).toEqual([
+      { operationName: 'B', operationType: 'mutation', variables: { id: 1 } },
+    ]);
+  });
+
+  it('reads batched bodies', () => {
+    const body = JSON.stringify([{ query: 'query A { a }' }, { query: 'query B { b }' }]);
+    const ops = parseGraphqlRequest({ method: 'POST', url: 'https://x.test/graphql', body });
+    expect(ops?.map(describeOperation)).toEqual(['query A', 'query B']);
+  });
+
+  it('reads GET parameters, including persisted queries without a document', () => {
+    const url = new URL('https://x.test/graphql');
+    url.searchParams.set('operationName', 'GetCart');
+    url.searchParams.set('variables', '{"id":"c1"}');
+    url.searchParams.set('extensions', '{"persistedQuery":{"version":1,"sha256Hash":"abc"}}');
+
+    expect(parseGraphqlRequest({ method: 'GET', url: url.toString() })).toEqual([
+      { operationName: 'GetCart', variables: { id: 'c1' }, persisted: true },
+    ]);
+  });
+
+  it('returns null for other requests', () => {
+    expect(parseGraphqlRequest({ method: 'GET', url: 'https://x.test/api/users' })).toBeNull();
+    expect(
+      parseGraphqlRequest({ method: 'POST', url: 'https://x.test/login', body: '{"user":"a"}' }),
+    ).toBeNull();
+    expect(
+      parseGraphqlRequest({ method: 'POST', url: 'https://x.test/upload', body: 'not json' }),
+    ).toBeNull();
+  });
+
+  it('needs a query that defines an operation, not just a `query` field', () => {
+    expect(
+      parseGraphqlRequest({
+        method: 'POST',
+        url: 'https://x.test/api/search',
+        body: '{"query":"shoes","limit":20}',
+      }),
+    ).toBeNull();
+    expect(
+      parseGraphqlRequest({ method: 'GET', url: 'https://x.test/api/search?query=red+shoes' }),
+    ).toBeNull();
+  });
+});
+
+describe('parseGraphqlErrors', () => {
+  it('collects error messages from single and batched responses', () => {
+    expect(parseGraphqlErrors('{"errors":[{"message":"Denied"},{"code":42}]}')).toEqual([
+      'Denied',
+      '{"code":42}',
+    ]);
+    expect(parseGraphqlErrors('[{"data":{}},{"errors":[{"message":"Boom"}]}]')).toEqual(['Boom']);
+  });
+
+  it('returns nothing for successful or unparseable bodies', () => {
+    expect(parseGraphqlErrors('{"data":{"me":null}}')).toEqual([]);
+    expect(parseGraphqlErrors('{"errors":')).toEqual([]);
+  });
+});
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi } from 'vitest';
+import { JourneyExecutor, parseExpectation } from '../../src/core/journey-executor.js';
+import { JourneyRunner } from '../../src/core/journey-runner.js';
+import type { JourneysConfig, ToolResult } from '../../src/types/index.js';
+
+const ok: ToolResult = { content: [{ type: 'text', text: 'url: http://localhost:3000/' }] };
+
+function createMocks(pageUrl = 'http://localhost:3000/dashboard') {
+  const steps: { id: string; metadata: { url: string } }[] = [];
+  const record = () => {
+    steps.push({ id: `step-${steps.length + 1}`, metadata: { url: pageUrl } });
+    return Promise.resolve(ok);
+  };
+
+  const tools = {
+    navigate: vi.fn(record),
+    click: vi.fn(record),
+    fill: vi.fn(record),
+    select: vi.fn(record),
+    press: vi.fn(record),
+    wait: vi.fn(record),
+  };
+
+  const page = {
+    url: vi.fn().mockReturnValue(pageUrl),
+    title: vi.fn().mockResolvedValue('Dashboard'),
+    locator: vi.fn().mockReturnValue({
+      innerText: vi.fn().mockResolvedValue('Welcome back, Jane'),
+      first: () => ({ isVisible: vi.fn().mockResolvedValue(true) }),
+    }),
+  };
+
+  const bm = {
+    executeAuth: vi.fn().mockResolvedValue(undefined),
+    getPage: vi.fn().mockReturnValue(page),
+    queueReadAction: vi.fn((fn: () => Promise<unknown>) => fn()),
+  };
+
+  const sm = { getSession: vi.fn(() => ({ steps })) };
+  const rm = { createBug: vi.fn().mockReturnValue({ id: 'bug-1' }) };
+
+  return { tools, page, bm, sm, rm };
+}
+
+function createExecutor(journeys: JourneysConfig, mocks = createMocks()) {
+  const runner = new JourneyRunner(journeys);
+  const executor = new JourneyExecutor(
+    runner,
+    mocks.tools as never,
+    mocks.bm as never,
+    mocks.sm as never,
+    {
+      baseUrl: 'http://localhost:3000',
+      authConfigs: { buyer: { strategy: 'jwt' } },
+      reportManager: mocks.rm as never,
+    },
+  );
+  return { runner, executor, mocks };
+}
+
+const journeys: JourneysConfig = {
+  login: {
+    description: 'Login',
+    mode: 'guided',
+    steps: [
+      { action: 'navigate', target: '/login' },
+      { action: 'fill', target: '#email', value: 'user@test.com' },
+      { action: 'click', target: 'button[type=submit]', expect: 'URL changes to /dashboard' },
+    ],
+  },
+  checkout: {
+    description: 'Checkout',
+    auth: 'buyer',
+    dependsOn: ['login'],
+    mode: 'guided',
+    steps: [
+      { action: 'navigate', target: '/cart' },
+      { action: 'press', value: 'Enter', expect: 'Order confirmation shown' },
+    ],
+  },
+  explore: {
+    description: 'Explore',
+    mode: 'autonomous',
+    steps: [{ action: 'navigate', target: '/products' }],
+  },
+};
+
+describe('parseExpectation', () => {
+  it.each([
+    ['url: /dashboard', { kind: 'url', value: '/dashboard' }],
+    ['URL changes to /dashboard', { kind: 'url', value: '/dashboard' }],
+    ['title: Dashboard', { kind: 'title', value: 'Dashboard' }],
+    ['text: "Welcome back"', { kind: 'text', value: 'Welcome back' }],
+    ['shows "Order placed"', { kind: 'text', value: 'Order placed' }],
+    ['visible: .toast', { kind: 'visible', value: '.toast' }],
+    ['selector: .toast', { kind: 'visible', value: '.toast' }],
+    ['hidden: .spinner', { kind: 'hidden', value: '.spinner' }],
+  ] as const)('parses "%s"', (input, expected) => {
+    expect(parseExpectation(input)).toEqual(expected);
+  });
+
+  it('returns null for free-form expectations', () => {
+    expect(parseExpectation('Order confirmation shown')).toBeNull();
+  });
+});
+
+describe('JourneyExecutor', () => {
+  it('maps journey steps onto browser tools and resolves relative URLs', async () => {
+    const { executor, mocks } = createExecutor(journeys);
+    const result = await executor.runJourney('login');
+
+    expect(result.status).toBe('passed');
+    expect(mocks.tools.navigate).toHaveBeenCalledWith({
+      url: 'http://localhost:3000/login',
+      waitUntil: 'load',
+    });
+    expect(mocks.tools.fill).toHaveBeenCalledWith({
+      selector: { css: '#email' },
+      value: 'user@test.com',
+    });
+    expect(mocks.tools.click).toHaveBeenCalledWith({
+      selector: { css: 'button[type=submit]' },
+      force: false,
+    });
+    expect(result.steps.map((s) => s.stepId)).toEqual(['step-1', 'step-2', 'step-3']);
+  });
+
+  it('runs journeys in dependency order and authenticates roles', async () => {
+    const { executor, runner, mocks } = createExecutor(journeys);
+    const results = await executor.runAll();
+
+    expect(results.map((r) => r.name)).toEqual(['login', 'checkout', 'explore']);
+    expect(results.map((r) => r.status)).toEqual(['passed', 'passed', 'skipped']);
+    expect(mocks.bm.executeAuth).toHaveBeenCalledWith('buyer', { buyer: { strategy: 'jwt' } });
+    expect(runner.getState('checkout')!.status).toBe('completed');
+  });
+
+  it('notes expectations that cannot be checked mechanically', async () => {
+    const { executor, runner } = createExecutor(journeys);
+    runner.startJourney('login');
+    runner.completeJourney('login');
+
+    const result = await executor.runJourney('checkout');
+    expect(result.status).toBe('passed');
+    expect(result.steps[1].note).toContain('not machine-checkable');
+  });
+
+  it('fails the journey and files a bug when an expectation does not hold', async () => {
+    const mocks = createMocks('http://localhost:3000/login?error=1');
+    const { executor, runner } = createExecutor(journeys, mocks);
+
+    const result = await executor.runJourney('login');
+    expect(result.status).toBe('failed');
+    expect(result.bugId).toBe('bug-1');
+    expect(result.steps[2].error).toContain('Expected URL to contain "/dashboard"');
+    expect(runner.getState('login')!.status).toBe('failed');
+    expect(mocks.rm.createBug).toHaveBeenCalledWith(
+      expect.objectContaining({ severity: 'major', evidenceStepIds: ['step-3'] }),
+    );
+  });
+
+  it('fails on a tool error and stops executing further steps', async () => {
+    const mocks = createMocks();
+    mocks.tools.fill.mockResolvedValueOnce({
+      content: [{ type: 'text', text: 'Error: Timeout waiting for #email' }],
+      isError: true,
+    });
+    const { executor } = createExecutor(journeys, mocks);
+
+    const result = await executor.runJourney('login');
+    expect(result.status).toBe('failed');
+    expect(result.steps).toHaveLength(2);
+    expect(result.steps[1].error).toBe('Timeout waiting for #email');
+    expect(mocks.tools.click).not.toHaveBeenCalled();
+  });
+
+  it('skips journeys whose dependencies did not complete', async () => {
+    const mocks = createMocks('http://localhost:3000/login');
+    const { executor } = createExecutor(journeys, mocks);
+
+    const results = await executor.runAll(['login', 'checkout']);
+    expect(results[0].status).toBe('failed');
+    expect(results[1].status).toBe('skipped');
+    expect(results[1].error).toContain('depends on "login"');
+  });
+
+  it('runs the dependencies of named journeys first', async () => {
+    const { executor, runner } = createExecutor(journeys);
+
+    const results = await executor.runAll(['checkout']);
+    expect(results.map((r) => [r.name, r.status])).toEqual([
+      ['login', 'passed'],
+      ['checkout', 'passed'],
+    ]);
+
+    // A dependency that already completed is not run again
+    expect((await executor.runAll(['checkout'])).map((r) => r.name)).toEqual(['checkout']);
+    expect(runner.getState('checkout')!.status).toBe('completed');
+  });
+
+  it('rejects unsupported actions and unknown journey names', async () => {
+    const { executor } = createExecutor({
+      odd: { description: 'Odd', mode: 'guided', steps: [{ action: 'teleport' }] },
+    });
+    const result = await executor.runJourney('odd');
+    expect(result.status).toBe('failed');
+    expect(result.steps[0].error).toContain('Unsupported journey action "teleport"');
+
+    await expect(executor.runAll(['missing'])).rejects.toThrow('Unknown journey(s): missing');
+  });
+});
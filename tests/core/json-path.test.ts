@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import { checkJsonAssertion, parseJsonPath, queryJsonPath } from '../../src/core/json-path.js';
+
+const BODY = {
+  items: [
+    { id: 1, status: 'paid', tags: ['gift'] },
+    { id: 2, status: 'pending', tags: [] },
+  ],
+  meta: { 'next-page': null, total: 2 },
+};
+
+describe('parseJsonPath', () => {
+  it('splits dot, index, wildcard and quoted segments', () => {
+    expect(parseJsonPath("$.items[0]['next-page'][*].*")).toEqual([
+      'items',
+      0,
+      'next-page',
+      '*',
+      '*',
+    ]);
+    expect(parseJsonPath('$')).toEqual([]);
+  });
+
+  it('rejects paths without a root or with bad syntax', () => {
+    expect(() => parseJsonPath('items')).toThrow('must start with "$"');
+    expect(() => parseJsonPath('$.items[')).toThrow('Invalid JSONPath');
+  });
+});
+
+describe('queryJsonPath', () => {
+  it('resolves indices, wildcards and array length', () => {
+    expect(queryJsonPath(BODY, '$.items[1].status')).toEqual(['pending']);
+    expect(queryJsonPath(BODY, '$.items[*].id')).toEqual([1, 2]);
+    expect(queryJsonPath(BODY, '$.items.length')).toEqual([2]);
+    expect(queryJsonPath(BODY, '$.items[5].id')).toEqual([]);
+  });
+
+  it('distinguishes null values from missing keys', () => {
+    expect(queryJsonPath(BODY, "$.meta['next-page']")).toEqual([null]);
+    expect(queryJsonPath(BODY, '$.meta.cursor')).toEqual([]);
+  });
+});
+
+describe('checkJsonAssertion', () => {
+  it('passes when the value deep-equals the expectation', () => {
+    expect(checkJsonAssertion(BODY, { path: '$.items[0].status', equals: 'paid' })).toEqual({
+      path: '$.items[0].status',
+      passed: true,
+      actual: 'paid',
+    });
+    expect(checkJsonAssertion(BODY, { path: '$.items[*].id', equals: [1, 2] }).passed).toBe(true);
+  });
+
+  it('reports the actual value when equals fails', () => {
+    expect(checkJsonAssertion(BODY, { path: '$.meta.total', equals: 3 })).toEqual({
+      path: '$.meta.total',
+      passed: false,
+      actual: 2,
+      message: 'Expected 3',
+    });
+  });
+
+  it('checks existence both ways', () => {
+    expect(checkJsonAssertion(BODY, { path: '$.meta.cursor' })).toMatchObject({
+      passed: false,
+      message: 'Path not found',
+    });
+    expect(checkJsonAssertion(BODY, { path: '$.meta.cursor', exists: false }).passed).toBe(true);
+    expect(checkJsonAssertion(BODY, { path: '$.meta.total', exists: false }).passed).toBe(false);
+  });
+
+  it('checks contains on strings and arrays, and matches on strings', () => {
+    expect(checkJsonAssertion(BODY, { path: '$.items[0].tags', contains: 'gift' }).passed).toBe(
+      true,
+    );
+    expect(
+      checkJsonAssertion(BODY, { path: '$.items[*].status', contains: 'refunded' }),
+    ).toMatchObject({
+      passed: false,
+      message: 'Expected to contain "refunded"',
+    });
+    expect(checkJsonAssertion(BODY, { path: '$.items[1].status', matches: '^pend' }).passed).toBe(
+      true,
+    );
+    expect(checkJsonAssertion(BODY, { path: '$.meta.total', matches: '2' }).passed).toBe(false);
+  });
+
+  it('fails invalid paths instead of throwing', () => {
+    expect(checkJsonAssertion(BODY, { path: 'items' })).toMatchObject({ passed: false });
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { chmod, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { LogCollector } from '../../src/core/log-collector.js';
+import type { LogAlert } from '../../src/types/index.js';
+
+// Stub CLIs record their arguments to `calls` and print a few lines, then exit
+async function stub(dir: string, name: string, body: string): Promise<void> {
+  const file = join(dir, name);
+  await writeFile(file, `#!/bin/sh\necho "$@" >> "${join(dir, 'calls')}"\n${body}\n`);
+  await chmod(file, 0o755);
+}
+
+async function waitFor(check: () => boolean | Promise<boolean>, timeout = 5000): Promise<void> {
+  const deadline = Date.now() + timeout;
+  while (!(await check())) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise((r) => setTimeout(r, 20));
+  }
+}
+
+describe('LogCollector', () => {
+  let dir: string;
+  let path: string | undefined;
+  let collector: LogCollector | null = null;
+
+  const calls = async () =>
+    (await readFile(join(dir, 'calls'), 'utf-8').catch(() => '')).trim().split('\n');
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'f4tl-logs-'));
+    path = process.env.PATH;
+    process.env.PATH = `${dir}:${path}`;
+  });
+
+  afterEach(async () => {
+    collector?.stop();
+    collector = null;
+    process.env.PATH = path;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('follows a docker container and tags stdout and stderr lines', async () => {
+    await stub(
+      dir,
+      'docker',
+      `echo '{"level":"info","msg":"listening"}'\necho '{"level":"error","msg":"boom"}' >&2\nsleep 5`,
+    );
+    collector = new LogCollector({
+      api: { type: 'docker', container: 'shop-api', parser: 'json' },
+    });
+    await collector.start();
+
+    await waitFor(() => collector?.tail('api').length === 2);
+    const entries = collector.tail('api');
+    expect(entries.find((e) => e.message === 'listening')?.metadata?.stream).toBe('stdout');
+    expect(entries.find((e) => e.message === 'boom')).toMatchObject({
+      level: 'error',
+      metadata: { stream: 'stderr' },
+    });
+    expect(await calls()).toEqual(['logs --follow --tail 100 shop-api']);
+  });
+
+  it('reconnects when the container stops, resuming from where it left off', async () => {
+    await stub(dir, 'docker', `echo "started"\necho "Error response from daemon: restarting" >&2`);
+    collector = new LogCollector({
+      api: { type: 'docker', service: 'api', composeFile: 'dev.yml', parser: 'plain' },
+    });
+    await collector.start();
+
+    await waitFor(async () => (await calls()).length >= 2);
+    const [first, second] = await calls();
+    expect(first).toBe('compose -f dev.yml logs --follow --no-log-prefix --tail 100 api');
+    expect(second).toMatch(/^compose -f dev\.yml logs --follow --no-log-prefix --since \S+Z api$/);
+    await waitFor(() => collector?.tail('api').length === 2);
+    // docker CLI errors are not container output
+    expect(collector.tail('api').map((e) => e.message)).toEqual(['started', 'started']);
+  });
+
+  it('follows a journald unit, leveling entries by priority', async () => {
+    await stub(
+      dir,
+      'journalctl',
+      [
+        `echo '{"MESSAGE":"worker ready","PRIORITY":"6"}'`,
+        `echo '{"MESSAGE":"disk almost full","PRIORITY":"4"}'`,
+        `echo '{"MESSAGE":[104,105],"PRIORITY":"3"}'`,
+        'sleep 5',
+      ].join('\n'),
+    );
+    collector = new LogCollector({
+      worker: { type: 'journald', unit: 'worker.service', parser: 'plain' },
+    });
+    await collector.start();
+
+    await waitFor(() => collector?.tail('worker').length === 3);
+    expect(collector.tail('worker').map((e) => [e.message, e.level])).toEqual([
+      ['worker ready', 'info'],
+      ['disk almost full', 'warn'],
+      ['hi', 'error'],
+    ]);
+    expect(await calls()).toEqual([
+      '--follow --output=json --no-pager --lines=100 --unit=worker.service',
+    ]);
+  });
+
+  it('stops reconnecting once stopped', async () => {
+    await stub(dir, 'docker', 'exit 1');
+    collector = new LogCollector({ api: { type: 'docker', container: 'api', parser: 'plain' } });
+    await collector.start();
+    await waitFor(async () => (await calls()).length === 1);
+    collector.stop();
+
+    await new Promise((r) => setTimeout(r, 1300));
+    expect(await calls()).toHaveLength(1);
+  });
+
+  it('folds stack trace lines into the entry before them', async () => {
+    await stub(
+      dir,
+      'docker',
+      [
+        `echo 'ERROR Unhandled rejection' >&2`,
+        `echo 'TypeError: x is undefined' >&2`,
+        `echo '    at handler (/app/server.js:10:5)' >&2`,
+        `echo 'Caused by: upstream' >&2`,
+        `echo '  listening on 3000'`,
+        'sleep 5',
+      ].join('\n'),
+    );
+    collector = new LogCollector({ api: { type: 'docker', container: 'api', parser: 'plain' } });
+    await collector.start();
+
+    await waitFor(() => collector?.tail('api').length === 3);
+    // stdout and stderr are read independently, so only the order within a stream is fixed
+    expect(
+      collector
+        .tail('api')
+        .map((e) => e.message)
+        .sort(),
+    ).toEqual([
+      'ERROR Unhandled rejection',
+      'TypeError: x is undefined\n    at handler (/app/server.js:10:5)\nCaused by: upstream',
+      // a different stream never continues a stderr trace
+      'listening on 3000',
+    ]);
+  });
+
+  it('fires watch rules: errors by default, and rate thresholds', async () => {
+    await stub(
+      dir,
+      'docker',
+      [
+        `echo '2020-01-01T00:00:00Z ERROR replayed from before the session'`,
+        `echo 'INFO GET /a 200'`,
+        `echo 'ERROR db connection lost'`,
+        ...Array.from({ length: 4 }, () => `echo 'INFO GET /cart 502'`),
+        'sleep 5',
+      ].join('\n'),
+    );
+    collector = new LogCollector({
+      api: {
+        type: 'docker',
+        container: 'api',
+        parser: 'plain',
+        watch: [{ level: 'error' }, { name: '5xx burst', pattern: ' 5\\d\\d$', count: 3 }],
+      },
+    });
+    const alerts: LogAlert[] = [];
+    collector.onAlert((alert) => alerts.push(alert));
+    await collector.start();
+
+    await waitFor(() => collector?.tail('api').length === 7);
+    expect(alerts.map((a) => [a.rule, a.entries.map((e) => e.message)])).toEqual([
+      ['level >= error', ['ERROR db connection lost']],
+      ['5xx burst', ['INFO GET /cart 502', 'INFO GET /cart 502', 'INFO GET /cart 502']],
+    ]);
+  });
+
+  it('archives entries to JSONL and queries time ranges beyond the buffer', async () => {
+    await stub(
+      dir,
+      'docker',
+      [
+        `echo '2024-01-15T10:00:00Z INFO boot'`,
+        `echo '2024-01-15T10:00:05Z ERROR payment failed'`,
+        `echo '    at charge (/app/pay.js:3:1)'`,
+        `echo '2024-01-15T10:00:09Z INFO done'`,
+        'sleep 5',
+      ].join('\n'),
+    );
+    const file = join(dir, 'session', 'logs.jsonl');
+    collector = new LogCollector({
+      api: { type: 'docker', container: 'api', parser: 'plain', watch: [] },
+    });
+    collector.setArchive(file);
+    await collector.start();
+    await waitFor(() => collector?.tail('api').length === 3);
+
+    const range = await collector.history({
+      since: Date.parse('2024-01-15T10:00:01Z'),
+      until: Date.parse('2024-01-15T10:00:10Z'),
+    });
+    expect(range.map((e) => e.message)).toEqual([
+      '2024-01-15T10:00:05Z ERROR payment failed\n    at charge (/app/pay.js:3:1)',
+      '2024-01-15T10:00:09Z INFO done',
+    ]);
+
+    // The last entry stays open for folding until stop() writes it
+    collector.stop();
+    const lines = (await readFile(file, 'utf-8')).trim().split('\n');
+    expect(lines.map((l) => (JSON.parse(l) as { message: string }).message)).toEqual([
+      '2024-01-15T10:00:00Z INFO boot',
+      '2024-01-15T10:00:05Z ERROR payment failed\n    at charge (/app/pay.js:3:1)',
+      '2024-01-15T10:00:09Z INFO done',
+    ]);
+  });
+});
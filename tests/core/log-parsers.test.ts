@@ -1,6 +1,12 @@
 import { parseJsonLine } from '../../src/core/log-parsers/json-parser.js';
 import { parseClfLine } from '../../src/core/log-parsers/clf-parser.js';
 import { parsePlainLine } from '../../src/core/log-parsers/plain-parser.js';
+import { parseLogfmtLine } from '../../src/core/log-parsers/logfmt-parser.js';
+import { createRegexParser } from '../../src/core/log-parsers/regex-parser.js';
+import { createParser, loadParser } from '../../src/core/log-parsers/index.js';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 
 const SOURCE = 'test-source';
 
@@ -171,3 +177,123 @@ describe('parsePlainLine', () => {
     expect(parsePlainLine(SOURCE, '   ')).toBeNull();
   });
 });
+
+describe('parseLogfmtLine', () => {
+  it('reads level, message, time and quoted values', () => {
+    const entry = parseLogfmtLine(
+      SOURCE,
+      'time=2024-01-15T10:30:00Z level=error msg="payment \\"declined\\"" order=42 retry',
+    );
+    expect(entry).toMatchObject({
+      level: 'error',
+      message: 'payment "declined"',
+      timestamp: new Date('2024-01-15T10:30:00Z').getTime(),
+      metadata: { order: '42', retry: true },
+    });
+  });
+
+  it('returns null for a line without key=value pairs', () => {
+    expect(parseLogfmtLine(SOURCE, 'server started')).toBeNull();
+  });
+});
+
+describe('createRegexParser', () => {
+  const parse = createRegexParser(
+    '^\\[(?<timestamp>[^\\]]+)\\] (?<level>\\w+) (?<module>\\S+): (?<message>.*)$',
+  );
+
+  it('maps named groups to fields and metadata', () => {
+    expect(parse(SOURCE, '[2024-01-15T10:30:00Z] WARNING billing: card expiring')).toEqual({
+      source: SOURCE,
+      level: 'warn',
+      message: 'card expiring',
+      timestamp: new Date('2024-01-15T10:30:00Z').getTime(),
+      metadata: { module: 'billing' },
+    });
+  });
+
+  it('drops lines that do not match and rejects invalid patterns', () => {
+    expect(parse(SOURCE, 'no brackets here')).toBeNull();
+    expect(() => createRegexParser('(?<level>')).toThrow(/Invalid log parser pattern/);
+  });
+});
+
+describe('JSON presets', () => {
+  it('pino: numeric level and err.stack appended to msg', () => {
+    const entry = createParser({ parser: 'pino' })(
+      SOURCE,
+      JSON.stringify({
+        level: 50,
+        time: 1700000000000,
+        msg: 'request failed',
+        err: { type: 'Error', message: 'boom', stack: 'Error: boom\n    at handler (app.js:1:1)' },
+      }),
+    );
+    expect(entry).toMatchObject({
+      level: 'error',
+      message: 'request failed\nError: boom\n    at handler (app.js:1:1)',
+      timestamp: 1700000000000,
+    });
+  });
+
+  it('bunyan: ISO time', () => {
+    const entry = createParser({ parser: 'bunyan' })(
+      SOURCE,
+      '{"name":"api","level":40,"msg":"slow query","time":"2024-01-15T10:30:00.000Z","v":0}',
+    );
+    expect(entry?.level).toBe('warn');
+    expect(entry?.timestamp).toBe(new Date('2024-01-15T10:30:00.000Z').getTime());
+  });
+
+  it('winston: npm and syslog levels and `message`', () => {
+    const parse = createParser({ parser: 'winston' });
+    expect(parse(SOURCE, '{"level":"http","message":"GET /"}')).toMatchObject({
+      level: 'info',
+      message: 'GET /',
+    });
+    expect(parse(SOURCE, '{"level":"crit","message":"down","msg":"ignored"}')).toMatchObject({
+      level: 'fatal',
+      message: 'down',
+    });
+  });
+
+  it('requires a pattern for the regex parser', () => {
+    expect(() => createParser({ parser: 'regex' })).toThrow(/pattern/);
+  });
+});
+
+describe('loadParser', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'f4tl-parser-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("imports a custom parser module's default export", async () => {
+    const file = join(dir, 'parser.mjs');
+    await writeFile(
+      file,
+      `export default (source, line) => line.startsWith('!') ? { level: 'error', message: line.slice(1) } : null;`,
+    );
+    const parse = await loadParser({ type: 'file', parser: 'custom', parserModule: file });
+
+    expect(parse(SOURCE, '!disk full')).toMatchObject({
+      source: SOURCE,
+      level: 'error',
+      message: 'disk full',
+    });
+    expect(parse(SOURCE, 'ok')).toBeNull();
+  });
+
+  it('fails when the module exports no function', async () => {
+    const file = join(dir, 'empty.mjs');
+    await writeFile(file, 'export const name = 1;');
+    await expect(
+      loadParser({ type: 'file', parser: 'custom', parserModule: file }),
+    ).rejects.toThrow(/no parser function/);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  generateTotp,
+  parseTotpSecret,
+  totpRemainingMs,
+  waitForLoggedCode,
+} from '../../src/core/mfa.js';
+import type { TotpAlgorithm } from '../../src/core/mfa.js';
+import type { LogEntry } from '../../src/types/index.js';
+
+// RFC 6238 Appendix B: the seed is the ASCII digits repeated to the hash's key size
+const seeds: Record<TotpAlgorithm, Buffer> = {
+  SHA1: Buffer.from('12345678901234567890'),
+  SHA256: Buffer.from('12345678901234567890123456789012'),
+  SHA512: Buffer.from('1234567890123456789012345678901234567890123456789012345678901234'),
+};
+
+describe('generateTotp', () => {
+  it.each([
+    [59, 'SHA1', '94287082'],
+    [59, 'SHA256', '46119246'],
+    [59, 'SHA512', '90693936'],
+    [1111111109, 'SHA1', '07081804'],
+    [1111111109, 'SHA256', '68084774'],
+    [20000000000, 'SHA512', '47863826'],
+  ] as const)('matches the RFC 6238 vector at T=%i with %s', (seconds, algorithm, expected) => {
+    const code = generateTotp(
+      seeds[algorithm],
+      { digits: 8, period: 30, algorithm },
+      seconds * 1000,
+    );
+    expect(code).toBe(expected);
+  });
+
+  it('truncates to 6 digits', () => {
+    expect(generateTotp(seeds.SHA1, { digits: 6, period: 30, algorithm: 'SHA1' }, 59_000)).toBe(
+      '287082',
+    );
+  });
+
+  it('reports the time left in the current window', () => {
+    expect(totpRemainingMs(30, 59_000)).toBe(1000);
+    expect(totpRemainingMs(30, 60_000)).toBe(30_000);
+  });
+});
+
+describe('TOTP secrets', () => {
+  const defaults = { digits: 6, period: 30, algorithm: 'SHA1' as const };
+
+  it('decodes base32 regardless of case, spaces and padding', () => {
+    expect(base32Decode('GEZD GNBV gy3t qojq GEZDGNBVGY3TQOJQ====')).toEqual(seeds.SHA1);
+    expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character "1"');
+  });
+
+  it('reads secret and settings from an otpauth URI', () => {
+    const { key, options } = parseTotpSecret(
+      'otpauth://totp/Acme:admin?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&digits=8&algorithm=sha256',
+      defaults,
+    );
+    expect(key).toEqual(seeds.SHA1);
+    expect(options).toEqual({ digits: 8, period: 30, algorithm: 'SHA256' });
+  });
+
+  it('uses the configured settings for a bare secret', () => {
+    expect(parseTotpSecret('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ', defaults).options).toBe(defaults);
+  });
+});
+
+describe('waitForLoggedCode', () => {
+  function logs(entries: LogEntry[]) {
+    return {
+      search: (pattern: string) => entries.filter((e) => new RegExp(pattern).test(e.message)),
+    };
+  }
+  const entry = (message: string, timestamp: number): LogEntry => ({
+    source: 'api',
+    level: 'info',
+    message,
+    timestamp,
+  });
+
+  it('returns the capture group from the newest matching line after `since`', async () => {
+    const code = await waitForLoggedCode(
+      logs([
+        entry('Sent code 111111 to admin@example.com', 1_000),
+        entry('Sent code 222222 to admin@example.com', 5_000),
+        entry('GET /health 200', 6_000),
+      ]),
+      { source: 'api', pattern: 'Sent code (\\d{6})', since: 3_000, timeout: 1000 },
+    );
+    expect(code).toBe('222222');
+  });
+
+  it('accepts a code logged with a whole-second timestamp in the submit second', async () => {
+    const code = await waitForLoggedCode(
+      logs([entry('Sent code 333333', Date.parse('2026-10-19T05:00:00Z'))]),
+      {
+        source: 'api',
+        pattern: 'Sent code (\\d{6})',
+        since: Date.parse('2026-10-19T05:00:00.640Z'),
+        timeout: 0,
+      },
+    );
+    expect(code).toBe('333333');
+  });
+
+  it('times out when no code appears', async () => {
+    await expect(
+      waitForLoggedCode(logs([entry('Sent code 111111', 1_000)]), {
+        source: 'api',
+        pattern: 'Sent code (\\d{6})',
+        since: 3_000,
+        timeout: 0,
+      }),
+    ).rejects.toThrow('No MFA code matching /Sent code (\\d{6})/ appeared in log source "api"');
+  });
+});
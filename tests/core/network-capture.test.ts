@@ -0,0 +1,325 @@
+import { EventEmitter } from 'node:events';
+import { describe, it, expect } from 'vitest';
+import type { Page } from 'playwright';
+import { NetworkCapture, formatBody } from '../../src/core/network-capture.js';
+import { SensitiveDataDetector } from '../../src/core/sensitive-data.js';
+import { networkBodyConfigSchema, sensitiveDataConfigSchema } from '../../src/config/schema.js';
+import type { NetworkBodyConfig } from '../../src/types/index.js';
+
+class FakePage extends EventEmitter {
+  unroute = async () => {};
+  url = () => 'https://app.test/cart?step=2';
+
+  /** Emit a request/response pair and wait for the body read to settle. */
+  async exchange(
+    url: string,
+    body: string,
+    contentType = 'application/json',
+    opts: {
+      method?: string;
+      postData?: string;
+      resourceType?: string;
+      headers?: Record<string, string>;
+      responseHeaders?: Record<string, string>;
+    } = {},
+  ): Promise<void> {
+    const req = {
+      url: () => url,
+      method: () => opts.method ?? 'GET',
+      headers: () => opts.headers ?? {},
+      postData: () => opts.postData ?? null,
+      resourceType: () => opts.resourceType ?? 'fetch',
+    };
+    const res = {
+      request: () => req,
+      url: () => url,
+      status: () => 200,
+      statusText: () => 'OK',
+      headers: () => ({ 'content-type': contentType, ...opts.responseHeaders }),
+      body: async () => Buffer.from(body),
+    };
+    this.emit('request', req);
+    this.emit('response', res);
+    await new Promise((r) => setImmediate(r));
+  }
+}
+
+function capture(
+  overrides: Partial<NetworkBodyConfig> = {},
+  detector: SensitiveDataDetector | null = null,
+) {
+  const page = new FakePage();
+  const bodies = { ...networkBodyConfigSchema.parse({}), ...overrides };
+  const nc = new NetworkCapture(page as unknown as Page, { bodies, detector });
+  return { page, nc };
+}
+
+describe('NetworkCapture body capture', () => {
+  it('keeps bodies of allowed content types only', async () => {
+    const { page, nc } = capture();
+    await page.exchange('https://app.test/api/users', '{"users":[]}');
+    await page.exchange('https://app.test/app.css', 'body{}', 'text/css');
+
+    const { responses } = nc.getRequests();
+    expect(responses.map((r) => [r.body, r.bodySize])).toEqual([
+      ['{"users":[]}', 12],
+      [undefined, undefined],
+    ]);
+  });
+
+  it('does not keep bodies when capture is off', async () => {
+    const { page, nc } = capture({ capture: false });
+    await page.exchange('https://app.test/api/users', '{"users":[]}');
+    expect(nc.getRequests().responses[0].body).toBeUndefined();
+  });
+
+  it('truncates bodies over maxSize', async () => {
+    const { page, nc } = capture({ maxSize: 4 });
+    await page.exchange('https://app.test/api/big', 'abcdefgh', 'text/plain');
+
+    const [res] = nc.getRequests().responses;
+    expect(res).toMatchObject({ body: 'abcd', bodySize: 8, bodyTruncated: true });
+  });
+
+  it('reports whether a body is still being read', async () => {
+    const { page, nc } = capture();
+    let finish: (body: Buffer) => void = () => {};
+    const req = {
+      url: () => 'https://app.test/api/slow',
+      method: () => 'GET',
+      headers: () => ({}),
+      postData: () => null,
+      resourceType: () => 'fetch',
+    };
+    page.emit('request', req);
+    page.emit('response', {
+      request: () => req,
+      url: () => 'https://app.test/api/slow',
+      status: () => 200,
+      statusText: () => 'OK',
+      headers: () => ({ 'content-type': 'application/json' }),
+      body: () => new Promise<Buffer>((resolve) => (finish = resolve)),
+    });
+
+    await nc.bodiesSettled(10);
+    const [res] = nc.getRequests().responses;
+    expect(nc.isReadingBody(res)).toBe(true);
+
+    finish(Buffer.from('{}'));
+    await nc.bodiesSettled();
+    expect(nc.isReadingBody(res)).toBe(false);
+    expect(res.body).toBe('{}');
+  });
+
+  it('drops chunked bodies larger than the read limit', async () => {
+    const { page, nc } = capture({ maxSize: 10_000_000, maxTotalSize: 20_000_000 });
+    await page.exchange('https://app.test/api/export', 'x'.repeat(5_000_001));
+
+    expect(nc.getRequests().responses[0].body).toBeUndefined();
+  });
+
+  it('evicts the oldest bodies once maxTotalSize is exceeded', async () => {
+    const { page, nc } = capture({ maxTotalSize: 10 });
+    await page.exchange('https://app.test/1', '"aaaa"');
+    await page.exchange('https://app.test/2', '"bbbb"');
+
+    const [first, second] = nc.getRequests().responses;
+    expect(first.body).toBeUndefined();
+    expect(first.bodyEvicted).toBe(true);
+    expect(second.body).toBe('"bbbb"');
+  });
+
+  it('filters by request or response body', async () => {
+    const { page, nc } = capture();
+    await page.exchange('https://app.test/api/orders', '{"status":"declined"}');
+    await page.exchange('https://app.test/api/login', '{"ok":true}', 'application/json', {
+      method: 'POST',
+      postData: '{"user":"declined-user"}',
+    });
+    await page.exchange('https://app.test/api/cart', '{"items":[]}');
+
+    const { requests } = nc.getRequests({ bodyPattern: 'declined' });
+    expect(requests.map((r) => r.url)).toEqual([
+      'https://app.test/api/orders',
+      'https://app.test/api/login',
+    ]);
+  });
+});
+
+describe('NetworkCapture GraphQL', () => {
+  const gql = (query: string, variables?: unknown) => ({
+    method: 'POST',
+    postData: JSON.stringify({ query, variables }),
+  });
+
+  it('parses operations and response errors, even without body capture', async () => {
+    const { page, nc } = capture({ capture: false });
+    await page.exchange(
+      'https://app.test/graphql',
+      '{"data":null,"errors":[{"message":"Out of stock"}]}',
+      'application/json',
+      gql('mutation AddToCart($sku: ID!) { addToCart(sku: $sku) { id } }', { sku: 'A-1' }),
+    );
+
+    const { requests, responses } = nc.getRequests();
+    expect(requests[0]).toMatchObject({
+      graphql: [
+        { operationName: 'AddToCart', operationType: 'mutation', variables: { sku: 'A-1' } },
+      ],
+      pageUrl: 'https://app.test/cart?step=2',
+    });
+    expect(responses[0].graphqlErrors).toEqual(['Out of stock']);
+    expect(responses[0].body).toBeUndefined();
+  });
+
+  it('filters by operation name and type', async () => {
+    const { page, nc } = capture();
+    await page.exchange(
+      'https://app.test/graphql',
+      '{}',
+      'application/json',
+      gql('query GetCart { cart { id } }'),
+    );
+    await page.exchange(
+      'https://app.test/graphql',
+      '{}',
+      'application/json',
+      gql('mutation Checkout { checkout { id } }'),
+    );
+    await page.exchange('https://app.test/api/users', '[]');
+
+    const byName = nc.getRequests({ operationName: 'GetCart' }).requests;
+    expect(byName.map((r) => r.graphql?.[0].operationName)).toEqual(['GetCart']);
+    const byType = nc.getRequests({ operationType: 'mutation' }).requests;
+    expect(byType.map((r) => r.graphql?.[0].operationName)).toEqual(['Checkout']);
+  });
+
+  it('skips bodies of subscriptions and streamed responses', async () => {
+    const { page, nc } = capture({ capture: false });
+    await page.exchange(
+      'https://app.test/graphql',
+      '{"errors":[{"message":"never read"}]}',
+      'application/json',
+      gql('subscription OnOrder { order { id } }'),
+    );
+    await page.exchange(
+      'https://app.test/graphql',
+      '{"errors":[{"message":"never read"}]}',
+      'multipart/mixed; boundary="-"',
+      gql('query Cart { cart { id ... @defer { total } } }'),
+    );
+    await page.exchange(
+      'https://app.test/graphql',
+      '{"errors":[{"message":"never read"}]}',
+      'text/event-stream',
+      gql('query Feed { feed { id } }'),
+    );
+
+    expect(nc.getRequests().responses.map((r) => r.graphqlErrors)).toEqual([
+      undefined,
+      undefined,
+      undefined,
+    ]);
+  });
+
+  it('leaves ordinary JSON requests alone', async () => {
+    const { page, nc } = capture();
+    await page.exchange('https://app.test/api/login', '{}', 'application/json', {
+      method: 'POST',
+      postData: '{"user":"a"}',
+    });
+    expect(nc.getRequests().requests[0].graphql).toBeUndefined();
+  });
+});
+
+describe('NetworkCapture leak scanning', () => {
+  it('does not report email addresses on HTML pages', async () => {
+    const detector = new SensitiveDataDetector(sensitiveDataConfigSchema.parse({}));
+    const { page } = capture({}, detector);
+    const footer = '<footer>support@shop.test</footer>';
+    await page.exchange('https://shop.test/about', footer, 'text/html', {
+      resourceType: 'document',
+    });
+    await page.exchange('https://shop.test/api/me', '{"email":"jane@corp.io"}');
+    await page.exchange(
+      'https://shop.test/404',
+      `${footer} sk_live_${'a'.repeat(24)}`,
+      'text/html',
+      {
+        resourceType: 'document',
+      },
+    );
+
+    expect(detector.getLeaks().map((l) => [l.type, l.location])).toEqual([
+      ['email', 'https://shop.test/api/me'],
+      ['apiKey', 'https://shop.test/404'],
+    ]);
+  });
+});
+
+describe('NetworkCapture record and replay', () => {
+  it('records only responses matching urlPattern', async () => {
+    const { page, nc } = capture();
+    nc.startRecording({ urlPattern: '/API/orders', resourceTypes: [] });
+    await page.exchange('https://app.test/api/orders', '[]');
+    await page.exchange('https://app.test/api/users', '[]');
+
+    expect((await nc.stopRecording()).map((e) => e.request.url)).toEqual([
+      'https://app.test/api/orders',
+    ]);
+  });
+
+  it('masks credentials and detected secrets in recorded entries', async () => {
+    const detector = new SensitiveDataDetector(sensitiveDataConfigSchema.parse({}));
+    const { page, nc } = capture({}, detector);
+    nc.startRecording({ resourceTypes: [] });
+    await page.exchange(
+      'https://app.test/api/login',
+      '{"email":"qa@corp.io","ok":true}',
+      undefined,
+      {
+        method: 'POST',
+        postData: '{"email":"qa@corp.io","password":"hunter2"}',
+        headers: { authorization: 'Bearer abc', 'content-type': 'application/json' },
+        responseHeaders: { 'set-cookie': 'sid=s3cret' },
+      },
+    );
+
+    const [entry] = await nc.stopRecording();
+    const header = (headers: { name: string; value: string }[], name: string) =>
+      headers.find((h) => h.name === name)?.value;
+    expect(header(entry.request.headers, 'authorization')).toBe('[REDACTED:authorization]');
+    expect(header(entry.response.headers, 'set-cookie')).toBe('[REDACTED:set-cookie]');
+    expect(entry.request.postData?.text).toBe('{"email":"[REDACTED:email]","password":"hunter2"}');
+    expect(entry.response.content.text).toBe('{"email":"[REDACTED:email]","ok":true}');
+  });
+
+  it('rejects an invalid urlPattern when starting', async () => {
+    const { nc } = capture();
+    expect(() => nc.startRecording({ urlPattern: '(api', resourceTypes: [] })).toThrow(
+      'Invalid urlPattern',
+    );
+    expect(nc.isRecording()).toBe(false);
+
+    await expect(
+      nc.startReplay('orders.har', [], {
+        urlPattern: '[',
+        resourceTypes: [],
+        match: { method: true, query: true, body: false },
+        fallback: 'live',
+      }),
+    ).rejects.toThrow('Invalid urlPattern');
+    expect(nc.getReplayStats()).toBeNull();
+  });
+});
+
+describe('formatBody', () => {
+  it('pretty-prints JSON', () => {
+    expect(formatBody('{"a":1}', 100)).toBe('{\n  "a": 1\n}');
+  });
+
+  it('leaves other text alone and notes how much was cut', () => {
+    expect(formatBody('<p>hello</p>', 100)).toBe('<p>hello</p>');
+    expect(formatBody('abcdefghij', 4)).toBe('abcd\n… [6 more characters]');
+  });
+});
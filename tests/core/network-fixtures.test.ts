@@ -0,0 +1,159 @@
+import {
+  FixtureMatcher,
+  MAX_FIXTURE_BODY_BYTES,
+  createHar,
+  createHarEntry,
+  fulfillFromEntry,
+  parseHar,
+  requestKey,
+} from '../../src/core/network-fixtures.js';
+import type { RecordedExchange } from '../../src/core/network-fixtures.js';
+import type { HarEntry } from '../../src/types/index.js';
+
+function exchange(overrides?: Partial<RecordedExchange>): RecordedExchange {
+  return {
+    method: 'GET',
+    url: 'http://localhost:3000/api/items?page=1',
+    requestHeaders: { accept: 'application/json' },
+    status: 200,
+    statusText: 'OK',
+    responseHeaders: {
+      'content-type': 'application/json; charset=utf-8',
+      'content-encoding': 'gzip',
+      'content-length': '12',
+    },
+    body: Buffer.from('{"items":[]}'),
+    startedAt: 1700000000000,
+    duration: 42,
+    ...overrides,
+  };
+}
+
+function entry(method: string, url: string, text: string, postData?: string): HarEntry {
+  return createHarEntry(
+    exchange({ method, url, body: Buffer.from(text), postData, requestHeaders: {} }),
+  );
+}
+
+const exact = { method: true, query: true, body: false };
+
+describe('createHarEntry', () => {
+  it('stores text bodies as-is and drops encoding headers', () => {
+    const e = createHarEntry(exchange());
+
+    expect(e.startedDateTime).toBe('2023-11-14T22:13:20.000Z');
+    expect(e.response.content).toEqual({
+      size: 12,
+      mimeType: 'application/json; charset=utf-8',
+      text: '{"items":[]}',
+    });
+    expect(e.response.headers).toEqual([
+      { name: 'content-type', value: 'application/json; charset=utf-8' },
+    ]);
+  });
+
+  it('base64-encodes binary bodies and keeps request bodies', () => {
+    const e = createHarEntry(
+      exchange({
+        method: 'POST',
+        requestHeaders: { 'content-type': 'application/json' },
+        postData: '{"q":1}',
+        responseHeaders: { 'content-type': 'image/png' },
+        body: Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+      }),
+    );
+
+    expect(e.request.postData).toEqual({ mimeType: 'application/json', text: '{"q":1}' });
+    expect(e.response.content.encoding).toBe('base64');
+    expect(fulfillFromEntry(e).body).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47]));
+  });
+
+  it('does not replay masked headers', () => {
+    const e = createHarEntry(
+      exchange({
+        responseHeaders: { 'content-type': 'text/plain', 'set-cookie': '[REDACTED:set-cookie]' },
+      }),
+    );
+    expect(fulfillFromEntry(e).headers).toEqual({ 'content-type': 'text/plain' });
+  });
+
+  it('omits bodies over the size limit', () => {
+    const e = createHarEntry(exchange({ body: Buffer.alloc(MAX_FIXTURE_BODY_BYTES + 1) }));
+    expect(e.response.content.size).toBe(MAX_FIXTURE_BODY_BYTES + 1);
+    expect(e.response.content.text).toBeUndefined();
+  });
+});
+
+describe('parseHar', () => {
+  it('round-trips createHar output', () => {
+    const har = createHar([createHarEntry(exchange())], '0.1.0');
+    expect(parseHar(JSON.stringify(har))).toHaveLength(1);
+    expect(har.log.creator).toEqual({ name: 'f4tl', version: '0.1.0' });
+  });
+
+  it('rejects files without log.entries', () => {
+    expect(() => parseHar('{"entries":[]}')).toThrow('not a HAR file');
+    expect(() => parseHar('not json')).toThrow('not valid JSON');
+  });
+});
+
+describe('requestKey', () => {
+  it('ignores query parameter order', () => {
+    expect(requestKey('GET', 'http://x/api?b=2&a=1', undefined, exact)).toBe(
+      requestKey('get', 'http://x/api?a=1&b=2', undefined, exact),
+    );
+  });
+
+  it('compares JSON bodies by value when body matching is on', () => {
+    const opts = { ...exact, body: true };
+    expect(requestKey('POST', 'http://x/api', '{"a":1, "b":2}', opts)).toBe(
+      requestKey('POST', 'http://x/api', '{"a":1,"b":2}', opts),
+    );
+    expect(requestKey('POST', 'http://x/api', '{"a":1}', opts)).not.toBe(
+      requestKey('POST', 'http://x/api', '{"a":2}', opts),
+    );
+  });
+});
+
+describe('FixtureMatcher', () => {
+  it('matches on method and full URL by default', () => {
+    const matcher = new FixtureMatcher([entry('GET', 'http://x/api/items?page=1', 'page1')], exact);
+
+    expect(matcher.match('GET', 'http://x/api/items?page=1')?.response.content.text).toBe('page1');
+    expect(matcher.match('POST', 'http://x/api/items?page=1')).toBeNull();
+    expect(matcher.match('GET', 'http://x/api/items?page=2')).toBeNull();
+  });
+
+  it('can ignore the query string and method', () => {
+    const matcher = new FixtureMatcher([entry('GET', 'http://x/api/items?page=1', 'page1')], {
+      method: false,
+      query: false,
+      body: false,
+    });
+    expect(matcher.match('HEAD', 'http://x/api/items?page=9')).not.toBeNull();
+  });
+
+  it('serves repeated requests in recorded order, then repeats the last', () => {
+    const matcher = new FixtureMatcher(
+      [entry('GET', 'http://x/api/cart', 'empty'), entry('GET', 'http://x/api/cart', 'one item')],
+      exact,
+    );
+    const next = () => matcher.match('GET', 'http://x/api/cart')?.response.content.text;
+
+    expect([next(), next(), next()]).toEqual(['empty', 'one item', 'one item']);
+  });
+
+  it('distinguishes requests by body when asked', () => {
+    const matcher = new FixtureMatcher(
+      [
+        entry('POST', 'http://x/graphql', 'cart', '{"operationName":"Cart"}'),
+        entry('POST', 'http://x/graphql', 'user', '{"operationName":"User"}'),
+      ],
+      { ...exact, body: true },
+    );
+
+    expect(
+      matcher.match('POST', 'http://x/graphql', '{"operationName":"User"}')?.response.content.text,
+    ).toBe('user');
+  });
+});
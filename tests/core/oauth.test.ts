@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import {
+  buildAuthorizeUrl,
+  createPkcePair,
+  exchangeCode,
+  isCallbackUrl,
+  parseCallback,
+  pkceChallenge,
+  refreshTokens,
+} from '../../src/core/oauth.js';
+import type { AuthOauthConfig } from '../../src/types/index.js';
+import {
+  OIDC_CLIENT_ID,
+  OIDC_USER,
+  startServer,
+  type FixtureServer,
+} from '../fixture-app/server.js';
+
+function oauthConfig(baseUrl: string, overrides?: Partial<AuthOauthConfig>): AuthOauthConfig {
+  return {
+    provider: 'fixture',
+    authUrl: `${baseUrl}/oauth/authorize`,
+    clientIdEnv: 'CLIENT_ID',
+    callbackUrl: `${baseUrl}/oauth/callback`,
+    tokenUrl: `${baseUrl}/oauth/token`,
+    pkce: true,
+    tokenStorage: { storageKey: 'token', storageType: 'localStorage' },
+    ...overrides,
+  };
+}
+
+describe('PKCE', () => {
+  it('derives an S256 challenge from a random verifier', () => {
+    const { verifier, challenge } = createPkcePair();
+
+    expect(verifier).toMatch(/^[\w-]{43}$/);
+    expect(challenge).toBe(pkceChallenge(verifier));
+    expect(challenge).toMatch(/^[\w-]{43}$/);
+    expect(createPkcePair().verifier).not.toBe(verifier);
+  });
+});
+
+describe('buildAuthorizeUrl', () => {
+  it('adds client, redirect, state, scope and PKCE parameters', () => {
+    const url = new URL(
+      buildAuthorizeUrl(oauthConfig('http://idp.test', { scope: 'openid email' }), 'client-1', {
+        state: 'abc',
+        challenge: 'xyz',
+      }),
+    );
+
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      client_id: 'client-1',
+      redirect_uri: 'http://idp.test/oauth/callback',
+      response_type: 'code',
+      state: 'abc',
+      scope: 'openid email',
+      code_challenge: 'xyz',
+      code_challenge_method: 'S256',
+    });
+  });
+});
+
+describe('parseCallback', () => {
+  it('returns the code when the state matches', () => {
+    expect(parseCallback('http://app/cb?code=c1&state=s1', 's1')).toEqual({ code: 'c1' });
+  });
+
+  it('rejects provider errors and state mismatches', () => {
+    expect(() =>
+      parseCallback('http://app/cb?error=access_denied&error_description=Nope&state=s1', 's1'),
+    ).toThrow('OAuth provider returned "access_denied": Nope');
+    expect(() => parseCallback('http://app/cb?code=c1&state=other', 's1')).toThrow(
+      'state does not match',
+    );
+  });
+
+  it('matches callback URLs regardless of query string', () => {
+    expect(isCallbackUrl('http://app/cb?code=1', 'http://app/cb')).toBe(true);
+    expect(isCallbackUrl('http://app/cb/extra', 'http://app/cb')).toBe(false);
+  });
+});
+
+describe('token endpoint (fixture IdP)', () => {
+  let fixture: FixtureServer;
+
+  beforeAll(async () => {
+    fixture = await startServer();
+  });
+
+  afterAll(async () => {
+    await fixture?.close();
+  });
+
+  /** Drive the login and consent forms over HTTP and return the issued code. */
+  async function authorize(oauth: AuthOauthConfig, challenge?: string): Promise<string> {
+    const request = new URL(
+      buildAuthorizeUrl(oauth, OIDC_CLIENT_ID, { state: 's1', challenge }),
+    ).searchParams.toString();
+    await fetch(`${fixture.url}/oauth/login`, {
+      method: 'POST',
+      body: new URLSearchParams({ request, ...OIDC_USER }),
+    });
+    const res = await fetch(`${fixture.url}/oauth/consent`, {
+      method: 'POST',
+      body: new URLSearchParams({ request, decision: 'allow' }),
+      redirect: 'manual',
+    });
+    return parseCallback(res.headers.get('location') ?? '', 's1').code;
+  }
+
+  it('redeems a code with its PKCE verifier and refreshes the access token', async () => {
+    const oauth = oauthConfig(fixture.url);
+    const { verifier, challenge } = createPkcePair();
+    const code = await authorize(oauth, challenge);
+
+    const tokens = await exchangeCode(
+      `${fixture.url}/oauth/token`,
+      oauth,
+      { id: OIDC_CLIENT_ID },
+      code,
+      verifier,
+    );
+    expect(tokens.accessToken).toMatch(/^at-/);
+    expect(tokens.expiresAt).toBeGreaterThan(Date.now());
+
+    const me = await fetch(`${fixture.url}/api/me`, {
+      headers: { Authorization: `Bearer ${tokens.accessToken}` },
+    });
+    expect(me.status).toBe(200);
+
+    const refreshed = await refreshTokens(
+      `${fixture.url}/oauth/token`,
+      { id: OIDC_CLIENT_ID },
+      tokens.refreshToken ?? '',
+    );
+    expect(refreshed.accessToken).not.toBe(tokens.accessToken);
+    // The fixture doesn't rotate refresh tokens, so the old one is kept
+    expect(refreshed.refreshToken).toBe(tokens.refreshToken);
+  });
+
+  it('rejects a code redeemed with the wrong verifier', async () => {
+    const oauth = oauthConfig(fixture.url);
+    const code = await authorize(oauth, createPkcePair().challenge);
+
+    await expect(
+      exchangeCode(
+        `${fixture.url}/oauth/token`,
+        oauth,
+        { id: OIDC_CLIENT_ID },
+        code,
+        createPkcePair().verifier,
+      ),
+    ).rejects.toThrow('Token endpoint returned 400: Code or verifier rejected');
+  });
+});
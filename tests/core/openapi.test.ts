@@ -0,0 +1,297 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  ApiContract,
+  loadOpenApiSpec,
+  type ApiViolation,
+  type OpenApiDocument,
+} from '../../src/core/openapi.js';
+import type { CapturedRequest, CapturedResponse } from '../../src/types/index.js';
+
+const SPEC: OpenApiDocument = {
+  openapi: '3.0.3',
+  servers: [{ url: 'https://app.test/api' }],
+  paths: {
+    '/users/{id}': {
+      get: {
+        responses: {
+          '200': {
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+          },
+          '404': { description: 'Not found' },
+        },
+      },
+    },
+    '/users/me': {
+      get: {
+        responses: {
+          '2XX': {
+            content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } },
+          },
+        },
+      },
+    },
+    '/users': {
+      get: {
+        parameters: [{ name: 'page', in: 'query', required: true }],
+        responses: {
+          '200': {
+            content: {
+              'application/json': {
+                schema: { type: 'array', items: { $ref: '#/components/schemas/User' } },
+              },
+            },
+          },
+        },
+      },
+      post: {
+        requestBody: {
+          required: true,
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                required: ['email'],
+                properties: { email: { type: 'string' } },
+              },
+            },
+          },
+        },
+        responses: { '201': { description: 'Created' } },
+      },
+    },
+  },
+  components: {
+    schemas: {
+      User: {
+        type: 'object',
+        required: ['id', 'email', 'role'],
+        additionalProperties: false,
+        properties: {
+          id: { type: 'integer' },
+          email: { type: 'string' },
+          role: { type: 'string', enum: ['admin', 'member'] },
+          nickname: { type: 'string', nullable: true },
+          address: {
+            oneOf: [{ type: 'string' }, { type: 'object', required: ['city'] }],
+          },
+        },
+      },
+    },
+  },
+};
+
+const USER = { id: 1, email: 'a@b.io', role: 'member' };
+
+function exchange(
+  method: string,
+  url: string,
+  status: number,
+  body?: unknown,
+  requestBody?: unknown,
+): [CapturedRequest, CapturedResponse] {
+  return [
+    {
+      id: 'r1',
+      url,
+      method,
+      headers: { 'content-type': 'application/json' },
+      body: requestBody === undefined ? undefined : JSON.stringify(requestBody),
+      resourceType: 'fetch',
+      timestamp: 0,
+    },
+    {
+      requestId: 'r1',
+      url,
+      status,
+      statusText: '',
+      headers: { 'content-type': 'application/json; charset=utf-8' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      timing: { start: 0, end: 0, duration: 0 },
+    },
+  ];
+}
+
+function check(...args: Parameters<typeof exchange>) {
+  return new ApiContract(SPEC).check(...exchange(...args));
+}
+
+describe('ApiContract', () => {
+  it('accepts responses that match the schema', () => {
+    const result = check('GET', 'https://app.test/api/users/7', 200, USER);
+    expect(result).toMatchObject({ operation: 'GET /users/{id}', violations: [] });
+  });
+
+  it('prefers literal paths over templated ones', () => {
+    expect(check('GET', 'https://app.test/api/users/me', 200, USER)?.operation).toBe(
+      'GET /users/me',
+    );
+  });
+
+  it('reports missing and unexpected fields, wrong types and enum values', () => {
+    const result = check('GET', 'https://app.test/api/users/7', 200, {
+      id: '7',
+      role: 'owner',
+      extra: true,
+    });
+    expect(result?.violations.map((v) => [v.kind, v.path])).toEqual([
+      ['missing-field', 'response.email'],
+      ['wrong-type', 'response.id'],
+      ['invalid-enum', 'response.role'],
+      ['unexpected-field', 'response.extra'],
+    ]);
+  });
+
+  it('accepts nullable fields and checks oneOf', () => {
+    const ok = check('GET', 'https://app.test/api/users/7', 200, { ...USER, nickname: null });
+    expect(ok?.violations).toEqual([]);
+
+    const bad = check('GET', 'https://app.test/api/users/7', 200, { ...USER, address: 5 });
+    expect(bad?.violations.map((v) => v.kind)).toEqual(['no-matching-schema']);
+  });
+
+  it('requires exactly one oneOf match, but any number for anyOf', () => {
+    const contract = new ApiContract(SPEC);
+    const schema = (key: 'oneOf' | 'anyOf') => ({
+      [key]: [
+        { type: 'object', required: ['city'] },
+        { type: 'object', required: ['zip'] },
+      ],
+    });
+    const both = { city: 'Oslo', zip: '0150' };
+
+    const oneOf: ApiViolation[] = [];
+    expect(contract.validate(schema('oneOf'), both, 'response', 'response', oneOf)).toBe(false);
+    expect(oneOf).toEqual([
+      expect.objectContaining({
+        kind: 'ambiguous-schema',
+        message:
+          '{"city":"Oslo","zip":"0150"} matches 2 of the oneOf schemas, expected exactly one',
+      }),
+    ]);
+    expect(contract.validate(schema('oneOf'), { city: 'Oslo' }, 'response', 'response', [])).toBe(
+      true,
+    );
+    expect(contract.validate(schema('anyOf'), both, 'response', 'response', [])).toBe(true);
+  });
+
+  it('validates array items with their index in the path', () => {
+    const result = check('GET', 'https://app.test/api/users?page=1', 200, [USER, { id: 2 }]);
+    expect(result?.violations.map((v) => v.path)).toEqual([
+      'response[1].email',
+      'response[1].role',
+    ]);
+  });
+
+  it('matches status ranges and reports undocumented statuses', () => {
+    expect(check('GET', 'https://app.test/api/users/me', 204)?.violations).toEqual([]);
+    const result = check('GET', 'https://app.test/api/users/7', 500, { error: 'boom' });
+    expect(result?.violations).toMatchObject([
+      { kind: 'undocumented-status', message: expect.stringContaining('200, 404') },
+    ]);
+  });
+
+  it('checks required query parameters and request bodies', () => {
+    expect(check('GET', 'https://app.test/api/users', 200, [])?.violations).toMatchObject([
+      { kind: 'missing-parameter', path: 'request.query.page' },
+    ]);
+    expect(check('POST', 'https://app.test/api/users', 201)?.violations).toMatchObject([
+      { kind: 'missing-body' },
+    ]);
+    expect(
+      check('POST', 'https://app.test/api/users', 201, undefined, { email: 3 })?.violations,
+    ).toMatchObject([{ kind: 'wrong-type', path: 'request.body.email' }]);
+  });
+
+  it('skips request checks when validateRequests is off', () => {
+    const contract = new ApiContract(SPEC, { validateRequests: false });
+    const result = contract.check(...exchange('GET', 'https://app.test/api/users', 200, []));
+    expect(result?.violations).toEqual([]);
+  });
+
+  it('reports undocumented paths and methods under the base path', () => {
+    expect(check('GET', 'https://app.test/api/orders', 200)?.violations).toMatchObject([
+      { kind: 'undocumented-path' },
+    ]);
+    expect(check('DELETE', 'https://app.test/api/users/7', 204)?.violations).toMatchObject([
+      { kind: 'undocumented-method' },
+    ]);
+  });
+
+  it('ignores requests outside the base path', () => {
+    expect(check('GET', 'https://app.test/static/users/7', 200)).toBeNull();
+  });
+
+  it('ignores unknown paths when there is no base path', () => {
+    const contract = new ApiContract({ ...SPEC, servers: [] });
+    expect(contract.check(...exchange('GET', 'https://cdn.test/analytics', 200))).toBeNull();
+    const known = contract.check(...exchange('GET', 'https://app.test/users/7', 200, USER));
+    expect(known?.violations).toEqual([]);
+  });
+
+  it('skips the body schema when the body was not captured in full', () => {
+    const [req, res] = exchange('GET', 'https://app.test/api/users/7', 200, { id: 'x' });
+    res.bodyTruncated = true;
+    expect(new ApiContract(SPEC).check(req, res)).toMatchObject({
+      violations: [],
+      bodySkipped: true,
+    });
+  });
+
+  it('reports invalid JSON bodies', () => {
+    const [req, res] = exchange('GET', 'https://app.test/api/users/7', 200);
+    res.body = '{"id":';
+    expect(new ApiContract(SPEC).check(req, res)?.violations).toMatchObject([
+      { kind: 'invalid-json', path: 'response.body' },
+    ]);
+  });
+});
+
+describe('loadOpenApiSpec', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'f4tl-openapi-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads a JSON OpenAPI 3 document', async () => {
+    const path = join(dir, 'openapi.json');
+    await writeFile(path, JSON.stringify(SPEC));
+    expect((await loadOpenApiSpec(path)).paths['/users']).toBeDefined();
+  });
+
+  it('reads a YAML OpenAPI 3 document', async () => {
+    const path = join(dir, 'openapi.yaml');
+    await writeFile(
+      path,
+      [
+        'openapi: 3.0.3',
+        'paths:',
+        '  /users/{id}:',
+        '    get:',
+        '      responses:',
+        "        '200':",
+        '          description: A user',
+      ].join('\n'),
+    );
+    const spec = await loadOpenApiSpec(path);
+    expect(spec.openapi).toBe('3.0.3');
+    expect(Object.keys(spec.paths['/users/{id}'].get as object)).toEqual(['responses']);
+  });
+
+  it('rejects Swagger 2 and unparsable files', async () => {
+    const swagger = join(dir, 'swagger.yml');
+    await writeFile(swagger, "swagger: '2.0'\npaths: {}\n");
+    await expect(loadOpenApiSpec(swagger)).rejects.toThrow('not an OpenAPI 3 document');
+
+    const broken = join(dir, 'openapi.json');
+    await writeFile(broken, 'openapi: 3.0.0\n');
+    await expect(loadOpenApiSpec(broken)).rejects.toThrow('Could not read OpenAPI spec');
+  });
+});
@@ -0,0 +1,113 @@
+import {
+  PerfBudgetTracker,
+  checkPerfBudgets,
+  cumulativeLayoutShift,
+  formatBudgetViolation,
+  summarizeResources,
+} from '../../src/core/perf-collector.js';
+import type { PerfMetrics } from '../../src/types/index.js';
+
+function metrics(url: string, overrides?: Partial<PerfMetrics>): PerfMetrics {
+  return {
+    url,
+    vitals: { lcp: 3100, fcp: 900, cls: 0.02, ttfb: 120 },
+    longTasks: { count: 2, totalTime: 180, maxDuration: 120 },
+    jsHeap: { usedBytes: 48 * 1024 * 1024, totalBytes: 64 * 1024 * 1024 },
+    resources: { count: 12, transferBytes: 900 * 1024, byType: {}, slowest: [] },
+    ...overrides,
+  };
+}
+
+describe('cumulativeLayoutShift', () => {
+  it('returns 0 without shifts', () => {
+    expect(cumulativeLayoutShift([])).toBe(0);
+  });
+
+  it('sums shifts within one session window', () => {
+    const cls = cumulativeLayoutShift([
+      { startTime: 100, value: 0.05 },
+      { startTime: 600, value: 0.05 },
+      { startTime: 1200, value: 0.02 },
+    ]);
+    expect(cls).toBeCloseTo(0.12);
+  });
+
+  it('takes the largest window when shifts are more than 1s apart', () => {
+    const cls = cumulativeLayoutShift([
+      { startTime: 100, value: 0.05 },
+      { startTime: 3000, value: 0.2 },
+      { startTime: 3500, value: 0.01 },
+    ]);
+    expect(cls).toBeCloseTo(0.21);
+  });
+});
+
+describe('summarizeResources', () => {
+  it('groups transfer size by initiator type and keeps the slowest five', () => {
+    const resources = Array.from({ length: 7 }, (_, i) => ({
+      url: `http://localhost/${i}.js`,
+      type: i < 5 ? 'script' : 'img',
+      duration: i * 100.4,
+      transferBytes: 1000,
+    }));
+    const summary = summarizeResources(resources);
+
+    expect(summary.count).toBe(7);
+    expect(summary.transferBytes).toBe(7000);
+    expect(summary.byType).toEqual({
+      script: { count: 5, transferBytes: 5000 },
+      img: { count: 2, transferBytes: 2000 },
+    });
+    expect(summary.slowest.map((r) => r.duration)).toEqual([602, 502, 402, 301, 201]);
+  });
+});
+
+describe('checkPerfBudgets', () => {
+  it('reports every metric over budget for matching paths', () => {
+    const violations = checkPerfBudgets(metrics('http://localhost:3000/checkout?step=2'), [
+      { path: '/checkout', lcp: 2500, cls: 0.1, jsHeapMb: 40, transferKb: 500 },
+    ]);
+
+    expect(violations).toEqual([
+      { metric: 'lcp', value: 3100, budget: 2500, path: '/checkout' },
+      { metric: 'jsHeapMb', value: 48, budget: 40, path: '/checkout' },
+      { metric: 'transferKb', value: 900, budget: 500, path: '/checkout' },
+    ]);
+  });
+
+  it('matches * across path segments', () => {
+    const m = metrics('http://localhost:3000/products/42/reviews');
+    expect(checkPerfBudgets(m, [{ path: '/products/*', lcp: 2500 }])).toHaveLength(1);
+    expect(checkPerfBudgets(m, [{ path: '*', longTaskTime: 100 }])).toHaveLength(1);
+    expect(checkPerfBudgets(m, [{ path: '/products', lcp: 2500 }])).toEqual([]);
+  });
+
+  it('skips metrics that were not measured', () => {
+    const m = metrics('http://localhost:3000/', { jsHeap: undefined });
+    expect(checkPerfBudgets(m, [{ path: '*', inp: 200, jsHeapMb: 1 }])).toEqual([]);
+  });
+});
+
+describe('formatBudgetViolation', () => {
+  it('includes units', () => {
+    expect(formatBudgetViolation({ metric: 'lcp', value: 3100, budget: 2500, path: '*' })).toBe(
+      'LCP 3100ms exceeds the 2500ms budget',
+    );
+    expect(formatBudgetViolation({ metric: 'cls', value: 0.3, budget: 0.1, path: '*' })).toBe(
+      'CLS 0.3 exceeds the 0.1 budget',
+    );
+  });
+});
+
+describe('PerfBudgetTracker', () => {
+  it('reports a violation once per path and metric until reset', () => {
+    const tracker = new PerfBudgetTracker([{ path: '*', lcp: 2500 }]);
+
+    expect(tracker.check(metrics('http://localhost:3000/checkout'))).toHaveLength(1);
+    expect(tracker.check(metrics('http://localhost:3000/checkout?retry=1'))).toEqual([]);
+    expect(tracker.check(metrics('http://localhost:3000/cart'))).toHaveLength(1);
+
+    tracker.reset();
+    expect(tracker.check(metrics('http://localhost:3000/checkout'))).toHaveLength(1);
+  });
+});
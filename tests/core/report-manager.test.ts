@@ -21,9 +21,16 @@ vi.mock('../../src/report/html.js', () => ({
   generate: vi.fn().mockResolvedValue('<html></html>'),
 }));
 
+vi.mock('../../src/report/junit.js', () => ({
+  generate: vi.fn().mockResolvedValue('<testsuites/>'),
+}));
+
 import { nanoid } from 'nanoid';
 import { mkdir, writeFile } from 'node:fs/promises';
 import { ReportManager } from '../../src/core/report-manager.js';
+import { SensitiveDataDetector } from '../../src/core/sensitive-data.js';
+import { sensitiveDataConfigSchema } from '../../src/config/schema.js';
+import { generate as genMarkdown } from '../../src/report/markdown.js';
 
 const mockedNanoid = vi.mocked(nanoid);
 const mockedMkdir = vi.mocked(mkdir);
@@ -121,6 +128,23 @@ describe('ReportManager', () => {
       expect(bug.severity).toBe('critical');
       expect(manager.getBugs()).toHaveLength(1);
     });
+
+    it('masks sensitive data when a detector is set', () => {
+      manager.setSensitiveDataDetector(
+        new SensitiveDataDetector(sensitiveDataConfigSchema.parse({})),
+      );
+      const bug = manager.createBug({
+        title: 'Profile shows wrong user',
+        severity: 'major',
+        stepsToReproduce: ['Log in as qa@corp.io'],
+        expected: 'Own profile',
+        actual: 'Shows other@corp.io',
+        evidenceStepIds: [],
+      });
+
+      expect(bug.stepsToReproduce).toEqual(['Log in as [REDACTED:email]']);
+      expect(bug.actual).toBe('Shows [REDACTED:email]');
+    });
   });
 
   describe('addFinding', () => {
@@ -250,6 +274,7 @@ describe('ReportManager', () => {
       expect(summary.findingsByCategory.performance).toBe(0);
       expect(summary.findingsByCategory.accessibility).toBe(0);
       expect(summary.findingsByCategory.security).toBe(0);
+      expect(summary.findingsByCategory.api).toBe(0);
       expect(summary.findingsByCategory.suggestion).toBe(0);
       expect(summary.findingsByCategory.observation).toBe(0);
     });
@@ -378,6 +403,40 @@ describe('ReportManager', () => {
 
       expect(outputPath).toContain('report-session-abc.html');
     });
+
+    it('links session recordings relative to the report directory', async () => {
+      const session = createMockSession({
+        artifacts: [{ type: 'trace', contextId: 'default', file: 'default.trace.zip' }],
+      });
+      const resolver = vi.fn().mockResolvedValue(null);
+
+      await manager.generateReport(session, 'markdown', resolver, '/tmp/sessions/session-abc');
+
+      const data = vi.mocked(genMarkdown).mock.calls.at(-1)?.[0];
+      expect(data?.artifacts).toEqual([
+        {
+          type: 'trace',
+          contextId: 'default',
+          file: 'default.trace.zip',
+          href: '../sessions/session-abc/default.trace.zip',
+        },
+      ]);
+    });
+
+    it('writes JUnit XML with journey results', async () => {
+      const session = createMockSession();
+      const resolver = vi.fn().mockResolvedValue(null);
+      manager.setJourneyResults([
+        { name: 'checkout', status: 'failed', duration: 1200, error: 'Timeout', bugId: 'b1' },
+      ]);
+
+      const outputPath = await manager.generateReport(session, 'junit', resolver);
+
+      expect(outputPath).toContain('report-session-abc.junit.xml');
+      expect(manager.getReportData(session).journeys).toEqual([
+        { name: 'checkout', status: 'failed', duration: 1200, error: 'Timeout', bugId: 'b1' },
+      ]);
+    });
   });
 
   describe('reset', () => {
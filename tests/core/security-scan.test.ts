@@ -0,0 +1,173 @@
+import { describe, it, expect } from 'vitest';
+import { cspWeaknesses, runSecurityScan } from '../../src/core/security-scan.js';
+import type { StorageState } from '../../src/core/auth-cache.js';
+import type { CapturedRequest, CapturedResponse } from '../../src/types/index.js';
+
+let nextId = 0;
+
+function exchange(
+  url: string,
+  resourceType: string,
+  headers: Record<string, string> = {},
+  status = 200,
+): { request: CapturedRequest; response: CapturedResponse } {
+  const id = `r${++nextId}`;
+  return {
+    request: { id, url, method: 'GET', headers: {}, resourceType, timestamp: nextId },
+    response: {
+      requestId: id,
+      url,
+      status,
+      statusText: 'OK',
+      headers,
+      timing: { start: 0, end: 0, duration: 0 },
+    },
+  };
+}
+
+function scan(exchanges: ReturnType<typeof exchange>[], storage?: StorageState) {
+  return runSecurityScan({
+    requests: exchanges.map((e) => e.request),
+    responses: exchanges.map((e) => e.response),
+    storage,
+  });
+}
+
+const SECURE_HEADERS = {
+  'content-security-policy': "default-src 'self'; frame-ancestors 'none'",
+  'strict-transport-security': 'max-age=31536000; includeSubDomains',
+};
+
+describe('cspWeaknesses', () => {
+  it('accepts a strict policy and inline scripts guarded by a nonce', () => {
+    expect(cspWeaknesses("default-src 'self'")).toEqual([]);
+    expect(cspWeaknesses("script-src 'self' 'unsafe-inline' 'nonce-abc'")).toEqual([]);
+  });
+
+  it('flags unsafe-inline, unsafe-eval, wildcards and missing script sources', () => {
+    expect(cspWeaknesses("script-src * 'unsafe-inline' 'unsafe-eval'")).toEqual([
+      "script-src allows 'unsafe-inline'",
+      "script-src allows 'unsafe-eval'",
+      'script-src allows any host (*)',
+    ]);
+    expect(cspWeaknesses("img-src 'self'")).toEqual(['no script-src or default-src directive']);
+  });
+});
+
+describe('runSecurityScan', () => {
+  it('reports nothing for a well-configured HTTPS page', () => {
+    expect(scan([exchange('https://shop.test/', 'document', SECURE_HEADERS)])).toEqual([]);
+  });
+
+  it('merges missing document headers per origin', () => {
+    const issues = scan([
+      exchange('https://shop.test/', 'document'),
+      exchange('https://shop.test/cart', 'document'),
+      exchange('https://shop.test/app.js', 'script'),
+    ]);
+
+    expect(issues.map((i) => i.title)).toEqual([
+      'Missing Content-Security-Policy',
+      'Missing clickjacking protection',
+      'Missing Strict-Transport-Security',
+    ]);
+    expect(issues[0].evidence).toEqual(['https://shop.test/', 'https://shop.test/cart']);
+  });
+
+  it('skips HSTS on plain HTTP and flags a short max-age', () => {
+    const http = scan([exchange('http://localhost:3000/', 'document', SECURE_HEADERS)]);
+    expect(http).toEqual([]);
+
+    const short = scan([
+      exchange('https://shop.test/', 'document', {
+        ...SECURE_HEADERS,
+        'strict-transport-security': 'max-age=300',
+      }),
+    ]);
+    expect(short.map((i) => [i.title, i.severity])).toEqual([
+      ['Short Strict-Transport-Security max-age', 'low'],
+    ]);
+  });
+
+  it('flags credentialed CORS for any origin', () => {
+    const [issue] = scan([
+      exchange('https://api.shop.test/me', 'fetch', {
+        'access-control-allow-origin': '*',
+        'access-control-allow-credentials': 'true',
+      }),
+    ]);
+    expect(issue).toMatchObject({
+      check: 'cors',
+      severity: 'high',
+      origin: 'https://api.shop.test',
+    });
+  });
+
+  it('attributes HTTP subresources to the HTTPS page that loaded them', () => {
+    const issues = scan([
+      exchange('https://shop.test/', 'document', SECURE_HEADERS),
+      exchange('http://cdn.test/lib.js', 'script'),
+      exchange('http://cdn.test/logo.png', 'image'),
+    ]);
+    expect(issues.map((i) => [i.origin, i.title, i.severity])).toEqual([
+      ['https://shop.test', 'Mixed content: active resource over HTTP', 'high'],
+      ['https://shop.test', 'Mixed content over HTTP', 'low'],
+    ]);
+  });
+
+  it('finds secrets in query strings and fragments', () => {
+    const issues = scan([
+      exchange('https://shop.test/api/orders?api_key=abc123&page=2', 'fetch'),
+      exchange('https://shop.test/cb#access_token=xyz&state=1', 'fetch'),
+    ]);
+    expect(issues.map((i) => i.title)).toEqual([
+      'Credentials in URL (api_key)',
+      'Credentials in URL (access_token)',
+    ]);
+  });
+
+  it('checks session cookies and tokens in localStorage', () => {
+    const storage: StorageState = {
+      cookies: [
+        {
+          name: 'session_id',
+          value: 's',
+          domain: 'shop.test',
+          path: '/',
+          expires: -1,
+          httpOnly: false,
+          secure: false,
+          sameSite: 'None',
+        },
+        {
+          name: 'theme',
+          value: 'dark',
+          domain: 'shop.test',
+          path: '/',
+          expires: -1,
+          httpOnly: false,
+          secure: true,
+          sameSite: 'Lax',
+        },
+      ],
+      origins: [
+        {
+          origin: 'https://shop.test',
+          localStorage: [
+            { name: 'access_token', value: 'eyJhbGciOiJIUzI1NiJ9.eyJzdWIiOiIxIn0.sig' },
+            { name: 'cart', value: '[]' },
+          ],
+        },
+      ],
+    };
+    const issues = scan([exchange('https://shop.test/', 'document', SECURE_HEADERS)], storage);
+
+    expect(issues.map((i) => [i.title, i.severity])).toEqual([
+      ['Cookie "session_id" missing Secure', 'high'],
+      ['Cookie "session_id" missing HttpOnly', 'medium'],
+      ['Cookie "session_id" uses SameSite=None', 'medium'],
+      ['Token stored in localStorage', 'medium'],
+    ]);
+    expect(issues[3].evidence).toEqual(['localStorage.access_token']);
+  });
+});
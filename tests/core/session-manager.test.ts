@@ -18,6 +18,8 @@ vi.mock('node:fs/promises', () => ({
 import { nanoid } from 'nanoid';
 import { mkdir, writeFile } from 'node:fs/promises';
 import { SessionManager } from '../../src/core/session-manager.js';
+import { SensitiveDataDetector } from '../../src/core/sensitive-data.js';
+import { sensitiveDataConfigSchema } from '../../src/config/schema.js';
 
 const mockedMkdir = vi.mocked(mkdir);
 const mockedWriteFile = vi.mocked(writeFile);
@@ -191,6 +193,31 @@ describe('SessionManager', () => {
         limitedManager.recordStep(createAction(), 'ss3', createMetadata(), 50),
       ).rejects.toThrow('Session step limit reached (2)');
     });
+
+    it('masks sensitive data and reports console leaks when a detector is set', async () => {
+      const detector = new SensitiveDataDetector(sensitiveDataConfigSchema.parse({}));
+      manager.setSensitiveDataDetector(detector);
+      manager.startSession(createMinimalF4tlConfig());
+
+      const metadata = {
+        ...createMetadata(),
+        consoleErrors: [{ type: 'error', text: 'Bad user jane@corp.io', timestamp: 1 }],
+      };
+      const step = await manager.recordStep(
+        { type: 'fill', params: { selector: '#email', value: 'jane@corp.io' }, timestamp: 1 },
+        'ss',
+        metadata as StepMetadata,
+        50,
+        'Rejected jane@corp.io',
+      );
+
+      expect(step.action.params.value).toBe('[REDACTED:email]');
+      expect(step.metadata.consoleErrors[0].text).toBe('Bad user [REDACTED:email]');
+      expect(step.error).toBe('Rejected [REDACTED:email]');
+      expect(detector.getLeaks()).toMatchObject([
+        { type: 'email', source: 'console', location: 'https://example.com', stepIds: [step.id] },
+      ]);
+    });
   });
 
   describe('contextId tracking', () => {
@@ -342,6 +369,77 @@ describe('SessionManager', () => {
       expect((event.data as any).stepCount).toBe(0);
     });
 
+    it('broadcasts log alerts and attaches their entries to the next step only', async () => {
+      const listener = vi.fn();
+      manager.on('log:alert', listener);
+      manager.startSession(createMinimalF4tlConfig());
+
+      const entry = { source: 'api', level: 'error' as const, message: 'db down', timestamp: 1 };
+      const alert = { rule: 'level >= error', source: 'api', entries: [entry], timestamp: 2 };
+      manager.addLogAlert(alert);
+      manager.addLogAlert({ ...alert, rule: '/db/' });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect((listener.mock.calls[0][0] as SessionEvent).data).toEqual(alert);
+
+      const first = await manager.recordStep(createAction(), 'ss', createMetadata(), 10);
+      const second = await manager.recordStep(createAction(), 'ss', createMetadata(), 10);
+      expect(first.metadata.serverErrors).toEqual([entry]);
+      expect(second.metadata.serverErrors).toBeUndefined();
+    });
+
+    it('waits for alerts that arrive just after the action', async () => {
+      manager.startSession(createMinimalF4tlConfig());
+      manager.watchLogAlerts(100);
+
+      const entry = { source: 'api', level: 'error' as const, message: 'db down', timestamp: 1 };
+      const recording = manager.recordStep(createAction(), 'ss', createMetadata(), 10);
+      setTimeout(() => {
+        manager.addLogAlert({
+          rule: 'level >= error',
+          source: 'api',
+          entries: [entry],
+          timestamp: 2,
+        });
+      }, 20);
+
+      expect((await recording).metadata.serverErrors).toEqual([entry]);
+    });
+
+    it('masks sensitive data in broadcast log alerts', async () => {
+      const listener = vi.fn();
+      manager.setSensitiveDataDetector(
+        new SensitiveDataDetector(sensitiveDataConfigSchema.parse({})),
+      );
+      manager.on('log:alert', listener);
+      manager.startSession(createMinimalF4tlConfig());
+
+      const entry = {
+        source: 'api',
+        level: 'error' as const,
+        message: 'Login failed for jane@corp.io',
+        timestamp: 1,
+        metadata: { user: 'jane@corp.io' },
+      };
+      manager.addLogAlert({
+        rule: 'level >= error',
+        source: 'api',
+        entries: [entry],
+        timestamp: 2,
+      });
+
+      expect((listener.mock.calls[0][0] as SessionEvent).data).toMatchObject({
+        entries: [
+          {
+            message: 'Login failed for [REDACTED:email]',
+            metadata: { user: '[REDACTED:email]' },
+          },
+        ],
+      });
+      const step = await manager.recordStep(createAction(), 'ss', createMetadata(), 10);
+      expect(step.metadata.serverErrors?.[0].message).toBe('Login failed for [REDACTED:email]');
+    });
+
     it('off removes a listener', async () => {
       const listener = vi.fn();
       manager.on('session:start', listener);
@@ -387,5 +485,53 @@ describe('SessionManager', () => {
       );
       expect(writeFileCall).toBeDefined();
     });
+
+    it('stores visual comparison results on the step', async () => {
+      manager.startSession(createMinimalF4tlConfig());
+      const visual = {
+        key: 'home-1280x720-default-abcd1234',
+        status: 'mismatch' as const,
+        diffPixels: 42,
+        diffRatio: 0.01,
+        maxDiffRatio: 0.001,
+      };
+      const step = await manager.recordStep(
+        createAction(),
+        'ss',
+        createMetadata(),
+        50,
+        undefined,
+        undefined,
+        visual,
+      );
+      expect(step.visual).toEqual(visual);
+    });
+
+    it('writes step images beside the screenshot even without keepArtifacts', async () => {
+      manager.startSession(createMinimalF4tlConfig());
+      const path = await manager.saveStepImage('step-1', 'diff', Buffer.from('png'));
+
+      expect(path).toMatch(/test-id-123[\\/]step-1\.diff\.png$/);
+      expect(mockedWriteFile).toHaveBeenCalledWith(path, Buffer.from('png'));
+    });
+
+    it('lists trace/HAR recordings in session.json', async () => {
+      const artifactManager = new SessionManager(createSessionConfig({ keepArtifacts: true }));
+      artifactManager.startSession(createMinimalF4tlConfig());
+      artifactManager.addArtifact({
+        type: 'trace',
+        contextId: 'default',
+        file: 'default.trace.zip',
+      });
+      artifactManager.addArtifact({ type: 'har', contextId: 'default', file: 'default.har' });
+
+      const session = await artifactManager.endSession();
+      expect(session.artifacts?.map((a) => a.file)).toEqual(['default.trace.zip', 'default.har']);
+
+      const summaryCall = mockedWriteFile.mock.calls.find((call) =>
+        String(call[0]).endsWith('session.json'),
+      );
+      expect(JSON.parse(summaryCall?.[1] as string).artifacts).toHaveLength(2);
+    });
   });
 });
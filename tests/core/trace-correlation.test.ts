@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { TraceCorrelator, logCarriesId } from '../../src/core/trace-correlation.js';
+import { networkCorrelationConfigSchema } from '../../src/config/schema.js';
+import type { CorrelationConfig, LogEntry } from '../../src/types/index.js';
+
+function correlator(overrides: Partial<CorrelationConfig> = {}) {
+  return new TraceCorrelator({
+    ...networkCorrelationConfigSchema.parse({ enabled: true }),
+    ...overrides,
+  });
+}
+
+describe('TraceCorrelator', () => {
+  it('tags navigations and same-origin API calls only by default', () => {
+    const c = correlator();
+    const page = 'https://app.test/cart';
+    expect(c.applies('https://app.test/api/cart', 'fetch', page)).toBe(true);
+    expect(c.applies('https://other.test/', 'document', page)).toBe(true);
+    expect(c.applies('https://cdn.test/api', 'xhr', page)).toBe(false);
+    expect(c.applies('https://app.test/logo.png', 'image', page)).toBe(false);
+    expect(c.applies('https://app.test/api', 'fetch', 'about:blank')).toBe(false);
+  });
+
+  it('uses urlPattern instead of the page origin when set', () => {
+    const c = correlator({ urlPattern: 'api\\.app\\.test' });
+    expect(c.applies('https://api.app.test/v1/cart', 'fetch', 'https://app.test/')).toBe(true);
+    expect(c.applies('https://app.test/v1/cart', 'fetch', 'https://app.test/')).toBe(false);
+  });
+
+  it('issues a UUID per request and hands the step every ID once', () => {
+    const c = correlator();
+    const a = c.next('fetch');
+    const b = c.next('fetch');
+    expect(a.name).toBe('x-request-id');
+    expect(a.value).toBe(a.id);
+    expect(a.id).not.toBe(b.id);
+    expect(c.takeIds()).toEqual([a.id, b.id]);
+    expect(c.takeIds()).toEqual([]);
+  });
+
+  it('shares one W3C trace per step with a span per request', () => {
+    const c = correlator({ format: 'traceparent' });
+    const a = c.next('fetch');
+    const b = c.next('fetch');
+    expect(a.name).toBe('traceparent');
+    expect(a.value).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+    expect(a.id).toBe(b.id);
+    expect(a.value).not.toBe(b.value);
+    expect(c.takeIds()).toEqual([a.id]);
+    expect(c.next('fetch').id).not.toBe(a.id);
+  });
+
+  it('caps asset IDs per step but keeps every API call and navigation', () => {
+    const c = correlator();
+    for (let i = 0; i < 150; i++) c.next('script');
+    const api = c.next('fetch');
+    const nav = c.next('document');
+
+    const ids = c.takeIds();
+    expect(ids).toHaveLength(102);
+    expect(ids.slice(-2)).toEqual([api.id, nav.id]);
+  });
+
+  it('keeps detached IDs off the current step', () => {
+    const c = correlator({ header: 'X-Correlation-ID' });
+    const detached = c.detached();
+    expect(detached.name).toBe('x-correlation-id');
+    expect(c.takeIds()).toEqual([]);
+  });
+});
+
+describe('logCarriesId', () => {
+  const entry = (message: string, metadata?: Record<string, unknown>): LogEntry => ({
+    source: 'api',
+    level: 'error',
+    message,
+    timestamp: 0,
+    metadata,
+  });
+
+  it('finds the ID in nested metadata fields', () => {
+    const log = entry('request failed', { req: { headers: { 'x-request-id': 'req-42' } } });
+    expect(logCarriesId(log, ['req-42'])).toBe(true);
+    expect(logCarriesId(log, ['req-43'])).toBe(false);
+  });
+
+  it('matches a trace ID inside a logged traceparent or a plain-text message', () => {
+    const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+    expect(
+      logCarriesId(entry('ok', { traceparent: `00-${traceId}-00f067aa0ba902b7-01` }), [traceId]),
+    ).toBe(true);
+    expect(logCarriesId(entry(`ERROR [${traceId}] boom`), [traceId])).toBe(true);
+  });
+
+  it('never matches without IDs', () => {
+    expect(logCarriesId(entry('anything'), [])).toBe(false);
+  });
+});
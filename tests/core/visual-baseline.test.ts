@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, readdir } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { PNG } from 'pngjs';
+import {
+  BASELINE_KEY,
+  VisualBaselineStore,
+  baselineKey,
+  diffImages,
+} from '../../src/core/visual-baseline.js';
+
+function solidPng(
+  width: number,
+  height: number,
+  color: [number, number, number],
+  patch?: { x: number; y: number; w: number; h: number; color: [number, number, number] },
+): Buffer {
+  const png = new PNG({ width, height });
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const inPatch =
+        patch && x >= patch.x && x < patch.x + patch.w && y >= patch.y && y < patch.y + patch.h;
+      const [r, g, b] = inPatch ? patch.color : color;
+      const i = (y * width + x) * 4;
+      png.data[i] = r;
+      png.data[i + 1] = g;
+      png.data[i + 2] = b;
+      png.data[i + 3] = 255;
+    }
+  }
+  return PNG.sync.write(png);
+}
+
+const white: [number, number, number] = [255, 255, 255];
+const black: [number, number, number] = [0, 0, 0];
+
+describe('baselineKey', () => {
+  const input = {
+    url: 'http://localhost:3000/products?page=2',
+    viewport: { width: 1280, height: 720 },
+  };
+
+  it('builds a readable, filesystem-safe key', () => {
+    expect(baselineKey(input)).toMatch(/^localhost-3000-products-1280x720-default-[0-9a-f]{8}$/);
+  });
+
+  it('distinguishes viewport, context, query string, and name', () => {
+    const base = baselineKey(input);
+    expect(baselineKey({ ...input, viewport: { width: 375, height: 667 } })).not.toBe(base);
+    expect(baselineKey({ ...input, contextId: 'admin' })).not.toBe(base);
+    expect(baselineKey({ ...input, url: 'http://localhost:3000/products?page=3' })).not.toBe(base);
+    expect(baselineKey({ ...input, name: 'menu-open' })).toContain('menu-open');
+  });
+
+  it('ignores the URL fragment', () => {
+    expect(baselineKey({ ...input, url: `${input.url}#top` })).toBe(baselineKey(input));
+  });
+});
+
+describe('diffImages', () => {
+  it('reports zero difference for identical images', () => {
+    const png = solidPng(10, 10, white);
+    const result = diffImages(png, png, 0.1);
+    expect(result.diffPixels).toBe(0);
+    expect(result.diffRatio).toBe(0);
+    expect(result.sizeChanged).toBe(false);
+  });
+
+  it('counts changed pixels and produces a diff PNG', () => {
+    const baseline = solidPng(10, 10, white);
+    const actual = solidPng(10, 10, white, { x: 0, y: 0, w: 5, h: 2, color: black });
+    const result = diffImages(baseline, actual, 0.1);
+
+    expect(result.diffPixels).toBe(10);
+    expect(result.diffRatio).toBeCloseTo(0.1);
+    const diff = PNG.sync.read(result.diff);
+    expect([diff.width, diff.height]).toEqual([10, 10]);
+  });
+
+  it('pads images of different sizes and flags the size change', () => {
+    const result = diffImages(solidPng(10, 10, white), solidPng(10, 20, white), 0.1);
+    expect(result.sizeChanged).toBe(true);
+    expect(result.totalPixels).toBe(200);
+    expect(result.diffPixels).toBe(100);
+  });
+});
+
+describe('VisualBaselineStore', () => {
+  let dir: string;
+  let store: VisualBaselineStore;
+  const input = { url: 'http://localhost:3000/', viewport: { width: 10, height: 10 } };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'f4tl-baselines-'));
+    store = new VisualBaselineStore({ baselineDir: dir, threshold: 0.1, maxDiffRatio: 0 });
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns null when no baseline exists', async () => {
+    expect(await store.read('missing')).toBeNull();
+  });
+
+  it('writes and reads a baseline with metadata', async () => {
+    const png = solidPng(10, 10, white);
+    await store.write('home', png, input);
+
+    expect((await store.read('home'))?.equals(png)).toBe(true);
+    const [meta] = await store.list();
+    expect(meta).toMatchObject({ key: 'home', url: 'http://localhost:3000/' });
+    expect(meta.pending).toBeUndefined();
+  });
+
+  it('parks mismatches as pending and promotes them on approve', async () => {
+    const baseline = solidPng(10, 10, white);
+    const actual = solidPng(10, 10, black);
+    await store.write('home', baseline, input);
+    await store.writePending('home', actual, input, 1);
+
+    expect((await store.listPending()).map((m) => m.key)).toEqual(['home']);
+
+    await store.approve('home');
+    expect((await store.read('home'))?.equals(actual)).toBe(true);
+    expect(await store.listPending()).toEqual([]);
+    expect(await readdir(dir)).not.toContain('home.actual.png');
+  });
+
+  it('clears a stale pending screenshot', async () => {
+    await store.write('home', solidPng(10, 10, white), input);
+    await store.writePending('home', solidPng(10, 10, black), input, 1);
+    await store.clearPending('home');
+
+    expect(await store.listPending()).toEqual([]);
+    expect(await readdir(dir)).not.toContain('home.actual.png');
+  });
+
+  it('refuses to approve a key with nothing pending', async () => {
+    await store.write('home', solidPng(10, 10, white), input);
+    await expect(store.approve('home')).rejects.toThrow('No pending screenshot');
+  });
+
+  it('refuses keys that baselineKey could not have produced', async () => {
+    for (const key of ['../home', 'a/b', 'home.actual', '']) {
+      await expect(store.approve(key)).rejects.toThrow('Invalid baseline key');
+    }
+    expect(BASELINE_KEY.test(baselineKey({ ...input, name: 'menu/open' }))).toBe(true);
+  });
+});
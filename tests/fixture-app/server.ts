@@ -1,3 +1,5 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { base32Decode, generateTotp } from '../../src/core/mfa.js';
 import { createServer, type Server, type IncomingMessage, type ServerResponse } from 'node:http';
 
 export interface FixtureServer {
@@ -26,10 +28,322 @@ function json(res: ServerResponse, statusCode: number, data: unknown): void {
   res.end(JSON.stringify(data));
 }
 
+// ── OIDC stand-in ───────────────────────────────────────────────────────────
+// A minimal authorization server for testing the oauth auth strategy offline.
+// Client "f4tl-test"; user "qa@example.com" / "secret".
+
+export const OIDC_CLIENT_ID = 'f4tl-test';
+export const OIDC_USER = { username: 'qa@example.com', password: 'secret' };
+
+interface IssuedCode {
+  redirectUri: string;
+  challenge: string | null;
+}
+
+const oidc = {
+  codes: new Map<string, IssuedCode>(),
+  accessTokens: new Set<string>(),
+  refreshTokens: new Set<string>(),
+  idpSessions: new Set<string>(),
+  appSessions: new Set<string>(),
+};
+
+const token = (prefix: string) => `${prefix}-${randomBytes(12).toString('hex')}`;
+
+function cookies(req: IncomingMessage): Record<string, string> {
+  return Object.fromEntries(
+    (req.headers.cookie ?? '')
+      .split(';')
+      .map((c) => c.trim().split('='))
+      .filter(([k, v]) => k && v),
+  );
+}
+
+function redirect(res: ServerResponse, location: string, setCookie?: string): void {
+  res.writeHead(302, { Location: location, ...(setCookie ? { 'Set-Cookie': setCookie } : {}) });
+  res.end();
+}
+
+function loginPage(request: string, error = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8"><title>Sign in</title></head>
+<body>
+  <h1>Sign in to Fixture IdP</h1>
+  ${error ? `<p class="error">${error}</p>` : ''}
+  <form method="POST" action="/oauth/login">
+    <input type="hidden" name="request" value="${request}" />
+    <input type="email" id="username" name="username" />
+    <input type="password" id="password" name="password" />
+    <button type="submit" id="sign-in">Sign in</button>
+  </form>
+</body>
+</html>`;
+}
+
+function consentPage(request: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8"><title>Authorize</title></head>
+<body>
+  <h1>Allow f4tl Test App to access your account?</h1>
+  <form method="POST" action="/oauth/consent">
+    <input type="hidden" name="request" value="${request}" />
+    <button type="submit" id="approve" name="decision" value="allow">Allow</button>
+    <button type="submit" id="deny" name="decision" value="deny">Deny</button>
+  </form>
+</body>
+</html>`;
+}
+
+function issueCode(res: ServerResponse, request: URLSearchParams): void {
+  const redirectUri = request.get('redirect_uri') ?? '';
+  const code = token('code');
+  oidc.codes.set(code, { redirectUri, challenge: request.get('code_challenge') });
+  const target = new URL(redirectUri);
+  target.searchParams.set('code', code);
+  target.searchParams.set('state', request.get('state') ?? '');
+  redirect(res, target.toString());
+}
+
+async function handleOidc(
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+  query: URLSearchParams,
+): Promise<boolean> {
+  const method = req.method ?? 'GET';
+
+  if (method === 'GET' && path === '/oauth/authorize') {
+    if (query.get('client_id') !== OIDC_CLIENT_ID || query.get('response_type') !== 'code') {
+      html(res, 400, '<!DOCTYPE html><title>Bad request</title><p>Unknown client</p>');
+      return true;
+    }
+    const request = query.toString();
+    const session = cookies(req).idp_session;
+    html(
+      res,
+      200,
+      session && oidc.idpSessions.has(session) ? consentPage(request) : loginPage(request),
+    );
+    return true;
+  }
+
+  if (method === 'POST' && path === '/oauth/login') {
+    const form = new URLSearchParams(await parseBody(req));
+    const request = form.get('request') ?? '';
+    if (
+      form.get('username') !== OIDC_USER.username ||
+      form.get('password') !== OIDC_USER.password
+    ) {
+      html(res, 401, loginPage(request, 'Invalid credentials'));
+      return true;
+    }
+    const session = token('idp');
+    oidc.idpSessions.add(session);
+    res.setHeader('Set-Cookie', `idp_session=${session}; Path=/oauth; HttpOnly`);
+    html(res, 200, consentPage(request));
+    return true;
+  }
+
+  if (method === 'POST' && path === '/oauth/consent') {
+    const form = new URLSearchParams(await parseBody(req));
+    const request = new URLSearchParams(form.get('request') ?? '');
+    if (form.get('decision') !== 'allow') {
+      const target = new URL(request.get('redirect_uri') ?? '');
+      target.searchParams.set('error', 'access_denied');
+      target.searchParams.set('state', request.get('state') ?? '');
+      redirect(res, target.toString());
+      return true;
+    }
+    issueCode(res, request);
+    return true;
+  }
+
+  if (method === 'POST' && path === '/oauth/token') {
+    const form = new URLSearchParams(await parseBody(req));
+    if (form.get('client_id') !== OIDC_CLIENT_ID) {
+      json(res, 401, { error: 'invalid_client' });
+      return true;
+    }
+
+    if (form.get('grant_type') === 'refresh_token') {
+      if (!oidc.refreshTokens.has(form.get('refresh_token') ?? '')) {
+        json(res, 400, { error: 'invalid_grant', error_description: 'Unknown refresh token' });
+        return true;
+      }
+      const accessToken = token('at');
+      oidc.accessTokens.add(accessToken);
+      json(res, 200, { access_token: accessToken, token_type: 'Bearer', expires_in: 3600 });
+      return true;
+    }
+
+    const code = form.get('code') ?? '';
+    const issued = oidc.codes.get(code);
+    oidc.codes.delete(code);
+    const verifier = form.get('code_verifier');
+    const challengeOk =
+      !issued?.challenge ||
+      (verifier !== null &&
+        createHash('sha256').update(verifier).digest('base64url') === issued.challenge);
+    if (!issued || issued.redirectUri !== form.get('redirect_uri') || !challengeOk) {
+      json(res, 400, { error: 'invalid_grant', error_description: 'Code or verifier rejected' });
+      return true;
+    }
+
+    const accessToken = token('at');
+    const refreshToken = token('rt');
+    oidc.accessTokens.add(accessToken);
+    oidc.refreshTokens.add(refreshToken);
+    json(res, 200, {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      id_token: token('id'),
+      token_type: 'Bearer',
+      expires_in: 3600,
+    });
+    return true;
+  }
+
+  // The app's own callback: redeems the code server-side and starts a cookie session
+  if (method === 'GET' && path === '/oauth/callback') {
+    const issued = oidc.codes.get(query.get('code') ?? '');
+    if (!issued || issued.challenge) {
+      html(res, 400, '<!DOCTYPE html><title>Sign-in failed</title><p>Invalid code</p>');
+      return true;
+    }
+    oidc.codes.delete(query.get('code') ?? '');
+    const session = token('app');
+    oidc.appSessions.add(session);
+    redirect(res, '/account', `app_session=${session}; Path=/; HttpOnly`);
+    return true;
+  }
+
+  if (method === 'GET' && path === '/account') {
+    const session = cookies(req).app_session;
+    if (!session || !oidc.appSessions.has(session)) {
+      redirect(res, '/');
+      return true;
+    }
+    html(
+      res,
+      200,
+      `<!DOCTYPE html><html lang="en"><head><title>Account</title></head><body><h1>Signed in as ${OIDC_USER.username}</h1></body></html>`,
+    );
+    return true;
+  }
+
+  if (method === 'GET' && path === '/api/me') {
+    const bearer = req.headers.authorization?.replace(/^Bearer /, '') ?? '';
+    if (!oidc.accessTokens.has(bearer)) {
+      json(res, 401, { error: 'unauthorized' });
+      return true;
+    }
+    json(res, 200, { email: OIDC_USER.username });
+    return true;
+  }
+
+  return false;
+}
+
+// ── Password + TOTP login ───────────────────────────────────────────────────
+// Same user as the IdP; the second step expects a code for MFA_SECRET.
+
+export const MFA_SECRET = 'JBSWY3DPEHPK3PXP';
+
+const pendingMfa = new Set<string>();
+
+function mfaPage(pending: string, error = ''): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8"><title>Verify</title></head>
+<body>
+  <h1>Enter your authenticator code</h1>
+  ${error ? `<p class="error">${error}</p>` : ''}
+  <form method="POST" action="/login/mfa">
+    <input type="hidden" name="pending" value="${pending}" />
+    <input type="text" id="code" name="code" inputmode="numeric" autocomplete="one-time-code" />
+    <button type="submit" id="verify">Verify</button>
+  </form>
+</body>
+</html>`;
+}
+
+async function handleMfaLogin(
+  req: IncomingMessage,
+  res: ServerResponse,
+  path: string,
+): Promise<boolean> {
+  const method = req.method ?? 'GET';
+
+  if (method === 'GET' && path === '/login') {
+    html(
+      res,
+      200,
+      `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8"><title>Log in</title></head>
+<body>
+  <form method="POST" action="/login">
+    <input type="email" id="username" name="username" />
+    <input type="password" id="password" name="password" />
+    <button type="submit" id="log-in">Log in</button>
+  </form>
+</body>
+</html>`,
+    );
+    return true;
+  }
+
+  if (method === 'POST' && path === '/login') {
+    const form = new URLSearchParams(await parseBody(req));
+    if (
+      form.get('username') !== OIDC_USER.username ||
+      form.get('password') !== OIDC_USER.password
+    ) {
+      html(
+        res,
+        401,
+        '<!DOCTYPE html><title>Log in</title><p class="error">Invalid credentials</p>',
+      );
+      return true;
+    }
+    const pending = token('mfa');
+    pendingMfa.add(pending);
+    html(res, 200, mfaPage(pending));
+    return true;
+  }
+
+  if (method === 'POST' && path === '/login/mfa') {
+    const form = new URLSearchParams(await parseBody(req));
+    const pending = form.get('pending') ?? '';
+    const totp = { digits: 6, period: 30, algorithm: 'SHA1' as const };
+    const key = base32Decode(MFA_SECRET);
+    const now = Date.now();
+    // Accept the previous window too, like most servers do for clock skew
+    const valid = [now, now - 30_000].map((t) => generateTotp(key, totp, t));
+    if (!pendingMfa.has(pending) || !valid.includes(form.get('code') ?? '')) {
+      html(res, 401, mfaPage(pending, 'Invalid code'));
+      return true;
+    }
+    pendingMfa.delete(pending);
+    const session = token('app');
+    oidc.appSessions.add(session);
+    redirect(res, '/account', `app_session=${session}; Path=/; HttpOnly`);
+    return true;
+  }
+
+  return false;
+}
+
 async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
   const url = req.url ?? '/';
   const method = req.method ?? 'GET';
 
+  const parsed = new URL(url, 'http://localhost');
+  if (await handleOidc(req, res, parsed.pathname, parsed.searchParams)) return;
+  if (await handleMfaLogin(req, res, parsed.pathname)) return;
+
   // GET /
   if (method === 'GET' && url === '/') {
     html(
@@ -54,6 +368,27 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
     return;
   }
 
+  // GET /a11y — deliberate accessibility violations
+  if (method === 'GET' && url === '/a11y') {
+    html(
+      res,
+      200,
+      `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8"><title>Accessibility Issues</title></head>
+<body>
+  <main>
+    <h1>Accessibility Issues</h1>
+    <img src="/missing.png">
+    <input id="search" type="text">
+    <p style="color:#aaa;background:#fff">Low contrast text</p>
+  </main>
+</body>
+</html>`,
+    );
+    return;
+  }
+
   // GET /form
   if (method === 'GET' && url === '/form') {
     html(
@@ -163,6 +498,12 @@ async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise
     return;
   }
 
+  // GET /api/profile: over-shares PII for the leak detector
+  if (method === 'GET' && url === '/api/profile') {
+    json(res, 200, { name: 'Jane', email: 'jane.doe@corp.io', card: '4111 1111 1111 1111' });
+    return;
+  }
+
   // 404
   html(
     res,
@@ -0,0 +1,119 @@
+import { evaluateCiGate, generateJobSummary } from '../../src/report/ci-summary.js';
+import type { Bug, BugSeverity, ReportData, Session } from '../../src/types/index.js';
+
+function bug(id: string, severity: BugSeverity): Bug {
+  return {
+    id,
+    title: `${severity} | bug`,
+    severity,
+    stepsToReproduce: [],
+    expected: 'works',
+    actual: 'broken',
+    evidenceStepIds: [],
+    url: 'http://localhost:3000/cart',
+    timestamp: 0,
+  };
+}
+
+function reportData(bugs: Bug[]): ReportData {
+  const count = (s: BugSeverity) => bugs.filter((b) => b.severity === s).length;
+  return {
+    session: { id: 'sess-1', startTime: 0, steps: [], config: {} as Session['config'] },
+    bugs,
+    findings: [],
+    generatedAt: 0,
+    duration: 12_300,
+    summary: {
+      sessionId: 'sess-1',
+      startTime: 0,
+      duration: 12_300,
+      stepCount: 8,
+      bugCount: bugs.length,
+      findingCount: 0,
+      bugsBySeverity: {
+        critical: count('critical'),
+        major: count('major'),
+        minor: count('minor'),
+        cosmetic: count('cosmetic'),
+      },
+      findingsByCategory: {
+        usability: 0,
+        performance: 0,
+        accessibility: 0,
+        security: 0,
+        suggestion: 0,
+        observation: 0,
+      },
+      errorStepCount: 0,
+    },
+  };
+}
+
+describe('evaluateCiGate', () => {
+  const bugs = [bug('b1', 'minor'), bug('b2', 'major'), bug('b3', 'cosmetic')];
+
+  it('fails on bugs at or above the threshold', () => {
+    const gate = evaluateCiGate(bugs, 'major');
+    expect(gate.passed).toBe(false);
+    expect(gate.blockingBugs.map((b) => b.id)).toEqual(['b2']);
+  });
+
+  it('passes when every bug is below the threshold', () => {
+    expect(evaluateCiGate(bugs, 'critical').passed).toBe(true);
+    expect(evaluateCiGate([], 'cosmetic').passed).toBe(true);
+  });
+
+  it('never fails with failOn "never"', () => {
+    expect(evaluateCiGate(bugs, 'never')).toEqual({
+      failOn: 'never',
+      passed: true,
+      blockingBugs: [],
+      failedJourneys: [],
+    });
+  });
+
+  it('fails on failed journeys whatever the bug threshold, unless opted out', () => {
+    const journeys = [
+      { name: 'checkout', status: 'passed' as const, duration: 900 },
+      { name: 'refund', status: 'failed' as const, duration: 400, bugId: 'b2' },
+    ];
+
+    const gate = evaluateCiGate(bugs, 'critical', { journeys });
+    expect(gate).toMatchObject({ passed: false, blockingBugs: [], failedJourneys: ['refund'] });
+    expect(evaluateCiGate(bugs, 'never', { journeys }).passed).toBe(false);
+    expect(evaluateCiGate(bugs, 'critical', { journeys, failOnJourneys: false }).passed).toBe(true);
+
+    const md = generateJobSummary(reportData(bugs), gate);
+    expect(md.startsWith('## ❌ f4tl QA failed')).toBe(true);
+    expect(md).toContain('Failing the gate: journey(s) refund.');
+  });
+});
+
+describe('generateJobSummary', () => {
+  it('leads with the verdict and lists blocking bugs', () => {
+    const bugs = [bug('b1', 'critical'), bug('b2', 'minor')];
+    const md = generateJobSummary(reportData(bugs), evaluateCiGate(bugs, 'major'), [
+      '.f4tl/reports/report-sess-1.junit.xml',
+    ]);
+
+    expect(md.startsWith('## ❌ f4tl QA failed')).toBe(true);
+    expect(md).toContain('gate fails on **major** or worse');
+    expect(md).toContain('| critical | 1 |');
+    expect(md).toContain('- **[CRITICAL]** critical \\| bug — http://localhost:3000/cart');
+    expect(md).toContain('1 more bug(s) below the gate threshold.');
+    expect(md).toContain('- `.f4tl/reports/report-sess-1.junit.xml`');
+  });
+
+  it('includes a journeys table when journeys ran', () => {
+    const data = reportData([]);
+    data.journeys = [
+      { name: 'checkout', status: 'passed', duration: 900 },
+      { name: 'refund', status: 'failed', duration: 400, error: 'Expected url /done' },
+    ];
+    const md = generateJobSummary(data, evaluateCiGate([], 'major'));
+
+    expect(md.startsWith('## ✅ f4tl QA passed')).toBe(true);
+    expect(md).toContain('| checkout | ✅ passed | 900ms |');
+    expect(md).toContain('| refund | ❌ failed — Expected url /done | 400ms |');
+  });
+});
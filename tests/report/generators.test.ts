@@ -1,6 +1,8 @@
 import { generate as genMarkdown } from '../../src/report/markdown.js';
 import { generate as genJson } from '../../src/report/json.js';
 import { generate as genHtml } from '../../src/report/html.js';
+import { generate as genJunit } from '../../src/report/junit.js';
+import { generate as genSarif } from '../../src/report/sarif.js';
 import type { ReportData, Bug, Finding, Session, SessionSummary } from '../../src/types/index.js';
 
 function buildReportData(): ReportData {
@@ -187,6 +189,38 @@ describe('markdown generator', () => {
     const md = await genMarkdown(data, screenshotResolver);
     expect(md).not.toContain('## Bugs');
   });
+
+  it('links trace and HAR recordings', async () => {
+    const data = buildReportData();
+    data.artifacts = [
+      {
+        type: 'trace',
+        contextId: 'default',
+        file: 'default.trace.zip',
+        href: '../s/default.trace.zip',
+      },
+      { type: 'har', contextId: 'default', file: 'default.har', href: '../s/default.har' },
+    ];
+    const md = await genMarkdown(data, screenshotResolver);
+    expect(md).toContain('## Recordings');
+    expect(md).toContain('[default.trace.zip](../s/default.trace.zip)');
+    expect(md).toContain('npx playwright show-trace');
+  });
+
+  it('embeds correlated server logs in bug evidence', async () => {
+    const data = buildReportData();
+    data.bugs[0].serverLogs = [
+      {
+        source: 'api',
+        level: 'error',
+        message: 'DB timeout in POST /login',
+        timestamp: 1700000000000,
+      },
+    ];
+    const md = await genMarkdown(data, screenshotResolver);
+    expect(md).toContain('**Server Logs**:');
+    expect(md).toContain('2023-11-14T22:13:20.000Z ERROR [api] DB timeout in POST /login');
+  });
 });
 
 describe('json generator', () => {
@@ -246,6 +280,16 @@ describe('html generator', () => {
     expect(html).not.toContain('<script>alert');
   });
 
+  it('shows correlated server logs on the bug card, escaped', async () => {
+    const data = buildReportData();
+    data.bugs[0].serverLogs = [
+      { source: 'api', level: 'error', message: 'Bad <input> rejected', timestamp: 1700000000000 },
+    ];
+    const html = await genHtml(data, screenshotResolver);
+    expect(html).toContain('<h4>Server Logs</h4>');
+    expect(html).toContain('ERROR [api] Bad &lt;input&gt; rejected');
+  });
+
   it('renders context badges and column for multi-context sessions', async () => {
     const data = buildReportData();
     data.session.steps[0].contextId = 'buyer';
@@ -269,4 +313,111 @@ describe('html generator', () => {
     const html = await genHtml(buildReportData(), screenshotResolver);
     expect(html).not.toContain('<th>Context</th>');
   });
+
+  it('renders baseline, actual and diff images for visual mismatches', async () => {
+    const data = buildReportData();
+    data.session.steps[1].visual = {
+      key: 'example-com-page-1280x720-default-abcd1234',
+      status: 'mismatch',
+      diffPixels: 921,
+      diffRatio: 0.001,
+      maxDiffRatio: 0.0001,
+    };
+    const resolved: string[] = [];
+    const html = await genHtml(data, async (id) => {
+      resolved.push(id);
+      return 'AAAA';
+    });
+
+    expect(html).toContain('<h2>Visual Regressions</h2>');
+    expect(html).toContain('example-com-page-1280x720-default-abcd1234');
+    expect(html).toContain('0.100% of pixels differ');
+    expect(html).toContain('Visual diff');
+    expect(resolved).toEqual(expect.arrayContaining(['step-2.baseline', 'step-2', 'step-2.diff']));
+  });
+
+  it('omits the Visual Regressions section when nothing mismatched', async () => {
+    const html = await genHtml(buildReportData(), screenshotResolver);
+    expect(html).not.toContain('Visual Regressions');
+  });
+
+  it('links recordings and omits the section when there are none', async () => {
+    const data = buildReportData();
+    expect(await genHtml(data, screenshotResolver)).not.toContain('Recordings');
+
+    data.artifacts = [
+      { type: 'har', contextId: 'admin', file: 'admin.har', href: '../s/admin.har' },
+    ];
+    const html = await genHtml(data, screenshotResolver);
+    expect(html).toContain('<h2>Recordings</h2>');
+    expect(html).toContain('<a href="../s/admin.har" download>admin.har</a>');
+  });
+});
+
+describe('junit generator', () => {
+  it('reports each bug as a failing test case', async () => {
+    const xml = await genJunit(buildReportData(), screenshotResolver);
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true);
+    expect(xml).toContain('<testsuites name="f4tl session test-123" tests="3" failures="2"');
+    expect(xml).toContain('<testcase classname="f4tl.bugs.critical" name="Login broken">');
+    expect(xml).toContain('<failure message="[critical] Login broken" type="critical">');
+    expect(xml).toContain(
+      '<testcase classname="f4tl.findings.accessibility" name="Missing alt text">',
+    );
+  });
+
+  it('turns journeys into test cases without double-counting their bugs', async () => {
+    const data = buildReportData();
+    data.journeys = [
+      { name: 'checkout', status: 'failed', duration: 1500, error: 'Timeout', bugId: 'bug-1' },
+      { name: 'signup', status: 'passed', duration: 800 },
+      { name: 'explore', status: 'skipped', duration: 0, error: 'Autonomous' },
+    ];
+    const xml = await genJunit(data, screenshotResolver);
+
+    expect(xml).toContain('tests="5" failures="2"');
+    expect(xml).toContain('name="journeys" tests="3" failures="1" errors="0" skipped="1"');
+    expect(xml).toContain('<testcase classname="f4tl.journeys" name="signup" time="0.800"/>');
+    expect(xml).toContain('<skipped message="Autonomous"/>');
+    expect(xml).not.toContain('f4tl.bugs.critical');
+  });
+
+  it('escapes XML in user content', async () => {
+    const data = buildReportData();
+    data.bugs[0].title = '<Login> & "quotes"';
+    const xml = await genJunit(data, screenshotResolver);
+    expect(xml).toContain('name="&lt;Login&gt; &amp; &quot;quotes&quot;"');
+  });
+});
+
+describe('sarif generator', () => {
+  it('produces a SARIF 2.1.0 log with a rule per severity and category', async () => {
+    const sarif = JSON.parse(await genSarif(buildReportData(), screenshotResolver));
+    const run = sarif.runs[0];
+
+    expect(sarif.version).toBe('2.1.0');
+    expect(run.tool.driver.name).toBe('f4tl');
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toEqual([
+      'bug/critical',
+      'bug/minor',
+      'finding/accessibility',
+    ]);
+    expect(run.results.map((r: { level: string }) => r.level)).toEqual([
+      'error',
+      'warning',
+      'warning',
+    ]);
+    expect(run.results[0].locations[0].physicalLocation.artifactLocation.uri).toBe(
+      'https://example.com/login',
+    );
+    expect(run.results[1].locations).toEqual([]);
+  });
+
+  it('fingerprints results stably across runs', async () => {
+    const a = JSON.parse(await genSarif(buildReportData(), screenshotResolver));
+    const b = JSON.parse(await genSarif(buildReportData(), screenshotResolver));
+    expect(a.runs[0].results[0].partialFingerprints).toEqual(
+      b.runs[0].results[0].partialFingerprints,
+    );
+  });
 });
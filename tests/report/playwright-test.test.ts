@@ -0,0 +1,240 @@
+import ts from 'typescript';
+import { generatePlaywrightTest } from '../../src/report/playwright-test.js';
+import { SessionManager } from '../../src/core/session-manager.js';
+import { SensitiveDataDetector } from '../../src/core/sensitive-data.js';
+import { sensitiveDataConfigSchema } from '../../src/config/schema.js';
+import type { Bug, Session, SessionStep, StepMetadata } from '../../src/types/index.js';
+
+function meta(url: string, overrides?: Partial<StepMetadata>): StepMetadata {
+  return {
+    url,
+    title: 'Page',
+    viewport: { width: 1280, height: 720 },
+    consoleErrors: [],
+    networkErrors: [],
+    ...overrides,
+  };
+}
+
+function step(
+  id: string,
+  type: SessionStep['action']['type'],
+  params: Record<string, unknown>,
+  overrides?: Partial<SessionStep>,
+): SessionStep {
+  return {
+    id,
+    action: { type, params, timestamp: 0 },
+    screenshot: '',
+    metadata: meta('http://localhost:3000/cart'),
+    duration: 10,
+    ...overrides,
+  };
+}
+
+function buildSession(steps: SessionStep[]): Session {
+  return {
+    id: 'sess-1',
+    startTime: 1700000000000,
+    steps,
+    config: { browser: { viewport: { width: 1024, height: 768 } } } as Session['config'],
+  };
+}
+
+function bug(evidenceStepIds: string[]): Bug {
+  return {
+    id: 'bug-1',
+    title: 'Checkout crashes',
+    severity: 'critical',
+    stepsToReproduce: [],
+    expected: 'Order confirmation page',
+    actual: 'Blank page',
+    evidenceStepIds,
+    timestamp: 0,
+  };
+}
+
+function syntaxErrors(code: string): string[] {
+  const out = ts.transpileModule(code, { reportDiagnostics: true });
+  return (out.diagnostics ?? []).map((d) => ts.flattenDiagnosticMessageText(d.messageText, '\n'));
+}
+
+describe('generatePlaywrightTest', () => {
+  const steps = [
+    step('s1', 'navigate', { url: 'http://localhost:3000/', waitUntil: 'load' }),
+    step('s2', 'fill', { selector: { css: '#email' }, value: "o'neil@example.com" }),
+    step('s3', 'select', { selector: { css: 'select' }, label: 'Express' }),
+    step('s4', 'click', { selector: { text: 'Checkout' } }),
+    step('s5', 'press', { key: 'Enter' }),
+    step('s6', 'wait', { type: 'networkidle', value: '' }),
+    step('s7', 'screenshot', { fullPage: false }),
+  ];
+
+  it('maps recorded actions to Playwright calls', () => {
+    const { code, stepCount, skippedStepCount } = generatePlaywrightTest(buildSession(steps));
+
+    expect(code).toContain("import { test } from '@playwright/test';");
+    expect(code).toContain('test.use({ viewport: { width: 1024, height: 768 } });');
+    expect(code).toContain("test('f4tl session sess-1', async ({ page }) => {");
+    expect(code).toContain("await page.goto('http://localhost:3000/');");
+    expect(code).toContain("await page.locator('#email').fill('o\\'neil@example.com');");
+    expect(code).toContain("await page.locator('select').selectOption({ label: 'Express' });");
+    expect(code).toContain("await page.locator('text=Checkout').click();");
+    expect(code).toContain("await page.keyboard.press('Enter');");
+    expect(code).toContain("await page.waitForLoadState('networkidle');");
+    expect(stepCount).toBe(6);
+    expect(skippedStepCount).toBe(1);
+    expect(syntaxErrors(code)).toEqual([]);
+  });
+
+  it('skips failed steps unless they are bug evidence', () => {
+    const failed = step(
+      's8',
+      'click',
+      { selector: { css: '.nope' } },
+      { error: 'Timeout 30000ms' },
+    );
+    const { code } = generatePlaywrightTest(buildSession([...steps, failed]));
+
+    expect(code).toContain('// skipped click (s8): Timeout 30000ms');
+    expect(code).not.toContain(".locator('.nope')");
+
+    const withBug = generatePlaywrightTest(buildSession([...steps, failed]), [bug(['s8'])]);
+    expect(withBug.code).toContain("await page.locator('.nope').click();");
+  });
+
+  it('turns bug evidence steps into expect assertions', () => {
+    const evidence = step(
+      's9',
+      'click',
+      { selector: { css: '#pay' } },
+      {
+        metadata: meta('http://localhost:3000/checkout', {
+          consoleErrors: [{ type: 'error', text: 'TypeError', timestamp: 0 }],
+          networkErrors: [
+            {
+              url: 'http://localhost:3000/api/pay',
+              method: 'POST',
+              status: 500,
+              statusText: 'Internal Server Error',
+              timestamp: 0,
+            },
+          ],
+        }),
+      },
+    );
+    const { code, assertionCount } = generatePlaywrightTest(buildSession([...steps, evidence]), [
+      bug(['s9']),
+    ]);
+
+    expect(code).toContain("import { test, expect } from '@playwright/test';");
+    expect(code).toContain('// Regression for [critical] Checkout crashes');
+    expect(code).toContain('// Expected: Order confirmation page');
+    expect(code).toContain("await expect(page).toHaveURL('http://localhost:3000/checkout');");
+    expect(code).toContain("expect(consoleErrors, 'console errors').toEqual([]);");
+    expect(code).toContain("expect(failedResponses, 'failed requests').toEqual([]);");
+    expect(code).toContain("page.on('console'");
+    expect(assertionCount).toBe(3);
+    expect(syntaxErrors(code)).toEqual([]);
+  });
+
+  it("replays access_matrix checks as visits in that role's context", () => {
+    const { code } = generatePlaywrightTest(
+      buildSession([
+        step(
+          'a1',
+          'access_check',
+          { role: 'anonymous', path: '/admin', url: 'http://localhost:3000/admin' },
+          { contextId: 'access-anonymous' },
+        ),
+      ]),
+    );
+
+    expect(code).toContain("await accessAnonymousPage.goto('http://localhost:3000/admin');");
+  });
+
+  it('replays http_request steps through page.request with their expected status', () => {
+    const { code, assertionCount } = generatePlaywrightTest(
+      buildSession([
+        step('h1', 'http_request', {
+          url: 'http://localhost:3000/api/orders',
+          method: 'POST',
+          json: { sku: 'A-1', qty: 2 },
+          expectStatus: 201,
+        }),
+        step('h2', 'http_request', {
+          url: 'http://localhost:3000/api/orders',
+          method: 'GET',
+          headers: { authorization: '[REDACTED:authorization]' },
+        }),
+      ]),
+    );
+
+    expect(code).toContain("import { test, expect } from '@playwright/test';");
+    expect(code).toContain(
+      `expect((await page.request.fetch('http://localhost:3000/api/orders', { method: 'POST', data: {"sku":"A-1","qty":2} })).status()).toBe(201);`,
+    );
+    expect(code).toContain(
+      "await page.request.fetch('http://localhost:3000/api/orders', { method: 'GET', headers: {\"authorization\":`${process.env.F4TL_AUTHORIZATION_1}`} });",
+    );
+    expect(assertionCount).toBe(1);
+    expect(syntaxErrors(code)).toEqual([]);
+  });
+
+  it('gives each actor its own browser context in multi-actor sessions', () => {
+    const { code } = generatePlaywrightTest(
+      buildSession([
+        step('a1', 'navigate', { url: 'http://localhost:3000/sell' }, { contextId: 'seller' }),
+        step('a2', 'navigate', { url: 'http://localhost:3000/buy' }, { contextId: 'buyer' }),
+        step('a3', 'click', { selector: { role: 'button' } }, { contextId: 'seller' }),
+      ]),
+    );
+
+    expect(code).toContain("test('f4tl session sess-1', async ({ browser }) => {");
+    expect(code).toContain('const sellerPage = await (await browser.newContext()).newPage();');
+    expect(code).toContain('const buyerPage = await (await browser.newContext()).newPage();');
+    expect(code.indexOf("sellerPage.goto('http://localhost:3000/sell')")).toBeLessThan(
+      code.indexOf("buyerPage.goto('http://localhost:3000/buy')"),
+    );
+    expect(code).toContain("await sellerPage.locator('role=button').click();");
+    expect(syntaxErrors(code)).toEqual([]);
+  });
+
+  it('reads values redacted from the session from environment variables', async () => {
+    const sm = new SessionManager({
+      outputDir: '/tmp',
+      maxSteps: 10,
+      keepArtifacts: false,
+      trace: false,
+      har: false,
+    });
+    sm.setSensitiveDataDetector(new SensitiveDataDetector(sensitiveDataConfigSchema.parse({})));
+    sm.startSession(buildSession([]).config);
+    const record = (type: SessionStep['action']['type'], params: Record<string, unknown>) =>
+      sm.recordStep({ type, params, timestamp: 0 }, '', meta('http://localhost:3000/'), 10);
+
+    await record('fill', { selector: { css: '#email' }, value: 'jane@corp.io' });
+    await record('type', { selector: { css: '#note' }, text: 'cc `me` at ops@corp.io ${x}' });
+    await record('http_request', {
+      url: 'http://localhost:3000/api/invite',
+      method: 'POST',
+      json: { email: 'bob@corp.io', role: 'admin' },
+    });
+
+    const session = sm.getSession();
+    if (!session) throw new Error('no session');
+    const { code, envVars } = generatePlaywrightTest(session);
+
+    expect(code).not.toContain('REDACTED');
+    expect(code).toContain("await page.locator('#email').fill(`${process.env.F4TL_EMAIL_1}`);");
+    expect(code).toContain(
+      "await page.locator('#note').pressSequentially(`cc \\`me\\` at ${process.env.F4TL_EMAIL_2} \\${x}`);",
+    );
+    expect(code).toContain('data: {"email":`${process.env.F4TL_EMAIL_3}`,"role":"admin"}');
+    expect(envVars).toEqual(['F4TL_EMAIL_1', 'F4TL_EMAIL_2', 'F4TL_EMAIL_3']);
+    expect(code).toContain(
+      '// Values redacted from the recording; set before running: F4TL_EMAIL_1, F4TL_EMAIL_2, F4TL_EMAIL_3',
+    );
+    expect(syntaxErrors(code)).toEqual([]);
+  });
+});
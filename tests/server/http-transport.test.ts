@@ -0,0 +1,128 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpHttpServer } from '../../src/server/http-transport.js';
+
+const httpConfig = { port: 0, host: 'localhost', path: '/mcp' };
+
+function createMcp(): McpServer {
+  const mcp = new McpServer(
+    { name: 'f4tl-test', version: '0.0.0' },
+    { capabilities: { tools: {} } },
+  );
+  mcp.tool('ping', 'Ping', async () => ({ content: [{ type: 'text' as const, text: 'pong' }] }));
+  return mcp;
+}
+
+function rpc(body: unknown, headers: Record<string, string> = {}): Request {
+  return new Request('http://localhost/mcp', {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      accept: 'application/json, text/event-stream',
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const initialize = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' },
+  },
+};
+
+async function connect(server: McpHttpServer, headers: Record<string, string> = {}) {
+  const res = await server.fetch(rpc(initialize, headers));
+  await res.text();
+  const sessionId = res.headers.get('mcp-session-id');
+  await (
+    await server.fetch(
+      rpc(
+        { jsonrpc: '2.0', method: 'notifications/initialized' },
+        { 'mcp-session-id': sessionId ?? '', 'mcp-protocol-version': '2025-03-26', ...headers },
+      ),
+    )
+  ).text();
+  return { res, sessionId };
+}
+
+describe('McpHttpServer', () => {
+  let server: McpHttpServer;
+
+  afterEach(async () => {
+    await server?.stop();
+  });
+
+  it('creates an isolated session per initializing client', async () => {
+    server = new McpHttpServer(httpConfig, createMcp);
+
+    const a = await connect(server);
+    const b = await connect(server);
+
+    expect(a.res.status).toBe(200);
+    expect(a.sessionId).toBeTruthy();
+    expect(b.sessionId).toBeTruthy();
+    expect(a.sessionId).not.toBe(b.sessionId);
+    expect(server.getSessionIds()).toHaveLength(2);
+  });
+
+  it('routes follow-up requests to the client session', async () => {
+    server = new McpHttpServer(httpConfig, createMcp);
+    const { sessionId } = await connect(server);
+
+    const res = await server.fetch(
+      rpc(
+        { jsonrpc: '2.0', id: 2, method: 'tools/call', params: { name: 'ping', arguments: {} } },
+        { 'mcp-session-id': sessionId!, 'mcp-protocol-version': '2025-03-26' },
+      ),
+    );
+    expect(res.status).toBe(200);
+    expect(await res.text()).toContain('pong');
+  });
+
+  it('rejects non-initialize requests without a session', async () => {
+    server = new McpHttpServer(httpConfig, createMcp);
+    const res = await server.fetch(rpc({ jsonrpc: '2.0', id: 1, method: 'tools/list' }));
+    expect(res.status).toBe(400);
+  });
+
+  it('returns 404 for unknown session IDs', async () => {
+    server = new McpHttpServer(httpConfig, createMcp);
+    const res = await server.fetch(
+      rpc({ jsonrpc: '2.0', id: 1, method: 'tools/list' }, { 'mcp-session-id': 'nope' }),
+    );
+    expect(res.status).toBe(404);
+  });
+
+  it('enforces the bearer token when configured', async () => {
+    server = new McpHttpServer(httpConfig, createMcp, 's3cret');
+
+    const missing = await server.fetch(rpc(initialize));
+    expect(missing.status).toBe(401);
+
+    const wrong = await server.fetch(rpc(initialize, { authorization: 'Bearer nope' }));
+    expect(wrong.status).toBe(401);
+
+    const { res } = await connect(server, { authorization: 'Bearer s3cret' });
+    expect(res.status).toBe(200);
+  });
+
+  it('drops the session when the client sends DELETE', async () => {
+    server = new McpHttpServer(httpConfig, createMcp);
+    const { sessionId } = await connect(server);
+
+    const res = await server.fetch(
+      new Request('http://localhost/mcp', {
+        method: 'DELETE',
+        headers: { 'mcp-session-id': sessionId!, 'mcp-protocol-version': '2025-03-26' },
+      }),
+    );
+    expect(res.status).toBe(200);
+    expect(server.getSessionIds()).toHaveLength(0);
+  });
+});
@@ -11,6 +11,20 @@ import {
   generateReportSchema,
 } from '../../../src/server/tools/report.js';
 import { discoverSchema, fireSchema } from '../../../src/server/tools/webhook.js';
+import { a11yAuditSchema } from '../../../src/server/tools/a11y.js';
+import { perfMeasureSchema } from '../../../src/server/tools/perf.js';
+import { authStatusSchema } from '../../../src/server/tools/auth.js';
+import { accessMatrixSchema } from '../../../src/server/tools/access.js';
+import { apiValidateSchema } from '../../../src/server/tools/api.js';
+import { dataLeaksSchema, securityScanSchema } from '../../../src/server/tools/security.js';
+import { httpRequestSchema } from '../../../src/server/tools/http.js';
+import { getLogsSchema, searchLogsSchema, stepLogsSchema } from '../../../src/server/tools/logs.js';
+import {
+  getRequestsSchema,
+  graphqlOperationsSchema,
+  networkRecordSchema,
+  networkReplaySchema,
+} from '../../../src/server/tools/network.js';
 import {
   getHistorySchema,
   getBugsSchema,
@@ -133,6 +147,7 @@ describe('addFindingSchema', () => {
     'performance',
     'accessibility',
     'security',
+    'api',
     'suggestion',
     'observation',
   ] as const)('accepts category %s', (category) => {
@@ -150,10 +165,13 @@ describe('generateReportSchema', () => {
     expect(result.format).toBe('markdown');
   });
 
-  it.each(['markdown', 'json', 'html'] as const)('accepts format %s', (format) => {
-    const result = generateReportSchema.parse({ format });
-    expect(result.format).toBe(format);
-  });
+  it.each(['markdown', 'json', 'html', 'junit', 'sarif'] as const)(
+    'accepts format %s',
+    (format) => {
+      const result = generateReportSchema.parse({ format });
+      expect(result.format).toBe(format);
+    },
+  );
 
   it('rejects invalid format', () => {
     expect(() => generateReportSchema.parse({ format: 'csv' })).toThrow();
@@ -162,6 +180,22 @@ describe('generateReportSchema', () => {
 
 // ── Webhook Schemas ──────────────────────────────────────────────────────────
 
+describe('a11yAuditSchema', () => {
+  it('defaults to WCAG 2.1 AA with best practices and no auto-filing', () => {
+    const result = a11yAuditSchema.parse({});
+    expect(result.standard).toBe('wcag21aa');
+    expect(result.bestPractices).toBe(true);
+    expect(result.minImpact).toBe('minor');
+    expect(result.fileFindings).toBe(false);
+    expect(result.maxNodes).toBe(10);
+  });
+
+  it('rejects unknown standards and impacts', () => {
+    expect(() => a11yAuditSchema.parse({ standard: 'wcag3' })).toThrow();
+    expect(() => a11yAuditSchema.parse({ minImpact: 'severe' })).toThrow();
+  });
+});
+
 describe('discoverSchema', () => {
   it('defaults refresh to false', () => {
     const result = discoverSchema.parse({});
@@ -281,3 +315,174 @@ describe('compareSchema', () => {
     expect(() => compareSchema.parse({ sessionA: 'a' })).toThrow();
   });
 });
+
+describe('perfMeasureSchema', () => {
+  it('measures the current page without reloading by default', () => {
+    expect(perfMeasureSchema.parse({})).toEqual({ reload: false, waitUntil: 'load' });
+  });
+
+  it('rejects unknown waitUntil values', () => {
+    expect(() => perfMeasureSchema.parse({ reload: true, waitUntil: 'idle' })).toThrow();
+  });
+});
+
+describe('getRequestsSchema', () => {
+  it('omits bodies by default and shows 2000 characters of each when asked', () => {
+    expect(getRequestsSchema.parse({})).toEqual({
+      includeBodies: false,
+      maxBodyLength: 2000,
+      limit: 50,
+    });
+  });
+
+  it('rejects a non-positive maxBodyLength', () => {
+    expect(() => getRequestsSchema.parse({ maxBodyLength: 0 })).toThrow();
+  });
+});
+
+describe('networkRecordSchema', () => {
+  it('records XHR and fetch into the "api" fixture by default', () => {
+    expect(networkRecordSchema.parse({ action: 'start' })).toEqual({
+      action: 'start',
+      name: 'api',
+      resourceTypes: ['xhr', 'fetch'],
+    });
+  });
+
+  it('rejects fixture names that could escape the fixture directory', () => {
+    expect(() => networkRecordSchema.parse({ action: 'stop', name: '../secrets' })).toThrow();
+  });
+});
+
+describe('networkReplaySchema', () => {
+  it('matches on method and query with live fallback by default', () => {
+    expect(networkReplaySchema.parse({ action: 'start' })).toMatchObject({
+      match: { method: true, query: true, body: false },
+      fallback: 'live',
+    });
+  });
+
+  it('rejects unknown fallbacks', () => {
+    expect(() => networkReplaySchema.parse({ action: 'start', fallback: 'mock' })).toThrow();
+  });
+});
+
+describe('authStatusSchema', () => {
+  it('reports every role without clearing by default', () => {
+    expect(authStatusSchema.parse({})).toEqual({ clear: false });
+  });
+
+  it('accepts a role to clear', () => {
+    expect(authStatusSchema.parse({ role: 'admin', clear: true })).toEqual({
+      role: 'admin',
+      clear: true,
+    });
+  });
+});
+
+describe('accessMatrixSchema', () => {
+  it('checks every role and page, anonymous included, by default', () => {
+    expect(accessMatrixSchema.parse({})).toEqual({
+      includeAnonymous: true,
+      fileBugs: true,
+      minTextLength: 50,
+      waitUntil: 'networkidle',
+    });
+  });
+
+  it('rejects a negative minTextLength', () => {
+    expect(() => accessMatrixSchema.parse({ minTextLength: -1 })).toThrow();
+  });
+});
+
+describe('apiValidateSchema', () => {
+  it('files findings and lists 50 violations by default', () => {
+    expect(apiValidateSchema.parse({})).toEqual({ fileFindings: true, limit: 50 });
+  });
+});
+
+describe('securityScanSchema', () => {
+  it('runs every check and files findings by default', () => {
+    expect(securityScanSchema.parse({})).toEqual({
+      checks: ['headers', 'cors', 'cookies', 'mixed-content', 'url-tokens', 'storage'],
+      minSeverity: 'low',
+      fileFindings: true,
+    });
+  });
+
+  it('rejects unknown checks', () => {
+    expect(() => securityScanSchema.parse({ checks: ['xss'] })).toThrow();
+  });
+});
+
+describe('dataLeaksSchema', () => {
+  it('lists every source and files findings by default', () => {
+    expect(dataLeaksSchema.parse({})).toEqual({ fileFindings: true });
+  });
+
+  it('rejects unknown sources', () => {
+    expect(() => dataLeaksSchema.parse({ source: 'cookies' })).toThrow();
+  });
+});
+
+describe('httpRequestSchema', () => {
+  it('sends a GET with browser auth by default', () => {
+    expect(httpRequestSchema.parse({ url: '/api/orders' })).toEqual({
+      url: '/api/orders',
+      method: 'GET',
+      useBrowserAuth: true,
+      timeout: 30_000,
+      maxBodyLength: 4000,
+    });
+  });
+
+  it('accepts JSONPath assertions and rejects unknown methods', () => {
+    const parsed = httpRequestSchema.parse({
+      url: '/api/orders',
+      assertions: [{ path: '$.items[0].status', equals: 'paid' }],
+    });
+    expect(parsed.assertions).toEqual([{ path: '$.items[0].status', equals: 'paid' }]);
+    expect(() => httpRequestSchema.parse({ url: '/x', method: 'TRACE' })).toThrow();
+  });
+});
+
+describe('graphqlOperationsSchema', () => {
+  it('lists every operation by default', () => {
+    expect(graphqlOperationsSchema.parse({})).toEqual({ errorsOnly: false });
+  });
+
+  it('rejects unknown operation types', () => {
+    expect(() => graphqlOperationsSchema.parse({ operationType: 'fragment' })).toThrow();
+  });
+});
+
+describe('searchLogsSchema', () => {
+  it('accepts a traceId without a pattern', () => {
+    expect(searchLogsSchema.parse({ traceId: 'abc' })).toEqual({
+      traceId: 'abc',
+      caseSensitive: false,
+      limit: 100,
+    });
+  });
+});
+
+describe('getLogsSchema', () => {
+  it('accepts step numbers or step IDs for a step range', () => {
+    expect(getLogsSchema.parse({ fromStep: 12, toStep: 'abc123' })).toEqual({
+      fromStep: 12,
+      toStep: 'abc123',
+      limit: 200,
+    });
+    expect(() => getLogsSchema.parse({ fromStep: 0 })).toThrow();
+  });
+});
+
+describe('stepLogsSchema', () => {
+  it('defaults to the latest step with 100 entries', () => {
+    expect(stepLogsSchema.parse({})).toEqual({ limit: 100 });
+  });
+
+  it('rejects unknown levels', () => {
+    expect(() => stepLogsSchema.parse({ level: 'trace' })).toThrow();
+  });
+});